@@ -0,0 +1,149 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { RefreshButton } from "@/components/scoreboards/RefreshButton";
+import { F1CalendarDisplay } from "@/components/scoreboards/F1Calendar";
+import { F1ChampionshipYearSelector } from "@/components/scoreboards/F1Championship";
+import { getF1SeasonCalendar } from "@/lib/api/openf1";
+import { F1_MIN_CHAMPIONSHIP_YEAR } from "@/lib/types/f1";
+import { LEAGUES } from "@/lib/types";
+
+interface CalendarPageProps {
+  params: Promise<{ league: string }>;
+  searchParams: Promise<{ year?: string }>;
+}
+
+// Only F1 has a season calendar of race weekends
+export function generateStaticParams() {
+  return [{ league: "f1" }];
+}
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://ascii-scores.vercel.app";
+
+export async function generateMetadata({ params }: CalendarPageProps) {
+  const { league: leagueId } = await params;
+
+  if (leagueId !== "f1") {
+    return { title: "Calendar Not Found" };
+  }
+
+  const league = LEAGUES.f1;
+  const title = `${league.name} Calendar`;
+  const description = `${league.fullName} season calendar rendered in ASCII art style. Every round's session times in your time zone, a countdown to the next session and race winners.`;
+  const url = `${SITE_URL}/f1/calendar`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: url,
+    },
+    openGraph: {
+      title: `${title} | ASCII Scores`,
+      description,
+      url,
+      siteName: "ASCII Scores",
+      type: "website",
+      images: [
+        {
+          url: "/og-image.png",
+          width: 1200,
+          height: 630,
+          alt: `${league.fullName} Calendar - ASCII Scores`,
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${title} | ASCII Scores`,
+      description,
+      images: ["/og-image.png"],
+    },
+  };
+}
+
+export default async function CalendarPage({ params, searchParams }: CalendarPageProps) {
+  const { league: leagueId } = await params;
+  const { year: yearParam } = await searchParams;
+
+  if (leagueId !== "f1") {
+    notFound();
+  }
+
+  const league = LEAGUES.f1;
+
+  // Season to show (OpenF1 data starts in 2023)
+  const currentYear = new Date().getFullYear();
+  let year = currentYear;
+  if (yearParam) {
+    const parsed = parseInt(yearParam, 10);
+    if (!isNaN(parsed) && parsed >= F1_MIN_CHAMPIONSHIP_YEAR && parsed <= currentYear) {
+      year = parsed;
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-mono text-2xl text-terminal-fg">
+            <span className="text-terminal-border">[</span>
+            {league.name}
+            <span className="text-terminal-border">]</span>
+            {" "}
+            <span className="text-terminal-muted">Calendar</span>
+          </h1>
+          <p className="text-terminal-muted font-mono text-sm mt-1">{year} {league.fullName}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Link
+            href="/f1"
+            className="font-mono text-sm text-terminal-muted hover:text-terminal-green transition-colors"
+          >
+            <span className="text-terminal-green">{"<"}</span>
+            {" "}Back to Scores
+          </Link>
+          <Link
+            href={`/f1/standings?year=${year}`}
+            className="font-mono text-sm text-terminal-cyan hover:text-terminal-green transition-colors"
+          >
+            [Standings]
+          </Link>
+          <RefreshButton />
+        </div>
+      </div>
+
+      <F1ChampionshipYearSelector currentYear={year} maxYear={currentYear} basePath="/f1/calendar" />
+      <F1CalendarContent year={year} />
+    </div>
+  );
+}
+
+/**
+ * F1 season calendar content with data fetching
+ */
+async function F1CalendarContent({ year }: { year: number }) {
+  try {
+    const calendar = await getF1SeasonCalendar(year);
+    return <F1CalendarDisplay calendar={calendar} />;
+  } catch (error) {
+    console.error(`Failed to fetch ${year} F1 calendar:`, error);
+    return (
+      <div className="font-mono text-center py-8 text-terminal-red">
+        <div className="text-terminal-border" aria-hidden="true">
+          ╔══════════════════════════════════════════╗
+        </div>
+        <div>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+          <span className="px-4">
+            {"  "}Error loading calendar. Try again.{"  "}
+          </span>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+        </div>
+        <div className="text-terminal-border" aria-hidden="true">
+          ╚══════════════════════════════════════════╝
+        </div>
+      </div>
+    );
+  }
+}
@@ -2,8 +2,9 @@ import { notFound } from "next/navigation";
 import Link from "next/link";
 import { GameDetailDisplay } from "@/components/scoreboards/GameDetail";
 import { RefreshButton } from "@/components/scoreboards/RefreshButton";
+import { LiveScoresProvider } from "@/components/scoreboards/LiveScoresProvider";
 import { getGameSummary } from "@/lib/api/espn-summary";
-import { LEAGUES, type League } from "@/lib/types";
+import { LEAGUES, type GolfLeague, type League } from "@/lib/types";
 
 interface GamePageProps {
   params: Promise<{ league: string; gameId: string }>;
@@ -27,7 +28,7 @@ export async function generateMetadata({ params }: GamePageProps) {
   }
 
   // Fetch game data for dynamic metadata
-  const summary = await getGameSummary(leagueId as Exclude<League, "f1" | "pga">, gameId);
+  const summary = await getGameSummary(leagueId as Exclude<League, "f1" | GolfLeague>, gameId);
 
   if (!summary) {
     return { title: `${league.name} Game | ASCII Scores` };
@@ -73,7 +74,7 @@ export default async function GamePage({ params }: GamePageProps) {
   }
 
   // Fetch game summary
-  const summary = await getGameSummary(leagueId as Exclude<League, "f1" | "pga">, gameId);
+  const summary = await getGameSummary(leagueId as Exclude<League, "f1" | GolfLeague>, gameId);
 
   if (!summary) {
     return (
@@ -110,6 +111,12 @@ export default async function GamePage({ params }: GamePageProps) {
   const { game } = summary;
 
   return (
+    <LiveScoresProvider
+      league={game.league}
+      gameId={game.id}
+      refreshOnChange
+      enabled={game.status !== "final"}
+    >
     <div className="mx-auto max-w-7xl px-4 py-8">
       {/* Back link */}
       <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -139,5 +146,6 @@ export default async function GamePage({ params }: GamePageProps) {
       {/* Game detail content */}
       <GameDetailDisplay summary={summary} />
     </div>
+    </LiveScoresProvider>
   );
 }
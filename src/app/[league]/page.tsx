@@ -1,4 +1,4 @@
-import { notFound } from "next/navigation";
+import { notFound, permanentRedirect } from "next/navigation";
 import { Suspense } from "react";
 import Link from "next/link";
 import { LeagueScoreboard } from "@/components/scoreboards/LeagueScoreboard";
@@ -6,21 +6,34 @@ import { F1StandingsDisplay } from "@/components/scoreboards/F1Standings";
 import { F1SessionsList } from "@/components/scoreboards/F1SessionsList";
 import { GolfLeaderboardDisplay } from "@/components/scoreboards/GolfLeaderboard";
 import { RefreshButton } from "@/components/scoreboards/RefreshButton";
+import { LiveScoresProvider } from "@/components/scoreboards/LiveScoresProvider";
 import { DateNavigation } from "@/components/scoreboards/DateNavigation";
 import { F1RaceWeekendNav } from "@/components/scoreboards/F1RaceWeekendNav";
 import { LeagueJsonLd } from "@/components/seo";
 import { getESPNScoreboard, getDatesWithGames, getTodayForLeague } from "@/lib/api/espn";
-import { getF1Standings, getF1RaceWeekends, getF1RaceWeekendSessions } from "@/lib/api/openf1";
-import { getPGALeaderboard, getPGATournamentCalendar } from "@/lib/api/pga";
-import { PGATournamentNav } from "@/components/scoreboards/PGATournamentNav";
-import { LEAGUES, isLeagueInSeason, getSeasonStartDate, type League } from "@/lib/types";
-import { addDays, formatDateForAPI, getRelativeDateLabel, parseDateFromAPI } from "@/lib/utils/format";
+import {
+  getF1Standings,
+  getF1RaceWeekends,
+  getF1RaceWeekendById,
+  getF1RaceWeekendSessions,
+  resolveF1WeekendId,
+} from "@/lib/api/openf1";
+import { getGolfLeaderboard, getGolfTournamentCalendar } from "@/lib/api/golf";
+import { GolfTournamentNav } from "@/components/scoreboards/GolfTournamentNav";
+import { isPlayoffLeague } from "@/lib/types/playoffs";
+import {
+  LEAGUES,
+  isGolfLeague,
+  isLeagueInSeason,
+  getSeasonStartDate,
+  getSeasonYear,
+  type GolfLeague,
+  type League,
+} from "@/lib/types";
+import { addDays, formatDateForAPI, getRelativeDateLabel, isToday, parseDateFromAPI } from "@/lib/utils/format";
 
 // Leagues that have standings pages
-const STANDINGS_LEAGUES = ["nhl", "nfl", "nba", "mlb", "mls", "epl", "ncaam", "ncaaw"];
-
-// Leagues that have playoff bracket pages
-const PLAYOFF_LEAGUES = ["nfl"];
+const STANDINGS_LEAGUES = ["nhl", "nfl", "nba", "mlb", "mls", "epl", "ncaam", "ncaaw", "f1", "pga"];
 
 // How far users can navigate via URL (validates date param)
 const MAX_DAYS = 365;
@@ -31,7 +44,14 @@ const NAV_WINDOW = 30;
 
 interface LeaguePageProps {
   params: Promise<{ league: string }>;
-  searchParams: Promise<{ date?: string; weekend?: string; event?: string }>;
+  searchParams: Promise<{
+    date?: string;
+    weekend?: string;
+    event?: string;
+    player?: string;
+    view?: string;
+    round?: string;
+  }>;
 }
 
 // Generate static params for all leagues
@@ -91,7 +111,7 @@ export async function generateMetadata({ params }: LeaguePageProps) {
  */
 function validateDate(
   dateStr: string | undefined,
-  league: Exclude<League, "f1" | "pga">,
+  league: Exclude<League, "f1" | GolfLeague>,
   daysBack: number = MAX_DAYS,
   daysForward: number = MAX_DAYS
 ): Date | null {
@@ -120,7 +140,14 @@ function validateDate(
 
 export default async function LeaguePage({ params, searchParams }: LeaguePageProps) {
   const { league: leagueId } = await params;
-  const { date: dateParam, weekend: weekendParam, event: eventParam } = await searchParams;
+  const {
+    date: dateParam,
+    weekend: weekendParam,
+    event: eventParam,
+    player: playerParam,
+    view: viewParam,
+    round: roundParam,
+  } = await searchParams;
 
   // Validate league
   if (!Object.keys(LEAGUES).includes(leagueId)) {
@@ -132,22 +159,34 @@ export default async function LeaguePage({ params, searchParams }: LeaguePagePro
 
   // Parse and validate date parameter (for ESPN leagues only)
   const isF1 = leagueId === "f1";
-  const isPGA = leagueId === "pga";
-  const isESPNLeague = !isF1 && !isPGA;
+  const isGolf = isGolfLeague(leagueId);
+
+  // Old permalinks use "{circuit}-{year}" weekend IDs - send them to the meeting key
+  if (isF1 && weekendParam) {
+    const weekendId = await resolveF1WeekendId(weekendParam);
+    if (weekendId && weekendId !== weekendParam) {
+      permanentRedirect(`/f1?weekend=${weekendId}`);
+    }
+  }
+  const isESPNLeague = !isF1 && !isGolf;
   const selectedDate = isESPNLeague
-    ? validateDate(dateParam, leagueId as Exclude<League, "f1" | "pga">)
+    ? validateDate(dateParam, leagueId as Exclude<League, "f1" | GolfLeague>)
     : null;
 
   // Determine if we should show navigation
-  // All leagues have navigation, but PGA uses tournament nav instead of date nav
+  // All leagues have navigation, but golf uses tournament nav instead of date nav
   const showNavigation = true;
 
+  // Stream live score patches for today's ESPN scoreboard (past/future dates don't change)
+  const isLiveStreamEnabled = isESPNLeague && (!selectedDate || isToday(selectedDate));
+
   return (
     <>
       <LeagueJsonLd
         leagueName={`${league.name} Scores`}
         leagueUrl={`${SITE_URL}/${leagueId}`}
       />
+      <LiveScoresProvider league={leagueId as League} enabled={isLiveStreamEnabled}>
       <div className="mx-auto max-w-7xl px-4 py-8">
           {/* Page header */}
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
@@ -158,7 +197,7 @@ export default async function LeaguePage({ params, searchParams }: LeaguePagePro
                 <span className="text-terminal-border">]</span>
                 {" "}
                 <span className="text-terminal-muted">
-                  {leagueId === "pga" ? "Leaderboard" : "Scores"}
+                  {isGolf ? "Leaderboard" : "Scores"}
                 </span>
               </h1>
               <div className="flex items-center gap-4 mt-1">
@@ -173,12 +212,28 @@ export default async function LeaguePage({ params, searchParams }: LeaguePagePro
                     [Standings]
                   </Link>
                 )}
-                {PLAYOFF_LEAGUES.includes(leagueId) && (
+                {isF1 && (
+                  <Link
+                    href="/f1/calendar"
+                    className="font-mono text-xs text-terminal-cyan hover:text-terminal-green transition-colors"
+                  >
+                    [Calendar]
+                  </Link>
+                )}
+                {isPlayoffLeague(leagueId) && (
                   <Link
                     href={`/${leagueId}/playoffs`}
                     className="font-mono text-xs text-terminal-cyan hover:text-terminal-green transition-colors"
                   >
-                    [Playoffs]
+                    {leagueId === "fa-cup" ? "[Knockout]" : "[Playoffs]"}
+                  </Link>
+                )}
+                {isESPNLeague && (
+                  <Link
+                    href={`/${leagueId}/season/${getSeasonYear(league)}`}
+                    className="font-mono text-xs text-terminal-cyan hover:text-terminal-green transition-colors"
+                  >
+                    [Archive]
                   </Link>
                 )}
               </div>
@@ -198,12 +253,12 @@ export default async function LeaguePage({ params, searchParams }: LeaguePagePro
             <div className="mb-8">
               <Suspense fallback={<DateNavigationSkeleton />}>
                 {isF1 ? (
-                  <F1RaceWeekendNavWrapper />
-                ) : leagueId === "pga" ? (
-                  <PGATournamentNavWrapper />
+                  <F1RaceWeekendNavWrapper weekendId={weekendParam} />
+                ) : isGolf ? (
+                  <GolfTournamentNavWrapper league={leagueId} />
                 ) : (
                   <DateNavigationWrapper
-                    league={leagueId as Exclude<League, "f1" | "pga">}
+                    league={leagueId as Exclude<League, "f1" | GolfLeague>}
                     currentDate={selectedDate ?? undefined}
                   />
                 )}
@@ -214,15 +269,22 @@ export default async function LeaguePage({ params, searchParams }: LeaguePagePro
           {/* Scoreboard content */}
           {leagueId === "f1" ? (
             <F1Content weekendId={weekendParam} />
-          ) : leagueId === "pga" ? (
-            <PGAContent eventId={eventParam} />
+          ) : isGolf ? (
+            <GolfContent
+              league={leagueId}
+              eventId={eventParam}
+              playerId={playerParam}
+              view={viewParam}
+              round={roundParam}
+            />
           ) : (
             <ESPNContent
-              league={leagueId as Exclude<League, "f1" | "pga">}
+              league={leagueId as Exclude<League, "f1" | GolfLeague>}
               date={selectedDate ?? undefined}
             />
           )}
       </div>
+      </LiveScoresProvider>
     </>
   );
 }
@@ -237,7 +299,7 @@ async function DateNavigationWrapper({
   league,
   currentDate,
 }: {
-  league: Exclude<League, "f1" | "pga">;
+  league: Exclude<League, "f1" | GolfLeague>;
   currentDate?: Date;
 }) {
   const datesWithGames = await getDatesWithGames(
@@ -251,18 +313,28 @@ async function DateNavigationWrapper({
 
 /**
  * Server component wrapper that fetches F1 race weekends
+ * A weekend linked from outside the default range (e.g., an older season's calendar) is added to the list.
  */
-async function F1RaceWeekendNavWrapper() {
+async function F1RaceWeekendNavWrapper({ weekendId }: { weekendId?: string }) {
   const weekends = await getF1RaceWeekends();
+
+  if (weekendId && !weekends.some((weekend) => weekend.id === weekendId)) {
+    const weekend = await getF1RaceWeekendById(weekendId);
+    if (weekend) {
+      weekends.push(weekend);
+      weekends.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    }
+  }
+
   return <F1RaceWeekendNav weekends={weekends} />;
 }
 
 /**
- * Server component wrapper that fetches PGA tournament calendar
+ * Server component wrapper that fetches a golf tour's tournament calendar
  */
-async function PGATournamentNavWrapper() {
-  const calendar = await getPGATournamentCalendar();
-  return <PGATournamentNav tournaments={calendar.tournaments} />;
+async function GolfTournamentNavWrapper({ league }: { league: GolfLeague }) {
+  const calendar = await getGolfTournamentCalendar(league);
+  return <GolfTournamentNav league={league} tournaments={calendar.tournaments} />;
 }
 
 /**
@@ -295,7 +367,7 @@ async function ESPNContent({
   league,
   date,
 }: {
-  league: Exclude<League, "f1" | "pga">;
+  league: Exclude<League, "f1" | GolfLeague>;
   date?: Date;
 }) {
   try {
@@ -408,14 +480,26 @@ async function F1Content({ weekendId }: { weekendId?: string }) {
 }
 
 /**
- * PGA Tour leaderboard content
+ * Golf tour leaderboard content
  */
-async function PGAContent({ eventId }: { eventId?: string }) {
+async function GolfContent({
+  league,
+  eventId,
+  playerId,
+  view,
+  round,
+}: {
+  league: GolfLeague;
+  eventId?: string;
+  playerId?: string;
+  view?: string;
+  round?: string;
+}) {
   try {
     // Fetch both leaderboard and calendar in parallel
     const [leaderboard, calendar] = await Promise.all([
-      getPGALeaderboard(eventId),
-      getPGATournamentCalendar(),
+      getGolfLeaderboard(league, eventId),
+      getGolfTournamentCalendar(league),
     ]);
 
     // Find the selected tournament from calendar (for displaying info when leaderboard is empty)
@@ -423,9 +507,18 @@ async function PGAContent({ eventId }: { eventId?: string }) {
       ? calendar.tournaments.find((t) => t.id === eventId)
       : undefined;
 
-    return <GolfLeaderboardDisplay leaderboard={leaderboard} selectedTournament={selectedTournament} />;
+    return (
+      <GolfLeaderboardDisplay
+        league={league}
+        leaderboard={leaderboard}
+        selectedTournament={selectedTournament}
+        selectedPlayerId={playerId}
+        view={view === "tees" || view === "leaderboard" ? view : undefined}
+        selectedRound={round && /^[1-4]$/.test(round) ? parseInt(round, 10) : undefined}
+      />
+    );
   } catch (error) {
-    console.error("Failed to fetch PGA leaderboard:", error);
+    console.error(`Failed to fetch ${league} leaderboard:`, error);
     return (
       <div className="overflow-x-auto">
         <div className="font-mono text-center py-8 text-terminal-red inline-block min-w-full">
@@ -435,7 +528,7 @@ async function PGAContent({ eventId }: { eventId?: string }) {
           <div>
             <span className="text-terminal-border" aria-hidden="true">║</span>
             <span className="px-4">
-              {"  "}Error loading PGA data. Try again.{"  "}
+              {"  "}Error loading golf data. Try again.{"  "}
             </span>
             <span className="text-terminal-border" aria-hidden="true">║</span>
           </div>
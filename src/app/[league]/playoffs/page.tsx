@@ -3,17 +3,21 @@ import Link from "next/link";
 import { RefreshButton } from "@/components/scoreboards/RefreshButton";
 import { PlayoffBracketDisplay } from "@/components/scoreboards/PlayoffBracket";
 import { PlayoffYearSelector } from "@/components/scoreboards/PlayoffYearSelector";
-import { getNFLPlayoffBracket } from "@/lib/api/espn-playoffs";
+import { getPlayoffBracket } from "@/lib/api/espn-playoffs";
 import { LEAGUES, type League } from "@/lib/types";
+import {
+  PLAYOFF_LEAGUES,
+  PLAYOFF_MIN_SEASON_YEARS,
+  getDefaultPlayoffSeasonYear,
+  isPlayoffLeague,
+  type PlayoffLeague,
+} from "@/lib/types/playoffs";
 
 interface PlayoffsPageProps {
   params: Promise<{ league: string }>;
   searchParams: Promise<{ year?: string }>;
 }
 
-// Leagues that support playoff bracket pages
-const PLAYOFF_LEAGUES = ["nfl"];
-
 // Generate static params for leagues with playoffs
 export function generateStaticParams() {
   return PLAYOFF_LEAGUES.map((league) => ({ league }));
@@ -26,7 +30,7 @@ export async function generateMetadata({ params }: PlayoffsPageProps) {
   const { league: leagueId } = await params;
   const league = LEAGUES[leagueId as League];
 
-  if (!league || !PLAYOFF_LEAGUES.includes(leagueId)) {
+  if (!league || !isPlayoffLeague(leagueId)) {
     return { title: "Playoffs Not Found" };
   }
 
@@ -64,16 +68,6 @@ export async function generateMetadata({ params }: PlayoffsPageProps) {
   };
 }
 
-/**
- * Determine the default season year for display.
- * NFL playoffs for the 2025 season happen in Jan/Feb 2026.
- */
-function getDefaultSeasonYear(): number {
-  const now = new Date();
-  const month = now.getMonth() + 1;
-  return month <= 7 ? now.getFullYear() - 1 : now.getFullYear();
-}
-
 export default async function PlayoffsPage({
   params,
   searchParams,
@@ -84,21 +78,21 @@ export default async function PlayoffsPage({
   // Validate league supports playoffs
   if (
     !Object.keys(LEAGUES).includes(leagueId) ||
-    !PLAYOFF_LEAGUES.includes(leagueId)
+    !isPlayoffLeague(leagueId)
   ) {
     notFound();
   }
 
-  const league = LEAGUES[leagueId as League];
+  const league = LEAGUES[leagueId];
 
   // Parse and validate year parameter
-  const defaultYear = getDefaultSeasonYear();
+  const defaultYear = getDefaultPlayoffSeasonYear(leagueId);
   let seasonYear = defaultYear;
 
   if (yearParam) {
     const parsed = parseInt(yearParam, 10);
-    // NFL expanded to 14 teams in 2020; limit to reasonable range
-    if (!isNaN(parsed) && parsed >= 2020 && parsed <= defaultYear) {
+    // Limit to seasons in the league's current playoff format
+    if (!isNaN(parsed) && parsed >= PLAYOFF_MIN_SEASON_YEARS[leagueId] && parsed <= defaultYear) {
       seasonYear = parsed;
     }
   }
@@ -113,10 +107,16 @@ export default async function PlayoffsPage({
             {league.name}
             <span className="text-terminal-border">]</span>
             {" "}
-            <span className="text-terminal-muted">Playoffs</span>
+            <span className="text-terminal-muted">
+              {leagueId === "fa-cup" ? "Knockout Rounds" : "Playoffs"}
+            </span>
           </h1>
           <p className="text-terminal-muted font-mono text-sm mt-1">
-            {league.fullName} Playoff Bracket
+            {leagueId === "ncaam" || leagueId === "ncaaw"
+              ? `${league.name} Tournament Bracket`
+              : leagueId === "fa-cup"
+                ? `${league.fullName} Ties by Round`
+                : `${league.fullName} Playoff Bracket`}
           </p>
         </div>
         <div className="flex items-center gap-4">
@@ -135,7 +135,7 @@ export default async function PlayoffsPage({
       <PlayoffYearSelector league={leagueId} currentYear={seasonYear} />
 
       {/* Bracket content */}
-      <PlayoffBracketContent year={seasonYear} />
+      <PlayoffBracketContent league={leagueId} year={seasonYear} />
     </div>
   );
 }
@@ -143,12 +143,18 @@ export default async function PlayoffsPage({
 /**
  * Server component for fetching and displaying bracket data
  */
-async function PlayoffBracketContent({ year }: { year: number }) {
+async function PlayoffBracketContent({
+  league,
+  year,
+}: {
+  league: PlayoffLeague;
+  year: number;
+}) {
   try {
-    const bracket = await getNFLPlayoffBracket(year);
+    const bracket = await getPlayoffBracket(league, year);
     return <PlayoffBracketDisplay bracket={bracket} />;
   } catch (error) {
-    console.error(`Failed to fetch NFL playoff bracket:`, error);
+    console.error(`Failed to fetch ${league} playoff bracket:`, error);
     return (
       <div className="overflow-x-auto">
         <div className="font-mono text-center py-8 text-terminal-red inline-block min-w-full">
@@ -0,0 +1,233 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { LeagueScoreboard } from "@/components/scoreboards/LeagueScoreboard";
+import { getESPNGameDays, getESPNScoreboard } from "@/lib/api/espn";
+import {
+  ARCHIVE_MIN_SEASON_YEAR,
+  LEAGUES,
+  formatSeasonLabel,
+  getSeasonDateRange,
+  getSeasonYear,
+  isGolfLeague,
+  type GolfLeague,
+  type League,
+} from "@/lib/types";
+import { formatDate, parseDateFromAPI } from "@/lib/utils/format";
+
+interface SeasonDatePageProps {
+  params: Promise<{ league: string; year: string; date: string }>;
+}
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://ascii-scores.vercel.app";
+
+/**
+ * Validate the [league], [year] and [date] params
+ * The date has to fall within the season, so every game-day has exactly one permalink.
+ */
+function parseSeasonDateParams(
+  leagueId: string,
+  yearParam: string,
+  dateParam: string
+): { league: Exclude<League, "f1" | GolfLeague>; year: number; date: Date } | null {
+  if (!Object.keys(LEAGUES).includes(leagueId) || leagueId === "f1" || isGolfLeague(leagueId)) {
+    return null;
+  }
+
+  const league = leagueId as Exclude<League, "f1" | GolfLeague>;
+  const year = /^\d{4}$/.test(yearParam) ? parseInt(yearParam, 10) : NaN;
+
+  if (isNaN(year) || year < ARCHIVE_MIN_SEASON_YEAR || year > getSeasonYear(LEAGUES[league])) {
+    return null;
+  }
+
+  const date = /^\d{8}$/.test(dateParam) ? parseDateFromAPI(dateParam) : null;
+  const range = getSeasonDateRange(LEAGUES[league], year);
+
+  if (!date || date < range.start || date > range.end) {
+    return null;
+  }
+
+  return { league, year, date };
+}
+
+// Generate metadata for each game-day permalink
+export async function generateMetadata({ params }: SeasonDatePageProps) {
+  const { league: leagueId, year: yearParam, date: dateParam } = await params;
+  const parsed = parseSeasonDateParams(leagueId, yearParam, dateParam);
+
+  if (!parsed) {
+    return { title: "Date Not Found" };
+  }
+
+  const league = LEAGUES[parsed.league];
+  const dateLabel = `${formatDate(parsed.date)}, ${parsed.date.getFullYear()}`;
+  const title = `${league.name} Scores - ${dateLabel}`;
+  const description = `${league.fullName} results from ${dateLabel} rendered in ASCII art style. Part of the ${formatSeasonLabel(league, parsed.year)} season archive.`;
+  const url = `${SITE_URL}/${leagueId}/season/${parsed.year}/${dateParam}`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: url,
+    },
+    openGraph: {
+      title: `${title} | ASCII Scores`,
+      description,
+      url,
+      siteName: "ASCII Scores",
+      type: "website",
+      images: [
+        {
+          url: "/og-image.png",
+          width: 1200,
+          height: 630,
+          alt: `${league.fullName} Scores ${dateLabel} - ASCII Scores`,
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${title} | ASCII Scores`,
+      description,
+      images: ["/og-image.png"],
+    },
+  };
+}
+
+export default async function SeasonDatePage({ params }: SeasonDatePageProps) {
+  const { league: leagueId, year: yearParam, date: dateParam } = await params;
+
+  const parsed = parseSeasonDateParams(leagueId, yearParam, dateParam);
+  if (!parsed) {
+    notFound();
+  }
+
+  const { year, date } = parsed;
+  const league = LEAGUES[parsed.league];
+  const monthKey = dateParam.slice(0, 6);
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-mono text-2xl text-terminal-fg">
+            <span className="text-terminal-border">[</span>
+            {league.name}
+            <span className="text-terminal-border">]</span>
+            {" "}
+            <span className="text-terminal-muted">
+              {formatDate(date)}, {date.getFullYear()}
+            </span>
+          </h1>
+          <p className="text-terminal-muted font-mono text-sm mt-1">
+            {league.fullName} {formatSeasonLabel(league, year)} Season
+          </p>
+        </div>
+        <Link
+          href={`/${leagueId}/season/${year}?month=${monthKey}`}
+          className="font-mono text-sm text-terminal-muted hover:text-terminal-green transition-colors"
+        >
+          <span className="text-terminal-green">{"<"}</span>
+          {" "}Back to Season
+        </Link>
+      </div>
+
+      <SeasonDateContent league={parsed.league} year={year} date={date} dateKey={dateParam} />
+    </div>
+  );
+}
+
+/**
+ * Server component for the game-day scoreboard and links to neighbouring game-days
+ */
+async function SeasonDateContent({
+  league,
+  year,
+  date,
+  dateKey,
+}: {
+  league: Exclude<League, "f1" | GolfLeague>;
+  year: number;
+  date: Date;
+  dateKey: string;
+}) {
+  const range = getSeasonDateRange(LEAGUES[league], year);
+
+  // Neighbouring game-days can be across a month boundary, so look in the months either side
+  // too. Each month is fetched on its own (clamped to the season) to share the season page's cache.
+  const months = [-1, 0, 1]
+    .map((offset) => ({
+      start: new Date(date.getFullYear(), date.getMonth() + offset, 1),
+      end: new Date(date.getFullYear(), date.getMonth() + offset + 1, 0),
+    }))
+    .filter((month) => month.end >= range.start && month.start <= range.end);
+
+  try {
+    const [scoreboard, ...monthGameDays] = await Promise.all([
+      getESPNScoreboard(league, date),
+      ...months.map((month) =>
+        getESPNGameDays(
+          league,
+          month.start < range.start ? range.start : month.start,
+          month.end > range.end ? range.end : month.end
+        )
+      ),
+    ]);
+
+    const dateKeys = [...new Set(monthGameDays.flatMap((gameDays) => Object.keys(gameDays)))].sort();
+    const prevDateKey = dateKeys.filter((key) => key < dateKey).pop();
+    const nextDateKey = dateKeys.find((key) => key > dateKey);
+
+    return (
+      <>
+        <nav className="font-mono text-sm flex items-center gap-4 mb-8" aria-label="Game-day navigation">
+          {prevDateKey ? (
+            <Link
+              href={`/${league}/season/${year}/${prevDateKey}`}
+              className="px-3 py-1 border border-terminal-border text-terminal-fg hover:border-terminal-green hover:text-terminal-green transition-colors"
+            >
+              ◄ {formatDate(parseDateFromAPI(prevDateKey)!)}
+            </Link>
+          ) : (
+            <span className="px-3 py-1 border border-terminal-muted text-terminal-muted">◄ PREV</span>
+          )}
+          {nextDateKey ? (
+            <Link
+              href={`/${league}/season/${year}/${nextDateKey}`}
+              className="px-3 py-1 border border-terminal-border text-terminal-fg hover:border-terminal-green hover:text-terminal-green transition-colors"
+            >
+              {formatDate(parseDateFromAPI(nextDateKey)!)} ►
+            </Link>
+          ) : (
+            <span className="px-3 py-1 border border-terminal-muted text-terminal-muted">NEXT ►</span>
+          )}
+        </nav>
+
+        <LeagueScoreboard scoreboard={scoreboard} />
+      </>
+    );
+  } catch (error) {
+    console.error(`Failed to fetch ${league} scoreboard for ${dateKey}:`, error);
+    return (
+      <div className="overflow-x-auto">
+        <div className="font-mono text-center py-8 text-terminal-red inline-block min-w-full">
+          <div className="text-terminal-border" aria-hidden="true">
+            ╔══════════════════════════════════════════╗
+          </div>
+          <div>
+            <span className="text-terminal-border" aria-hidden="true">║</span>
+            <span className="px-4">
+              {"  "}Error loading scoreboard. Try again.{"  "}
+            </span>
+            <span className="text-terminal-border" aria-hidden="true">║</span>
+          </div>
+          <div className="text-terminal-border" aria-hidden="true">
+            ╚══════════════════════════════════════════╝
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,263 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import {
+  SeasonCalendar,
+  SeasonGameDay,
+  SeasonMonthNav,
+  SeasonSelector,
+  formatMonthKey,
+} from "@/components/scoreboards/SeasonArchive";
+import { getESPNGameDays, getTodayForLeague } from "@/lib/api/espn";
+import {
+  ARCHIVE_MIN_SEASON_YEAR,
+  LEAGUES,
+  formatSeasonLabel,
+  getSeasonDateRange,
+  getSeasonYear,
+  isGolfLeague,
+  type GolfLeague,
+  type League,
+} from "@/lib/types";
+import { formatDateForAPI } from "@/lib/utils/format";
+
+interface SeasonPageProps {
+  params: Promise<{ league: string; year: string }>;
+  searchParams: Promise<{ month?: string }>;
+}
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://ascii-scores.vercel.app";
+
+/**
+ * Validate the [league] and [year] params
+ * Only ESPN leagues have day-by-day scoreboards to archive.
+ */
+function parseSeasonParams(
+  leagueId: string,
+  yearParam: string
+): { league: Exclude<League, "f1" | GolfLeague>; year: number } | null {
+  if (!Object.keys(LEAGUES).includes(leagueId) || leagueId === "f1" || isGolfLeague(leagueId)) {
+    return null;
+  }
+
+  const league = leagueId as Exclude<League, "f1" | GolfLeague>;
+  const year = /^\d{4}$/.test(yearParam) ? parseInt(yearParam, 10) : NaN;
+
+  if (isNaN(year) || year < ARCHIVE_MIN_SEASON_YEAR || year > getSeasonYear(LEAGUES[league])) {
+    return null;
+  }
+
+  return { league, year };
+}
+
+/**
+ * Get the months (YYYYMM keys) a season's date range covers
+ */
+function getSeasonMonths(start: Date, end: Date): string[] {
+  const months: string[] = [];
+  const cursor = new Date(start.getFullYear(), start.getMonth(), 1);
+
+  while (cursor <= end) {
+    months.push(formatDateForAPI(cursor).slice(0, 6));
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return months;
+}
+
+// Generate metadata for each season archive page
+export async function generateMetadata({ params }: SeasonPageProps) {
+  const { league: leagueId, year: yearParam } = await params;
+  const season = parseSeasonParams(leagueId, yearParam);
+
+  if (!season) {
+    return { title: "Season Not Found" };
+  }
+
+  const league = LEAGUES[season.league];
+  const seasonLabel = formatSeasonLabel(league, season.year);
+  const title = `${league.name} ${seasonLabel} Season`;
+  const description = `Every ${seasonLabel} ${league.fullName} game-day and result rendered in ASCII art style. Browse the season by month with a retro terminal aesthetic.`;
+  const url = `${SITE_URL}/${leagueId}/season/${season.year}`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: url,
+    },
+    openGraph: {
+      title: `${title} | ASCII Scores`,
+      description,
+      url,
+      siteName: "ASCII Scores",
+      type: "website",
+      images: [
+        {
+          url: "/og-image.png",
+          width: 1200,
+          height: 630,
+          alt: `${league.fullName} ${seasonLabel} Season Archive - ASCII Scores`,
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${title} | ASCII Scores`,
+      description,
+      images: ["/og-image.png"],
+    },
+  };
+}
+
+export default async function SeasonPage({ params, searchParams }: SeasonPageProps) {
+  const { league: leagueId, year: yearParam } = await params;
+  const { month: monthParam } = await searchParams;
+
+  const season = parseSeasonParams(leagueId, yearParam);
+  if (!season) {
+    notFound();
+  }
+
+  const { year } = season;
+  const league = LEAGUES[season.league];
+  const range = getSeasonDateRange(league, year);
+  const months = getSeasonMonths(range.start, range.end);
+
+  // Default to this month while the season is running, otherwise its first month
+  const todayMonth = formatDateForAPI(getTodayForLeague(season.league)).slice(0, 6);
+  const month =
+    monthParam && months.includes(monthParam)
+      ? monthParam
+      : months.includes(todayMonth)
+        ? todayMonth
+        : months[0];
+
+  const currentSeasonYear = getSeasonYear(league);
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8">
+      {/* Page header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-mono text-2xl text-terminal-fg">
+            <span className="text-terminal-border">[</span>
+            {league.name}
+            <span className="text-terminal-border">]</span>
+            {" "}
+            <span className="text-terminal-muted">Season Archive</span>
+          </h1>
+          <p className="text-terminal-muted font-mono text-sm mt-1">
+            {league.fullName} {formatSeasonLabel(league, year)} Season
+          </p>
+        </div>
+        <Link
+          href={`/${leagueId}`}
+          className="font-mono text-sm text-terminal-muted hover:text-terminal-green transition-colors"
+        >
+          <span className="text-terminal-green">{"<"}</span>
+          {" "}Back to Scores
+        </Link>
+      </div>
+
+      {/* Season and month navigation */}
+      <SeasonSelector
+        league={season.league}
+        year={year}
+        label={formatSeasonLabel(league, year)}
+        prevLabel={year > ARCHIVE_MIN_SEASON_YEAR ? formatSeasonLabel(league, year - 1) : undefined}
+        nextLabel={year < currentSeasonYear ? formatSeasonLabel(league, year + 1) : undefined}
+      />
+      <SeasonMonthNav league={season.league} year={year} months={months} currentMonth={month} />
+
+      {/* Month content */}
+      <SeasonMonthContent
+        league={season.league}
+        year={year}
+        monthKey={month}
+        seasonStart={range.start}
+        seasonEnd={range.end}
+      />
+    </div>
+  );
+}
+
+/**
+ * Server component for fetching and displaying a month of game-days
+ */
+async function SeasonMonthContent({
+  league,
+  year,
+  monthKey,
+  seasonStart,
+  seasonEnd,
+}: {
+  league: Exclude<League, "f1" | GolfLeague>;
+  year: number;
+  monthKey: string;
+  seasonStart: Date;
+  seasonEnd: Date;
+}) {
+  const monthYear = parseInt(monthKey.slice(0, 4), 10);
+  const monthIndex = parseInt(monthKey.slice(4, 6), 10) - 1;
+  const monthStart = new Date(monthYear, monthIndex, 1);
+  const monthEnd = new Date(monthYear, monthIndex + 1, 0);
+
+  try {
+    const gameDays = await getESPNGameDays(
+      league,
+      monthStart < seasonStart ? seasonStart : monthStart,
+      monthEnd > seasonEnd ? seasonEnd : monthEnd
+    );
+
+    // Games near midnight can land on a neighbouring month in the league's timezone
+    const dateKeys = Object.keys(gameDays).filter((dateKey) => dateKey.startsWith(monthKey));
+    const gameCounts = Object.fromEntries(
+      dateKeys.map((dateKey) => [dateKey, gameDays[dateKey].length])
+    );
+
+    return (
+      <>
+        <SeasonCalendar league={league} year={year} monthKey={monthKey} gameCounts={gameCounts} />
+
+        {dateKeys.length === 0 ? (
+          <div className="font-mono text-terminal-muted text-sm">
+            No {LEAGUES[league].name} games in {formatMonthKey(monthKey)}.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {dateKeys.map((dateKey) => (
+              <SeasonGameDay
+                key={dateKey}
+                league={league}
+                year={year}
+                dateKey={dateKey}
+                games={gameDays[dateKey]}
+              />
+            ))}
+          </div>
+        )}
+      </>
+    );
+  } catch (error) {
+    console.error(`Failed to fetch ${league} season archive:`, error);
+    return (
+      <div className="overflow-x-auto">
+        <div className="font-mono text-center py-8 text-terminal-red inline-block min-w-full">
+          <div className="text-terminal-border" aria-hidden="true">
+            ╔══════════════════════════════════════════╗
+          </div>
+          <div>
+            <span className="text-terminal-border" aria-hidden="true">║</span>
+            <span className="px-4">
+              {"  "}Error loading season archive. Try again.{"  "}
+            </span>
+            <span className="text-terminal-border" aria-hidden="true">║</span>
+          </div>
+          <div className="text-terminal-border" aria-hidden="true">
+            ╚══════════════════════════════════════════╝
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
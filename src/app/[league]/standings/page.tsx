@@ -3,18 +3,22 @@ import Link from "next/link";
 import { RefreshButton } from "@/components/scoreboards/RefreshButton";
 import { StandingsViewToggle } from "@/components/scoreboards/StandingsViewToggle";
 import { Top25Rankings } from "@/components/scoreboards/Top25Rankings";
+import { F1ChampionshipDisplay, F1ChampionshipYearSelector } from "@/components/scoreboards/F1Championship";
+import { FedExCupStandingsDisplay } from "@/components/scoreboards/FedExCupStandings";
 import { getESPNStandings, getNCAAPolls } from "@/lib/api/espn";
-import { LEAGUES, type League } from "@/lib/types";
+import { getF1Championship } from "@/lib/api/openf1";
+import { getFedExCupStandings } from "@/lib/api/golf";
+import { F1_MIN_CHAMPIONSHIP_YEAR } from "@/lib/types/f1";
+import { isPlayoffLeague } from "@/lib/types/playoffs";
+import { LEAGUES, type League, type StandingsLeague } from "@/lib/types";
 
 interface StandingsPageProps {
   params: Promise<{ league: string }>;
+  searchParams: Promise<{ year?: string }>;
 }
 
-// Leagues that support standings (ESPN leagues only, no F1 or PGA)
-const STANDINGS_LEAGUES = ["nhl", "nfl", "nba", "mlb", "mls", "epl", "ncaam", "ncaaw"];
-
-// Leagues that have playoff bracket pages
-const PLAYOFF_LEAGUES = ["nfl"];
+// Leagues that support standings (ESPN league tables, the F1 championship and the FedEx Cup)
+const STANDINGS_LEAGUES = ["nhl", "nfl", "nba", "mlb", "mls", "epl", "ncaam", "ncaaw", "f1", "pga"];
 
 // Generate static params for leagues with standings
 export function generateStaticParams() {
@@ -33,7 +37,11 @@ export async function generateMetadata({ params }: StandingsPageProps) {
   }
 
   const title = `${league.name} Standings`;
-  const description = `Current ${league.fullName} standings rendered in ASCII art style. Division and conference rankings with a retro terminal aesthetic.`;
+  const description = leagueId === "f1"
+    ? `${league.fullName} Drivers' and Constructors' Championship standings rendered in ASCII art style. Points by round with a retro terminal aesthetic.`
+    : leagueId === "pga"
+    ? `${league.fullName} FedEx Cup standings rendered in ASCII art style. Season points with live projections and a retro terminal aesthetic.`
+    : `Current ${league.fullName} standings rendered in ASCII art style. Division and conference rankings with a retro terminal aesthetic.`;
   const url = `${SITE_URL}/${leagueId}/standings`;
 
   return {
@@ -66,8 +74,9 @@ export async function generateMetadata({ params }: StandingsPageProps) {
   };
 }
 
-export default async function StandingsPage({ params }: StandingsPageProps) {
+export default async function StandingsPage({ params, searchParams }: StandingsPageProps) {
   const { league: leagueId } = await params;
+  const { year: yearParam } = await searchParams;
 
   // Validate league and check if it supports standings
   if (!Object.keys(LEAGUES).includes(leagueId) || !STANDINGS_LEAGUES.includes(leagueId)) {
@@ -76,6 +85,16 @@ export default async function StandingsPage({ params }: StandingsPageProps) {
 
   const league = LEAGUES[leagueId as League];
 
+  // F1 championship season (OpenF1 data starts in 2023)
+  const currentYear = new Date().getFullYear();
+  let f1Year = currentYear;
+  if (yearParam) {
+    const parsed = parseInt(yearParam, 10);
+    if (!isNaN(parsed) && parsed >= F1_MIN_CHAMPIONSHIP_YEAR && parsed <= currentYear) {
+      f1Year = parsed;
+    }
+  }
+
   return (
     <div className="mx-auto max-w-7xl px-4 py-8">
       {/* Page header */}
@@ -89,7 +108,11 @@ export default async function StandingsPage({ params }: StandingsPageProps) {
             <span className="text-terminal-muted">Standings</span>
           </h1>
           <p className="text-terminal-muted font-mono text-sm mt-1">
-            {league.fullName}
+            {leagueId === "f1"
+              ? `${f1Year} World Championship`
+              : leagueId === "pga"
+              ? "FedEx Cup"
+              : league.fullName}
           </p>
         </div>
         <div className="flex items-center gap-4">
@@ -100,7 +123,15 @@ export default async function StandingsPage({ params }: StandingsPageProps) {
             <span className="text-terminal-green">{"<"}</span>
             {" "}Back to Scores
           </Link>
-          {PLAYOFF_LEAGUES.includes(leagueId) && (
+          {leagueId === "f1" && (
+            <Link
+              href={`/f1/calendar?year=${f1Year}`}
+              className="font-mono text-sm text-terminal-cyan hover:text-terminal-green transition-colors"
+            >
+              [Calendar]
+            </Link>
+          )}
+          {isPlayoffLeague(leagueId) && (
             <Link
               href={`/${leagueId}/playoffs`}
               className="font-mono text-sm text-terminal-cyan hover:text-terminal-green transition-colors"
@@ -113,7 +144,16 @@ export default async function StandingsPage({ params }: StandingsPageProps) {
       </div>
 
       {/* Standings content */}
-      <StandingsContent league={leagueId as Exclude<League, "f1" | "pga">} />
+      {leagueId === "f1" ? (
+        <>
+          <F1ChampionshipYearSelector currentYear={f1Year} maxYear={currentYear} />
+          <F1ChampionshipContent year={f1Year} />
+        </>
+      ) : leagueId === "pga" ? (
+        <FedExCupContent />
+      ) : (
+        <StandingsContent league={leagueId as StandingsLeague} />
+      )}
     </div>
   );
 }
@@ -124,7 +164,7 @@ export default async function StandingsPage({ params }: StandingsPageProps) {
 async function StandingsContent({
   league,
 }: {
-  league: Exclude<League, "f1" | "pga">;
+  league: StandingsLeague;
 }) {
   const isNCAA = league === "ncaam" || league === "ncaaw";
 
@@ -162,3 +202,61 @@ async function StandingsContent({
     );
   }
 }
+
+/**
+ * F1 Drivers' and Constructors' Championship content with data fetching
+ */
+async function F1ChampionshipContent({ year }: { year: number }) {
+  try {
+    const championship = await getF1Championship(year);
+    return <F1ChampionshipDisplay championship={championship} />;
+  } catch (error) {
+    console.error(`Failed to fetch ${year} F1 championship:`, error);
+    return (
+      <div className="font-mono text-center py-8 text-terminal-red">
+        <div className="text-terminal-border" aria-hidden="true">
+          ╔══════════════════════════════════════════╗
+        </div>
+        <div>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+          <span className="px-4">
+            {"  "}Error loading standings. Try again.{"  "}
+          </span>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+        </div>
+        <div className="text-terminal-border" aria-hidden="true">
+          ╚══════════════════════════════════════════╝
+        </div>
+      </div>
+    );
+  }
+}
+
+/**
+ * FedEx Cup standings content with data fetching
+ */
+async function FedExCupContent() {
+  try {
+    const standings = await getFedExCupStandings();
+    return <FedExCupStandingsDisplay standings={standings} />;
+  } catch (error) {
+    console.error("Failed to fetch FedEx Cup standings:", error);
+    return (
+      <div className="font-mono text-center py-8 text-terminal-red">
+        <div className="text-terminal-border" aria-hidden="true">
+          ╔══════════════════════════════════════════╗
+        </div>
+        <div>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+          <span className="px-4">
+            {"  "}Error loading standings. Try again.{"  "}
+          </span>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+        </div>
+        <div className="text-terminal-border" aria-hidden="true">
+          ╚══════════════════════════════════════════╝
+        </div>
+      </div>
+    );
+  }
+}
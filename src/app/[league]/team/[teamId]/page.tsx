@@ -0,0 +1,201 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { RefreshButton } from "@/components/scoreboards/RefreshButton";
+import { StandingsGroupDisplay } from "@/components/scoreboards/LeagueStandings";
+import { TeamRecordSummary, TeamScheduleDisplay } from "@/components/scoreboards/TeamSchedule";
+import { FavoriteButton } from "@/components/favorites";
+import { getESPNStandings } from "@/lib/api/espn";
+import { getTeamSchedule } from "@/lib/api/espn-team";
+import { LEAGUES, type GolfLeague, type League, type StandingsLeague } from "@/lib/types";
+
+interface TeamPageProps {
+  params: Promise<{ league: string; teamId: string }>;
+}
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://ascii-scores.vercel.app";
+
+// Only ESPN-based leagues have team pages
+const SUPPORTED_LEAGUES = ["nhl", "nfl", "nba", "mlb", "mls", "epl", "fa-cup", "ncaam", "ncaaw"];
+
+// Leagues with standings tables (the FA Cup is a knockout competition)
+const STANDINGS_LEAGUES = ["nhl", "nfl", "nba", "mlb", "mls", "epl", "ncaam", "ncaaw"];
+
+// Schedules change as games finish; keep pages fresh during game days
+export const revalidate = 300;
+
+export async function generateMetadata({ params }: TeamPageProps) {
+  const { league: leagueId, teamId } = await params;
+  const league = LEAGUES[leagueId as League];
+
+  if (!league || !SUPPORTED_LEAGUES.includes(leagueId)) {
+    return { title: "Team Not Found" };
+  }
+
+  const schedule = await getTeamSchedule(leagueId as Exclude<League, "f1" | GolfLeague>, teamId);
+
+  if (!schedule) {
+    return { title: `${league.name} Team | ASCII Scores` };
+  }
+
+  const { team } = schedule;
+  const title = `${team.displayName} Schedule - ${league.name}`;
+  const description = `${team.displayName} schedule, results and ${league.name} standings rendered in ASCII art style.`;
+  const url = `${SITE_URL}/${leagueId}/team/${teamId}`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: url,
+    },
+    openGraph: {
+      title: `${title} | ASCII Scores`,
+      description,
+      url,
+      siteName: "ASCII Scores",
+      type: "website",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${title} | ASCII Scores`,
+      description,
+    },
+  };
+}
+
+export default async function TeamPage({ params }: TeamPageProps) {
+  const { league: leagueId, teamId } = await params;
+
+  // Validate league
+  if (!SUPPORTED_LEAGUES.includes(leagueId)) {
+    notFound();
+  }
+
+  const league = LEAGUES[leagueId as League];
+  if (!league) {
+    notFound();
+  }
+
+  const schedule = await getTeamSchedule(leagueId as Exclude<League, "f1" | GolfLeague>, teamId);
+
+  if (!schedule) {
+    return (
+      <div className="mx-auto max-w-7xl px-4 py-8">
+        <div className="mb-6">
+          <Link
+            href={`/${leagueId}`}
+            className="font-mono text-sm text-terminal-muted hover:text-terminal-green transition-colors"
+          >
+            ◄ Back to {league.name} Scores
+          </Link>
+        </div>
+        <div className="overflow-x-auto">
+          <div className="font-mono text-center py-8 text-terminal-red inline-block min-w-full">
+            <div className="text-terminal-border" aria-hidden="true">
+              ╔══════════════════════════════════════════╗
+            </div>
+            <div>
+              <span className="text-terminal-border" aria-hidden="true">║</span>
+              <span className="px-4">
+                {"  "}Team not found or unavailable.{"  "}
+              </span>
+              <span className="text-terminal-border" aria-hidden="true">║</span>
+            </div>
+            <div className="text-terminal-border" aria-hidden="true">
+              ╚══════════════════════════════════════════╝
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { team } = schedule;
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8">
+      {/* Back link */}
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <Link
+          href={`/${leagueId}`}
+          className="font-mono text-sm text-terminal-muted hover:text-terminal-green transition-colors"
+        >
+          ◄ Back to {league.name} Scores
+        </Link>
+        <RefreshButton />
+      </div>
+
+      {/* Page header */}
+      <div className="mb-6">
+        <h1 className="font-mono text-2xl text-terminal-fg">
+          <FavoriteButton
+            league={schedule.league as Exclude<League, "f1" | GolfLeague>}
+            teamId={team.id}
+            abbreviation={team.abbreviation}
+            displayName={team.displayName}
+            className="text-lg mr-2"
+          />
+          <span className="text-terminal-border">[</span>
+          {team.abbreviation}
+          <span className="text-terminal-border">]</span>
+          {" "}
+          <span className="text-terminal-muted">{team.displayName}</span>
+        </h1>
+        <p className="text-terminal-muted font-mono text-sm mt-1">
+          {schedule.standingSummary ?? league.fullName}
+        </p>
+      </div>
+
+      {/* Record, splits and streak */}
+      <TeamRecordSummary schedule={schedule} />
+
+      {/* Standing group */}
+      {STANDINGS_LEAGUES.includes(leagueId) && (
+        <TeamStandingsContent league={leagueId as StandingsLeague} teamId={team.id} />
+      )}
+
+      {/* Season schedule */}
+      <TeamScheduleDisplay schedule={schedule} />
+    </div>
+  );
+}
+
+/**
+ * Server component showing the standings group the team plays in
+ * Prefers the team's division over its conference.
+ */
+async function TeamStandingsContent({
+  league,
+  teamId,
+}: {
+  league: StandingsLeague;
+  teamId: string;
+}) {
+  try {
+    const standings = await getESPNStandings(league);
+    const groups = standings.groups.filter((group) =>
+      group.entries.some((entry) => entry.team.id === teamId)
+    );
+    const group = groups.find((g) => g.level === "division") ?? groups[0];
+
+    if (!group) {
+      return null;
+    }
+
+    return (
+      <div className="mb-8 max-w-3xl">
+        <StandingsGroupDisplay group={group} league={league} highlightTeamId={teamId} />
+        <Link
+          href={`/${league}/standings`}
+          className="inline-block mt-2 font-mono text-xs text-terminal-cyan hover:text-terminal-green transition-colors"
+        >
+          [Full Standings]
+        </Link>
+      </div>
+    );
+  } catch (error) {
+    // Standings are secondary here; the schedule still renders
+    console.error(`Failed to fetch ${league} standings for team ${teamId}:`, error);
+    return null;
+  }
+}
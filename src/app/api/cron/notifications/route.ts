@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import type { Game, ScoringPlay } from "@/lib/types";
 import { getESPNScoreboard } from "@/lib/api/espn";
 import { getGameSummary } from "@/lib/api/espn-summary";
+import { getF1RaceWeekends, getF1SessionUpdates } from "@/lib/api/openf1";
 import {
   getActiveGames,
   getLeaguesNeedingPolling,
@@ -11,13 +12,30 @@ import {
   getGameSubscribers,
   getSubscription,
   cleanupFinishedGame,
+  getLeaguesWithTeamSubscriptions,
+  getSubscribedTeams,
+  getTeamSubscribers,
+  removeTeamSubscription,
+  addGameSubscription,
+  isTeamGameExpanded,
+  markTeamGameExpanded,
+  getActiveF1Weekends,
+  getF1WeekendSubscribers,
+  removeF1WeekendSubscription,
+  cleanupFinishedF1Weekend,
+  getF1SessionState,
+  saveF1SessionState,
   detectEvents,
   createInitialGameState,
+  detectF1Events,
+  createInitialF1SessionState,
   formatNotificationPayload,
   sendPushNotification,
   type NotificationLeague,
   type NotificationEvent,
   type EventPreferences,
+  type F1NotificationEvent,
+  type F1EventPreferences,
 } from "@/lib/notifications";
 
 // Verify cron secret to prevent unauthorized access
@@ -38,18 +56,91 @@ export async function GET(request: NextRequest) {
 
   try {
     const results = await processNotifications();
-    return NextResponse.json(results);
+    const f1 = await processF1Notifications();
+    return NextResponse.json({ ...results, f1 });
   } catch (error) {
     console.error("Error processing notifications:", error);
     return NextResponse.json({ error: "Failed to process notifications" }, { status: 500 });
   }
 }
 
+/**
+ * Expand team subscriptions into game subscriptions for today's games
+ * Runs before polling so newly expanded games are picked up in the same pass.
+ */
+async function expandTeamSubscriptions(): Promise<number> {
+  const leagues = await getLeaguesWithTeamSubscriptions();
+  let expanded = 0;
+
+  for (const league of leagues) {
+    const teamIds = new Set(await getSubscribedTeams(league));
+    if (teamIds.size === 0) continue;
+
+    let games: Game[];
+    try {
+      const scoreboard = await getESPNScoreboard(league);
+      games = scoreboard.games;
+    } catch (error) {
+      console.error(`Failed to fetch ${league} scoreboard for team subscriptions:`, error);
+      continue;
+    }
+
+    for (const game of games) {
+      // Finished games have nothing left to notify about
+      if (game.status === "final" || game.status === "postponed") continue;
+
+      for (const team of [game.homeTeam, game.awayTeam]) {
+        if (!teamIds.has(team.id)) continue;
+
+        const subscriberIds = await getTeamSubscribers(league, team.id);
+        for (const subscriberId of subscriberIds) {
+          const subscription = await getSubscription(subscriberId);
+          if (!subscription) {
+            // Subscription expired - stop expanding it
+            await removeTeamSubscription(subscriberId, league, team.id);
+            continue;
+          }
+
+          const teamSub = subscription.subscribedTeams?.find(
+            (t) => t.league === league && t.teamId === team.id
+          );
+          if (!teamSub) continue;
+
+          // Only expand once per game so a manual unsubscribe isn't undone
+          if (await isTeamGameExpanded(game.id, subscriberId)) continue;
+
+          // Already subscribed to this game from its card
+          if (subscription.subscribedGames.some((g) => g.gameId === game.id)) {
+            await markTeamGameExpanded(game.id, subscriberId);
+            continue;
+          }
+
+          await addGameSubscription(subscriberId, {
+            gameId: game.id,
+            league,
+            homeTeam: game.homeTeam.abbreviation,
+            awayTeam: game.awayTeam.abbreviation,
+            events: teamSub.events,
+            subscribedAt: new Date().toISOString(),
+            gameStartTime: game.startTime.toISOString(),
+          });
+          // Marked only once the subscription is saved, so a failed add is retried next run
+          await markTeamGameExpanded(game.id, subscriberId);
+          expanded++;
+        }
+      }
+    }
+  }
+
+  return expanded;
+}
+
 async function processNotifications() {
+  const gamesExpanded = await expandTeamSubscriptions();
   const activeGameIds = await getActiveGames();
 
   if (activeGameIds.length === 0) {
-    return { processed: 0, events: 0, notifications: 0, leaguesPolled: [] };
+    return { processed: 0, events: 0, notifications: 0, leaguesPolled: [], gamesExpanded };
   }
 
   // Determine which leagues need polling based on game schedules
@@ -62,6 +153,7 @@ async function processNotifications() {
       events: 0,
       notifications: 0,
       leaguesPolled: [],
+      gamesExpanded,
       skippedReason: "No games in polling window",
     };
   }
@@ -167,9 +259,141 @@ async function processNotifications() {
     events: totalEvents,
     notifications: totalNotifications,
     leaguesPolled: leaguesToPoll,
+    gamesExpanded,
+  };
+}
+
+// Buffer time before a session starts to begin polling (covers the starting-soon reminder)
+const F1_PRE_SESSION_BUFFER_MS = 30 * 60 * 1000;
+// Buffer time after a session starts to keep polling (races run up to 2 hours plus stoppages)
+const F1_POST_SESSION_BUFFER_MS = 4 * 60 * 60 * 1000;
+
+/**
+ * Poll subscribed F1 race weekends for session starts, flags and results
+ * Only sessions inside their polling window are fetched, and only the data events need.
+ */
+async function processF1Notifications() {
+  const weekendIds = await getActiveF1Weekends();
+
+  if (weekendIds.length === 0) {
+    return { weekends: 0, sessionsPolled: 0, events: 0, notifications: 0 };
+  }
+
+  const weekends = await getF1RaceWeekends();
+  if (weekends.length === 0) {
+    // Schedule unavailable - try again on the next run rather than dropping subscriptions
+    return { weekends: weekendIds.length, sessionsPolled: 0, events: 0, notifications: 0 };
+  }
+
+  const now = Date.now();
+  let sessionsPolled = 0;
+  let totalEvents = 0;
+  let totalNotifications = 0;
+
+  for (const weekendId of weekendIds) {
+    const weekend = weekends.find((w) => w.id === weekendId);
+
+    // No longer in the schedule window (subscriptions only accept weekends inside it)
+    if (!weekend) {
+      await cleanupFinishedF1Weekend(weekendId);
+      continue;
+    }
+
+    // Weekend is over - nothing left to notify about
+    if (now > weekend.endDate.getTime() + F1_POST_SESSION_BUFFER_MS) {
+      await cleanupFinishedF1Weekend(weekendId);
+      continue;
+    }
+
+    const sessionsToPoll = weekend.sessions.filter((session) => {
+      const startTime = session.startTime.getTime();
+      return now >= startTime - F1_PRE_SESSION_BUFFER_MS && now <= startTime + F1_POST_SESSION_BUFFER_MS;
+    });
+
+    if (sessionsToPoll.length === 0) continue;
+
+    const prevStates = new Map(
+      await Promise.all(
+        sessionsToPoll.map(async (session) => [session.id, await getF1SessionState(session.id)] as const)
+      )
+    );
+    // Races and sprints end on their first chequered flag - its results were already sent
+    const finishedSessionIds = new Set(
+      sessionsToPoll
+        .filter((session) => (prevStates.get(session.id)?.chequeredFlags ?? 0) > 0)
+        .map((session) => session.id)
+    );
+
+    let sessions;
+    try {
+      sessions = await getF1SessionUpdates(sessionsToPoll, finishedSessionIds);
+    } catch (error) {
+      // Keep the saved state and try again on the next run
+      console.warn(`Failed to poll F1 weekend ${weekendId}:`, error);
+      continue;
+    }
+
+    for (const session of sessions) {
+      sessionsPolled++;
+
+      const prevState = prevStates.get(session.id);
+
+      let events: F1NotificationEvent[] = [];
+      if (prevState) {
+        events = detectF1Events(prevState, session, weekend, now);
+      }
+
+      // Save current state (remembering the reminder so it's only sent once)
+      const reminderSent =
+        (prevState?.reminderSent ?? false) || events.some((event) => event.type === "sessionStart");
+      await saveF1SessionState(createInitialF1SessionState(session, weekendId, reminderSent));
+
+      if (events.length === 0) continue;
+      totalEvents += events.length;
+
+      const subscribers = await getF1WeekendSubscribers(weekendId);
+
+      for (const event of events) {
+        const payload = formatNotificationPayload(event);
+
+        for (const subscriberId of subscribers) {
+          const subscription = await getSubscription(subscriberId);
+          if (!subscription) {
+            // Subscription expired - stop notifying it
+            await removeF1WeekendSubscription(subscriberId, weekendId);
+            continue;
+          }
+
+          // Find the weekend subscription to check event preferences
+          const weekendSub = subscription.subscribedF1Weekends?.find((w) => w.weekendId === weekendId);
+          if (!weekendSub) continue;
+
+          if (!shouldSendF1Notification(event.type, weekendSub.events)) continue;
+
+          const result = await sendPushNotification(subscription.pushSubscription, payload);
+          if (result.success) {
+            totalNotifications++;
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    weekends: weekendIds.length,
+    sessionsPolled,
+    events: totalEvents,
+    notifications: totalNotifications,
   };
 }
 
+function shouldSendF1Notification(
+  eventType: F1NotificationEvent["type"],
+  preferences: F1EventPreferences
+): boolean {
+  return preferences[eventType] ?? false;
+}
+
 function shouldSendNotification(
   eventType: NotificationEvent["type"],
   preferences: EventPreferences
@@ -0,0 +1,84 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getSubscription } from "@/lib/notifications";
+import {
+  getFavorites,
+  saveFavorites,
+  supportsFavorites,
+  MAX_FAVORITES,
+  type FavoriteTeam,
+} from "@/lib/favorites";
+
+interface FavoritesRequestBody {
+  subscriptionId: string;
+  favorites: FavoriteTeam[];
+}
+
+/**
+ * Check that a value from the request body is a well-formed favorite
+ */
+function isFavoriteTeam(value: unknown): value is FavoriteTeam {
+  if (!value || typeof value !== "object") return false;
+  const team = value as Record<string, unknown>;
+  return (
+    typeof team.league === "string" &&
+    supportsFavorites(team.league) &&
+    typeof team.teamId === "string" &&
+    typeof team.abbreviation === "string" &&
+    typeof team.displayName === "string"
+  );
+}
+
+/**
+ * Get favorites synced for a notification subscription
+ * GET /api/favorites?subscriptionId=...
+ */
+export async function GET(request: NextRequest) {
+  const subscriptionId = request.nextUrl.searchParams.get("subscriptionId");
+  if (!subscriptionId) {
+    return NextResponse.json({ error: "Missing subscriptionId" }, { status: 400 });
+  }
+
+  try {
+    const favorites = await getFavorites(subscriptionId);
+    return NextResponse.json({ favorites });
+  } catch (error) {
+    console.error("Error loading favorites:", error);
+    return NextResponse.json({ error: "Failed to load favorites" }, { status: 500 });
+  }
+}
+
+/**
+ * Replace favorites synced for a notification subscription
+ * PUT /api/favorites
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = (await request.json()) as FavoritesRequestBody;
+
+    // Validate required fields
+    if (!body.subscriptionId || !Array.isArray(body.favorites)) {
+      return NextResponse.json(
+        { error: "Missing subscriptionId or favorites" },
+        { status: 400 }
+      );
+    }
+
+    if (body.favorites.length > MAX_FAVORITES || !body.favorites.every(isFavoriteTeam)) {
+      return NextResponse.json({ error: "Invalid favorites" }, { status: 400 });
+    }
+
+    // Only sync for subscriptions we know about
+    const subscription = await getSubscription(body.subscriptionId);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    await saveFavorites(body.subscriptionId, body.favorites);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error saving favorites:", error);
+    return NextResponse.json({ error: "Failed to save favorites" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { getF1RaceWeekends } from "@/lib/api/openf1";
+import {
+  getOrCreateSubscription,
+  addF1WeekendSubscription,
+  type F1WeekendSubscription,
+  type F1EventPreferences,
+  DEFAULT_F1_EVENT_PREFERENCES,
+} from "@/lib/notifications";
+
+interface F1SubscribeRequestBody {
+  subscriptionId?: string;
+  pushSubscription: PushSubscriptionJSON;
+  weekendId: string;
+  weekendName: string;
+  events?: Partial<F1EventPreferences>;
+}
+
+/**
+ * Subscribe to notifications for every session of an F1 race weekend
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as F1SubscribeRequestBody;
+
+    // Validate required fields
+    if (!body.pushSubscription?.endpoint) {
+      return NextResponse.json({ error: "Missing push subscription" }, { status: 400 });
+    }
+
+    if (!body.weekendId || !body.weekendName) {
+      return NextResponse.json({ error: "Missing race weekend information" }, { status: 400 });
+    }
+
+    // Only weekends the notifications cron can poll (known and not yet over)
+    const weekends = await getF1RaceWeekends();
+    const weekend = weekends.find((w) => w.id === body.weekendId);
+    if (!weekend || weekend.endDate.getTime() < Date.now()) {
+      return NextResponse.json({ error: "Race weekend not found or already finished" }, { status: 400 });
+    }
+
+    // Find existing subscription or create a new one
+    const subscription = await getOrCreateSubscription(body.subscriptionId, body.pushSubscription);
+
+    // Create weekend subscription with merged event preferences
+    const weekendSubscription: F1WeekendSubscription = {
+      weekendId: body.weekendId,
+      weekendName: body.weekendName,
+      events: {
+        ...DEFAULT_F1_EVENT_PREFERENCES,
+        ...body.events,
+      },
+      subscribedAt: new Date().toISOString(),
+    };
+
+    await addF1WeekendSubscription(subscription.id, weekendSubscription);
+
+    return NextResponse.json({
+      success: true,
+      subscriptionId: subscription.id,
+      weekendSubscription,
+    });
+  } catch (error) {
+    console.error("Error subscribing to F1 notifications:", error);
+    return NextResponse.json({ error: "Failed to subscribe" }, { status: 500 });
+  }
+}
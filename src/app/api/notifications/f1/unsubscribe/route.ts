@@ -0,0 +1,32 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { removeF1WeekendSubscription, getSubscription } from "@/lib/notifications";
+
+interface F1UnsubscribeRequestBody {
+  subscriptionId: string;
+  weekendId: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as F1UnsubscribeRequestBody;
+
+    // Validate required fields
+    if (!body.subscriptionId || !body.weekendId) {
+      return NextResponse.json({ error: "Missing subscriptionId or weekendId" }, { status: 400 });
+    }
+
+    // Verify subscription exists
+    const subscription = await getSubscription(body.subscriptionId);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    await removeF1WeekendSubscription(body.subscriptionId, body.weekendId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unsubscribing from F1 notifications:", error);
+    return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+  }
+}
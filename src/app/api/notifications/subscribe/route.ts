@@ -1,12 +1,9 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { v4 as uuidv4 } from "uuid";
 import {
-  saveSubscription,
-  getSubscription,
+  getOrCreateSubscription,
   addGameSubscription,
   supportsNotifications,
-  type NotificationSubscription,
   type NotificationLeague,
   type GameSubscription,
   type EventPreferences,
@@ -45,29 +42,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let subscription: NotificationSubscription | null = null;
-
-    // Try to find existing subscription
-    if (body.subscriptionId) {
-      subscription = await getSubscription(body.subscriptionId);
-    }
-
-    // Create new subscription if not found, otherwise update it
-    const subscriptionId = subscription?.id ?? uuidv4();
-    if (!subscription) {
-      subscription = {
-        id: subscriptionId,
-        pushSubscription: body.pushSubscription,
-        subscribedGames: [],
-        createdAt: new Date().toISOString(),
-        lastSeen: new Date().toISOString(),
-      };
-      await saveSubscription(subscription);
-    } else {
-      // Update push subscription in case it changed
-      subscription.pushSubscription = body.pushSubscription;
-      await saveSubscription(subscription);
-    }
+    // Find existing subscription or create a new one
+    const subscription = await getOrCreateSubscription(body.subscriptionId, body.pushSubscription);
+    const subscriptionId = subscription.id;
 
     // Create game subscription with merged event preferences
     const gameSubscription: GameSubscription = {
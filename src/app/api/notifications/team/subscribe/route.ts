@@ -0,0 +1,73 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import {
+  getOrCreateSubscription,
+  addTeamSubscription,
+  supportsNotifications,
+  type NotificationLeague,
+  type TeamSubscription,
+  type EventPreferences,
+  DEFAULT_EVENT_PREFERENCES,
+} from "@/lib/notifications";
+import type { League } from "@/lib/types";
+
+interface TeamSubscribeRequestBody {
+  subscriptionId?: string;
+  pushSubscription: PushSubscriptionJSON;
+  league: NotificationLeague;
+  teamId: string;
+  teamAbbreviation: string;
+  events?: Partial<EventPreferences>;
+}
+
+/**
+ * Subscribe to notifications for every game of a team
+ * The notifications cron turns this into per-game subscriptions on game days.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as TeamSubscribeRequestBody;
+
+    // Validate required fields
+    if (!body.pushSubscription?.endpoint) {
+      return NextResponse.json({ error: "Missing push subscription" }, { status: 400 });
+    }
+
+    if (!body.league || !body.teamId || !body.teamAbbreviation) {
+      return NextResponse.json({ error: "Missing team information" }, { status: 400 });
+    }
+
+    if (!supportsNotifications(body.league as League)) {
+      return NextResponse.json(
+        { error: "Notifications not supported for this league" },
+        { status: 400 }
+      );
+    }
+
+    // Find existing subscription or create a new one
+    const subscription = await getOrCreateSubscription(body.subscriptionId, body.pushSubscription);
+
+    // Create team subscription with merged event preferences
+    const teamSubscription: TeamSubscription = {
+      league: body.league,
+      teamId: body.teamId,
+      teamAbbreviation: body.teamAbbreviation,
+      events: {
+        ...DEFAULT_EVENT_PREFERENCES,
+        ...body.events,
+      },
+      subscribedAt: new Date().toISOString(),
+    };
+
+    await addTeamSubscription(subscription.id, teamSubscription);
+
+    return NextResponse.json({
+      success: true,
+      subscriptionId: subscription.id,
+      teamSubscription,
+    });
+  } catch (error) {
+    console.error("Error subscribing to team notifications:", error);
+    return NextResponse.json({ error: "Failed to subscribe" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import {
+  removeTeamSubscription,
+  getSubscription,
+  type NotificationLeague,
+} from "@/lib/notifications";
+
+interface TeamUnsubscribeRequestBody {
+  subscriptionId: string;
+  league: NotificationLeague;
+  teamId: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as TeamUnsubscribeRequestBody;
+
+    // Validate required fields
+    if (!body.subscriptionId || !body.league || !body.teamId) {
+      return NextResponse.json(
+        { error: "Missing subscriptionId, league or teamId" },
+        { status: 400 }
+      );
+    }
+
+    // Verify subscription exists
+    const subscription = await getSubscription(body.subscriptionId);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    // Remove team subscription (games already expanded for today stay subscribed)
+    await removeTeamSubscription(body.subscriptionId, body.league, body.teamId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unsubscribing from team notifications:", error);
+    return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+  }
+}
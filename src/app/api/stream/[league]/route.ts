@@ -0,0 +1,133 @@
+import type { NextRequest } from "next/server";
+import { getESPNScoreboard } from "@/lib/api/espn";
+import { diffScoreboards, getFullPatch, type LiveScoresMessage } from "@/lib/live-scores";
+import { LEAGUES, isGolfLeague, type GolfLeague, type League, type Scoreboard } from "@/lib/types";
+
+// Streams stay open for minutes, so never prerender or cache this route
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+// How often to re-read the scoreboard (ESPN responses are cached for 30s)
+const POLL_INTERVAL_MS = 15_000;
+
+// Close before the function timeout; EventSource reconnects on its own
+const STREAM_DURATION_MS = 270_000;
+
+// Tell EventSource how long to wait before reconnecting
+const RETRY_MS = 5_000;
+
+/**
+ * Format a server-sent event
+ */
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Whether a scoreboard can still change today
+ */
+function hasPendingGames(scoreboard: Scoreboard): boolean {
+  return scoreboard.games.some(
+    (game) => game.status === "live" || game.status === "scheduled" || game.status === "delayed"
+  );
+}
+
+/**
+ * Live score stream for today's scoreboard
+ * GET /api/stream/[league]?game=ID
+ *
+ * Events:
+ * - `patch`: changed live fields per game ({@link LiveScoresMessage}); the first one has every game
+ * - `done`: no live or upcoming games left, so the client should stop listening
+ * Comment lines are sent as keep-alives when nothing changed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ league: string }> }
+) {
+  const { league: leagueId } = await params;
+  const gameId = request.nextUrl.searchParams.get("game");
+
+  if (!Object.keys(LEAGUES).includes(leagueId) || leagueId === "f1" || isGolfLeague(leagueId)) {
+    return new Response("Unknown league", { status: 404 });
+  }
+
+  const league = leagueId as Exclude<League, "f1" | GolfLeague>;
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const startedAt = Date.now();
+      let prev: Scoreboard | null = null;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(timer);
+        controller.close();
+      };
+
+      request.signal.addEventListener("abort", close);
+      controller.enqueue(encoder.encode(`retry: ${RETRY_MS}\n\n`));
+
+      const poll = async () => {
+        if (closed) return;
+
+        try {
+          const scoreboard = await getESPNScoreboard(league);
+          const games = gameId
+            ? scoreboard.games.filter((game) => game.id === gameId)
+            : scoreboard.games;
+          const snapshot = { ...scoreboard, games };
+
+          const patches = prev ? diffScoreboards(prev, snapshot) : games.map(getFullPatch);
+          prev = snapshot;
+
+          if (closed) return;
+          if (patches.length > 0) {
+            const message: LiveScoresMessage = {
+              games: patches,
+              lastUpdated: scoreboard.lastUpdated.toISOString(),
+            };
+            controller.enqueue(encoder.encode(formatEvent("patch", message)));
+          } else {
+            controller.enqueue(encoder.encode(": keep-alive\n\n"));
+          }
+
+          if (!hasPendingGames(snapshot)) {
+            controller.enqueue(encoder.encode(formatEvent("done", {})));
+            close();
+            return;
+          }
+        } catch (error) {
+          // Keep the stream open; the next poll may succeed
+          console.error(`Failed to poll ${league} scoreboard for stream:`, error);
+        }
+
+        if (Date.now() - startedAt >= STREAM_DURATION_MS) {
+          close();
+          return;
+        }
+
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      };
+
+      poll();
+    },
+    cancel() {
+      // Client disconnected
+      closed = true;
+      clearTimeout(timer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import type { NextRequest } from "next/server";
+import { getESPNScoreboard } from "@/lib/api/espn";
+import { renderScoreboardText } from "@/lib/ascii/scoreboard";
+import { LEAGUES, isGolfLeague, type GolfLeague, type League } from "@/lib/types";
+import { parseDateFromAPI } from "@/lib/utils/format";
+import { shouldUseColor } from "@/lib/utils/terminal";
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://ascii-scores.vercel.app";
+
+const TEXT_HEADERS = {
+  "Content-Type": "text/plain; charset=utf-8",
+  Vary: "Accept, User-Agent",
+};
+
+/**
+ * Plain-text scoreboard for terminals
+ * GET /api/text/[league]?date=YYYYMMDD&color=0|1
+ *
+ * Also served for /[league] when the client is curl/wget or asks for text/plain
+ * (see src/proxy.ts), so `watch curl ascii-scores.vercel.app/nhl` works.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ league: string }> }
+) {
+  const { league: leagueId } = await params;
+  const { searchParams } = request.nextUrl;
+
+  if (!Object.keys(LEAGUES).includes(leagueId)) {
+    return new Response(`Unknown league: ${leagueId}\n`, { status: 404, headers: TEXT_HEADERS });
+  }
+
+  if (leagueId === "f1" || isGolfLeague(leagueId)) {
+    return new Response(
+      `Plain-text output is not available for ${LEAGUES[leagueId as League].name} yet\n`,
+      { status: 404, headers: TEXT_HEADERS }
+    );
+  }
+
+  const dateParam = searchParams.get("date");
+  const date = dateParam ? parseDateFromAPI(dateParam) : null;
+  if (dateParam && !date) {
+    return new Response("Invalid date, expected YYYYMMDD\n", { status: 400, headers: TEXT_HEADERS });
+  }
+
+  try {
+    const scoreboard = await getESPNScoreboard(
+      leagueId as Exclude<League, "f1" | GolfLeague>,
+      date ?? undefined
+    );
+    const body = renderScoreboardText(scoreboard, {
+      color: shouldUseColor(searchParams.get("color"), request.headers),
+      siteUrl: SITE_URL,
+    });
+
+    return new Response(body, {
+      headers: {
+        ...TEXT_HEADERS,
+        "Cache-Control": "public, s-maxage=30, stale-while-revalidate=30",
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to render ${leagueId} text scoreboard:`, error);
+    return new Response("Error loading scoreboard. Try again.\n", { status: 502, headers: TEXT_HEADERS });
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextRequest } from "next/server";
+import { getGameSummary } from "@/lib/api/espn-summary";
+import { apiError, apiOptions, apiResponse, parseESPNLeague } from "@/lib/utils/api-v1";
+
+/**
+ * Game detail (box score, scoring plays, leaders)
+ * GET /api/v1/[league]/games/[id] → GameSummary
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ league: string; id: string }> }
+) {
+  const { league: leagueId, id } = await params;
+  const league = parseESPNLeague(leagueId);
+  if (!league) {
+    return apiError(`Unknown league: ${leagueId}`, 404);
+  }
+
+  if (!/^\d+$/.test(id)) {
+    return apiError("Invalid game ID", 400);
+  }
+
+  try {
+    const summary = await getGameSummary(league, id);
+    if (!summary) {
+      return apiError(`Game not found: ${id}`, 404);
+    }
+
+    return apiResponse(request, summary, summary.game.status === "final" ? "archive" : "live");
+  } catch (error) {
+    console.error(`Failed to fetch ${league} game ${id} for API:`, error);
+    return apiError("Failed to load game", 502);
+  }
+}
+
+export function OPTIONS() {
+  return apiOptions();
+}
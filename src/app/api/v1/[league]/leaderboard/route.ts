@@ -0,0 +1,38 @@
+import type { NextRequest } from "next/server";
+import { getGolfLeaderboard } from "@/lib/api/golf";
+import { isGolfLeague } from "@/lib/types";
+import { apiError, apiOptions, apiResponse } from "@/lib/utils/api-v1";
+
+/**
+ * Golf tour leaderboard (current tournament by default)
+ * GET /api/v1/[league]/leaderboard?event=ID → GolfLeaderboard
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ league: string }> }
+) {
+  const { league: leagueId } = await params;
+  if (!isGolfLeague(leagueId)) {
+    return apiError(`Leaderboards are not available for league: ${leagueId}`, 404);
+  }
+
+  const eventId = request.nextUrl.searchParams.get("event");
+  if (eventId && !/^\d+$/.test(eventId)) {
+    return apiError("Invalid event ID", 400);
+  }
+
+  try {
+    const leaderboard = await getGolfLeaderboard(leagueId, eventId ?? undefined);
+    // Only a specific past event is final; the default points at whatever is current
+    const isArchived = !!eventId && leaderboard.tournament?.status === "completed";
+
+    return apiResponse(request, leaderboard, isArchived ? "archive" : "live");
+  } catch (error) {
+    console.error(`Failed to fetch ${leagueId} leaderboard for API:`, error);
+    return apiError("Failed to load leaderboard", 502);
+  }
+}
+
+export function OPTIONS() {
+  return apiOptions();
+}
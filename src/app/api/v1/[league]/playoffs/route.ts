@@ -0,0 +1,41 @@
+import type { NextRequest } from "next/server";
+import { getPlayoffBracket } from "@/lib/api/espn-playoffs";
+import { isPlayoffLeague } from "@/lib/types/playoffs";
+import { apiError, apiOptions, apiResponse } from "@/lib/utils/api-v1";
+
+/**
+ * Playoff bracket for a season
+ * GET /api/v1/[league]/playoffs?year=YYYY → PlayoffBracket
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ league: string }> }
+) {
+  const { league: leagueId } = await params;
+  if (!isPlayoffLeague(leagueId)) {
+    return apiError(`Playoff brackets are not available for league: ${leagueId}`, 404);
+  }
+
+  const yearParam = request.nextUrl.searchParams.get("year");
+  const year = yearParam ? parseInt(yearParam, 10) : undefined;
+  if (yearParam && (!/^\d{4}$/.test(yearParam) || !year)) {
+    return apiError("Invalid year, expected YYYY", 400);
+  }
+
+  try {
+    const bracket = await getPlayoffBracket(leagueId, year);
+    // Finished postseasons won't change again
+    const isComplete =
+      bracket.matchups.length > 0 &&
+      bracket.matchups.every((matchup) => matchup.isBye || matchup.topTeam?.isWinner !== undefined);
+
+    return apiResponse(request, bracket, isComplete ? "archive" : "standard");
+  } catch (error) {
+    console.error(`Failed to fetch ${leagueId} playoff bracket for API:`, error);
+    return apiError("Failed to load playoff bracket", 502);
+  }
+}
+
+export function OPTIONS() {
+  return apiOptions();
+}
@@ -0,0 +1,41 @@
+import type { NextRequest } from "next/server";
+import { getESPNScoreboard, getTodayForLeague } from "@/lib/api/espn";
+import { formatDateForAPI, parseDateFromAPI } from "@/lib/utils/format";
+import { apiError, apiOptions, apiResponse, parseESPNLeague } from "@/lib/utils/api-v1";
+
+/**
+ * Scoreboard for a day
+ * GET /api/v1/[league]/scoreboard?date=YYYYMMDD → Scoreboard
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ league: string }> }
+) {
+  const { league: leagueId } = await params;
+  const league = parseESPNLeague(leagueId);
+  if (!league) {
+    return apiError(`Unknown league: ${leagueId}`, 404);
+  }
+
+  const dateParam = request.nextUrl.searchParams.get("date");
+  const date = dateParam ? parseDateFromAPI(dateParam) : null;
+  if (dateParam && !date) {
+    return apiError("Invalid date, expected YYYYMMDD", 400);
+  }
+
+  try {
+    const scoreboard = await getESPNScoreboard(league, date ?? undefined);
+
+    // Past days won't change again
+    const isPast = !!date && formatDateForAPI(date) < formatDateForAPI(getTodayForLeague(league));
+
+    return apiResponse(request, scoreboard, isPast ? "archive" : "live");
+  } catch (error) {
+    console.error(`Failed to fetch ${league} scoreboard for API:`, error);
+    return apiError("Failed to load scoreboard", 502);
+  }
+}
+
+export function OPTIONS() {
+  return apiOptions();
+}
@@ -0,0 +1,45 @@
+import type { NextRequest } from "next/server";
+import { getESPNStandings } from "@/lib/api/espn";
+import { getF1Standings } from "@/lib/api/openf1";
+import { apiError, apiOptions, apiResponse, parseESPNLeague } from "@/lib/utils/api-v1";
+
+/**
+ * League standings
+ * GET /api/v1/[league]/standings → LeagueStandings (F1: F1Standings)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ league: string }> }
+) {
+  const { league: leagueId } = await params;
+
+  if (leagueId === "f1") {
+    try {
+      const standings = await getF1Standings();
+      if (!standings) {
+        return apiError("No F1 standings available", 404);
+      }
+      return apiResponse(request, standings, "standard");
+    } catch (error) {
+      console.error("Failed to fetch F1 standings for API:", error);
+      return apiError("Failed to load standings", 502);
+    }
+  }
+
+  const league = parseESPNLeague(leagueId);
+  if (!league || league === "fa-cup") {
+    return apiError(`Standings are not available for league: ${leagueId}`, 404);
+  }
+
+  try {
+    const standings = await getESPNStandings(league);
+    return apiResponse(request, standings, "standard");
+  } catch (error) {
+    console.error(`Failed to fetch ${league} standings for API:`, error);
+    return apiError("Failed to load standings", 502);
+  }
+}
+
+export function OPTIONS() {
+  return apiOptions();
+}
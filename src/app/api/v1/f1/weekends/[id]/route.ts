@@ -0,0 +1,33 @@
+import type { NextRequest } from "next/server";
+import { getF1RaceWeekendById, getF1RaceWeekendSessions } from "@/lib/api/openf1";
+import { apiError, apiOptions, apiResponse } from "@/lib/utils/api-v1";
+
+/**
+ * A single F1 race weekend with full session results
+ * GET /api/v1/f1/weekends/[id] → F1RaceWeekend (sessions include drivers)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const weekend = await getF1RaceWeekendById(id);
+    if (!weekend) {
+      return apiError(`Race weekend not found: ${id}`, 404);
+    }
+
+    const sessions = await getF1RaceWeekendSessions(id);
+    const isFinished = sessions.length > 0 && sessions.every((session) => session.status === "final");
+
+    return apiResponse(request, { ...weekend, sessions }, isFinished ? "archive" : "live");
+  } catch (error) {
+    console.error(`Failed to fetch F1 race weekend ${id} for API:`, error);
+    return apiError("Failed to load race weekend", 502);
+  }
+}
+
+export function OPTIONS() {
+  return apiOptions();
+}
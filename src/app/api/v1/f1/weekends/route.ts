@@ -0,0 +1,21 @@
+import type { NextRequest } from "next/server";
+import { getF1RaceWeekends } from "@/lib/api/openf1";
+import { apiError, apiOptions, apiResponse } from "@/lib/utils/api-v1";
+
+/**
+ * F1 race weekends from the past year and the next 30 days
+ * GET /api/v1/f1/weekends → F1RaceWeekend[] (sessions without driver data)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const weekends = await getF1RaceWeekends();
+    return apiResponse(request, weekends, "standard");
+  } catch (error) {
+    console.error("Failed to fetch F1 race weekends for API:", error);
+    return apiError("Failed to load race weekends", 502);
+  }
+}
+
+export function OPTIONS() {
+  return apiOptions();
+}
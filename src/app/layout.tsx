@@ -2,6 +2,7 @@ import type { Metadata, Viewport } from "next";
 import { Analytics } from "@vercel/analytics/next";
 import { ThemeProvider } from "@/components/layout";
 import { NotificationProvider } from "@/components/notifications";
+import { FavoritesProvider } from "@/components/favorites";
 import { ToastProvider } from "@/components/ui/Toast";
 import { RootJsonLd } from "@/components/seo";
 import "./globals.css";
@@ -101,12 +102,14 @@ export default function RootLayout({
         <ThemeProvider>
           <ToastProvider>
           <NotificationProvider>
+          <FavoritesProvider>
             <a href="#main-content" className="skip-to-content font-mono">
               [SKIP TO CONTENT]
             </a>
             <div className="flex min-h-screen flex-col" id="main-content" tabIndex={-1}>
               {children}
             </div>
+          </FavoritesProvider>
           </NotificationProvider>
           </ToastProvider>
         </ThemeProvider>
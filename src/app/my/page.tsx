@@ -0,0 +1,284 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { GameCard } from "@/components/scoreboards/GameCard";
+import { RefreshButton } from "@/components/scoreboards/RefreshButton";
+import {
+  FavoriteStandings,
+  MyTeamsSync,
+  type FavoriteStandingsRow,
+} from "@/components/favorites";
+import { getESPNScoreboard, getESPNStandings } from "@/lib/api/espn";
+import {
+  getFavoriteKey,
+  parseFavoritesParam,
+  FAVORITE_SUPPORTED_LEAGUES,
+  type FavoriteLeague,
+} from "@/lib/favorites/types";
+import { LEAGUES, type Game, type LeagueStandings, type StandingsLeague } from "@/lib/types";
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://ascii-scores.vercel.app";
+
+export const metadata: Metadata = {
+  title: "My Teams",
+  description: "Today's games and standings for the teams you follow, rendered in ASCII art style.",
+  alternates: {
+    canonical: `${SITE_URL}/my`,
+  },
+  openGraph: {
+    title: "My Teams | ASCII Scores",
+    description: "Today's games and standings for the teams you follow.",
+    url: `${SITE_URL}/my`,
+    siteName: "ASCII Scores",
+    type: "website",
+    images: [
+      {
+        url: "/og-image.png",
+        width: 1200,
+        height: 630,
+        alt: "My Teams - ASCII Scores",
+      },
+    ],
+  },
+  twitter: {
+    card: "summary_large_image",
+    title: "My Teams | ASCII Scores",
+    description: "Today's games and standings for the teams you follow.",
+    images: ["/og-image.png"],
+  },
+};
+
+interface MyTeamsPageProps {
+  searchParams: Promise<{ teams?: string }>;
+}
+
+// Live games first, then upcoming, then finished
+const STATUS_ORDER: Record<Game["status"], number> = {
+  live: 0,
+  scheduled: 1,
+  delayed: 2,
+  final: 3,
+  postponed: 4,
+};
+
+export default async function MyTeamsPage({ searchParams }: MyTeamsPageProps) {
+  const { teams: teamsParam } = await searchParams;
+  const teams = parseFavoritesParam(teamsParam);
+
+  return (
+    <>
+      <Header activeLeague="my" />
+      <main className="flex-1">
+        <MyTeamsSync teamsParam={teamsParam ?? null} />
+        <div className="mx-auto max-w-7xl px-4 py-8">
+          {/* Page header */}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+            <div>
+              <h1 className="font-mono text-2xl text-terminal-fg">
+                <span className="text-terminal-border">[</span>
+                <span className="text-terminal-yellow">★</span> MY
+                <span className="text-terminal-border">]</span>
+                {" "}
+                <span className="text-terminal-muted">Teams</span>
+              </h1>
+              <p className="text-terminal-muted font-mono text-sm mt-1">
+                Today&apos;s games and standings for teams you follow
+              </p>
+            </div>
+            {teams.length > 0 && <RefreshButton />}
+          </div>
+
+          {teams.length === 0 ? (
+            <EmptyState />
+          ) : (
+            <MyTeamsContent teams={teams} />
+          )}
+        </div>
+      </main>
+      <Footer />
+    </>
+  );
+}
+
+/**
+ * Shown when no teams are followed yet
+ */
+function EmptyState() {
+  return (
+    <div className="font-mono text-center py-8">
+      <div className="text-terminal-border" aria-hidden="true">
+        ╔═══════════════════════════════════════════════╗
+      </div>
+      <div>
+        <span className="text-terminal-border" aria-hidden="true">║</span>
+        <span className="text-terminal-muted px-4">
+          {"  "}No teams followed yet{"  "}
+        </span>
+        <span className="text-terminal-border" aria-hidden="true">║</span>
+      </div>
+      <div className="text-terminal-border" aria-hidden="true">
+        ╚═══════════════════════════════════════════════╝
+      </div>
+      <p className="text-terminal-muted text-sm mt-4">
+        Tap <span className="text-terminal-yellow">☆</span> next to a team on any scoreboard or
+        standings page to add it here.
+      </p>
+      <div className="flex flex-wrap justify-center gap-2 mt-4 text-xs">
+        {FAVORITE_SUPPORTED_LEAGUES.map((league) => (
+          <Link
+            key={league}
+            href={`/${league}`}
+            className="px-2 py-1 border border-terminal-border text-terminal-cyan hover:bg-terminal-green/10 hover:text-terminal-green transition-colors rounded"
+          >
+            {LEAGUES[league].name}
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Find a team's standings row, preferring its division over its conference
+ */
+function findStandingsRow(
+  standings: LeagueStandings,
+  teamId: string
+): FavoriteStandingsRow | null {
+  let fallback: FavoriteStandingsRow | null = null;
+
+  for (const group of standings.groups) {
+    const index = group.entries.findIndex((entry) => entry.team.id === teamId);
+    if (index < 0) continue;
+
+    const row = { entry: group.entries[index], groupName: group.name, position: index + 1 };
+    if (group.level === "division") return row;
+    fallback ??= row;
+  }
+
+  return fallback;
+}
+
+/**
+ * Games and standings for followed teams, fetched per league in parallel
+ */
+async function MyTeamsContent({
+  teams,
+}: {
+  teams: { league: FavoriteLeague; teamId: string }[];
+}) {
+  const leagues = [...new Set(teams.map((team) => team.league))];
+  const favoriteKeys = new Set(teams.map((team) => getFavoriteKey(team.league, team.teamId)));
+
+  const results = await Promise.all(
+    leagues.map(async (league) => {
+      const [scoreboard, standings] = await Promise.allSettled([
+        getESPNScoreboard(league),
+        // Cups have no league table
+        league === "fa-cup" ? Promise.resolve(null) : getESPNStandings(league),
+      ]);
+
+      if (scoreboard.status === "rejected") {
+        console.error(`Failed to fetch ${league} scoreboard:`, scoreboard.reason);
+      }
+      if (standings.status === "rejected") {
+        console.error(`Failed to fetch ${league} standings:`, standings.reason);
+      }
+
+      const games =
+        scoreboard.status === "fulfilled"
+          ? scoreboard.value.games.filter(
+              (game) =>
+                favoriteKeys.has(getFavoriteKey(league, game.homeTeam.id)) ||
+                favoriteKeys.has(getFavoriteKey(league, game.awayTeam.id))
+            )
+          : [];
+
+      const table = standings.status === "fulfilled" ? standings.value : null;
+      const rows = table
+        ? teams
+            .filter((team) => team.league === league)
+            .map((team) => findStandingsRow(table, team.teamId))
+            .filter((row): row is FavoriteStandingsRow => row !== null)
+        : [];
+
+      return {
+        league,
+        games,
+        rows,
+        failed: scoreboard.status === "rejected" && standings.status === "rejected",
+      };
+    })
+  );
+
+  const games = results
+    .flatMap((result) => result.games)
+    .sort(
+      (a, b) =>
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        a.startTime.getTime() - b.startTime.getTime()
+    );
+  const failedLeagues = results.filter((result) => result.failed).map((result) => result.league);
+
+  return (
+    <div className="space-y-10 font-mono">
+      {failedLeagues.length > 0 && (
+        <p className="text-terminal-red text-sm">
+          <span className="text-terminal-border">[</span>!<span className="text-terminal-border">]</span>
+          {" "}Error loading {failedLeagues.map((league) => LEAGUES[league].name).join(", ")}. Try again.
+        </p>
+      )}
+
+      {/* Today's games */}
+      <section aria-label="Today's games">
+        <h2 className="text-terminal-cyan text-sm mb-4">
+          <span className="text-terminal-border">═══</span> ◈ TODAY ({games.length}){" "}
+          <span className="text-terminal-border">═══</span>
+        </h2>
+        {games.length > 0 ? (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {games.map((game) => (
+              <GameCard key={`${game.league}-${game.id}`} game={game} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-terminal-muted text-sm">No games today for your teams.</p>
+        )}
+      </section>
+
+      {/* Standings rows per league */}
+      <section aria-label="Standings">
+        <h2 className="text-terminal-cyan text-sm mb-4">
+          <span className="text-terminal-border">═══</span> ◇ STANDINGS{" "}
+          <span className="text-terminal-border">═══</span>
+        </h2>
+        <div className="space-y-6">
+          {results
+            .filter(
+              (result): result is typeof result & { league: StandingsLeague } =>
+                result.league !== "fa-cup" && result.rows.length > 0
+            )
+            .map((result) => (
+              <div key={result.league}>
+                <h3 className="text-terminal-cyan text-sm mb-2">
+                  <Link
+                    href={`/${result.league}/standings`}
+                    className="hover:text-terminal-green transition-colors"
+                  >
+                    <span className="text-terminal-border">[</span>
+                    {LEAGUES[result.league].name}
+                    <span className="text-terminal-border">]</span>
+                  </Link>
+                </h3>
+                <FavoriteStandings league={result.league} rows={result.rows} />
+              </div>
+            ))}
+          {results.every((result) => result.rows.length === 0) && (
+            <p className="text-terminal-muted text-sm">No standings available for your teams.</p>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
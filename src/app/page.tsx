@@ -19,6 +19,10 @@ const LEAGUE_COLORS: Record<League, string> = {
   ncaaw: "group-hover:text-terminal-cyan group-hover:border-terminal-cyan",
   f1: "group-hover:text-terminal-red group-hover:border-terminal-red",
   pga: "group-hover:text-terminal-green group-hover:border-terminal-green",
+  lpga: "group-hover:text-terminal-magenta group-hover:border-terminal-magenta",
+  "dp-world": "group-hover:text-terminal-cyan group-hover:border-terminal-cyan",
+  liv: "group-hover:text-terminal-yellow group-hover:border-terminal-yellow",
+  champions: "group-hover:text-terminal-blue group-hover:border-terminal-blue",
 };
 
 export default function HomePage() {
@@ -5,6 +5,8 @@ import { useEffect, useState } from "react";
 interface LocalTimeProps {
   date: Date | string;
   className?: string;
+  /** Format options (defaults to hour and minute, e.g., "7:30 PM") */
+  options?: Intl.DateTimeFormatOptions;
 }
 
 /**
@@ -13,18 +15,21 @@ interface LocalTimeProps {
  * On the server, it renders a placeholder to avoid hydration mismatch.
  * Once mounted on the client, it formats the time using the browser's timezone.
  */
-export function LocalTime({ date, className }: LocalTimeProps) {
+export function LocalTime({ date, className, options }: LocalTimeProps) {
   const [formattedTime, setFormattedTime] = useState<string | null>(null);
 
   useEffect(() => {
     const dateObj = typeof date === "string" ? new Date(date) : date;
-    const formatted = new Intl.DateTimeFormat("en-US", {
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-    }).format(dateObj);
+    const formatted = new Intl.DateTimeFormat(
+      "en-US",
+      options ?? {
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+      }
+    ).format(dateObj);
     setFormattedTime(formatted);
-  }, [date]);
+  }, [date, options]);
 
   // Show a placeholder during SSR/hydration to avoid mismatch
   if (formattedTime === null) {
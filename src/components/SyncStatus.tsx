@@ -6,6 +6,8 @@ interface SyncStatusProps {
   lastUpdated: Date | string;
   /** Refresh interval in seconds */
   refreshInterval?: number;
+  /** Scores arrive over the live stream, so there is no refresh countdown */
+  isStreaming?: boolean;
   className?: string;
 }
 
@@ -18,6 +20,7 @@ interface SyncStatusProps {
 export function SyncStatus({
   lastUpdated,
   refreshInterval = 30,
+  isStreaming = false,
   className,
 }: SyncStatusProps) {
   const [formattedTime, setFormattedTime] = useState<string | null>(null);
@@ -71,7 +74,7 @@ export function SyncStatus({
       Last synced: {formattedTime}
       <span className="text-terminal-border mx-2" aria-hidden="true">·</span>
       <span className="text-terminal-cyan">
-        {countdown > 0 ? `Next in ${countdown}s` : "Refreshing..."}
+        {isStreaming ? "Streaming live" : countdown > 0 ? `Next in ${countdown}s` : "Refreshing..."}
       </span>
     </span>
   );
@@ -69,6 +69,30 @@ const SPORT_ICONS: Record<League, string> = {
  ╱════╲
     │
    ═╧═`,
+  lpga: `
+   ╱╲
+  ╱LP╲
+ ╱════╲
+    │
+   ═╧═`,
+  "dp-world": `
+   ╱╲
+  ╱DP╲
+ ╱════╲
+    │
+   ═╧═`,
+  liv: `
+   ╱╲
+  ╱LV╲
+ ╱════╲
+    │
+   ═╧═`,
+  champions: `
+   ╱╲
+  ╱CH╲
+ ╱════╲
+    │
+   ═╧═`,
 };
 
 /**
@@ -86,6 +110,10 @@ const SPORT_ICONS_COMPACT: Record<League, string> = {
   ncaaw: "(W)",
   f1: "=F1=",
   pga: " /\\ ",
+  lpga: "/LP\\",
+  "dp-world": "/DP\\",
+  liv: "/LV\\",
+  champions: "/CH\\",
 };
 
 /**
@@ -169,6 +197,34 @@ const SPORT_ICONS_LARGE: Record<League, string> = {
 ██╔═══╝ ██║   ██║██╔══██║
 ██║     ╚██████╔╝██║  ██║
 ╚═╝      ╚═════╝ ╚═╝  ╚═╝`,
+  lpga: `
+██╗     ██████╗  ██████╗  █████╗
+██║     ██╔══██╗██╔════╝ ██╔══██╗
+██║     ██████╔╝██║  ███╗███████║
+██║     ██╔═══╝ ██║   ██║██╔══██║
+███████╗██║     ╚██████╔╝██║  ██║
+╚══════╝╚═╝      ╚═════╝ ╚═╝  ╚═╝`,
+  "dp-world": `
+██████╗ ██████╗ ██╗    ██╗████████╗
+██╔══██╗██╔══██╗██║    ██║╚══██╔══╝
+██║  ██║██████╔╝██║ █╗ ██║   ██║
+██║  ██║██╔═══╝ ██║███╗██║   ██║
+██████╔╝██║     ╚███╔███╔╝   ██║
+╚═════╝ ╚═╝      ╚══╝╚══╝    ╚═╝`,
+  liv: `
+██╗     ██╗██╗   ██╗
+██║     ██║██║   ██║
+██║     ██║██║   ██║
+██║     ██║╚██╗ ██╔╝
+███████╗██║ ╚████╔╝
+╚══════╝╚═╝  ╚═══╝`,
+  champions: `
+ ██████╗██╗  ██╗ █████╗ ███╗   ███╗██████╗ ███████╗
+██╔════╝██║  ██║██╔══██╗████╗ ████║██╔══██╗██╔════╝
+██║     ███████║███████║██╔████╔██║██████╔╝███████╗
+██║     ██╔══██║██╔══██║██║╚██╔╝██║██╔═══╝ ╚════██║
+╚██████╗██║  ██║██║  ██║██║ ╚═╝ ██║██║     ███████║
+ ╚═════╝╚═╝  ╚═╝╚═╝  ╚═╝╚═╝     ╚═╝╚═╝     ╚══════╝`,
 };
 
 /**
@@ -261,6 +317,38 @@ const SPORT_ICONS_BOXED: Record<League, string> = {
 │    ╱════╲       │
 │       │         │
 │      ═╧═        │
+└─────────────────┘`,
+  lpga: `
+┌─────────────────┐
+│      ╱╲         │
+│     ╱LP╲        │
+│    ╱════╲       │
+│       │         │
+│      ═╧═        │
+└─────────────────┘`,
+  "dp-world": `
+┌─────────────────┐
+│      ╱╲         │
+│     ╱DP╲        │
+│    ╱════╲       │
+│       │         │
+│      ═╧═        │
+└─────────────────┘`,
+  liv: `
+┌─────────────────┐
+│      ╱╲         │
+│     ╱LV╲        │
+│    ╱════╲       │
+│       │         │
+│      ═╧═        │
+└─────────────────┘`,
+  champions: `
+┌─────────────────┐
+│      ╱╲         │
+│     ╱CH╲        │
+│    ╱════╲       │
+│       │         │
+│      ═╧═        │
 └─────────────────┘`,
 };
 
@@ -413,6 +501,42 @@ const LEAGUE_BANNERS: Record<League, string> = {
 ║  ██║     ╚██████╔╝██║  ██║       ██║   ╚██████╔╝╚██████╔╝██║  ██║      ║
 ║  ╚═╝      ╚═════╝ ╚═╝  ╚═╝       ╚═╝    ╚═════╝  ╚═════╝ ╚═╝  ╚═╝      ║
 ╚═══════════════════════════════════════════════════════════════════════╝`,
+  lpga: `
+╔═════════════════════════════════════════════════════════════════════════════╗
+║  ██╗     ██████╗  ██████╗  █████╗    ████████╗ ██████╗ ██╗   ██╗██████╗     ║
+║  ██║     ██╔══██╗██╔════╝ ██╔══██╗   ╚══██╔══╝██╔═══██╗██║   ██║██╔══██╗    ║
+║  ██║     ██████╔╝██║  ███╗███████║      ██║   ██║   ██║██║   ██║██████╔╝    ║
+║  ██║     ██╔═══╝ ██║   ██║██╔══██║      ██║   ██║   ██║██║   ██║██╔══██╗    ║
+║  ███████╗██║     ╚██████╔╝██║  ██║      ██║   ╚██████╔╝╚██████╔╝██║  ██║    ║
+║  ╚══════╝╚═╝      ╚═════╝ ╚═╝  ╚═╝      ╚═╝    ╚═════╝  ╚═════╝ ╚═╝  ╚═╝    ║
+╚═════════════════════════════════════════════════════════════════════════════╝`,
+  "dp-world": `
+╔══════════════════════════════════════════════════════════════════════════════════════════════════════════╗
+║  ██████╗ ██████╗    ██╗    ██╗ ██████╗ ██████╗ ██╗     ██████╗    ████████╗ ██████╗ ██╗   ██╗██████╗     ║
+║  ██╔══██╗██╔══██╗   ██║    ██║██╔═══██╗██╔══██╗██║     ██╔══██╗   ╚══██╔══╝██╔═══██╗██║   ██║██╔══██╗    ║
+║  ██║  ██║██████╔╝   ██║ █╗ ██║██║   ██║██████╔╝██║     ██║  ██║      ██║   ██║   ██║██║   ██║██████╔╝    ║
+║  ██║  ██║██╔═══╝    ██║███╗██║██║   ██║██╔══██╗██║     ██║  ██║      ██║   ██║   ██║██║   ██║██╔══██╗    ║
+║  ██████╔╝██║        ╚███╔███╔╝╚██████╔╝██║  ██║███████╗██████╔╝      ██║   ╚██████╔╝╚██████╔╝██║  ██║    ║
+║  ╚═════╝ ╚═╝         ╚══╝╚══╝  ╚═════╝ ╚═╝  ╚═╝╚══════╝╚═════╝       ╚═╝    ╚═════╝  ╚═════╝ ╚═╝  ╚═╝    ║
+╚══════════════════════════════════════════════════════════════════════════════════════════════════════════╝`,
+  liv: `
+╔═══════════════════════════════════════════════════════════════╗
+║  ██╗     ██╗██╗   ██╗    ██████╗  ██████╗ ██╗     ███████╗    ║
+║  ██║     ██║██║   ██║   ██╔════╝ ██╔═══██╗██║     ██╔════╝    ║
+║  ██║     ██║██║   ██║   ██║  ███╗██║   ██║██║     █████╗      ║
+║  ██║     ██║╚██╗ ██╔╝   ██║   ██║██║   ██║██║     ██╔══╝      ║
+║  ███████╗██║ ╚████╔╝    ╚██████╔╝╚██████╔╝███████╗██║         ║
+║  ╚══════╝╚═╝  ╚═══╝      ╚═════╝  ╚═════╝ ╚══════╝╚═╝         ║
+╚═══════════════════════════════════════════════════════════════╝`,
+  champions: `
+╔═══════════════════════════════════════════════════════════════════════════════╗
+║   ██████╗██╗  ██╗ █████╗ ███╗   ███╗██████╗ ██╗ ██████╗ ███╗   ██╗███████╗    ║
+║  ██╔════╝██║  ██║██╔══██╗████╗ ████║██╔══██╗██║██╔═══██╗████╗  ██║██╔════╝    ║
+║  ██║     ███████║███████║██╔████╔██║██████╔╝██║██║   ██║██╔██╗ ██║███████╗    ║
+║  ██║     ██╔══██║██╔══██║██║╚██╔╝██║██╔═══╝ ██║██║   ██║██║╚██╗██║╚════██║    ║
+║  ╚██████╗██║  ██║██║  ██║██║ ╚═╝ ██║██║     ██║╚██████╔╝██║ ╚████║███████║    ║
+║   ╚═════╝╚═╝  ╚═╝╚═╝  ╚═╝╚═╝     ╚═╝╚═╝     ╚═╝ ╚═════╝ ╚═╝  ╚═══╝╚══════╝    ║
+╚═══════════════════════════════════════════════════════════════════════════════╝`,
 };
 
 interface AsciiLeagueBannerProps {
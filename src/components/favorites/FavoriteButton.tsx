@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, type MouseEvent } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { MAX_FAVORITES, type FavoriteLeague } from "@/lib/favorites/types";
+import { useFavorites } from "./FavoritesProvider";
+
+interface FavoriteButtonProps {
+  league: FavoriteLeague;
+  teamId: string;
+  abbreviation: string;
+  displayName: string;
+  className?: string;
+}
+
+/**
+ * Star toggle for following a team
+ * Handles click events to prevent navigation when wrapped in a Link
+ */
+export function FavoriteButton({
+  league,
+  teamId,
+  abbreviation,
+  displayName,
+  className = "",
+}: FavoriteButtonProps) {
+  const { mounted, isFavorite, addFavorite, removeFavorite } = useFavorites();
+  const { toast } = useToast();
+  const isFavorited = isFavorite(league, teamId);
+
+  const handleClick = useCallback(
+    (e: MouseEvent) => {
+      // Prevent navigation when card is wrapped in Link
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (isFavorited) {
+        removeFavorite(league, teamId);
+        toast(`Removed ${abbreviation} from My Teams`, "info");
+      } else if (addFavorite({ league, teamId, abbreviation, displayName })) {
+        toast(`Added ${abbreviation} to My Teams`, "success");
+      } else {
+        toast(`You can follow up to ${MAX_FAVORITES} teams`, "error");
+      }
+    },
+    [isFavorited, league, teamId, abbreviation, displayName, addFavorite, removeFavorite, toast]
+  );
+
+  // Don't render until mounted (prevents hydration mismatch)
+  if (!mounted) {
+    return null;
+  }
+
+  const title = isFavorited
+    ? `Remove ${displayName} from My Teams`
+    : `Add ${displayName} to My Teams`;
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className={`font-mono leading-none transition-colors ${
+        isFavorited
+          ? "text-terminal-yellow hover:text-terminal-yellow/80"
+          : "text-terminal-muted hover:text-terminal-fg"
+      } ${className}`}
+      aria-label={title}
+      aria-pressed={isFavorited}
+      title={title}
+    >
+      {isFavorited ? "★" : "☆"}
+    </button>
+  );
+}
@@ -0,0 +1,92 @@
+import { STANDINGS_COLUMNS } from "@/components/scoreboards/LeagueStandings";
+import { TeamNotificationButton } from "@/components/notifications";
+import type { StandingsEntry, StandingsLeague } from "@/lib/types";
+import { FavoriteButton } from "./FavoriteButton";
+
+/**
+ * A favorite team's row from its league standings
+ */
+export interface FavoriteStandingsRow {
+  entry: StandingsEntry;
+  /** Division/conference the row was taken from */
+  groupName: string;
+  /** 1-based position within that group */
+  position: number;
+}
+
+interface FavoriteStandingsProps {
+  league: StandingsLeague;
+  rows: FavoriteStandingsRow[];
+}
+
+/**
+ * Standings rows for followed teams in one league (same columns as LeagueStandings)
+ */
+export function FavoriteStandings({ league, rows }: FavoriteStandingsProps) {
+  const statColumns = STANDINGS_COLUMNS[league].filter((c) => c.key !== "team");
+
+  return (
+    <div className="font-mono text-sm border border-terminal-border rounded overflow-x-auto">
+      <div className="min-w-max">
+        {/* Header row */}
+        <div className="flex border-b border-terminal-border bg-terminal-bg/50 text-terminal-cyan">
+          <div className="sticky left-0 z-10 bg-terminal-bg/95 px-2 py-1 min-w-[76px] text-left border-r border-terminal-border">
+            TEAM
+          </div>
+          <div className="px-2 py-1 min-w-[160px] text-left">GROUP</div>
+          <div className="px-2 py-1 min-w-[48px] text-center">
+            <span className="sr-only">Team notifications</span>
+            <span aria-hidden="true">ALRT</span>
+          </div>
+          <div className="px-2 py-1 min-w-[48px] text-right">POS</div>
+          {statColumns.map((col) => (
+            <div key={col.key} className="px-2 py-1 min-w-[48px] text-right">
+              {col.header}
+            </div>
+          ))}
+        </div>
+
+        {/* Data rows */}
+        {rows.map(({ entry, groupName, position }, index) => (
+          <div
+            key={entry.team.id}
+            className={`flex ${index % 2 === 0 ? "bg-terminal-bg/30" : ""}`}
+          >
+            <div
+              className={`sticky left-0 z-10 px-2 py-1 min-w-[76px] text-left text-terminal-fg border-r border-terminal-border ${
+                index % 2 === 0 ? "bg-terminal-bg/95" : "bg-terminal-bg"
+              }`}
+            >
+              <FavoriteButton
+                league={league}
+                teamId={entry.team.id}
+                abbreviation={entry.team.abbreviation}
+                displayName={entry.team.displayName}
+                className="text-xs mr-1"
+              />
+              {entry.team.abbreviation}
+            </div>
+            <div className="px-2 py-1 min-w-[160px] text-left text-terminal-muted truncate">
+              {groupName}
+            </div>
+            <div className="px-2 py-1 min-w-[48px] text-center">
+              <TeamNotificationButton
+                league={league}
+                teamId={entry.team.id}
+                teamAbbreviation={entry.team.abbreviation}
+              />
+            </div>
+            <div className="px-2 py-1 min-w-[48px] text-right text-terminal-yellow">
+              {position}
+            </div>
+            {statColumns.map((col) => (
+              <div key={col.key} className="px-2 py-1 min-w-[48px] text-right text-terminal-muted">
+                {entry.stats[col.key] !== undefined ? String(entry.stats[col.key]) : "-"}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
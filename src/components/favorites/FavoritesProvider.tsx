@@ -0,0 +1,162 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { useNotifications } from "@/components/notifications";
+import { getFavoriteKey, MAX_FAVORITES, type FavoriteTeam } from "@/lib/favorites/types";
+
+interface FavoritesContextValue {
+  favorites: FavoriteTeam[];
+  mounted: boolean;
+  isFavorite: (league: string, teamId: string) => boolean;
+  addFavorite: (team: FavoriteTeam) => boolean;
+  removeFavorite: (league: string, teamId: string) => void;
+}
+
+const FavoritesContext = createContext<FavoritesContextValue | null>(null);
+
+const STORAGE_KEY = "ascii-scores-favorites";
+
+function getStoredFavorites(): FavoriteTeam[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    }
+  } catch (error) {
+    console.error("Failed to parse favorites:", error);
+  }
+
+  return [];
+}
+
+function saveFavorites(favorites: FavoriteTeam[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+  } catch (error) {
+    console.error("Failed to save favorites:", error);
+  }
+}
+
+/**
+ * Merge two favorite lists, keeping the first occurrence of each team
+ */
+function mergeFavorites(primary: FavoriteTeam[], secondary: FavoriteTeam[]): FavoriteTeam[] {
+  const seen = new Set<string>();
+  const merged: FavoriteTeam[] = [];
+
+  for (const team of [...primary, ...secondary]) {
+    const key = getFavoriteKey(team.league, team.teamId);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(team);
+  }
+
+  return merged.slice(0, MAX_FAVORITES);
+}
+
+export function FavoritesProvider({ children }: { children: ReactNode }) {
+  const { subscriptionId } = useNotifications();
+  const [favorites, setFavorites] = useState<FavoriteTeam[]>([]);
+  const [mounted, setMounted] = useState(false);
+  // Subscription ID whose server-side favorites have been merged in
+  const syncedIdRef = useRef<string | null>(null);
+
+  // Initialize on mount
+  useEffect(() => {
+    setFavorites(getStoredFavorites());
+    setMounted(true);
+  }, []);
+
+  // Pull favorites synced to Redis once a notification subscription exists
+  useEffect(() => {
+    if (!mounted || !subscriptionId || syncedIdRef.current === subscriptionId) return;
+
+    const pullFavorites = async () => {
+      try {
+        const response = await fetch(
+          `/api/favorites?subscriptionId=${encodeURIComponent(subscriptionId)}`
+        );
+        if (!response.ok) {
+          throw new Error("Failed to load favorites");
+        }
+
+        const data = (await response.json()) as { favorites: FavoriteTeam[] };
+        // Only push local changes once the server copy has been merged in,
+        // so a failed pull never overwrites it
+        syncedIdRef.current = subscriptionId;
+        setFavorites((prev) => mergeFavorites(prev, data.favorites));
+      } catch (error) {
+        console.error("Failed to sync favorites:", error);
+      }
+    };
+    pullFavorites();
+  }, [mounted, subscriptionId]);
+
+  // Persist changes locally, and to Redis once the initial pull has happened
+  useEffect(() => {
+    if (!mounted) return;
+
+    saveFavorites(favorites);
+
+    if (subscriptionId && syncedIdRef.current === subscriptionId) {
+      fetch("/api/favorites", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptionId, favorites }),
+      }).catch((error) => {
+        console.error("Failed to push favorites:", error);
+      });
+    }
+  }, [favorites, mounted, subscriptionId]);
+
+  const isFavorite = useCallback(
+    (league: string, teamId: string): boolean => {
+      const key = getFavoriteKey(league, teamId);
+      return favorites.some((team) => getFavoriteKey(team.league, team.teamId) === key);
+    },
+    [favorites]
+  );
+
+  const addFavorite = useCallback(
+    (team: FavoriteTeam): boolean => {
+      if (favorites.length >= MAX_FAVORITES) return false;
+      setFavorites((prev) => mergeFavorites(prev, [team]));
+      return true;
+    },
+    [favorites.length]
+  );
+
+  const removeFavorite = useCallback((league: string, teamId: string) => {
+    const key = getFavoriteKey(league, teamId);
+    setFavorites((prev) => prev.filter((team) => getFavoriteKey(team.league, team.teamId) !== key));
+  }, []);
+
+  const value: FavoritesContextValue = {
+    favorites,
+    mounted,
+    isFavorite,
+    addFavorite,
+    removeFavorite,
+  };
+
+  return <FavoritesContext.Provider value={value}>{children}</FavoritesContext.Provider>;
+}
+
+export function useFavorites() {
+  const context = useContext(FavoritesContext);
+  if (!context) {
+    throw new Error("useFavorites must be used within a FavoritesProvider");
+  }
+  return context;
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { serializeFavorites } from "@/lib/favorites/types";
+import { useFavorites } from "./FavoritesProvider";
+
+interface MyTeamsSyncProps {
+  /** Current ?teams= value rendered by the server */
+  teamsParam: string | null;
+}
+
+/**
+ * Keeps the /my?teams= URL in step with favorites stored on this device.
+ * The server can't read localStorage, so favorites reach it through the URL.
+ * A shared link is left alone on first load; later star toggles rewrite it.
+ */
+export function MyTeamsSync({ teamsParam }: MyTeamsSyncProps) {
+  const router = useRouter();
+  const { favorites, mounted } = useFavorites();
+  const isFirstSync = useRef(true);
+  const serialized = serializeFavorites(favorites);
+
+  useEffect(() => {
+    if (!mounted) return;
+
+    const skip = isFirstSync.current && teamsParam !== null;
+    isFirstSync.current = false;
+    if (skip || serialized === (teamsParam ?? "")) return;
+
+    router.replace(serialized ? `/my?teams=${serialized}` : "/my", { scroll: false });
+  }, [mounted, serialized, teamsParam, router]);
+
+  return null;
+}
@@ -0,0 +1,4 @@
+export { FavoritesProvider, useFavorites } from "./FavoritesProvider";
+export { FavoriteButton } from "./FavoriteButton";
+export { MyTeamsSync } from "./MyTeamsSync";
+export { FavoriteStandings, type FavoriteStandingsRow } from "./FavoriteStandings";
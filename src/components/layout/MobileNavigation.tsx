@@ -126,6 +126,24 @@ export function MobileNavigation({ activeLeague }: MobileNavigationProps) {
               </li>
             );
           })}
+          <li role="none" className="border-t border-terminal-border">
+            <Link
+              href="/my"
+              role="menuitem"
+              className={`
+                block px-4 py-2 transition-colors
+                ${
+                  activeLeague === "my"
+                    ? "bg-terminal-fg text-terminal-bg"
+                    : "text-terminal-yellow hover:text-terminal-fg hover:bg-terminal-border/20"
+                }
+              `}
+              aria-current={activeLeague === "my" ? "page" : undefined}
+              onClick={() => setIsOpen(false)}
+            >
+              [★ MY TEAMS]
+            </Link>
+          </li>
         </ul>
       )}
     </>
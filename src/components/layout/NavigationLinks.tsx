@@ -57,6 +57,29 @@ export function NavigationLinks({
           </li>
         );
       })}
+      <li>
+        <Link
+          href="/my"
+          className={
+            isDesktop
+              ? `px-3 py-1 transition-colors ${
+                  activeLeague === "my"
+                    ? "bg-terminal-fg text-terminal-bg"
+                    : "text-terminal-yellow hover:text-terminal-fg"
+                }`
+              : `block px-4 py-2 transition-colors border-t border-terminal-border ${
+                  activeLeague === "my"
+                    ? "bg-terminal-fg text-terminal-bg"
+                    : "text-terminal-yellow hover:text-terminal-fg hover:bg-terminal-border/20"
+                }`
+          }
+          aria-current={activeLeague === "my" ? "page" : undefined}
+          aria-label="My Teams"
+          onClick={onLinkClick}
+        >
+          [★]
+        </Link>
+      </li>
     </ul>
   );
 }
@@ -0,0 +1,116 @@
+"use client";
+
+import { useCallback, useState, useEffect } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Tooltip } from "@/components/ui/Tooltip";
+import { F1_SESSION_REMINDER_MINUTES } from "@/lib/notifications/types";
+import { useNotifications } from "./NotificationProvider";
+
+interface F1WeekendNotificationButtonProps {
+  weekendId: string;
+  weekendName: string;
+}
+
+/**
+ * Notification toggle for every session of an F1 race weekend
+ * (session reminders, lights out, safety car, red flag and chequered flag)
+ */
+export function F1WeekendNotificationButton({
+  weekendId,
+  weekendName,
+}: F1WeekendNotificationButtonProps) {
+  const {
+    isSupported,
+    permission,
+    isSubscribedToF1Weekend,
+    subscribeToF1Weekend,
+    unsubscribeFromF1Weekend,
+  } = useNotifications();
+  const { toast } = useToast();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const isSubscribed = isSubscribedToF1Weekend(weekendId);
+
+  // Wait for client-side mount to avoid hydration mismatch
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleClick = useCallback(async () => {
+    if (isLoading) return;
+
+    // Check if notifications are supported
+    if (!isSupported) {
+      toast("Install as an app to enable push notifications", "info");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (isSubscribed) {
+        await unsubscribeFromF1Weekend(weekendId);
+        toast(`Stopped notifications for the ${weekendName}`, "info");
+      } else if (await subscribeToF1Weekend(weekendId, weekendName)) {
+        toast(`Notifications on for the ${weekendName}`, "success");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      toast(message, "error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    isLoading,
+    isSupported,
+    isSubscribed,
+    weekendId,
+    weekendName,
+    subscribeToF1Weekend,
+    unsubscribeFromF1Weekend,
+    toast,
+  ]);
+
+  // Don't render until mounted (prevents hydration mismatch)
+  if (!mounted) {
+    return null;
+  }
+
+  // Don't render if permission was explicitly denied
+  if (permission === "denied") {
+    return null;
+  }
+
+  const title = isSubscribed
+    ? `Stop notifications for the ${weekendName}`
+    : `Get notified ${F1_SESSION_REMINDER_MINUTES} minutes before each session, at lights out, for safety cars, red flags and the chequered flag`;
+
+  return (
+    <Tooltip content={isSubscribed ? "Weekend alerts on" : "Alert this weekend"}>
+      <button
+        onClick={handleClick}
+        disabled={isLoading}
+        className={`font-mono text-xs transition-colors ${
+          isSubscribed
+            ? "text-terminal-green hover:text-terminal-green/80"
+            : "text-terminal-muted hover:text-terminal-fg"
+        } ${isLoading ? "opacity-50 cursor-wait" : ""}`}
+        aria-label={title}
+        aria-pressed={isSubscribed}
+      >
+        {isLoading ? (
+          "..."
+        ) : (
+          <>
+            <span
+              className={`inline-block size-2 rounded-full mr-1 ${
+                isSubscribed ? "bg-terminal-green glow-pulse" : "border border-current"
+              }`}
+            />
+            ALERTS
+          </>
+        )}
+      </button>
+    </Tooltip>
+  );
+}
@@ -9,7 +9,12 @@ import {
   type ReactNode,
 } from "react";
 import { useRouter } from "next/navigation";
-import type { EventPreferences, LocalNotificationState, NotificationLeague } from "@/lib/notifications/types";
+import type {
+  EventPreferences,
+  F1EventPreferences,
+  LocalNotificationState,
+  NotificationLeague,
+} from "@/lib/notifications/types";
 
 interface NotificationContextValue {
   isSupported: boolean;
@@ -26,6 +31,23 @@ interface NotificationContextValue {
     gameStartTime?: string
   ) => Promise<boolean>;
   unsubscribeFromGame: (gameId: string) => Promise<boolean>;
+  subscribedTeams: NonNullable<LocalNotificationState["subscribedTeams"]>;
+  isSubscribedToTeam: (league: string, teamId: string) => boolean;
+  subscribeToTeam: (
+    league: NotificationLeague,
+    teamId: string,
+    teamAbbreviation: string,
+    events?: Partial<EventPreferences>
+  ) => Promise<boolean>;
+  unsubscribeFromTeam: (league: NotificationLeague, teamId: string) => Promise<boolean>;
+  subscribedF1Weekends: NonNullable<LocalNotificationState["subscribedF1Weekends"]>;
+  isSubscribedToF1Weekend: (weekendId: string) => boolean;
+  subscribeToF1Weekend: (
+    weekendId: string,
+    weekendName: string,
+    events?: Partial<F1EventPreferences>
+  ) => Promise<boolean>;
+  unsubscribeFromF1Weekend: (weekendId: string) => Promise<boolean>;
   requestPermission: () => Promise<boolean>;
   sendTestNotification: () => Promise<{ success: boolean; error?: string }>;
 }
@@ -184,6 +206,45 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     }
   }, [isSupported]);
 
+  // Ensure we have permission and a push subscription before subscribing
+  const ensurePushSubscription = useCallback(async (): Promise<PushSubscription | null> => {
+    if (permission !== "granted") {
+      const granted = await requestPermission();
+      if (!granted) return null;
+    }
+
+    let currentPushSubscription = pushSubscription;
+    if (!currentPushSubscription) {
+      try {
+        const registration = await navigator.serviceWorker.ready;
+        currentPushSubscription = await registration.pushManager.getSubscription();
+
+        if (!currentPushSubscription) {
+          const vapidKeyResponse = await fetch("/api/notifications/vapid-public-key");
+          const { vapidPublicKey } = await vapidKeyResponse.json();
+
+          if (vapidPublicKey) {
+            currentPushSubscription = await registration.pushManager.subscribe({
+              userVisibleOnly: true,
+              applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+            });
+            setPushSubscription(currentPushSubscription);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to get push subscription:", error);
+        return null;
+      }
+    }
+
+    if (!currentPushSubscription) {
+      console.error("No push subscription available");
+      return null;
+    }
+
+    return currentPushSubscription;
+  }, [permission, pushSubscription, requestPermission]);
+
   const isSubscribedToGame = useCallback(
     (gameId: string): boolean => {
       return gameId in state.subscribedGames;
@@ -200,41 +261,8 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
       events?: Partial<EventPreferences>,
       gameStartTime?: string
     ): Promise<boolean> => {
-      // Ensure we have permission
-      if (permission !== "granted") {
-        const granted = await requestPermission();
-        if (!granted) return false;
-      }
-
-      // Ensure we have a push subscription
-      let currentPushSubscription = pushSubscription;
-      if (!currentPushSubscription) {
-        try {
-          const registration = await navigator.serviceWorker.ready;
-          currentPushSubscription = await registration.pushManager.getSubscription();
-
-          if (!currentPushSubscription) {
-            const vapidKeyResponse = await fetch("/api/notifications/vapid-public-key");
-            const { vapidPublicKey } = await vapidKeyResponse.json();
-
-            if (vapidPublicKey) {
-              currentPushSubscription = await registration.pushManager.subscribe({
-                userVisibleOnly: true,
-                applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
-              });
-              setPushSubscription(currentPushSubscription);
-            }
-          }
-        } catch (error) {
-          console.error("Failed to get push subscription:", error);
-          return false;
-        }
-      }
-
-      if (!currentPushSubscription) {
-        console.error("No push subscription available");
-        return false;
-      }
+      const currentPushSubscription = await ensurePushSubscription();
+      if (!currentPushSubscription) return false;
 
       try {
         const response = await fetch("/api/notifications/subscribe", {
@@ -276,7 +304,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         return false;
       }
     },
-    [permission, pushSubscription, state.subscriptionId, requestPermission]
+    [ensurePushSubscription, state.subscriptionId]
   );
 
   const unsubscribeFromGame = useCallback(
@@ -315,6 +343,192 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     [state.subscriptionId]
   );
 
+  const isSubscribedToTeam = useCallback(
+    (league: string, teamId: string): boolean => {
+      return `${league}:${teamId}` in (state.subscribedTeams ?? {});
+    },
+    [state.subscribedTeams]
+  );
+
+  const subscribeToTeam = useCallback(
+    async (
+      league: NotificationLeague,
+      teamId: string,
+      teamAbbreviation: string,
+      events?: Partial<EventPreferences>
+    ): Promise<boolean> => {
+      const currentPushSubscription = await ensurePushSubscription();
+      if (!currentPushSubscription) return false;
+
+      try {
+        const response = await fetch("/api/notifications/team/subscribe", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            subscriptionId: state.subscriptionId,
+            pushSubscription: currentPushSubscription.toJSON(),
+            league,
+            teamId,
+            teamAbbreviation,
+            events,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to subscribe");
+        }
+
+        const data = await response.json();
+
+        setState((prev) => ({
+          ...prev,
+          subscriptionId: data.subscriptionId,
+          subscribedTeams: {
+            ...prev.subscribedTeams,
+            [`${league}:${teamId}`]: {
+              league,
+              events: data.teamSubscription.events,
+            },
+          },
+        }));
+
+        return true;
+      } catch (error) {
+        console.error("Failed to subscribe to team:", error);
+        return false;
+      }
+    },
+    [ensurePushSubscription, state.subscriptionId]
+  );
+
+  const unsubscribeFromTeam = useCallback(
+    async (league: NotificationLeague, teamId: string): Promise<boolean> => {
+      if (!state.subscriptionId) return false;
+
+      try {
+        const response = await fetch("/api/notifications/team/unsubscribe", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            subscriptionId: state.subscriptionId,
+            league,
+            teamId,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to unsubscribe");
+        }
+
+        setState((prev) => {
+          const { [`${league}:${teamId}`]: _removed, ...remainingTeams } = prev.subscribedTeams ?? {};
+          void _removed; // Intentionally unused - removing this team from subscriptions
+          return {
+            ...prev,
+            subscribedTeams: remainingTeams,
+          };
+        });
+
+        return true;
+      } catch (error) {
+        console.error("Failed to unsubscribe from team:", error);
+        return false;
+      }
+    },
+    [state.subscriptionId]
+  );
+
+  const isSubscribedToF1Weekend = useCallback(
+    (weekendId: string): boolean => {
+      return weekendId in (state.subscribedF1Weekends ?? {});
+    },
+    [state.subscribedF1Weekends]
+  );
+
+  const subscribeToF1Weekend = useCallback(
+    async (
+      weekendId: string,
+      weekendName: string,
+      events?: Partial<F1EventPreferences>
+    ): Promise<boolean> => {
+      const currentPushSubscription = await ensurePushSubscription();
+      if (!currentPushSubscription) return false;
+
+      try {
+        const response = await fetch("/api/notifications/f1/subscribe", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            subscriptionId: state.subscriptionId,
+            pushSubscription: currentPushSubscription.toJSON(),
+            weekendId,
+            weekendName,
+            events,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to subscribe");
+        }
+
+        const data = await response.json();
+
+        setState((prev) => ({
+          ...prev,
+          subscriptionId: data.subscriptionId,
+          subscribedF1Weekends: {
+            ...prev.subscribedF1Weekends,
+            [weekendId]: {
+              events: data.weekendSubscription.events,
+            },
+          },
+        }));
+
+        return true;
+      } catch (error) {
+        console.error("Failed to subscribe to F1 weekend:", error);
+        return false;
+      }
+    },
+    [ensurePushSubscription, state.subscriptionId]
+  );
+
+  const unsubscribeFromF1Weekend = useCallback(
+    async (weekendId: string): Promise<boolean> => {
+      if (!state.subscriptionId) return false;
+
+      try {
+        const response = await fetch("/api/notifications/f1/unsubscribe", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            subscriptionId: state.subscriptionId,
+            weekendId,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to unsubscribe");
+        }
+
+        setState((prev) => {
+          const { [weekendId]: _removed, ...remainingWeekends } = prev.subscribedF1Weekends ?? {};
+          void _removed; // Intentionally unused - removing this weekend from subscriptions
+          return {
+            ...prev,
+            subscribedF1Weekends: remainingWeekends,
+          };
+        });
+
+        return true;
+      } catch (error) {
+        console.error("Failed to unsubscribe from F1 weekend:", error);
+        return false;
+      }
+    },
+    [state.subscriptionId]
+  );
+
   const sendTestNotification = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
     if (!state.subscriptionId) {
       return { success: false, error: "No subscription ID - subscribe to a game first" };
@@ -349,6 +563,14 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     isSubscribedToGame,
     subscribeToGame,
     unsubscribeFromGame,
+    subscribedTeams: state.subscribedTeams ?? {},
+    isSubscribedToTeam,
+    subscribeToTeam,
+    unsubscribeFromTeam,
+    subscribedF1Weekends: state.subscribedF1Weekends ?? {},
+    isSubscribedToF1Weekend,
+    subscribeToF1Weekend,
+    unsubscribeFromF1Weekend,
     requestPermission,
     sendTestNotification,
   };
@@ -0,0 +1,114 @@
+"use client";
+
+import { useCallback, useState, useEffect, type MouseEvent } from "react";
+import { useToast } from "@/components/ui/Toast";
+import { Tooltip } from "@/components/ui/Tooltip";
+import type { NotificationLeague } from "@/lib/notifications/types";
+import { useNotifications } from "./NotificationProvider";
+
+interface TeamNotificationButtonProps {
+  league: NotificationLeague;
+  teamId: string;
+  teamAbbreviation: string;
+}
+
+/**
+ * Notification toggle for every game of a team
+ */
+export function TeamNotificationButton({
+  league,
+  teamId,
+  teamAbbreviation,
+}: TeamNotificationButtonProps) {
+  const {
+    isSupported,
+    permission,
+    isSubscribedToTeam,
+    subscribeToTeam,
+    unsubscribeFromTeam,
+  } = useNotifications();
+  const { toast } = useToast();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const isSubscribed = isSubscribedToTeam(league, teamId);
+
+  // Wait for client-side mount to avoid hydration mismatch
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleClick = useCallback(
+    async (e: MouseEvent) => {
+      // Prevent navigation when wrapped in a Link
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (isLoading) return;
+
+      // Check if notifications are supported
+      if (!isSupported) {
+        toast("Install as an app to enable push notifications", "info");
+        return;
+      }
+
+      setIsLoading(true);
+      try {
+        if (isSubscribed) {
+          await unsubscribeFromTeam(league, teamId);
+          toast(`Stopped notifications for ${teamAbbreviation} games`, "info");
+        } else if (await subscribeToTeam(league, teamId, teamAbbreviation)) {
+          toast(`Notifications on for every ${teamAbbreviation} game`, "success");
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast(message, "error");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [
+      isLoading,
+      isSupported,
+      isSubscribed,
+      league,
+      teamId,
+      teamAbbreviation,
+      subscribeToTeam,
+      unsubscribeFromTeam,
+      toast,
+    ]
+  );
+
+  // Don't render until mounted (prevents hydration mismatch)
+  if (!mounted) {
+    return null;
+  }
+
+  // Don't render if permission was explicitly denied
+  if (permission === "denied") {
+    return null;
+  }
+
+  const title = isSubscribed
+    ? `Stop notifications for ${teamAbbreviation} games`
+    : `Get notified for every ${teamAbbreviation} game`;
+
+  return (
+    <Tooltip content={isSubscribed ? "Team alerts on" : "Alert every game"}>
+      <button
+        onClick={handleClick}
+        disabled={isLoading}
+        className={`font-mono text-xs transition-colors ${
+          isSubscribed
+            ? "text-terminal-green hover:text-terminal-green/80"
+            : "text-terminal-muted hover:text-terminal-fg"
+        } ${isLoading ? "opacity-50 cursor-wait" : ""}`}
+        aria-label={title}
+        aria-pressed={isSubscribed}
+      >
+        {isLoading ? "..." : <span className={`inline-block size-2 rounded-full ${isSubscribed ? "bg-terminal-green glow-pulse" : "border border-current"}`} />}
+      </button>
+    </Tooltip>
+  );
+}
@@ -1,2 +1,4 @@
 export { NotificationProvider, useNotifications } from "./NotificationProvider";
 export { NotificationButton } from "./NotificationButton";
+export { TeamNotificationButton } from "./TeamNotificationButton";
+export { F1WeekendNotificationButton } from "./F1WeekendNotificationButton";
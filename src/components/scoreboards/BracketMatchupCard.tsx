@@ -1,7 +1,9 @@
 import Link from "next/link";
+import type { League } from "@/lib/types";
 import type { PlayoffMatchup, BracketTeam } from "@/lib/types/playoffs";
 
 interface BracketMatchupCardProps {
+  league: League;
   matchup: PlayoffMatchup;
 }
 
@@ -55,8 +57,14 @@ function BracketTeamRow({
       </span>
       <div className="flex items-center gap-1">
         <span className={scoreClass}>
-          {team.score !== undefined ? team.score : "—"}
+          {team.wins !== undefined ? team.wins : team.score !== undefined ? team.score : "—"}
         </span>
+        {team.penalties !== undefined && (
+          <span className="text-terminal-muted text-[10px]">
+            <span className="sr-only">, {team.penalties} on penalties</span>
+            <span aria-hidden="true">({team.penalties})</span>
+          </span>
+        )}
         {isWinner && (
           <span className="text-terminal-green text-xs" aria-hidden="true">
             ◄
@@ -67,11 +75,69 @@ function BracketTeamRow({
   );
 }
 
+/**
+ * Whether a matchup is a best-of-N series (teams carry series wins)
+ */
+function isSeries(matchup: PlayoffMatchup): boolean {
+  return matchup.topTeam?.wins !== undefined;
+}
+
+/**
+ * How a drawn knockout tie was settled (extra time, penalties, replay)
+ */
+function TieOutcome({ matchup }: { matchup: PlayoffMatchup }) {
+  const labels = [
+    matchup.games.length > 1 ? "REPLAY" : null,
+    matchup.decidedBy === "extra-time" ? "AET" : null,
+    matchup.decidedBy === "penalties" ? "AET · PENS" : null,
+  ].filter((label): label is string => label !== null);
+
+  if (labels.length === 0) return null;
+
+  return (
+    <div className="px-2 py-0.5 text-[10px] text-terminal-yellow">
+      {labels.join(" · ")}
+    </div>
+  );
+}
+
+/**
+ * Game-by-game results for a series or a replayed tie, scored from the top team's side.
+ * Green for games the top team won, muted for losses and draws.
+ */
+function SeriesGameResults({ matchup }: { matchup: PlayoffMatchup }) {
+  const topAbbr = matchup.topTeam?.abbreviation;
+  const played = matchup.games.filter((game) => game.status === "final");
+  if (played.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-x-2 px-2 py-0.5 text-[10px]">
+      <span className="sr-only">Game results:</span>
+      {played.map((game, i) => {
+        const topIsHome = game.homeTeam.abbreviation === topAbbr;
+        const topScore = topIsHome ? game.homeScore : game.awayScore;
+        const bottomScore = topIsHome ? game.awayScore : game.homeScore;
+        return (
+          <span
+            key={game.id}
+            className={topScore > bottomScore ? "text-terminal-green" : "text-terminal-muted"}
+          >
+            <span className="text-terminal-border">
+              {isSeries(matchup) ? `G${i + 1}` : i === 0 ? "1ST" : "RPL"}
+            </span>{" "}
+            {topScore}-{bottomScore}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
 /**
  * Compact matchup card for bracket display.
- * Shows two teams with seeds, scores, and winner indication.
+ * Shows two teams with seeds, scores (or series wins), and winner indication.
  */
-export function BracketMatchupCard({ matchup }: BracketMatchupCardProps) {
+export function BracketMatchupCard({ league, matchup }: BracketMatchupCardProps) {
   // Bye matchup
   if (matchup.isBye && matchup.topTeam) {
     return (
@@ -123,9 +189,10 @@ export function BracketMatchupCard({ matchup }: BracketMatchupCardProps) {
 
   const cardClass = isLive ? "retro-card border-terminal-green/70" : "retro-card";
   const gameUrl = matchup.game
-    ? `/nfl/game/${matchup.game.id}`
+    ? `/${league}/game/${matchup.game.id}`
     : undefined;
 
+
   const content = (
     <div className={`font-mono text-xs ${cardClass} p-0.5`}>
       {/* Top border */}
@@ -166,6 +233,12 @@ export function BracketMatchupCard({ matchup }: BracketMatchupCardProps) {
       {/* Bottom team (away / lower seed) */}
       <BracketTeamRow team={matchup.bottomTeam} isTop={false} />
 
+      {/* Game-by-game series results, or the original game and replays of a tie */}
+      {(isSeries(matchup) || matchup.games.length > 1) && <SeriesGameResults matchup={matchup} />}
+
+      {/* Extra time / penalties / replay */}
+      {!isSeries(matchup) && <TieOutcome matchup={matchup} />}
+
       {/* Bottom border */}
       <div className={`flex ${borderClass}`} aria-hidden="true">
         <span>└</span>
@@ -0,0 +1,65 @@
+import type { F1Driver } from "@/lib/types";
+
+interface F1BattlesProps {
+  drivers: F1Driver[];
+}
+
+/**
+ * Gap to the car ahead within which the chasing driver can use DRS
+ */
+const DRS_RANGE_SECONDS = 1;
+
+/**
+ * Battles panel: pairs of cars running within DRS range of each other right now
+ */
+export function F1Battles({ drivers }: F1BattlesProps) {
+  const byPosition = new Map(drivers.map((driver) => [driver.position, driver]));
+  const battles = drivers
+    .filter(
+      (driver) =>
+        driver.intervalSeconds !== undefined &&
+        driver.intervalSeconds <= DRS_RANGE_SECONDS &&
+        driver.status === "running"
+    )
+    .map((chaser) => ({ chaser, ahead: byPosition.get(chaser.position - 1) }))
+    .filter((battle): battle is { chaser: F1Driver; ahead: F1Driver } => battle.ahead !== undefined)
+    .sort((a, b) => a.chaser.position - b.chaser.position);
+
+  return (
+    <section className="mt-6" aria-label="Battles">
+      <h3 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        Battles
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">within {DRS_RANGE_SECONDS}s (DRS range)</span>
+      </h3>
+
+      {battles.length === 0 ? (
+        <div className="text-terminal-muted text-xs">No cars within DRS range</div>
+      ) : (
+        <ul className="border border-terminal-border rounded text-xs">
+          {battles.map(({ chaser, ahead }, index) => (
+            <li
+              key={chaser.driverNumber}
+              className={`flex gap-2 px-2 py-0.5 ${index % 2 === 0 ? "bg-terminal-bg" : "bg-terminal-zebra"}`}
+            >
+              <span className="text-terminal-muted w-16 shrink-0">
+                P{ahead.position}-P{chaser.position}
+              </span>
+              <span className="text-terminal-fg font-medium" title={ahead.driverName}>
+                {ahead.driverCode}
+              </span>
+              <span className="text-terminal-border">◀</span>
+              <span className="text-terminal-yellow font-medium" title={chaser.driverName}>
+                {chaser.driverCode}
+              </span>
+              <span className={chaser.intervalSeconds! < 0.5 ? "text-terminal-red" : "text-terminal-yellow"}>
+                +{chaser.intervalSeconds!.toFixed(3)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,201 @@
+import Link from "next/link";
+import { LocalTime } from "@/components/LocalTime";
+import type { F1CalendarRound, F1CalendarSession, F1CalendarWinner, F1SeasonCalendar } from "@/lib/types/f1";
+import { F1Countdown } from "./F1Countdown";
+
+interface F1CalendarDisplayProps {
+  calendar: F1SeasonCalendar;
+}
+
+const SESSION_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
+
+/**
+ * Short session labels for the schedule
+ */
+const SESSION_LABELS: Record<string, string> = {
+  "Practice 1": "FP1",
+  "Practice 2": "FP2",
+  "Practice 3": "FP3",
+  "Sprint Qualifying": "SQ",
+  "Sprint Shootout": "SQ",
+  Sprint: "SPRINT",
+  Qualifying: "QUALI",
+  Race: "RACE",
+};
+
+function getSessionLabel(session: F1CalendarSession): string {
+  return SESSION_LABELS[session.name] ?? session.name.toUpperCase();
+}
+
+function Winner({ label, winner }: { label: string; winner: F1CalendarWinner }) {
+  return (
+    <span className="whitespace-nowrap" title={winner.driverName ? `${winner.driverName} (${winner.teamName})` : winner.teamName}>
+      <span className="text-terminal-muted">{label} </span>
+      <span className="text-terminal-green font-bold">{winner.driverCode}</span>
+      <span className="text-terminal-muted hidden sm:inline"> {winner.teamName}</span>
+    </span>
+  );
+}
+
+/**
+ * One round: name, dates, winners and the session schedule in local time
+ */
+function CalendarRound({
+  round,
+  nextSessionId,
+  isCurrent,
+}: {
+  round: F1CalendarRound;
+  nextSessionId?: string;
+  isCurrent: boolean;
+}) {
+  const hasStarted = round.sessions.some((session) => session.status !== "scheduled");
+  const isComplete = round.sessions.every((session) => session.status === "final");
+
+  return (
+    <li
+      className={`border rounded px-3 py-2 ${
+        isCurrent ? "border-terminal-green" : "border-terminal-border"
+      }`}
+      aria-current={isCurrent ? "true" : undefined}
+    >
+      <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+        <span className={`w-8 font-bold ${isComplete ? "text-terminal-muted" : "text-terminal-cyan"}`}>
+          R{String(round.round).padStart(2, "0")}
+        </span>
+        {hasStarted ? (
+          <Link
+            href={`/f1?weekend=${round.weekendId}`}
+            className="text-terminal-fg font-medium hover:text-terminal-green transition-colors"
+          >
+            {round.name}
+          </Link>
+        ) : (
+          <span className="text-terminal-fg font-medium">{round.name}</span>
+        )}
+        <span className="text-terminal-muted text-xs">
+          <LocalTime date={round.startDate} options={DATE_FORMAT} />
+          {" - "}
+          <LocalTime date={round.endDate} options={DATE_FORMAT} />
+        </span>
+        <span className="flex gap-3 text-xs sm:ml-auto">
+          {round.sprintWinner && <Winner label="SPRINT" winner={round.sprintWinner} />}
+          {round.winner && <Winner label="WINNER" winner={round.winner} />}
+        </span>
+      </div>
+
+      <div className="text-terminal-muted text-xs mt-0.5 sm:ml-11 truncate" title={round.officialName}>
+        {round.officialName}
+        {" · "}
+        {round.location}, {round.country}
+      </div>
+
+      <ul className="flex flex-wrap gap-x-4 gap-y-0.5 text-xs mt-1 sm:ml-11" aria-label={`${round.name} sessions`}>
+        {round.sessions.map((session) => {
+          const isNext = session.id === nextSessionId;
+          const statusClass =
+            session.status === "live"
+              ? "text-terminal-green"
+              : session.status === "final"
+                ? "text-terminal-muted"
+                : isNext
+                  ? "text-terminal-cyan"
+                  : "text-terminal-fg";
+
+          return (
+            <li key={session.id} className={`whitespace-nowrap ${statusClass}`} title={session.name}>
+              <span className="font-bold">{getSessionLabel(session)}</span>{" "}
+              <LocalTime date={session.startTime} options={SESSION_TIME_FORMAT} />
+              {session.status === "live" && <span className="ml-1">● LIVE</span>}
+              {isNext && session.status === "scheduled" && (
+                <>
+                  {" "}
+                  <span className="text-terminal-muted">in</span>{" "}
+                  <F1Countdown target={session.startTime} />
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </li>
+  );
+}
+
+/**
+ * Season calendar: every round with its session schedule (in the viewer's time zone),
+ * a countdown to the next session and winners of completed rounds
+ */
+export function F1CalendarDisplay({ calendar }: F1CalendarDisplayProps) {
+  if (calendar.rounds.length === 0) {
+    return (
+      <div className="font-mono text-center py-8 text-terminal-muted">
+        No {calendar.year} calendar available
+      </div>
+    );
+  }
+
+  // Live session, otherwise the next one to start
+  const upcoming = calendar.rounds
+    .flatMap((round) => round.sessions.map((session) => ({ round, session })))
+    .find(({ session }) => session.status !== "final");
+
+  const completedRounds = calendar.rounds.filter((round) => round.winner).length;
+
+  return (
+    <div className="font-mono text-sm">
+      {upcoming && (
+        <div
+          className={`border px-3 py-2 mb-4 text-center ${
+            upcoming.session.status === "live"
+              ? "border-terminal-green text-terminal-green"
+              : "border-terminal-cyan text-terminal-cyan"
+          }`}
+          role="status"
+        >
+          <span className="font-bold">{upcoming.session.status === "live" ? "LIVE NOW" : "NEXT"}</span>
+          <span className="text-terminal-border"> │ </span>
+          R{upcoming.round.round} {upcoming.round.name} · {upcoming.session.name}
+          <span className="text-terminal-border"> │ </span>
+          {upcoming.session.status === "live" ? (
+            <Link href={`/f1?weekend=${upcoming.round.weekendId}`} className="underline hover:text-terminal-fg">
+              Watch live timing
+            </Link>
+          ) : (
+            <>
+              <LocalTime date={upcoming.session.startTime} options={SESSION_TIME_FORMAT} />
+              {" · in "}
+              <F1Countdown target={upcoming.session.startTime} className="font-bold" />
+            </>
+          )}
+        </div>
+      )}
+
+      <h2 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        {calendar.year} Calendar
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">
+          {completedRounds}/{calendar.rounds.length} rounds complete · times in your time zone
+        </span>
+      </h2>
+
+      <ol className="space-y-2">
+        {calendar.rounds.map((round) => (
+          <CalendarRound
+            key={round.weekendId}
+            round={round}
+            nextSessionId={upcoming?.session.id}
+            isCurrent={upcoming?.round.weekendId === round.weekendId}
+          />
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import Link from "next/link";
+import type { F1Championship, F1ChampionshipRound } from "@/lib/types/f1";
+import { F1_MIN_CHAMPIONSHIP_YEAR } from "@/lib/types/f1";
+
+interface ChampionshipRow {
+  key: string;
+  position: number;
+  /** Sticky name column (driver code or team name) */
+  name: string;
+  /** Secondary column (driver's team) */
+  detail?: string;
+  points: number;
+  wins: number;
+  podiums: number;
+  progression: number[];
+}
+
+/**
+ * Year navigation for past seasons (championship standings or calendar)
+ */
+export function F1ChampionshipYearSelector({
+  currentYear,
+  maxYear,
+  basePath = "/f1/standings",
+}: {
+  currentYear: number;
+  maxYear: number;
+  /** Page the season links point to */
+  basePath?: string;
+}) {
+  const years: number[] = [];
+  for (let y = maxYear; y >= F1_MIN_CHAMPIONSHIP_YEAR; y--) {
+    years.push(y);
+  }
+
+  return (
+    <nav
+      className="font-mono text-xs flex flex-wrap items-center gap-1 mb-6"
+      aria-label="Championship season selector"
+    >
+      <span className="text-terminal-muted mr-1">SEASON:</span>
+      {years.map((year) => {
+        if (year === currentYear) {
+          return (
+            <span
+              key={year}
+              className="px-2 py-0.5 text-terminal-green font-bold border border-terminal-green/50"
+              aria-current="true"
+            >
+              [{year}]
+            </span>
+          );
+        }
+
+        return (
+          <Link
+            key={year}
+            href={`${basePath}?year=${year}`}
+            className="px-2 py-0.5 text-terminal-muted hover:text-terminal-green transition-colors"
+          >
+            {year}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
+
+/**
+ * Points table with gap to leader and cumulative points after each round
+ */
+function ChampionshipTable({
+  title,
+  nameHeader,
+  rows,
+  rounds,
+}: {
+  title: string;
+  nameHeader: string;
+  rows: ChampionshipRow[];
+  rounds: F1ChampionshipRound[];
+}) {
+  const leaderPoints = rows[0]?.points ?? 0;
+  const hasDetail = rows.some((row) => row.detail);
+
+  return (
+    <section className="mb-8">
+      <h2 className="font-mono text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        {title}
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">
+          after {rounds.length} {rounds.length === 1 ? "round" : "rounds"}
+        </span>
+      </h2>
+
+      <div className="font-mono text-sm border border-terminal-border rounded overflow-x-auto">
+        <div className="min-w-max">
+          {/* Header row */}
+          <div className="flex border-b border-terminal-border bg-terminal-bg/50 text-terminal-cyan">
+            <div className="sticky left-0 z-10 bg-terminal-bg/95 px-2 py-1 min-w-[160px] text-left border-r border-terminal-border">
+              <span className="inline-block w-8">POS</span>
+              {nameHeader}
+            </div>
+            {hasDetail && <div className="px-2 py-1 min-w-[140px] text-left">TEAM</div>}
+            <div className="px-2 py-1 min-w-[48px] text-right">PTS</div>
+            <div className="px-2 py-1 min-w-[56px] text-right">GAP</div>
+            <div className="px-2 py-1 min-w-[32px] text-right">W</div>
+            <div className="px-2 py-1 min-w-[40px] text-right border-r border-terminal-border">POD</div>
+            {rounds.map((round) => (
+              <div
+                key={round.round}
+                className="px-1 py-1 min-w-[40px] text-right text-terminal-muted"
+                title={`Round ${round.round}: ${round.name}${round.hasSprint ? " (sprint)" : ""}`}
+              >
+                R{round.round}
+              </div>
+            ))}
+          </div>
+
+          {/* Data rows */}
+          {rows.map((row, index) => (
+            <div key={row.key} className={`flex ${index % 2 === 0 ? "bg-terminal-bg/30" : ""}`}>
+              <div
+                className={`sticky left-0 z-10 px-2 py-1 min-w-[160px] text-left border-r border-terminal-border truncate ${
+                  index % 2 === 0 ? "bg-terminal-bg/95" : "bg-terminal-bg"
+                }`}
+              >
+                <span
+                  className={`inline-block w-8 ${row.position <= 3 ? "text-terminal-green font-bold" : "text-terminal-muted"}`}
+                >
+                  {row.position}
+                </span>
+                <span className="text-terminal-fg">{row.name}</span>
+              </div>
+              {hasDetail && (
+                <div className="px-2 py-1 min-w-[140px] text-left text-terminal-muted truncate">
+                  {row.detail}
+                </div>
+              )}
+              <div className="px-2 py-1 min-w-[48px] text-right text-terminal-fg font-bold">{row.points}</div>
+              <div className="px-2 py-1 min-w-[56px] text-right text-terminal-muted">
+                {index === 0 ? "-" : `-${leaderPoints - row.points}`}
+              </div>
+              <div className="px-2 py-1 min-w-[32px] text-right text-terminal-muted">{row.wins}</div>
+              <div className="px-2 py-1 min-w-[40px] text-right text-terminal-muted border-r border-terminal-border">
+                {row.podiums}
+              </div>
+              {row.progression.map((points, roundIndex) => {
+                // Highlight rounds where points were scored
+                const scored = points > (row.progression[roundIndex - 1] ?? 0);
+                return (
+                  <div
+                    key={rounds[roundIndex].round}
+                    className={`px-1 py-1 min-w-[40px] text-right text-xs ${scored ? "text-terminal-fg" : "text-terminal-border"}`}
+                  >
+                    {points}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * Drivers' and Constructors' Championship tables
+ */
+export function F1ChampionshipDisplay({ championship }: { championship: F1Championship }) {
+  if (championship.rounds.length === 0) {
+    return (
+      <div className="font-mono text-center py-8">
+        <div className="text-terminal-border" aria-hidden="true">
+          ╔═══════════════════════════════════════════════╗
+        </div>
+        <div>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+          <span className="text-terminal-muted px-4">
+            {"  "}No {championship.year} races completed yet{"  "}
+          </span>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+        </div>
+        <div className="text-terminal-border" aria-hidden="true">
+          ╚═══════════════════════════════════════════════╝
+        </div>
+      </div>
+    );
+  }
+
+  const driverRows: ChampionshipRow[] = championship.drivers.map((driver) => ({
+    key: String(driver.driverNumber),
+    position: driver.position,
+    name: driver.driverName ?? driver.driverCode,
+    detail: driver.teamName,
+    points: driver.points,
+    wins: driver.wins,
+    podiums: driver.podiums,
+    progression: driver.progression,
+  }));
+
+  const constructorRows: ChampionshipRow[] = championship.constructors.map((team) => ({
+    key: team.teamName,
+    position: team.position,
+    name: team.teamName,
+    points: team.points,
+    wins: team.wins,
+    podiums: team.podiums,
+    progression: team.progression,
+  }));
+
+  return (
+    <div>
+      <ChampionshipTable
+        title="Drivers' Championship"
+        nameHeader="DRIVER"
+        rows={driverRows}
+        rounds={championship.rounds}
+      />
+      <ChampionshipTable
+        title="Constructors' Championship"
+        nameHeader="TEAM"
+        rows={constructorRows}
+        rounds={championship.rounds}
+      />
+      <p className="font-mono text-xs text-terminal-muted">
+        R1-R{championship.rounds.length}: points after each round. Ties are broken on count-back of Grand Prix finishes.
+      </p>
+    </div>
+  );
+}
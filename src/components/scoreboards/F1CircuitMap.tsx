@@ -0,0 +1,164 @@
+import type { F1CircuitMap as F1CircuitMapData, F1TrackPoint } from "@/lib/types";
+
+interface F1CircuitMapProps {
+  map: F1CircuitMapData;
+  isLive: boolean;
+}
+
+/**
+ * Maximum character grid size (terminal cells are about twice as tall as they are wide)
+ */
+const MAP_WIDTH = 72;
+const MAP_HEIGHT = 24;
+
+interface MapCell {
+  char: string;
+  className: string;
+  /** Car markers and labels win over the track when they overlap */
+  isCar?: boolean;
+}
+
+/**
+ * Track glyph for a segment heading (dx, dy in cells, y growing downwards)
+ */
+function getTrackGlyph(dx: number, dy: number): string {
+  // Scale rows to match columns visually before measuring the angle
+  const angle = Math.abs((Math.atan2(-dy * 2, dx) * 180) / Math.PI);
+  if (angle < 22.5 || angle > 157.5) return "─";
+  if (angle > 67.5 && angle < 112.5) return "│";
+  return (dx > 0) === (dy < 0) ? "╱" : "╲";
+}
+
+/**
+ * Rasterize the outline and cars onto a character grid
+ * The track is scaled to fit and centered horizontally; cars are drawn back to front
+ * so the leader's label stays on top, with the code placed right of the marker (or
+ * left when there's no room).
+ */
+function rasterize(map: F1CircuitMapData): MapCell[][] {
+  const xs = map.outline.map((point) => point.x);
+  const ys = map.outline.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const maxY = Math.max(...ys);
+  const rangeX = Math.max(1, Math.max(...xs) - minX);
+  const rangeY = Math.max(1, maxY - Math.min(...ys));
+
+  // Leave room either side for car labels
+  const scale = Math.min((MAP_WIDTH - 9) / rangeX, ((MAP_HEIGHT - 1) * 2) / rangeY);
+  const offsetCol = Math.floor((MAP_WIDTH - 1 - rangeX * scale) / 2);
+  const height = Math.min(MAP_HEIGHT, Math.round((rangeY * scale) / 2) + 1);
+
+  const grid: MapCell[][] = Array.from({ length: height }, () =>
+    Array.from({ length: MAP_WIDTH }, () => ({ char: " ", className: "" }))
+  );
+
+  const toCell = (point: F1TrackPoint) => ({
+    col: Math.round((point.x - minX) * scale) + offsetCol,
+    row: Math.round(((maxY - point.y) * scale) / 2),
+  });
+
+  // Connect consecutive points, closing the lap
+  map.outline.forEach((point, i) => {
+    const from = toCell(point);
+    const to = toCell(map.outline[(i + 1) % map.outline.length]);
+    const dx = to.col - from.col;
+    const dy = to.row - from.row;
+    const steps = Math.max(Math.abs(dx), Math.abs(dy), 1);
+    const char = getTrackGlyph(dx, dy);
+
+    for (let step = 0; step < steps; step++) {
+      const col = Math.round(from.col + (dx * step) / steps);
+      const row = Math.round(from.row + (dy * step) / steps);
+      grid[row][col] = { char, className: "text-terminal-border" };
+    }
+  });
+
+  // Start/finish line (the reference lap starts there)
+  const start = toCell(map.outline[0]);
+  grid[start.row][start.col] = { char: "▮", className: "text-terminal-fg" };
+
+  const cars = [...map.cars].sort((a, b) => b.position - a.position);
+  for (const car of cars) {
+    const { row, col } = toCell(car);
+    if (row < 0 || row >= height || col < 0 || col >= MAP_WIDTH) continue;
+
+    const className = car.position === 1 ? "text-terminal-green font-bold" : "text-terminal-cyan";
+    grid[row][col] = { char: "●", className, isCar: true };
+
+    const label = car.driverCode.slice(0, 3);
+    const fitsRight =
+      col + label.length < MAP_WIDTH &&
+      grid[row].slice(col + 1, col + 1 + label.length).every((cell) => !cell.isCar);
+    const labelStart = fitsRight ? col + 1 : col - label.length;
+    if (labelStart < 0) continue;
+
+    [...label].forEach((char, i) => {
+      grid[row][labelStart + i] = { char, className, isCar: true };
+    });
+  }
+
+  return grid;
+}
+
+/**
+ * Group a row's cells into runs of the same color
+ */
+function toRuns(row: MapCell[]): Array<{ start: number; text: string; className: string }> {
+  const runs: Array<{ start: number; text: string; className: string }> = [];
+  row.forEach((cell, col) => {
+    const last = runs[runs.length - 1];
+    if (last && last.className === cell.className) {
+      last.text += cell.char;
+    } else {
+      runs.push({ start: col, text: cell.char, className: cell.className });
+    }
+  });
+  return runs;
+}
+
+/**
+ * ASCII circuit map: the track traced from a reference lap with each car's latest position
+ */
+export function F1CircuitMap({ map, isLive }: F1CircuitMapProps) {
+  const grid = rasterize(map);
+  const rows = Array.from({ length: grid.length }, (_, i) => i);
+
+  return (
+    <section className="mt-6" aria-label="Circuit map">
+      <h3 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        Circuit Map
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">
+          {isLive ? "live car positions" : "car positions at the end of the session"}
+        </span>
+      </h3>
+
+      <div className="overflow-x-auto border border-terminal-border rounded">
+        <div
+          className="min-w-max text-xs whitespace-pre leading-4 px-2 py-1 mx-auto w-fit"
+          role="img"
+          aria-label={`Track map with ${map.cars.length} cars`}
+        >
+          {rows.map((row) => (
+            <div key={row}>
+              {toRuns(grid[row]).map((run) => (
+                <span key={run.start} className={run.className || undefined}>
+                  {run.text}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="text-terminal-muted text-xs mt-2">
+        <span className="text-terminal-green">●</span> leader
+        {" · "}
+        <span className="text-terminal-cyan">●</span> car
+        {" · "}
+        <span className="text-terminal-fg">▮</span> start/finish
+      </div>
+    </section>
+  );
+}
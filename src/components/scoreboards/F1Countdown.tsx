@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface F1CountdownProps {
+  target: Date | string;
+  className?: string;
+}
+
+/**
+ * Format the time remaining (e.g., "2d 04:12:33")
+ */
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = [hours, minutes, seconds].map((value) => String(value).padStart(2, "0")).join(":");
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+/**
+ * Client component that counts down to a session start, ticking every second
+ * Renders a placeholder on the server to avoid hydration mismatch.
+ */
+export function F1Countdown({ target, className }: F1CountdownProps) {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (now === null) {
+    return <span className={className}>--:--:--</span>;
+  }
+
+  const remaining = new Date(target).getTime() - now;
+  return <span className={className}>{remaining > 0 ? formatCountdown(remaining) : "STARTING"}</span>;
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import type { F1Driver } from "@/lib/types";
+
+interface F1GapChartProps {
+  drivers: F1Driver[];
+}
+
+/**
+ * Chart height in rows (row 0 is the leader)
+ */
+const CHART_HEIGHT = 12;
+
+/**
+ * Drivers that can be plotted at once, each with its own color
+ */
+const DRIVER_COLORS = [
+  "text-terminal-green",
+  "text-terminal-cyan",
+  "text-terminal-yellow",
+  "text-terminal-magenta",
+  "text-terminal-red",
+  "text-terminal-blue",
+];
+
+const DEFAULT_SELECTION = 5;
+
+interface ChartCell {
+  char: string;
+  className: string;
+}
+
+/**
+ * Plot each selected driver's gap history onto a character grid, one column per lap
+ * Where two drivers land on the same cell the point is drawn as "*".
+ */
+function plot(
+  series: Array<{ history: Array<number | null>; className: string }>,
+  totalLaps: number,
+  maxGap: number
+): ChartCell[][] {
+  const grid: ChartCell[][] = Array.from({ length: CHART_HEIGHT }, () =>
+    Array.from({ length: totalLaps }, () => ({ char: " ", className: "" }))
+  );
+
+  for (const { history, className } of series) {
+    history.forEach((gap, lapIndex) => {
+      if (gap === null) return;
+      const row = Math.round((Math.min(gap, maxGap) / maxGap) * (CHART_HEIGHT - 1));
+      const cell = grid[row][lapIndex];
+      grid[row][lapIndex] = cell.char === " " ? { char: "•", className } : { char: "*", className: "text-terminal-fg" };
+    });
+  }
+
+  return grid;
+}
+
+/**
+ * Y-axis label for a row (top, middle and bottom only)
+ */
+function getAxisLabel(row: number, maxGap: number): string {
+  if (row !== 0 && row !== CHART_HEIGHT - 1 && row !== Math.floor(CHART_HEIGHT / 2)) return "";
+  return `+${((row / (CHART_HEIGHT - 1)) * maxGap).toFixed(1)}s`;
+}
+
+/**
+ * ASCII chart of the gap to the leader over the race for selected drivers
+ * The leader sits on the top line; drivers drift down as they lose time.
+ */
+export function F1GapChart({ drivers }: F1GapChartProps) {
+  const chartDrivers = drivers.filter((driver) => driver.gapHistory && driver.gapHistory.length > 0);
+  const [selected, setSelected] = useState<number[]>(() =>
+    chartDrivers.slice(0, DEFAULT_SELECTION).map((driver) => driver.driverNumber)
+  );
+
+  if (chartDrivers.length === 0) {
+    return null;
+  }
+
+  const toggleDriver = (driverNumber: number) => {
+    setSelected((current) =>
+      current.includes(driverNumber)
+        ? current.filter((number) => number !== driverNumber)
+        : current.length < DRIVER_COLORS.length
+          ? [...current, driverNumber]
+          : current
+    );
+  };
+
+  // Colors follow selection order
+  const series = selected
+    .map((driverNumber, index) => ({
+      driver: chartDrivers.find((driver) => driver.driverNumber === driverNumber),
+      className: DRIVER_COLORS[index],
+    }))
+    .filter((entry): entry is { driver: F1Driver; className: string } => entry.driver !== undefined)
+    .map(({ driver, className }) => ({ driver, history: driver.gapHistory!, className }));
+
+  const totalLaps = Math.max(0, ...series.map(({ history }) => history.length));
+  const maxGap = Math.max(
+    1,
+    ...series.flatMap(({ history }) => history.filter((gap): gap is number => gap !== null))
+  );
+  const grid = plot(series, totalLaps, maxGap);
+  const rows = Array.from({ length: CHART_HEIGHT }, (_, i) => i);
+  const laps = Array.from({ length: totalLaps }, (_, i) => i + 1);
+
+  // Lap numbers every tenth lap, written into a single axis line
+  const lapAxis = Array.from({ length: totalLaps }, () => " ");
+  for (let lap = 1; lap <= totalLaps; lap += lap === 1 ? 9 : 10) {
+    [...String(lap)].forEach((char, i) => {
+      if (lap - 1 + i < totalLaps) lapAxis[lap - 1 + i] = char;
+    });
+  }
+
+  return (
+    <section className="mt-6" aria-label="Gap to leader">
+      <h3 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        Gap to Leader
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">
+          at the end of each lap · up to {DRIVER_COLORS.length} drivers
+        </span>
+      </h3>
+
+      <div className="flex flex-wrap gap-1 text-xs mb-2" role="group" aria-label="Drivers to plot">
+        {chartDrivers.map((driver) => {
+          const index = selected.indexOf(driver.driverNumber);
+          const isSelected = index !== -1;
+
+          return (
+            <button
+              key={driver.driverNumber}
+              type="button"
+              onClick={() => toggleDriver(driver.driverNumber)}
+              aria-pressed={isSelected}
+              disabled={!isSelected && selected.length >= DRIVER_COLORS.length}
+              title={driver.driverName ?? driver.driverCode}
+              className={`px-1.5 border rounded transition-colors disabled:opacity-40 ${
+                isSelected
+                  ? `border-terminal-border ${DRIVER_COLORS[index]} font-bold`
+                  : "border-terminal-border/50 text-terminal-muted hover:text-terminal-fg"
+              }`}
+            >
+              {driver.driverCode}
+            </button>
+          );
+        })}
+      </div>
+
+      {series.length === 0 || totalLaps === 0 ? (
+        <div className="text-terminal-muted text-xs">Select a driver to plot their gap</div>
+      ) : (
+        <div className="overflow-x-auto border border-terminal-border rounded">
+          <div
+            className="min-w-max text-xs whitespace-pre leading-4 px-2 py-1"
+            role="img"
+            aria-label={`Gap to leader over ${totalLaps} laps for ${series.map(({ driver }) => driver.driverCode).join(", ")}`}
+          >
+            {rows.map((row) => (
+              <div key={row}>
+                <span className="text-terminal-muted">{getAxisLabel(row, maxGap).padStart(7, " ")} </span>
+                <span className="text-terminal-border">│</span>
+                {laps.map((lap) => {
+                  const cell = grid[row][lap - 1];
+                  return (
+                    <span key={lap} className={cell.className || undefined}>
+                      {cell.char}
+                    </span>
+                  );
+                })}
+              </div>
+            ))}
+            <div className="text-terminal-border">
+              {" ".repeat(8)}└{"─".repeat(totalLaps)}
+            </div>
+            <div className="text-terminal-cyan">
+              {"LAP".padStart(7, " ")}
+              {"  "}
+              {lapAxis.join("")}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="text-terminal-muted text-xs mt-2">
+        {series.map(({ driver, className }, index) => (
+          <span key={driver.driverNumber}>
+            {index > 0 && " · "}
+            <span className={className}>•</span> {driver.driverCode}
+          </span>
+        ))}
+        {series.length > 1 && (
+          <>
+            {" · "}
+            <span className="text-terminal-fg">*</span> overlap
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,126 @@
+import type { F1Driver } from "@/lib/types";
+
+interface F1LapChartProps {
+  drivers: F1Driver[];
+}
+
+/**
+ * Pad a lap chart cell to a fixed three characters
+ */
+function formatCell(value: string, marker = " "): string {
+  return `${value.padStart(2, " ")}${marker}`;
+}
+
+/**
+ * ASCII lap chart: one line per driver with their position at the end of each lap
+ * Pit laps are marked "p" and retirements "X"; drivers are listed in classification order.
+ */
+export function F1LapChart({ drivers }: F1LapChartProps) {
+  const chartDrivers = drivers.filter((driver) => driver.lapPositions && driver.lapPositions.length > 0);
+  const totalLaps = Math.max(
+    0,
+    ...chartDrivers.map((driver) => driver.retiredOnLap ?? driver.lapPositions!.length)
+  );
+
+  if (chartDrivers.length === 0 || totalLaps === 0) {
+    return null;
+  }
+
+  const laps = Array.from({ length: totalLaps }, (_, i) => i + 1);
+
+  return (
+    <section className="mt-6" aria-label="Lap chart">
+      <h3 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        Lap Chart
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">position at the end of each lap</span>
+      </h3>
+
+      <div className="overflow-x-auto border border-terminal-border rounded">
+        <div className="min-w-max text-xs whitespace-pre leading-5">
+          {/* Lap numbers (every fifth lap) */}
+          <div className="flex border-b border-terminal-border text-terminal-cyan">
+            <div className="sticky left-0 z-10 bg-terminal-bg px-2 w-14 border-r border-terminal-border">LAP</div>
+            {laps.map((lap) => (
+              <span key={lap} className="inline-block w-[3ch]">
+                {formatCell(lap === 1 || lap % 5 === 0 ? String(lap) : "·")}
+              </span>
+            ))}
+          </div>
+
+          {chartDrivers.map((driver, index) => {
+            const lapPositions = driver.lapPositions!;
+            const pitLaps = new Set(driver.pitLaps ?? []);
+            const rowBg = index % 2 === 0 ? "bg-terminal-bg" : "bg-terminal-zebra";
+
+            return (
+              <div key={driver.driverNumber} className={`flex ${rowBg}`}>
+                <div
+                  className={`sticky left-0 z-10 ${rowBg} px-2 w-14 border-r border-terminal-border text-terminal-fg`}
+                  title={driver.driverName ?? driver.driverCode}
+                >
+                  {driver.driverCode}
+                </div>
+                {laps.map((lap) => {
+                  const position = lapPositions[lap - 1];
+
+                  if (lap === driver.retiredOnLap) {
+                    return (
+                      <span
+                        key={lap}
+                        className="inline-block w-[3ch] text-terminal-red font-bold"
+                        title={`Retired on lap ${lap}`}
+                      >
+                        {formatCell("X")}
+                      </span>
+                    );
+                  }
+
+                  if (position === undefined) {
+                    return (
+                      <span key={lap} className="inline-block w-[3ch] text-terminal-border">
+                        {formatCell("·")}
+                      </span>
+                    );
+                  }
+
+                  // Color by places gained or lost on the lap
+                  const previous = lapPositions[lap - 2];
+                  const isPit = pitLaps.has(lap);
+                  const changeClass = isPit
+                    ? "text-terminal-yellow"
+                    : previous === undefined || previous === position
+                      ? "text-terminal-muted"
+                      : position < previous
+                        ? "text-terminal-green"
+                        : "text-terminal-red";
+
+                  return (
+                    <span
+                      key={lap}
+                      className={`inline-block w-[3ch] ${changeClass}`}
+                      title={`Lap ${lap}: P${position}${isPit ? " (pit)" : ""}`}
+                    >
+                      {formatCell(String(position), isPit ? "p" : " ")}
+                    </span>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="text-terminal-muted text-xs mt-2">
+        <span className="text-terminal-green">gained</span>
+        {" · "}
+        <span className="text-terminal-red">lost</span>
+        {" · "}
+        <span className="text-terminal-yellow">p</span> pitted
+        {" · "}
+        <span className="text-terminal-red">X</span> retired
+      </div>
+    </section>
+  );
+}
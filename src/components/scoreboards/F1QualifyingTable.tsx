@@ -0,0 +1,148 @@
+import type { F1Session } from "@/lib/types";
+import { getF1QualifyingCutoffs } from "@/lib/types/f1";
+import { F1DriverTags } from "./F1RaceControl";
+import { F1SectorCells, F1SectorHeaders, F1_SECTOR_COLUMN_COUNT } from "./F1SectorTimes";
+
+interface F1QualifyingTableProps {
+  session: F1Session;
+}
+
+/**
+ * Qualifying table split into knockout segments
+ * Shows each driver's best lap in Q1/Q2/Q3 (SQ1/SQ2/SQ3 in sprint qualifying),
+ * the gap to pole, and the cut lines between segments. While a session is live,
+ * drivers currently in the elimination zone are highlighted.
+ */
+export function F1QualifyingTable({ session }: F1QualifyingTableProps) {
+  const sessionName = session.name?.toLowerCase() ?? "";
+  const prefix = sessionName.includes("sprint") || sessionName.includes("shootout") ? "SQ" : "Q";
+  const segments = [1, 2, 3] as const;
+  const cutoffs = getF1QualifyingCutoffs(session.drivers.length);
+  const currentSegment = session.qualifyingSegment ?? 1;
+  const isLive = session.status === "live";
+
+  // Positions that drop out at the end of the running segment
+  const liveCutoff = currentSegment < 3 ? cutoffs[currentSegment - 1] : undefined;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs sm:text-sm" aria-label={`${session.name} results by segment`}>
+        <thead>
+          <tr className="text-terminal-cyan border-b border-terminal-border">
+            <th className="text-center py-1 px-2 whitespace-nowrap w-10">POS</th>
+            <th className="text-left py-1 px-2 whitespace-nowrap sticky left-0 bg-terminal-bg z-10">
+              DRIVER
+            </th>
+            <th className="text-left py-1 px-2 whitespace-nowrap hidden sm:table-cell">TEAM</th>
+            {segments.map((segment) => (
+              <th
+                key={segment}
+                className={`text-right py-1 px-2 whitespace-nowrap ${
+                  isLive && segment === currentSegment ? "text-terminal-green" : ""
+                }`}
+              >
+                {prefix}
+                {segment}
+              </th>
+            ))}
+            <th className="text-right py-1 px-2 whitespace-nowrap">GAP</th>
+            <F1SectorHeaders />
+            <th className="text-center py-1 px-2 whitespace-nowrap">LAPS</th>
+          </tr>
+        </thead>
+        <tbody>
+          {session.drivers.length > 0 ? (
+            session.drivers.map((driver, index) => {
+              const isEvenRow = index % 2 === 0;
+              const rowBg = isEvenRow ? "bg-terminal-bg" : "bg-terminal-zebra";
+              const driverDisplay = driver.driverName || driver.driverCode;
+              const qualifying = driver.qualifying;
+              const eliminatedIn = qualifying?.eliminatedIn;
+              const inDropZone =
+                isLive && !eliminatedIn && liveCutoff !== undefined && driver.position > liveCutoff;
+
+              // Dashed cut line above the first driver knocked out in each segment
+              const isBelowCut = cutoffs.some((cutoff) => driver.position === cutoff + 1);
+
+              return (
+                <tr
+                  key={driver.driverNumber}
+                  className={`${
+                    isBelowCut ? "border-t border-dashed border-terminal-red" : "border-b border-terminal-border/30"
+                  } ${rowBg}`}
+                >
+                  <td
+                    className={`text-center py-1 px-2 ${
+                      inDropZone
+                        ? "text-terminal-red font-bold"
+                        : driver.position <= 3
+                          ? "text-terminal-green font-bold"
+                          : "text-terminal-fg"
+                    }`}
+                  >
+                    <span className="sr-only">Position </span>
+                    {driver.position}
+                    {inDropZone && <span className="sr-only"> (elimination zone)</span>}
+                  </td>
+                  <td className={`py-1 px-2 whitespace-nowrap sticky left-0 ${rowBg} z-10`}>
+                    <span className={eliminatedIn ? "text-terminal-muted" : "text-terminal-fg font-medium"}>
+                      {driverDisplay}
+                    </span>
+                    <F1DriverTags driver={driver} />
+                  </td>
+                  <td className="py-1 px-2 whitespace-nowrap text-terminal-muted hidden sm:table-cell">
+                    {driver.teamName}
+                  </td>
+                  {segments.map((segment) => {
+                    const time = qualifying?.bestLaps[segment - 1];
+                    // Knocked out: no time in later segments
+                    const isOut = eliminatedIn !== undefined && segment > eliminatedIn;
+
+                    return (
+                      <td
+                        key={segment}
+                        className={`text-right py-1 px-2 whitespace-nowrap ${
+                          segment === eliminatedIn ? "text-terminal-red" : "text-terminal-fg"
+                        }`}
+                      >
+                        {isOut ? "" : time ?? "-"}
+                      </td>
+                    );
+                  })}
+                  <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-muted">
+                    {driver.position === 1 && qualifying?.bestLaps.some(Boolean)
+                      ? "POLE"
+                      : qualifying?.gapToPole ?? "-"}
+                  </td>
+                  <F1SectorCells driver={driver} />
+                  <td className="text-center py-1 px-2 whitespace-nowrap text-terminal-fg">
+                    {driver.lapsCompleted ?? "-"}
+                  </td>
+                </tr>
+              );
+            })
+          ) : (
+            <tr>
+              <td
+                colSpan={5 + segments.length + F1_SECTOR_COLUMN_COUNT}
+                className="text-center py-4 text-terminal-muted"
+              >
+                No position data available
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="text-terminal-muted text-xs mt-2">
+        Top {cutoffs[0]} advance from {prefix}1 and top {cutoffs[1]} from {prefix}2
+        {isLive && liveCutoff !== undefined && (
+          <>
+            {" · "}
+            <span className="text-terminal-red">red</span> = elimination zone
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
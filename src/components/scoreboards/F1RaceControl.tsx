@@ -0,0 +1,100 @@
+import type { F1Driver, F1RaceControlMessage, F1TrackStatus } from "@/lib/types";
+import { formatTime } from "@/lib/utils/format";
+
+const TRACK_STATUS: Record<F1TrackStatus, { label: string; className: string }> = {
+  green: { label: "GREEN FLAG", className: "text-terminal-green border-terminal-green" },
+  yellow: { label: "YELLOW FLAG", className: "text-terminal-yellow border-terminal-yellow" },
+  sc: { label: "SAFETY CAR", className: "text-terminal-yellow border-terminal-yellow" },
+  vsc: { label: "VIRTUAL SAFETY CAR", className: "text-terminal-yellow border-terminal-yellow" },
+  red: { label: "RED FLAG", className: "text-terminal-red border-terminal-red" },
+  chequered: { label: "CHEQUERED FLAG", className: "text-terminal-fg border-terminal-fg" },
+};
+
+const CATEGORY_LABELS: Record<F1RaceControlMessage["category"], string> = {
+  flag: "FLAG",
+  safety_car: "SC",
+  penalty: "PEN",
+  track_limits: "TRK",
+};
+
+/**
+ * Color for a race control message, following the flag it reports
+ */
+function getMessageClass(message: F1RaceControlMessage): string {
+  if (message.flag === "RED" || message.category === "penalty") return "text-terminal-red";
+  if (message.flag === "GREEN" || message.flag === "CLEAR") return "text-terminal-green";
+  if (message.category === "safety_car" || message.flag?.includes("YELLOW")) return "text-terminal-yellow";
+  return "text-terminal-fg";
+}
+
+/**
+ * Live track status banner (green/yellow/SC/VSC/red)
+ */
+export function F1TrackStatusBanner({ status }: { status: F1TrackStatus }) {
+  const { label, className } = TRACK_STATUS[status];
+
+  return (
+    <div
+      className={`font-mono text-sm font-bold text-center border py-1 mb-3 ${className}`}
+      role="status"
+      aria-label={`Track status: ${label}`}
+    >
+      <span aria-hidden="true">▌▌ </span>
+      {label}
+      <span aria-hidden="true"> ▐▐</span>
+    </div>
+  );
+}
+
+/**
+ * Status tags shown after a driver's name (in the pits, penalized)
+ */
+export function F1DriverTags({ driver }: { driver: F1Driver }) {
+  return (
+    <>
+      {driver.status === "pit" && <span className="ml-2 text-xs text-terminal-cyan">PIT</span>}
+      {driver.penalties && driver.penalties.length > 0 && (
+        <span className="ml-2 text-xs text-terminal-yellow" title={driver.penalties.join("\n")}>
+          PEN{driver.penalties.length > 1 ? ` x${driver.penalties.length}` : ""}
+        </span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Race control log: flags, safety car periods, penalties and lap time deletions (newest first)
+ */
+export function F1RaceControlLog({ messages }: { messages: F1RaceControlMessage[] }) {
+  if (messages.length === 0) {
+    return null;
+  }
+
+  const newestFirst = [...messages].reverse();
+
+  return (
+    <section className="mt-6" aria-label="Race control">
+      <h3 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        Race Control
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">{messages.length} messages</span>
+      </h3>
+
+      <div className="border border-terminal-border rounded max-h-64 overflow-y-auto text-xs">
+        {newestFirst.map((message, index) => (
+          <div
+            key={`${message.date.getTime()}-${message.message}`}
+            className={`flex gap-2 px-2 py-0.5 ${index % 2 === 0 ? "bg-terminal-bg" : "bg-terminal-zebra"}`}
+          >
+            <span className="text-terminal-muted w-16 shrink-0 text-right">
+              {message.lap ? `LAP ${message.lap}` : formatTime(message.date)}
+            </span>
+            <span className="text-terminal-muted w-10 shrink-0">{CATEGORY_LABELS[message.category]}</span>
+            <span className={getMessageClass(message)}>{message.message}</span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useMemo, useTransition } from "react";
+import { F1WeekendNotificationButton } from "@/components/notifications";
 import type { F1RaceWeekend } from "@/lib/types";
 import { formatDate } from "@/lib/utils/format";
 
@@ -194,8 +195,10 @@ export function F1RaceWeekendNav({ weekends }: F1RaceWeekendNavProps) {
             <span aria-hidden="true">●</span> LIVE
           </span>
         )}
-        {isCurrentPast && (
+        {isCurrentPast ? (
           <span className="text-terminal-muted">COMPLETED</span>
+        ) : (
+          <F1WeekendNotificationButton weekendId={currentWeekend.id} weekendName={currentWeekend.name} />
         )}
       </div>
 
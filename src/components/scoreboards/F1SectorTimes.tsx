@@ -0,0 +1,113 @@
+import type { F1Driver, F1SectorRating, F1SectorTime } from "@/lib/types";
+
+/**
+ * Timing screen colors: purple for the session best, green for a personal best
+ */
+const RATING_CLASSES: Record<F1SectorRating, string> = {
+  overall_best: "text-terminal-magenta",
+  personal_best: "text-terminal-green",
+  slower: "text-terminal-yellow",
+};
+
+const SECTORS = [1, 2, 3] as const;
+
+/**
+ * Number of columns added by the sector cells
+ */
+export const F1_SECTOR_COLUMN_COUNT = SECTORS.length + 1;
+
+/**
+ * Mini-sector strip for a sector (one block per mini-sector)
+ */
+function MiniSectors({ miniSectors }: { miniSectors: Array<F1SectorRating | null> }) {
+  return (
+    <span className="text-[8px] leading-none mr-1 align-middle" aria-hidden="true">
+      {/* Mini-sectors are fixed positions along the sector */}
+      {Array.from({ length: miniSectors.length }, (_, i) => i + 1).map((miniSector) => {
+        const rating = miniSectors[miniSector - 1];
+        return (
+          <span key={miniSector} className={rating ? RATING_CLASSES[rating] : "text-terminal-border"}>
+            ▮
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+/**
+ * Sector cell: last lap time with its mini-sectors, and the personal best underneath
+ */
+function SectorCell({ last, best }: { last?: F1SectorTime; best?: F1SectorTime }) {
+  return (
+    <td className="text-right py-1 px-2 whitespace-nowrap hidden md:table-cell">
+      <div className={last ? RATING_CLASSES[last.rating] : "text-terminal-muted"}>
+        {last?.miniSectors && last.miniSectors.length > 0 && (
+          <MiniSectors miniSectors={last.miniSectors} />
+        )}
+        {last?.time ?? "-"}
+      </div>
+      {best && (
+        <div className={`text-xs ${RATING_CLASSES[best.rating]} opacity-75`} title="Personal best">
+          {best.time}
+        </div>
+      )}
+    </td>
+  );
+}
+
+/**
+ * Sector column headers: S1-S3 and the theoretical best lap
+ */
+export function F1SectorHeaders() {
+  return (
+    <>
+      {SECTORS.map((sector) => (
+        <th key={sector} className="text-right py-1 px-2 whitespace-nowrap hidden md:table-cell">
+          S{sector}
+        </th>
+      ))}
+      <th className="text-right py-1 px-2 whitespace-nowrap hidden md:table-cell" title="Sum of best sectors">
+        IDEAL
+      </th>
+    </>
+  );
+}
+
+/**
+ * Sector cells for a driver: last lap (with personal best beneath) and theoretical best
+ */
+export function F1SectorCells({ driver }: { driver: F1Driver }) {
+  const sectors = driver.sectors;
+
+  return (
+    <>
+      {SECTORS.map((sector) => (
+        <SectorCell
+          key={sector}
+          last={sectors?.lastLap[sector - 1]}
+          best={sectors?.bestSectors[sector - 1]}
+        />
+      ))}
+      <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-muted hidden md:table-cell">
+        {sectors?.theoreticalBest ?? "-"}
+      </td>
+    </>
+  );
+}
+
+/**
+ * Color key for the sector columns
+ */
+export function F1SectorLegend() {
+  return (
+    <div className="text-terminal-muted text-xs mt-2 hidden md:block">
+      Sectors: last lap above, personal best below ·{" "}
+      <span className={RATING_CLASSES.overall_best}>session best</span>
+      {" · "}
+      <span className={RATING_CLASSES.personal_best}>personal best</span>
+      {" · "}
+      <span className={RATING_CLASSES.slower}>slower</span>
+    </div>
+  );
+}
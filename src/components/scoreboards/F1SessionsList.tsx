@@ -3,6 +3,14 @@
 import { useState } from "react";
 import type { F1Session } from "@/lib/types";
 import { getStatusClass, getStatusText, formatTime } from "@/lib/utils/format";
+import { F1Battles } from "./F1Battles";
+import { F1CircuitMap } from "./F1CircuitMap";
+import { F1GapChart } from "./F1GapChart";
+import { F1LapChart } from "./F1LapChart";
+import { F1QualifyingTable } from "./F1QualifyingTable";
+import { F1DriverTags, F1RaceControlLog, F1TrackStatusBanner } from "./F1RaceControl";
+import { F1SectorCells, F1SectorHeaders, F1SectorLegend, F1_SECTOR_COLUMN_COUNT } from "./F1SectorTimes";
+import { F1TyreStrategy } from "./F1TyreStrategy";
 
 interface F1SessionsListProps {
   sessions: F1Session[];
@@ -90,7 +98,7 @@ interface F1SessionTableProps {
  * Shows different columns based on session type (matching ESPN layout):
  * - Race: POS, DRIVER, TEAM, RACE TIME, LAPS, PITS, FASTEST LAPS
  * - Sprint: POS, DRIVER, TEAM, RACE TIME, LAPS, FASTEST LAPS (no PITS)
- * - Qualifying/Sprint Shootout: POS, DRIVER, TEAM, TIME, LAPS
+ * - Qualifying/Sprint Qualifying: POS, DRIVER, TEAM, Q1, Q2, Q3, GAP, LAPS
  * - Practice: POS, DRIVER, TEAM, TIME, LAPS
  */
 function F1SessionTable({ session }: F1SessionTableProps) {
@@ -100,8 +108,10 @@ function F1SessionTable({ session }: F1SessionTableProps) {
   // Determine session type for column layout
   const sessionName = session.name?.toLowerCase() ?? "";
   const isRace = sessionName.includes("race") && !sessionName.includes("sprint");
-  const isSprint = sessionName.includes("sprint") && !sessionName.includes("shootout");
+  const isSprint =
+    sessionName.includes("sprint") && !sessionName.includes("shootout") && !sessionName.includes("qualifying");
   const isPractice = sessionName.includes("practice") || sessionName.includes("fp");
+  const isQualifying = sessionName.includes("qualifying") || sessionName.includes("shootout");
 
   // Column count for empty state colspan
   const getColumnCount = () => {
@@ -123,87 +133,125 @@ function F1SessionTable({ session }: F1SessionTableProps) {
         <div className={`${statusClass} text-sm`}>{getStatusText(session.status)}</div>
       </div>
 
-      {/* Standings table */}
-      <div className="overflow-x-auto">
-        <table className="w-full text-xs sm:text-sm" aria-label={`${sessionLabel} standings`}>
-          <thead>
-            <tr className="text-terminal-cyan border-b border-terminal-border">
-              <th className="text-center py-1 px-2 whitespace-nowrap w-10">POS</th>
-              <th className="text-left py-1 px-2 whitespace-nowrap sticky left-0 bg-terminal-bg z-10">
-                DRIVER
-              </th>
-              <th className="text-left py-1 px-2 whitespace-nowrap hidden sm:table-cell">TEAM</th>
-              <th className="text-right py-1 px-2 whitespace-nowrap">
-                {isRace || isSprint ? "RACE TIME" : isPractice ? "BEST TIME" : "TIME"}
-              </th>
-              <th className="text-center py-1 px-2 whitespace-nowrap">LAPS</th>
-              {isRace && <th className="text-center py-1 px-2 whitespace-nowrap">PITS</th>}
-              {(isRace || isSprint) && (
-                <th className="text-right py-1 px-2 whitespace-nowrap">FASTEST LAP</th>
-              )}
-            </tr>
-          </thead>
-          <tbody>
-            {session.drivers.length > 0 ? (
-              session.drivers.map((driver, index) => {
-                const isEvenRow = index % 2 === 0;
-                const rowBg = isEvenRow ? "bg-terminal-bg" : "bg-terminal-zebra";
-                const driverDisplay = driver.driverName || driver.driverCode;
-
-                // Format time display - leader shows actual time, others show gap
-                const timeDisplay = driver.position === 1
-                  ? driver.fastestLap ?? "-"
-                  : driver.gap ?? "-";
-
-                return (
-                  <tr
-                    key={driver.driverNumber}
-                    className={`border-b border-terminal-border/30 ${rowBg}`}
-                  >
-                    <td
-                      className={`text-center py-1 px-2 ${
-                        driver.position <= 3 ? "text-terminal-green font-bold" : "text-terminal-fg"
-                      }`}
+      {/* Track status while the session is running */}
+      {session.status === "live" && session.trackStatus && (
+        <F1TrackStatusBanner status={session.trackStatus} />
+      )}
+
+      {/* Standings table (qualifying is split into knockout segments) */}
+      {isQualifying ? (
+        <F1QualifyingTable session={session} />
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm" aria-label={`${sessionLabel} standings`}>
+            <thead>
+              <tr className="text-terminal-cyan border-b border-terminal-border">
+                <th className="text-center py-1 px-2 whitespace-nowrap w-10">POS</th>
+                <th className="text-left py-1 px-2 whitespace-nowrap sticky left-0 bg-terminal-bg z-10">
+                  DRIVER
+                </th>
+                <th className="text-left py-1 px-2 whitespace-nowrap hidden sm:table-cell">TEAM</th>
+                <th className="text-right py-1 px-2 whitespace-nowrap">
+                  {isRace || isSprint ? "RACE TIME" : isPractice ? "BEST TIME" : "TIME"}
+                </th>
+                <F1SectorHeaders />
+                <th className="text-center py-1 px-2 whitespace-nowrap">LAPS</th>
+                {isRace && <th className="text-center py-1 px-2 whitespace-nowrap">PITS</th>}
+                {(isRace || isSprint) && (
+                  <th className="text-right py-1 px-2 whitespace-nowrap">FASTEST LAP</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {session.drivers.length > 0 ? (
+                session.drivers.map((driver, index) => {
+                  const isEvenRow = index % 2 === 0;
+                  const rowBg = isEvenRow ? "bg-terminal-bg" : "bg-terminal-zebra";
+                  const driverDisplay = driver.driverName || driver.driverCode;
+
+                  // Format time display - leader shows actual time, others show gap
+                  // (retired and disqualified drivers show DNF/DSQ instead)
+                  const timeDisplay = driver.status === "disqualified"
+                    ? "DSQ"
+                    : driver.status === "out"
+                      ? "DNF"
+                      : driver.position === 1
+                        ? driver.fastestLap ?? "-"
+                        : driver.gap ?? "-";
+
+                  return (
+                    <tr
+                      key={driver.driverNumber}
+                      className={`border-b border-terminal-border/30 ${rowBg}`}
                     >
-                      <span className="sr-only">Position </span>
-                      {driver.position}
-                      {driver.position <= 3 && <span className="sr-only"> (podium)</span>}
-                    </td>
-                    <td className={`py-1 px-2 whitespace-nowrap sticky left-0 ${rowBg} z-10`}>
-                      <span className="text-terminal-fg font-medium">{driverDisplay}</span>
-                    </td>
-                    <td className="py-1 px-2 whitespace-nowrap text-terminal-muted hidden sm:table-cell">
-                      {driver.teamName}
-                    </td>
-                    <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-fg">
-                      {timeDisplay}
-                    </td>
-                    <td className="text-center py-1 px-2 whitespace-nowrap text-terminal-fg">
-                      {driver.lapsCompleted ?? "-"}
-                    </td>
-                    {isRace && (
-                      <td className="text-center py-1 px-2 whitespace-nowrap text-terminal-fg">
-                        {driver.pitStops ?? 0}
+                      <td
+                        className={`text-center py-1 px-2 ${
+                          driver.position <= 3 ? "text-terminal-green font-bold" : "text-terminal-fg"
+                        }`}
+                      >
+                        <span className="sr-only">Position </span>
+                        {driver.position}
+                        {driver.position <= 3 && <span className="sr-only"> (podium)</span>}
                       </td>
-                    )}
-                    {(isRace || isSprint) && (
-                      <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-muted">
-                        {driver.fastestLap ?? "--"}
+                      <td className={`py-1 px-2 whitespace-nowrap sticky left-0 ${rowBg} z-10`}>
+                        <span className="text-terminal-fg font-medium">{driverDisplay}</span>
+                        <F1DriverTags driver={driver} />
                       </td>
-                    )}
-                  </tr>
-                );
-              })
-            ) : (
-              <tr>
-                <td colSpan={getColumnCount()} className="text-center py-4 text-terminal-muted">
-                  No position data available
-                </td>
-              </tr>
-            )}
-          </tbody>
-        </table>
-      </div>
+                      <td className="py-1 px-2 whitespace-nowrap text-terminal-muted hidden sm:table-cell">
+                        {driver.teamName}
+                      </td>
+                      <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-fg">
+                        {timeDisplay}
+                      </td>
+                      <F1SectorCells driver={driver} />
+                      <td className="text-center py-1 px-2 whitespace-nowrap text-terminal-fg">
+                        {driver.lapsCompleted ?? "-"}
+                      </td>
+                      {isRace && (
+                        <td className="text-center py-1 px-2 whitespace-nowrap text-terminal-fg">
+                          {driver.pitStops ?? 0}
+                        </td>
+                      )}
+                      {(isRace || isSprint) && (
+                        <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-muted">
+                          {driver.fastestLap ?? "--"}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })
+              ) : (
+                <tr>
+                  <td colSpan={getColumnCount() + F1_SECTOR_COLUMN_COUNT} className="text-center py-4 text-terminal-muted">
+                    No position data available
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Sector color key */}
+      <F1SectorLegend />
+
+      {/* Cars within DRS range of the car ahead */}
+      {(isRace || isSprint) && session.status === "live" && <F1Battles drivers={session.drivers} />}
+
+      {/* Track outline with car positions */}
+      {session.circuitMap && <F1CircuitMap map={session.circuitMap} isLive={session.status === "live"} />}
+
+      {/* Lap-by-lap positions */}
+      {(isRace || isSprint) && <F1LapChart drivers={session.drivers} />}
+
+      {/* Gap to the leader lap by lap */}
+      {(isRace || isSprint) && <F1GapChart drivers={session.drivers} />}
+
+      {/* Stints per driver */}
+      <F1TyreStrategy drivers={session.drivers} />
+
+      {/* Flags, safety car and steward decisions */}
+      {session.raceControl && <F1RaceControlLog messages={session.raceControl} />}
     </div>
   );
 }
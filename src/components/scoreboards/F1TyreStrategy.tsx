@@ -0,0 +1,113 @@
+import type { F1Driver, F1TyreStint } from "@/lib/types";
+
+interface F1TyreStrategyProps {
+  drivers: F1Driver[];
+}
+
+/**
+ * Compound letters and colors (matching the sidewall markings)
+ */
+const COMPOUNDS: Record<string, { letter: string; className: string }> = {
+  SOFT: { letter: "S", className: "text-terminal-red" },
+  MEDIUM: { letter: "M", className: "text-terminal-yellow" },
+  HARD: { letter: "H", className: "text-terminal-fg" },
+  INTERMEDIATE: { letter: "I", className: "text-terminal-green" },
+  WET: { letter: "W", className: "text-terminal-blue" },
+};
+
+function getCompound(compound: string): { letter: string; className: string } {
+  return COMPOUNDS[compound.toUpperCase()] ?? { letter: "?", className: "text-terminal-muted" };
+}
+
+/**
+ * Stint label: compound, lap range and tyre age when fitted (e.g., "M 21-57 +3")
+ */
+function formatStint(stint: F1TyreStint): string {
+  const age = stint.tyreAgeAtStart > 0 ? ` +${stint.tyreAgeAtStart}` : "";
+  return `${getCompound(stint.compound).letter} ${stint.lapStart}-${stint.lapEnd}${age}`;
+}
+
+/**
+ * Tyre strategy strips: each stint drawn one character per lap, labelled with its compound
+ */
+export function F1TyreStrategy({ drivers }: F1TyreStrategyProps) {
+  const strategyDrivers = drivers.filter((driver) => driver.stints && driver.stints.length > 0);
+
+  if (strategyDrivers.length === 0) {
+    return null;
+  }
+
+  const totalLaps = Math.max(
+    ...strategyDrivers.map((driver) => driver.stints![driver.stints!.length - 1].lapEnd)
+  );
+
+  return (
+    <section className="mt-6" aria-label="Tyre strategy">
+      <h3 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        Tyre Strategy
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">one character per lap</span>
+      </h3>
+
+      <div className="overflow-x-auto border border-terminal-border rounded">
+        <div className="min-w-max text-xs whitespace-pre leading-5">
+          {strategyDrivers.map((driver, index) => {
+            const stints = driver.stints!;
+            const rowBg = index % 2 === 0 ? "bg-terminal-bg" : "bg-terminal-zebra";
+            let nextLap = 1;
+
+            return (
+              <div key={driver.driverNumber} className={`flex ${rowBg}`}>
+                <div
+                  className={`sticky left-0 z-10 ${rowBg} px-2 w-14 border-r border-terminal-border text-terminal-fg`}
+                  title={driver.driverName ?? driver.driverCode}
+                >
+                  {driver.driverCode}
+                </div>
+                <div className="px-2 box-content" style={{ width: `${totalLaps}ch` }}>
+                  {stints.map((stint) => {
+                    const { letter, className } = getCompound(stint.compound);
+                    const length = Math.max(1, stint.lapEnd - stint.lapStart + 1);
+                    // Keep strips aligned by lap if stint data skips laps
+                    const offset = Math.max(0, stint.lapStart - nextLap);
+                    nextLap = stint.lapStart + length;
+
+                    return (
+                      <span key={stint.lapStart} title={`${stint.compound} ${formatStint(stint)}`}>
+                        {" ".repeat(offset)}
+                        <span className={className}>
+                          {letter}
+                          {"═".repeat(length - 1)}
+                        </span>
+                      </span>
+                    );
+                  })}
+                </div>
+                <div className="px-2 text-terminal-muted">
+                  {stints.map((stint) => (
+                    <span key={stint.lapStart} className="mr-2">
+                      <span className={getCompound(stint.compound).className}>
+                        {getCompound(stint.compound).letter}
+                      </span>
+                      {formatStint(stint).slice(1)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="text-terminal-muted text-xs mt-2">
+        {Object.entries(COMPOUNDS).map(([compound, { letter, className }]) => (
+          <span key={compound} className="mr-3">
+            <span className={className}>{letter}</span> {compound.toLowerCase()}
+          </span>
+        ))}
+        <span>+N laps on the set when fitted</span>
+      </div>
+    </section>
+  );
+}
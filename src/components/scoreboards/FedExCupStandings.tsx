@@ -0,0 +1,197 @@
+import { Fragment } from "react";
+import Link from "next/link";
+import type { FedExCupStanding, FedExCupStandings } from "@/lib/types";
+import { formatNumber, truncate } from "@/lib/utils/format";
+
+interface FedExCupStandingsDisplayProps {
+  standings: FedExCupStandings;
+}
+
+/**
+ * Playoff qualification cutoffs, deepest first: each line is drawn below the last qualifier
+ */
+const PLAYOFF_CUTOFFS = [
+  { rank: 30, label: "TOP 30 · TOUR CHAMPIONSHIP", className: "text-terminal-green" },
+  { rank: 50, label: "TOP 50 · BMW CHAMPIONSHIP", className: "text-terminal-cyan" },
+  { rank: 70, label: "TOP 70 · FEDEX ST. JUDE", className: "text-terminal-yellow" },
+];
+
+/**
+ * Rank color by the furthest playoff event the player currently qualifies for
+ */
+function getRankClass(rank: number): string {
+  const cutoff = PLAYOFF_CUTOFFS.find((c) => rank <= c.rank);
+  return cutoff ? `${cutoff.className} font-bold` : "text-terminal-muted";
+}
+
+/**
+ * Standing rank shown in the table (projected while a tournament is live)
+ */
+function getDisplayRank(standing: FedExCupStanding): number {
+  return standing.projectedRank ?? standing.rank;
+}
+
+/**
+ * Places gained or lost on the projection (players without points yet are new)
+ */
+function ProjectedMove({ standing }: { standing: FedExCupStanding }) {
+  if (standing.projectedRank === undefined) return null;
+  if (standing.rank === 0) return <span className="text-terminal-cyan">NEW</span>;
+
+  const move = standing.rank - standing.projectedRank;
+  if (move > 0) return <span className="text-terminal-green">▲{move}</span>;
+  if (move < 0) return <span className="text-terminal-red">▼{-move}</span>;
+  return <span className="text-terminal-muted">-</span>;
+}
+
+/**
+ * Divider row for a playoff cutoff line
+ */
+function CutoffRow({ cutoff, columnCount }: { cutoff: (typeof PLAYOFF_CUTOFFS)[number]; columnCount: number }) {
+  return (
+    <tr aria-label={`Playoff cutoff: ${cutoff.label}`}>
+      <td colSpan={columnCount} className="py-0.5 text-xs">
+        <div className={`flex whitespace-nowrap overflow-hidden ${cutoff.className}`}>
+          <span aria-hidden="true">{"- - "}</span>
+          <span className="font-bold px-1">{cutoff.label}</span>
+          <span className="flex-1 overflow-hidden" aria-hidden="true">
+            {" -".repeat(100)}
+          </span>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Season FedEx Cup standings with playoff cutoffs
+ * While a tournament is in progress, players are ranked on projected points with
+ * their current position and the points it would earn.
+ */
+export function FedExCupStandingsDisplay({ standings }: FedExCupStandingsDisplayProps) {
+  const { liveTournament } = standings;
+  const isLive = liveTournament !== undefined;
+  const columnCount = isLive ? 8 : 4;
+
+  if (standings.standings.length === 0) {
+    return (
+      <div className="font-mono text-center py-8 text-terminal-muted">
+        {standings.missingEvents.length > 0
+          ? "FedEx Cup results are unavailable right now"
+          : "No FedEx Cup points awarded yet this season"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="font-mono text-sm">
+      {liveTournament && (
+        <div className="border border-terminal-green text-terminal-green px-3 py-2 mb-4 text-center" role="status">
+          <span className="font-bold">LIVE PROJECTION</span>
+          <span className="text-terminal-border"> │ </span>
+          <Link href={`/pga?event=${liveTournament.id}`} className="underline hover:text-terminal-fg">
+            {liveTournament.name}
+          </Link>
+          {liveTournament.currentRound && ` · Round ${liveTournament.currentRound}`}
+          <span className="text-terminal-border"> │ </span>
+          as it stands
+        </div>
+      )}
+
+      {standings.missingEvents.length > 0 && (
+        <div className="border border-terminal-yellow text-terminal-yellow px-3 py-2 mb-4 text-center" role="alert">
+          <span className="font-bold">INCOMPLETE</span>
+          <span className="text-terminal-border"> │ </span>
+          Results unavailable for {standings.missingEvents.join(", ")}; points from{" "}
+          {standings.missingEvents.length === 1 ? "this event are" : "these events are"} missing
+        </div>
+      )}
+
+      <h2 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        FedEx Cup
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">
+          after {standings.eventsCounted} {standings.eventsCounted === 1 ? "event" : "events"}
+        </span>
+      </h2>
+
+      <div className="overflow-x-auto border border-terminal-border rounded">
+        <table className="w-full text-xs sm:text-sm" aria-label="FedEx Cup standings">
+          <thead>
+            <tr className="text-terminal-cyan border-b border-terminal-border">
+              <th className="text-center py-1 px-2 whitespace-nowrap w-12">{isLive ? "PROJ" : "RANK"}</th>
+              {isLive && <th className="text-center py-1 px-2 whitespace-nowrap">MOVE</th>}
+              <th className="text-left py-1 px-2 whitespace-nowrap sticky left-0 bg-terminal-bg z-10">PLAYER</th>
+              <th className="text-center py-1 px-2 whitespace-nowrap">EVENTS</th>
+              <th className="text-right py-1 px-2 whitespace-nowrap">POINTS</th>
+              {isLive && (
+                <>
+                  <th className="text-center py-1 px-2 whitespace-nowrap">POS</th>
+                  <th className="text-right py-1 px-2 whitespace-nowrap">+PTS</th>
+                  <th className="text-right py-1 px-2 whitespace-nowrap">PROJ PTS</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {standings.standings.map((standing, index) => {
+              const rank = getDisplayRank(standing);
+              const previousRank = index > 0 ? getDisplayRank(standings.standings[index - 1]) : 0;
+              // Cutoff lines crossed between the previous row and this one
+              const cutoffs = PLAYOFF_CUTOFFS.filter((c) => previousRank <= c.rank && rank > c.rank && index > 0);
+              const rowBg = index % 2 === 0 ? "bg-terminal-bg" : "bg-terminal-zebra";
+
+              return (
+                <Fragment key={standing.playerId}>
+                  {cutoffs.map((cutoff) => (
+                    <CutoffRow key={cutoff.rank} cutoff={cutoff} columnCount={columnCount} />
+                  ))}
+                  <tr className={`border-b border-terminal-border/30 ${rowBg}`}>
+                    <td className={`text-center py-1 px-2 ${getRankClass(rank)}`}>{rank}</td>
+                    {isLive && (
+                      <td className="text-center py-1 px-2 whitespace-nowrap text-xs" title={`Current rank: ${standing.rank || "-"}`}>
+                        <ProjectedMove standing={standing} />
+                      </td>
+                    )}
+                    <td className={`py-1 px-2 whitespace-nowrap sticky left-0 ${rowBg} z-10 text-terminal-fg`}>
+                      {truncate(standing.name, 22)}
+                    </td>
+                    <td className="text-center py-1 px-2 text-terminal-muted">{standing.events}</td>
+                    <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-fg">
+                      {formatNumber(standing.points)}
+                    </td>
+                    {isLive && (
+                      <>
+                        <td className="text-center py-1 px-2 whitespace-nowrap text-terminal-muted">
+                          {standing.currentPosition ?? "-"}
+                        </td>
+                        <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-green">
+                          {standing.projectedEventPoints ? `+${formatNumber(standing.projectedEventPoints)}` : "-"}
+                        </td>
+                        <td className="text-right py-1 px-2 whitespace-nowrap text-terminal-fg font-bold">
+                          {formatNumber(standing.projectedPoints ?? standing.points)}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="text-terminal-muted text-xs mt-2">
+        Playoffs:{" "}
+        {PLAYOFF_CUTOFFS.map((cutoff, index) => (
+          <span key={cutoff.rank}>
+            {index > 0 && " · "}
+            <span className={cutoff.className}>{cutoff.label.toLowerCase()}</span>
+          </span>
+        ))}
+        {isLive && " · projected points assume the current leaderboard is final"}
+      </div>
+    </div>
+  );
+}
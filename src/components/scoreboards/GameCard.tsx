@@ -1,10 +1,13 @@
 import Link from "next/link";
-import type { Game, GameStatus, GameType } from "@/lib/types";
+import type { Game, GameStatus, GameType, Team } from "@/lib/types";
 import { getStatusClass, getStatusText } from "@/lib/utils/format";
 import { supportsNotifications } from "@/lib/notifications/types";
+import { supportsFavorites } from "@/lib/favorites/types";
+import { FavoriteButton } from "@/components/favorites";
 import { GameStats } from "./GameStats";
 import { PeriodScores } from "./PeriodScores";
 import { GameCardNotificationButton } from "./GameCardNotificationButton";
+import { TeamLink } from "./TeamLink";
 
 /**
  * Get badge display for game type (preseason, playoff, etc.)
@@ -27,7 +30,7 @@ interface GameCardProps {
   game: Game;
 }
 
-// Leagues that support game detail pages
+// Leagues that support game detail and team pages
 const DETAIL_SUPPORTED_LEAGUES = ["nhl", "nfl", "nba", "mlb", "mls", "epl", "fa-cup", "ncaam", "ncaaw"];
 
 /**
@@ -91,20 +94,16 @@ function BorderLine({
  * Team row component with flexible alignment
  */
 function TeamRow({
+  league,
   team,
-  teamFullName,
-  record,
-  rank,
   score,
   isWinning,
   side,
   sideClass,
   gameStatus,
 }: {
-  team: string;
-  teamFullName: string;
-  record?: string;
-  rank?: number;
+  league: Game["league"];
+  team: Team;
   score: number;
   isWinning: boolean;
   side: string;
@@ -116,17 +115,36 @@ function TeamRow({
   const textClass = showWinning ? "text-terminal-green font-bold" : "text-terminal-fg";
   const scoreClass = showWinning ? "text-terminal-green font-bold text-glow" : "text-terminal-fg";
   const showWinIndicator = showWinning;
+  const { abbreviation, displayName, record, rank } = team;
 
   return (
     <div className="flex items-center">
       <span className={sideClass} aria-hidden="true">{side}</span>
       <div className="flex-1 flex items-center justify-between px-2 py-0.5">
         <span className={textClass}>
-          <span className="sr-only">{rank ? `#${rank} ` : ""}{teamFullName}</span>
-          <span aria-hidden="true">
-            {rank && <span className="text-terminal-yellow text-xs">{rank} </span>}
-            {team}
-          </span>
+          {supportsFavorites(league) && (
+            <FavoriteButton
+              league={league}
+              teamId={team.id}
+              abbreviation={abbreviation}
+              displayName={displayName}
+              className="text-xs mr-1"
+            />
+          )}
+          {DETAIL_SUPPORTED_LEAGUES.includes(league) ? (
+            <TeamLink href={`/${league}/team/${team.id}`} label={`${rank ? `#${rank} ` : ""}${displayName} team page`}>
+              {rank && <span className="text-terminal-yellow text-xs">{rank} </span>}
+              {abbreviation}
+            </TeamLink>
+          ) : (
+            <>
+              <span className="sr-only">{rank ? `#${rank} ` : ""}{displayName}</span>
+              <span aria-hidden="true">
+                {rank && <span className="text-terminal-yellow text-xs">{rank} </span>}
+                {abbreviation}
+              </span>
+            </>
+          )}
           {record && (
             <span className="text-terminal-muted text-xs ml-2" aria-label={`Record: ${record}`}>
               ({record})
@@ -234,10 +252,8 @@ export function GameCard({ game }: GameCardProps) {
 
       {/* Away team */}
       <TeamRow
-        team={game.awayTeam.abbreviation}
-        teamFullName={game.awayTeam.displayName}
-        record={game.awayTeam.record}
-        rank={game.awayTeam.rank}
+        league={game.league}
+        team={game.awayTeam}
         score={game.awayScore}
         isWinning={game.awayScore > game.homeScore}
         side={border.side}
@@ -247,10 +263,8 @@ export function GameCard({ game }: GameCardProps) {
 
       {/* Home team */}
       <TeamRow
-        team={game.homeTeam.abbreviation}
-        teamFullName={game.homeTeam.displayName}
-        record={game.homeTeam.record}
-        rank={game.homeTeam.rank}
+        league={game.league}
+        team={game.homeTeam}
         score={game.homeScore}
         isWinning={game.homeScore > game.awayScore}
         side={border.side}
@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import type {
   GameSummary,
   GoalieStats,
@@ -12,6 +13,7 @@ import { getStatusClass, getStatusText } from "@/lib/utils/format";
 import { AsciiStatBar } from "@/components/ascii/AsciiDecorations";
 import { supportsNotifications } from "@/lib/notifications/types";
 import { GameDetailNotificationButton } from "./GameDetailNotificationButton";
+import { useLiveGame } from "./LiveScoresProvider";
 
 interface GameDetailDisplayProps {
   summary: GameSummary;
@@ -20,7 +22,10 @@ interface GameDetailDisplayProps {
 /**
  * Main game detail display component
  */
-export function GameDetailDisplay({ summary }: GameDetailDisplayProps) {
+export function GameDetailDisplay({ summary: initialSummary }: GameDetailDisplayProps) {
+  // Score, clock and status are patched from the live stream between refreshes
+  const liveGame = useLiveGame(initialSummary.game);
+  const summary = { ...initialSummary, game: liveGame };
   const { game, scoringPlays, homeBoxscore, awayBoxscore, leaders, attendance } = summary;
   const isScheduled = game.status === "scheduled";
   const hasPeriodScores = !!game.periodScores;
@@ -255,7 +260,13 @@ function GameScoreHeader({ summary }: { summary: GameSummary }) {
                 {isCollege && game.awayTeam.rank && (
                   <span className="text-terminal-yellow text-sm sm:text-lg mr-1">#{game.awayTeam.rank}</span>
                 )}
-                {game.awayTeam.abbreviation}
+                <Link
+                  href={`/${game.league}/team/${game.awayTeam.id}`}
+                  className="hover:text-terminal-green transition-colors"
+                  title={game.awayTeam.displayName}
+                >
+                  {game.awayTeam.abbreviation}
+                </Link>
               </div>
               <div className="text-terminal-muted text-xs sm:text-sm">{game.awayTeam.record}</div>
             </div>
@@ -279,7 +290,13 @@ function GameScoreHeader({ summary }: { summary: GameSummary }) {
                 {isCollege && game.homeTeam.rank && (
                   <span className="text-terminal-yellow text-sm sm:text-lg mr-1">#{game.homeTeam.rank}</span>
                 )}
-                {game.homeTeam.abbreviation}
+                <Link
+                  href={`/${game.league}/team/${game.homeTeam.id}`}
+                  className="hover:text-terminal-green transition-colors"
+                  title={game.homeTeam.displayName}
+                >
+                  {game.homeTeam.abbreviation}
+                </Link>
               </div>
               <div className="text-terminal-muted text-xs sm:text-sm">{game.homeTeam.record}</div>
             </div>
@@ -316,10 +333,10 @@ function TeamMatchupSection({ homeTeam, awayTeam, league }: TeamMatchupSectionPr
 
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         {/* Away team */}
-        <TeamMatchupCard team={awayTeam} label="AWAY" isCollege={isCollege} />
+        <TeamMatchupCard team={awayTeam} label="AWAY" league={league} isCollege={isCollege} />
 
         {/* Home team */}
-        <TeamMatchupCard team={homeTeam} label="HOME" isCollege={isCollege} />
+        <TeamMatchupCard team={homeTeam} label="HOME" league={league} isCollege={isCollege} />
       </div>
     </div>
   );
@@ -328,10 +345,11 @@ function TeamMatchupSection({ homeTeam, awayTeam, league }: TeamMatchupSectionPr
 interface TeamMatchupCardProps {
   team: Team;
   label: string;
+  league: string;
   isCollege: boolean;
 }
 
-function TeamMatchupCard({ team, label, isCollege }: TeamMatchupCardProps) {
+function TeamMatchupCard({ team, label, league, isCollege }: TeamMatchupCardProps) {
   // Generate CSS custom property for team color accent
   const teamColorStyle = team.color
     ? { borderColor: `#${team.color}` }
@@ -350,7 +368,12 @@ function TeamMatchupCard({ team, label, isCollege }: TeamMatchupCardProps) {
         {showRank && (
           <span className="text-terminal-yellow text-sm">#{team.rank}</span>
         )}
-        <span className="text-terminal-fg font-bold">{team.displayName}</span>
+        <Link
+          href={`/${league}/team/${team.id}`}
+          className="text-terminal-fg font-bold hover:text-terminal-green transition-colors"
+        >
+          {team.displayName}
+        </Link>
       </div>
       {team.record && (
         <div className="text-terminal-muted text-sm mt-1">
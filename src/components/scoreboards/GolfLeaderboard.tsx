@@ -1,11 +1,36 @@
-import type { GolfLeaderboard, GolfPlayer, GolfTournament, GolfTournamentStatus } from "@/lib/types";
-import type { PGATournamentInfo } from "@/lib/api/pga";
+import { Fragment } from "react";
+import Link from "next/link";
+import type {
+  GolfLeaderboard,
+  GolfLeague,
+  GolfPlayer,
+  GolfProjectedCut,
+  GolfTournament,
+  GolfTournamentStatus,
+} from "@/lib/types";
+import type { GolfTournamentInfo } from "@/lib/api/golf";
 import { formatCurrency, formatNumber, truncate } from "@/lib/utils/format";
+import { GolfScorecard } from "./GolfScorecard";
+import { GolfTeamStandings } from "./GolfTeamStandings";
+import { GolfTeeSheet, hasGolfTeeTimes } from "./GolfTeeSheet";
+
+/**
+ * Leaderboard page view
+ */
+export type GolfLeaderboardView = "leaderboard" | "tees";
 
 interface GolfLeaderboardProps {
+  /** Tour the leaderboard belongs to (for links) */
+  league: GolfLeague;
   leaderboard: GolfLeaderboard;
   /** Optional tournament info to display when leaderboard data is unavailable */
-  selectedTournament?: PGATournamentInfo;
+  selectedTournament?: GolfTournamentInfo;
+  /** Player whose scorecard is expanded */
+  selectedPlayerId?: string;
+  /** Leaderboard or tee sheet (defaults to the tee sheet before play starts) */
+  view?: GolfLeaderboardView;
+  /** Round shown on the tee sheet */
+  selectedRound?: number;
 }
 
 /**
@@ -140,8 +165,12 @@ function getCountryCode(country?: string): string {
 }
 
 interface GolfLeaderboardTableProps {
+  league: GolfLeague;
   tournament: GolfTournament;
   lastUpdated: Date;
+  selectedPlayerId?: string;
+  view?: GolfLeaderboardView;
+  selectedRound?: number;
 }
 
 /**
@@ -233,6 +262,51 @@ function getPlayerStatusIndicator(status: string): string {
   }
 }
 
+/**
+ * Format a score to par (E, +2, -5)
+ */
+function formatScoreToPar(score: number): string {
+  if (score === 0) return "E";
+  return score > 0 ? `+${score}` : score.toString();
+}
+
+/**
+ * Marker for players near the projected cut: on the number, or one stroke either side
+ */
+function getCutMarker(
+  scoreToParNum: number,
+  cutScore: number
+): { symbol: string; label: string } | null {
+  if (scoreToParNum === cutScore) return { symbol: "◆", label: "On the cut number" };
+  if (scoreToParNum === cutScore - 1) return { symbol: "◇", label: "One stroke inside the projected cut" };
+  if (scoreToParNum === cutScore + 1) return { symbol: "◇", label: "One stroke outside the projected cut" };
+  return null;
+}
+
+/**
+ * Divider row at the projected cut line
+ */
+function ProjectedCutRow({ cut, columnCount }: { cut: GolfProjectedCut; columnCount: number }) {
+  const rule = `top ${cut.topN} and ties`;
+
+  return (
+    <tr aria-label={`Projected cut at ${formatScoreToPar(cut.score)}, ${rule}`}>
+      <td colSpan={columnCount} className="py-0.5 text-xs">
+        <div className="flex whitespace-nowrap overflow-hidden text-terminal-yellow">
+          <span aria-hidden="true">{"- - "}</span>
+          <span className="font-bold px-1">PROJECTED CUT {formatScoreToPar(cut.score)}</span>
+          <span className="text-terminal-muted px-1">
+            {rule} · {cut.playersInside} inside
+          </span>
+          <span className="flex-1 overflow-hidden" aria-hidden="true">
+            {" -".repeat(100)}
+          </span>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
 /**
  * Format thru value for display
  */
@@ -697,179 +771,259 @@ function TournamentInfoSection({ tournament }: TournamentHeaderProps) {
 }
 
 /**
- * Displays PGA Tour leaderboard table (ESPN-style layout)
+ * Displays a tour's leaderboard table (ESPN-style layout)
  */
 function GolfLeaderboardTable({
+  league,
   tournament,
   lastUpdated,
+  selectedPlayerId,
+  view,
+  selectedRound,
 }: GolfLeaderboardTableProps) {
+  const showPrize = tournament.status === "completed" && tournament.players.some((p) => p.prizeMoney);
+  const rounds = Array.from({ length: tournament.totalRounds }, (_, i) => i + 1);
+  const columnCount = 6 + rounds.length + (showPrize ? 1 : 0);
+  const hostCourse = tournament.courses?.find((c) => c.isHost) ?? tournament.courses?.[0];
+  const projectedCut = tournament.projectedCut;
+
+  // Tee sheet on request, and by default before play starts
+  const hasTeeTimes = hasGolfTeeTimes(tournament);
+  const showTeeSheet = hasTeeTimes && (view === "tees" || (view === undefined && tournament.status === "scheduled"));
+
+  // The cut line is drawn above the first player outside it
+  const cutIndex = projectedCut
+    ? tournament.players.findIndex((p) => p.scoreToParNum > projectedCut.score)
+    : -1;
+
   return (
     <div className="overflow-x-auto">
       <div className="w-full">
         {/* Tournament score header - similar to GameScoreHeader */}
         <TournamentScoreHeader tournament={tournament} />
 
-        {/* Leaderboard table with horizontal scroll */}
-        <div className="overflow-x-auto">
-          <table className="w-full text-sm border-separate border-spacing-0" role="table" aria-label="Golf tournament leaderboard">
-            {/* Header row */}
-            <thead>
-              <tr className="text-terminal-cyan border-b border-terminal-border">
-                <th
-                  className="w-[40px] min-w-[40px] text-center py-1 sticky left-0 z-30 bg-terminal-bg"
-                >
-                  POS
-                </th>
-                <th
-                  className="min-w-36 px-2 text-left py-1 sticky left-[40px] z-30 bg-terminal-bg border-r border-terminal-border shadow-[4px_0_8px_rgba(0,0,0,0.3)]"
+        {/* Leaderboard / tee sheet switch */}
+        {hasTeeTimes && (
+          <nav className="font-mono text-xs flex gap-3 mb-4" aria-label="Tournament view">
+            {[
+              { label: "Leaderboard", value: "leaderboard", isActive: !showTeeSheet },
+              { label: "Tee Times", value: "tees", isActive: showTeeSheet },
+            ].map(({ label, value, isActive }) =>
+              isActive ? (
+                <span key={value} className="text-terminal-green font-bold" aria-current="page">
+                  [{label}]
+                </span>
+              ) : (
+                <Link
+                  key={value}
+                  href={`/${league}?event=${tournament.id}&view=${value}`}
+                  className="text-terminal-cyan hover:text-terminal-green transition-colors"
                 >
-                  PLAYER
-                </th>
-                <th className="px-3 text-center py-1 whitespace-nowrap">
-                  SCORE
-                </th>
-                {tournament.status === "completed" && tournament.players.some(p => p.prizeMoney) && (
-                  <th className="px-3 text-right py-1 whitespace-nowrap">
-                    PRIZE
-                  </th>
-                )}
-                <th className="px-3 text-center py-1 whitespace-nowrap">
-                  TODAY
-                </th>
-                <th className="px-2 text-center py-1 whitespace-nowrap">
-                  THRU
-                </th>
-                <th className="px-2 text-center py-1 whitespace-nowrap">
-                  R1
-                </th>
-                <th className="px-2 text-center py-1 whitespace-nowrap">
-                  R2
-                </th>
-                <th className="px-2 text-center py-1 whitespace-nowrap">
-                  R3
-                </th>
-                <th className="px-2 text-center py-1 whitespace-nowrap">
-                  R4
-                </th>
-                <th className="px-2 text-center py-1 whitespace-nowrap">
-                  TOT
-                </th>
-              </tr>
-            </thead>
-
-            {/* Player rows */}
-            <tbody>
-              {tournament.players.length > 0 ? (
-                tournament.players.map((player, index) => {
-                  const positionClass = getPositionClass(player.position);
-                  const scoreClass = getScoreClass(player.scoreToParNum);
-                  const statusIndicator = getPlayerStatusIndicator(player.status);
-                  const isInactive = player.status !== "active";
-                  const isEvenRow = index % 2 === 0;
-                  const countryCode = getCountryCode(player.country);
-                  // Apply background to each cell individually (not tr) for proper sticky behavior
-                  const cellBgClass = isEvenRow ? "bg-terminal-bg" : "bg-terminal-zebra";
-
-                  const positionLabel = player.position.startsWith("T")
-                    ? `Tied for position ${player.position.slice(1)}`
-                    : `Position ${player.position}`;
-
-                  return (
-                    <tr
-                      key={player.id}
-                      className={`${isInactive ? "text-terminal-muted" : ""} border-b border-terminal-border/30`}
-                    >
-                      {/* Position - sticky */}
-                      <td
-                        className={`w-[40px] min-w-[40px] text-center py-1 sticky left-0 z-20 ${positionClass} ${cellBgClass}`}
-                      >
-                        <span className="sr-only">{positionLabel}</span>
-                        <span aria-hidden="true">
-                          {statusIndicator || player.position}
-                        </span>
-                      </td>
+                  [{label}]
+                </Link>
+              )
+            )}
+          </nav>
+        )}
 
-                      {/* Player name with country code - sticky */}
-                      <td
-                        className={`min-w-36 px-2 py-1 sticky left-[40px] z-20 border-r border-terminal-border shadow-[4px_0_8px_rgba(0,0,0,0.3)] ${cellBgClass}`}
-                      >
-                        <div className="flex items-center gap-1.5">
-                          {countryCode && (
-                            <span className="hidden sm:inline text-terminal-muted text-xs font-mono" title={player.country}>
-                              {countryCode}
-                            </span>
+        {showTeeSheet ? (
+          <GolfTeeSheet
+            league={league}
+            tournament={tournament}
+            round={selectedRound ?? tournament.currentRound ?? 1}
+          />
+        ) : (
+          <>
+            {/* Leaderboard table with horizontal scroll */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-separate border-spacing-0" role="table" aria-label="Golf tournament leaderboard">
+                {/* Header row */}
+                <thead>
+                  <tr className="text-terminal-cyan border-b border-terminal-border">
+                    <th
+                      className="w-[40px] min-w-[40px] text-center py-1 sticky left-0 z-30 bg-terminal-bg"
+                    >
+                      POS
+                    </th>
+                    <th
+                      className="min-w-36 px-2 text-left py-1 sticky left-[40px] z-30 bg-terminal-bg border-r border-terminal-border shadow-[4px_0_8px_rgba(0,0,0,0.3)]"
+                    >
+                      PLAYER
+                    </th>
+                    <th className="px-3 text-center py-1 whitespace-nowrap">
+                      SCORE
+                    </th>
+                    {showPrize && (
+                      <th className="px-3 text-right py-1 whitespace-nowrap">
+                        PRIZE
+                      </th>
+                    )}
+                    <th className="px-3 text-center py-1 whitespace-nowrap">
+                      TODAY
+                    </th>
+                    <th className="px-2 text-center py-1 whitespace-nowrap">
+                      THRU
+                    </th>
+                    {rounds.map((round) => (
+                      <th key={round} className="px-2 text-center py-1 whitespace-nowrap">
+                        R{round}
+                      </th>
+                    ))}
+                    <th className="px-2 text-center py-1 whitespace-nowrap">
+                      TOT
+                    </th>
+                  </tr>
+                </thead>
+
+                {/* Player rows */}
+                <tbody>
+                  {tournament.players.length > 0 ? (
+                    tournament.players.map((player, index) => {
+                      const positionClass = getPositionClass(player.position);
+                      const scoreClass = getScoreClass(player.scoreToParNum);
+                      const statusIndicator = getPlayerStatusIndicator(player.status);
+                      const isInactive = player.status !== "active";
+                      const isEvenRow = index % 2 === 0;
+                      const countryCode = getCountryCode(player.country);
+                      // Apply background to each cell individually (not tr) for proper sticky behavior
+                      const cellBgClass = isEvenRow ? "bg-terminal-bg" : "bg-terminal-zebra";
+
+                      const positionLabel = player.position.startsWith("T")
+                        ? `Tied for position ${player.position.slice(1)}`
+                        : `Position ${player.position}`;
+
+                      // Clicking a player toggles their scorecard beneath the row
+                      const isSelected = player.id === selectedPlayerId;
+                      const cutMarker =
+                        projectedCut && !isInactive ? getCutMarker(player.scoreToParNum, projectedCut.score) : null;
+                      const playerHref = isSelected
+                        ? `/${league}?event=${tournament.id}`
+                        : `/${league}?event=${tournament.id}&player=${player.id}`;
+
+                      return (
+                        <Fragment key={player.id}>
+                          {index === cutIndex && projectedCut && (
+                            <ProjectedCutRow cut={projectedCut} columnCount={columnCount} />
                           )}
-                          <span className="truncate">{truncate(player.name, 18)}</span>
-                        </div>
-                      </td>
-
-                      {/* Score to par */}
-                      <td className={`px-3 text-center py-1 whitespace-nowrap ${cellBgClass} ${scoreClass}`}>
-                        <span className="sr-only">
-                          {player.scoreToParNum < 0
-                            ? `${Math.abs(player.scoreToParNum)} under par`
-                            : player.scoreToParNum > 0
-                            ? `${player.scoreToParNum} over par`
-                            : "Even par"}
-                        </span>
-                        <span aria-hidden="true">{player.scoreToPar}</span>
-                      </td>
-
-                      {/* Prize money (only for completed tournaments) */}
-                      {tournament.status === "completed" && tournament.players.some(p => p.prizeMoney) && (
-                        <td className={`px-3 text-right py-1 whitespace-nowrap ${cellBgClass} text-terminal-green`}>
-                          {player.prizeMoney || "--"}
-                        </td>
-                      )}
-
-                      {/* Today's score */}
-                      <td className={`px-3 text-center py-1 whitespace-nowrap ${cellBgClass}`}>
-                        {player.today ?? "--"}
-                      </td>
-
-                      {/* Thru */}
-                      <td className={`px-2 text-center py-1 text-terminal-muted whitespace-nowrap ${cellBgClass}`}>
-                        {formatThru(player.thru)}
-                      </td>
-
-                      {/* Round 1 */}
-                      <td className={`px-2 text-center py-1 whitespace-nowrap ${cellBgClass} ${getRoundScoreClass(player.rounds[0])}`}>
-                        {player.rounds[0] ?? "--"}
-                      </td>
-
-                      {/* Round 2 */}
-                      <td className={`px-2 text-center py-1 whitespace-nowrap ${cellBgClass} ${getRoundScoreClass(player.rounds[1])}`}>
-                        {player.rounds[1] ?? "--"}
-                      </td>
-
-                      {/* Round 3 */}
-                      <td className={`px-2 text-center py-1 whitespace-nowrap ${cellBgClass} ${getRoundScoreClass(player.rounds[2])}`}>
-                        {player.rounds[2] ?? "--"}
-                      </td>
-
-                      {/* Round 4 */}
-                      <td className={`px-2 text-center py-1 whitespace-nowrap ${cellBgClass} ${getRoundScoreClass(player.rounds[3])}`}>
-                        {player.rounds[3] ?? "--"}
-                      </td>
-
-                      {/* Total strokes */}
-                      <td className={`px-2 text-center py-1 whitespace-nowrap ${cellBgClass}`}>
-                        {player.totalStrokes ?? "--"}
+                          <tr
+                            className={`${isInactive ? "text-terminal-muted" : ""} border-b border-terminal-border/30`}
+                          >
+                            {/* Position - sticky */}
+                            <td
+                              className={`w-[40px] min-w-[40px] text-center py-1 sticky left-0 z-20 ${positionClass} ${cellBgClass}`}
+                            >
+                              <span className="sr-only">{positionLabel}</span>
+                              <span aria-hidden="true">
+                                {statusIndicator || player.position}
+                              </span>
+                            </td>
+
+                            {/* Player name with country code - sticky */}
+                            <td
+                              className={`min-w-36 px-2 py-1 sticky left-[40px] z-20 border-r border-terminal-border shadow-[4px_0_8px_rgba(0,0,0,0.3)] ${cellBgClass}`}
+                            >
+                              <div className="flex items-center gap-1.5">
+                                {countryCode && (
+                                  <span className="hidden sm:inline text-terminal-muted text-xs font-mono" title={player.country}>
+                                    {countryCode}
+                                  </span>
+                                )}
+                                <Link
+                                  href={playerHref}
+                                  scroll={false}
+                                  className={`truncate hover:text-terminal-green transition-colors ${isSelected ? "text-terminal-green" : ""}`}
+                                  aria-expanded={isSelected}
+                                  title={isSelected ? "Hide scorecard" : "Show scorecard"}
+                                >
+                                  {truncate(player.name, 18)}
+                                </Link>
+                                {cutMarker && (
+                                  <span className="text-terminal-yellow text-xs" title={cutMarker.label}>
+                                    <span aria-hidden="true">{cutMarker.symbol}</span>
+                                    <span className="sr-only">{cutMarker.label}</span>
+                                  </span>
+                                )}
+                              </div>
+                            </td>
+
+                            {/* Score to par */}
+                            <td className={`px-3 text-center py-1 whitespace-nowrap ${cellBgClass} ${scoreClass}`}>
+                              <span className="sr-only">
+                                {player.scoreToParNum < 0
+                                  ? `${Math.abs(player.scoreToParNum)} under par`
+                                  : player.scoreToParNum > 0
+                                  ? `${player.scoreToParNum} over par`
+                                  : "Even par"}
+                              </span>
+                              <span aria-hidden="true">{player.scoreToPar}</span>
+                            </td>
+
+                            {/* Prize money (only for completed tournaments) */}
+                            {showPrize && (
+                              <td className={`px-3 text-right py-1 whitespace-nowrap ${cellBgClass} text-terminal-green`}>
+                                {player.prizeMoney || "--"}
+                              </td>
+                            )}
+
+                            {/* Today's score */}
+                            <td className={`px-3 text-center py-1 whitespace-nowrap ${cellBgClass}`}>
+                              {player.today ?? "--"}
+                            </td>
+
+                            {/* Thru */}
+                            <td className={`px-2 text-center py-1 text-terminal-muted whitespace-nowrap ${cellBgClass}`}>
+                              {formatThru(player.thru)}
+                            </td>
+
+                            {/* Round scores */}
+                            {rounds.map((round) => (
+                              <td
+                                key={round}
+                                className={`px-2 text-center py-1 whitespace-nowrap ${cellBgClass} ${getRoundScoreClass(player.rounds[round - 1])}`}
+                              >
+                                {player.rounds[round - 1] ?? "--"}
+                              </td>
+                            ))}
+
+                            {/* Total strokes */}
+                            <td className={`px-2 text-center py-1 whitespace-nowrap ${cellBgClass}`}>
+                              {player.totalStrokes ?? "--"}
+                            </td>
+                          </tr>
+                          {isSelected && (
+                            <tr className="border-b border-terminal-border/30">
+                              <td colSpan={columnCount} className="px-2">
+                                <GolfScorecard player={player} course={hostCourse} />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })
+                  ) : (
+                    <tr>
+                      <td colSpan={columnCount} className="text-terminal-muted text-center py-4">
+                        No players on leaderboard yet
                       </td>
                     </tr>
-                  );
-                })
-              ) : (
-                <tr>
-                  <td colSpan={10} className="text-terminal-muted text-center py-4">
-                    No players on leaderboard yet
-                  </td>
-                </tr>
+                  )}
+                </tbody>
+              </table>
+
+              {projectedCut && (
+                <div className="text-terminal-muted text-xs mt-2">
+                  Projected cut from live scores ·{" "}
+                  <span className="text-terminal-yellow">◆</span> on the number ·{" "}
+                  <span className="text-terminal-yellow">◇</span> one stroke either side
+                </div>
               )}
-            </tbody>
-          </table>
+            </div>
 
-        </div>
+            {tournament.teamStandings && tournament.teamStandings.length > 0 && (
+              <GolfTeamStandings standings={tournament.teamStandings} totalRounds={tournament.totalRounds} />
+            )}
+          </>
+        )}
 
         {/* Tournament info section */}
         <TournamentInfoSection tournament={tournament} />
@@ -884,9 +1038,16 @@ function GolfLeaderboardTable({
 }
 
 /**
- * Server component - displays PGA Tour leaderboard
+ * Server component - displays a golf tour's leaderboard
  */
-export function GolfLeaderboardDisplay({ leaderboard, selectedTournament }: GolfLeaderboardProps) {
+export function GolfLeaderboardDisplay({
+  league,
+  leaderboard,
+  selectedTournament,
+  selectedPlayerId,
+  view,
+  selectedRound,
+}: GolfLeaderboardProps) {
   const { tournament } = leaderboard;
 
   if (!tournament) {
@@ -973,8 +1134,12 @@ export function GolfLeaderboardDisplay({ leaderboard, selectedTournament }: Golf
 
   return (
     <GolfLeaderboardTable
+      league={league}
       tournament={tournament}
       lastUpdated={leaderboard.lastUpdated}
+      selectedPlayerId={selectedPlayerId}
+      view={view}
+      selectedRound={selectedRound}
     />
   );
 }
@@ -0,0 +1,175 @@
+import { Fragment, type ReactNode } from "react";
+import type { GolfCourse, GolfHoleScore, GolfPlayer, GolfScorecard as GolfScorecardData } from "@/lib/types";
+
+interface GolfScorecardProps {
+  player: GolfPlayer;
+  /** Host course, for hole pars and yardages */
+  course?: GolfCourse;
+}
+
+const FRONT_NINE = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const BACK_NINE = [10, 11, 12, 13, 14, 15, 16, 17, 18];
+const ALL_HOLES = [...FRONT_NINE, ...BACK_NINE];
+
+/**
+ * Nine-hole blocks, each followed by its subtotal column
+ */
+const NINES = [
+  { holes: FRONT_NINE, label: "OUT" },
+  { holes: BACK_NINE, label: "IN" },
+];
+
+const CELL_CLASS = "px-1.5 py-0.5 text-center whitespace-nowrap";
+const SUBTOTAL_CLASS = `${CELL_CLASS} border-x border-terminal-border`;
+
+/**
+ * Scorecard notation in ASCII: circles for under par, squares for over
+ */
+function formatHoleScore(score: GolfHoleScore): string {
+  if (score.toPar <= -2) return `((${score.strokes}))`;
+  if (score.toPar === -1) return `(${score.strokes})`;
+  if (score.toPar === 1) return `[${score.strokes}]`;
+  if (score.toPar >= 2) return `[[${score.strokes}]]`;
+  return String(score.strokes);
+}
+
+/**
+ * CSS class for a hole score (eagles and double bogeys or worse in bold)
+ */
+function getHoleScoreClass(toPar: number): string {
+  if (toPar <= -2) return "text-terminal-green font-bold";
+  if (toPar === -1) return "text-terminal-green";
+  if (toPar === 1) return "text-terminal-red";
+  if (toPar >= 2) return "text-terminal-red font-bold";
+  return "text-terminal-fg";
+}
+
+/**
+ * Sum of the values for the given holes, or undefined when none are known
+ */
+function sumHoles(holes: number[], getValue: (hole: number) => number | undefined): number | undefined {
+  const values = holes.map(getValue).filter((value): value is number => value !== undefined);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : undefined;
+}
+
+/**
+ * Hole pars from the course, filling gaps from the player's own scores
+ */
+function getHolePars(scorecards: GolfScorecardData[], course?: GolfCourse): Map<number, number> {
+  const pars = new Map(course?.holes?.map((hole) => [hole.number, hole.par]) ?? []);
+  for (const scorecard of scorecards) {
+    for (const score of scorecard.holes) {
+      if (!pars.has(score.hole)) pars.set(score.hole, score.strokes - score.toPar);
+    }
+  }
+  return pars;
+}
+
+/**
+ * Cells for both nines of a scorecard line, with the OUT/IN subtotal after each
+ */
+function renderNines(
+  renderHole: (hole: number) => ReactNode,
+  renderSubtotal: (holes: number[], label: string) => ReactNode
+): ReactNode {
+  return NINES.map(({ holes, label }) => (
+    <Fragment key={label}>
+      {holes.map((hole) => (
+        <Fragment key={hole}>{renderHole(hole)}</Fragment>
+      ))}
+      {renderSubtotal(holes, label)}
+    </Fragment>
+  ));
+}
+
+/**
+ * Hole-by-hole scorecard: par and yardage for each hole, then one line per round
+ * with front and back nine subtotals
+ */
+export function GolfScorecard({ player, course }: GolfScorecardProps) {
+  const scorecards = player.scorecards ?? [];
+
+  if (scorecards.length === 0) {
+    return <div className="text-terminal-muted text-xs py-2 px-2">No hole-by-hole scores available</div>;
+  }
+
+  const pars = getHolePars(scorecards, course);
+  const yards = new Map(course?.holes?.map((hole) => [hole.number, hole.yards]) ?? []);
+  const hasYards = [...yards.values()].some((value) => value !== undefined);
+
+  return (
+    <div className="py-2">
+      <div className="overflow-x-auto border border-terminal-border rounded">
+        <table className="text-xs font-mono w-full" aria-label={`${player.name} scorecard`}>
+          <thead>
+            <tr className="text-terminal-cyan border-b border-terminal-border">
+              <th className={`${CELL_CLASS} text-left`}>HOLE</th>
+              {renderNines(
+                (hole) => <th className={CELL_CLASS}>{hole}</th>,
+                (_, label) => <th className={SUBTOTAL_CLASS}>{label}</th>
+              )}
+              <th className={CELL_CLASS}>TOT</th>
+              <th className={CELL_CLASS}>+/-</th>
+            </tr>
+          </thead>
+          <tbody>
+            {hasYards && (
+              <tr className="text-terminal-muted">
+                <td className={`${CELL_CLASS} text-left`}>YDS</td>
+                {renderNines(
+                  (hole) => <td className={CELL_CLASS}>{yards.get(hole) ?? "-"}</td>,
+                  (holes) => <td className={SUBTOTAL_CLASS}>{sumHoles(holes, (hole) => yards.get(hole)) ?? "-"}</td>
+                )}
+                <td className={CELL_CLASS}>{sumHoles(ALL_HOLES, (hole) => yards.get(hole)) ?? "-"}</td>
+                <td className={CELL_CLASS} />
+              </tr>
+            )}
+            <tr className="text-terminal-muted border-b border-terminal-border">
+              <td className={`${CELL_CLASS} text-left`}>PAR</td>
+              {renderNines(
+                (hole) => <td className={CELL_CLASS}>{pars.get(hole) ?? "-"}</td>,
+                (holes) => <td className={SUBTOTAL_CLASS}>{sumHoles(holes, (hole) => pars.get(hole)) ?? "-"}</td>
+              )}
+              <td className={CELL_CLASS}>{sumHoles(ALL_HOLES, (hole) => pars.get(hole)) ?? "-"}</td>
+              <td className={CELL_CLASS} />
+            </tr>
+            {scorecards.map((scorecard, index) => {
+              const scores = new Map(scorecard.holes.map((score) => [score.hole, score]));
+              const strokes = (hole: number) => scores.get(hole)?.strokes;
+              const rowBg = index % 2 === 0 ? "bg-terminal-bg" : "bg-terminal-zebra";
+
+              return (
+                <tr key={scorecard.round} className={rowBg}>
+                  <td className={`${CELL_CLASS} text-left text-terminal-cyan`}>R{scorecard.round}</td>
+                  {renderNines(
+                    (hole) => {
+                      const score = scores.get(hole);
+                      return (
+                        <td className={`${CELL_CLASS} ${score ? getHoleScoreClass(score.toPar) : "text-terminal-border"}`}>
+                          {score ? formatHoleScore(score) : "·"}
+                        </td>
+                      );
+                    },
+                    (holes) => <td className={`${SUBTOTAL_CLASS} text-terminal-fg`}>{sumHoles(holes, strokes) ?? "-"}</td>
+                  )}
+                  <td className={`${CELL_CLASS} text-terminal-fg font-bold`}>{sumHoles(ALL_HOLES, strokes) ?? "-"}</td>
+                  <td className={`${CELL_CLASS} text-terminal-muted`}>{scorecard.scoreToPar ?? "-"}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="text-terminal-muted text-xs mt-1">
+        <span className="text-terminal-green font-bold">((n))</span> eagle or better
+        {" · "}
+        <span className="text-terminal-green">(n)</span> birdie
+        {" · "}
+        <span className="text-terminal-red">[n]</span> bogey
+        {" · "}
+        <span className="text-terminal-red font-bold">[[n]]</span> double bogey or worse
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import type { GolfTeamStanding } from "@/lib/types";
+import { truncate } from "@/lib/utils/format";
+
+interface GolfTeamStandingsProps {
+  standings: GolfTeamStanding[];
+  totalRounds: number;
+}
+
+/**
+ * Get CSS class for a score to par
+ */
+function getScoreClass(scoreToParNum: number): string {
+  if (scoreToParNum < 0) return "text-terminal-green";
+  if (scoreToParNum > 0) return "text-terminal-red";
+  return "text-terminal-fg";
+}
+
+/**
+ * Format a round score to par (e.g., -4, E, +2)
+ */
+function formatScoreToPar(score: number): string {
+  if (score === 0) return "E";
+  return score > 0 ? `+${score}` : String(score);
+}
+
+/**
+ * Player's surname for the compact roster column
+ */
+function getSurname(name: string): string {
+  return name.split(" ").slice(1).join(" ") || name;
+}
+
+/**
+ * Team leaderboard for tours with a team competition (LIV Golf)
+ */
+export function GolfTeamStandings({ standings, totalRounds }: GolfTeamStandingsProps) {
+  const rounds = Array.from({ length: totalRounds }, (_, i) => i + 1);
+
+  return (
+    <section className="mt-6 font-mono text-sm" aria-label="Team standings">
+      <h3 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        Team Standings
+        <span className="text-terminal-border">]</span>
+        <span className="text-terminal-muted text-xs ml-2">
+          best 3 scores count each round, all 4 in round {totalRounds}
+        </span>
+      </h3>
+
+      <div className="overflow-x-auto border border-terminal-border rounded">
+        <table className="w-full text-xs sm:text-sm" aria-label="Team leaderboard">
+          <thead>
+            <tr className="text-terminal-cyan border-b border-terminal-border">
+              <th className="text-center py-1 px-2 whitespace-nowrap w-12">POS</th>
+              <th className="text-left py-1 px-2 whitespace-nowrap sticky left-0 bg-terminal-bg z-10">TEAM</th>
+              <th className="text-center py-1 px-2 whitespace-nowrap">SCORE</th>
+              {rounds.map((round) => (
+                <th key={round} className="text-center py-1 px-2 whitespace-nowrap">
+                  R{round}
+                </th>
+              ))}
+              <th className="text-left py-1 px-2 whitespace-nowrap">PLAYERS</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((standing, index) => {
+              const rowBg = index % 2 === 0 ? "bg-terminal-bg" : "bg-terminal-zebra";
+
+              return (
+                <tr key={standing.name} className={`border-b border-terminal-border/30 ${rowBg}`}>
+                  <td className="text-center py-1 px-2 text-terminal-fg">{standing.position}</td>
+                  <td className={`py-1 px-2 whitespace-nowrap sticky left-0 ${rowBg} z-10 text-terminal-fg`}>
+                    {truncate(standing.name, 20)}
+                  </td>
+                  <td className={`text-center py-1 px-2 whitespace-nowrap font-bold ${getScoreClass(standing.scoreToParNum)}`}>
+                    {standing.scoreToPar}
+                  </td>
+                  {rounds.map((round) => {
+                    const score = standing.rounds[round - 1];
+                    return (
+                      <td
+                        key={round}
+                        className={`text-center py-1 px-2 whitespace-nowrap ${
+                          score === undefined ? "text-terminal-muted" : getScoreClass(score)
+                        }`}
+                      >
+                        {score === undefined ? "--" : formatScoreToPar(score)}
+                      </td>
+                    );
+                  })}
+                  <td className="py-1 px-2 whitespace-nowrap text-terminal-muted text-xs">
+                    {standing.players.map((player) => getSurname(player.name)).join(", ")}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
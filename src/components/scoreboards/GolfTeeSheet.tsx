@@ -0,0 +1,154 @@
+import Link from "next/link";
+import { LocalTime } from "@/components/LocalTime";
+import type { GolfLeague, GolfPlayer, GolfTournament } from "@/lib/types";
+import { truncate } from "@/lib/utils/format";
+
+interface GolfTeeSheetProps {
+  league: GolfLeague;
+  tournament: GolfTournament;
+  /** Round to show (1-4) */
+  round: number;
+}
+
+interface TeeGroup {
+  time: Date;
+  startHole: number;
+  players: GolfPlayer[];
+}
+
+const TEE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+/**
+ * Group the field into pairings: players teeing off at the same time from the same hole
+ */
+function buildTeeGroups(players: GolfPlayer[], round: number): TeeGroup[] {
+  const groups = new Map<string, TeeGroup>();
+
+  for (const player of players) {
+    const teeTime = player.teeTimes?.find((t) => t.round === round);
+    if (!teeTime) continue;
+
+    const key = `${teeTime.time.getTime()}-${teeTime.startHole}`;
+    const group = groups.get(key) ?? { time: teeTime.time, startHole: teeTime.startHole, players: [] };
+    group.players.push(player);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].sort(
+    (a, b) => a.time.getTime() - b.time.getTime() || a.startHole - b.startHole
+  );
+}
+
+/**
+ * Get CSS class for score to par
+ */
+function getScoreClass(scoreToParNum: number): string {
+  if (scoreToParNum < 0) return "text-terminal-green";
+  if (scoreToParNum > 0) return "text-terminal-red";
+  return "text-terminal-fg";
+}
+
+/**
+ * Check whether a tournament has tee times for any round
+ */
+export function hasGolfTeeTimes(tournament: GolfTournament): boolean {
+  return tournament.players.some((player) => player.teeTimes && player.teeTimes.length > 0);
+}
+
+/**
+ * Tee sheet for a round: each group's tee time (in the viewer's time zone), starting
+ * hole and players with their current score
+ */
+export function GolfTeeSheet({ league, tournament, round }: GolfTeeSheetProps) {
+  const groups = buildTeeGroups(tournament.players, round);
+  const rounds = Array.from({ length: tournament.totalRounds }, (_, i) => i + 1);
+  const isCurrentRound = tournament.status === "in_progress" && round === tournament.currentRound;
+  const hasSplitTees = groups.some((group) => group.startHole !== 1);
+
+  return (
+    <div className="font-mono text-sm">
+      {/* Round selector */}
+      <nav className="text-xs flex flex-wrap items-center gap-1 mb-4" aria-label="Tee sheet round selector">
+        <span className="text-terminal-muted mr-1">ROUND:</span>
+        {rounds.map((r) =>
+          r === round ? (
+            <span
+              key={r}
+              className="px-2 py-0.5 text-terminal-green font-bold border border-terminal-green/50"
+              aria-current="true"
+            >
+              [R{r}]
+            </span>
+          ) : (
+            <Link
+              key={r}
+              href={`/${league}?event=${tournament.id}&view=tees&round=${r}`}
+              className="px-2 py-0.5 text-terminal-muted hover:text-terminal-green transition-colors"
+            >
+              R{r}
+            </Link>
+          )
+        )}
+      </nav>
+
+      <h2 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">[</span>
+        Round {round} Tee Times
+        <span className="text-terminal-border">]</span>
+        {groups.length > 0 && (
+          <span className="text-terminal-muted text-xs ml-2">
+            {groups.length} groups{hasSplitTees ? " off #1 and #10" : ""} · times in your time zone
+          </span>
+        )}
+      </h2>
+
+      {groups.length === 0 ? (
+        <div className="text-terminal-muted text-xs py-4">Tee times for round {round} haven&apos;t been released yet</div>
+      ) : (
+        <ol className="border border-terminal-border rounded" aria-label={`Round ${round} pairings`}>
+          {groups.map((group, index) => (
+            <li
+              key={`${group.time.getTime()}-${group.startHole}`}
+              className={`flex flex-col sm:flex-row sm:items-baseline gap-x-3 gap-y-0.5 px-2 py-1 ${
+                index % 2 === 0 ? "bg-terminal-bg" : "bg-terminal-zebra"
+              }`}
+            >
+              <span className="flex gap-3 shrink-0">
+                <LocalTime date={group.time} options={TEE_TIME_FORMAT} className="w-24 text-terminal-fg" />
+                <span
+                  className={`w-8 ${group.startHole === 1 ? "text-terminal-cyan" : "text-terminal-yellow"}`}
+                  title={`Starts on hole ${group.startHole}`}
+                >
+                  #{group.startHole}
+                </span>
+              </span>
+              <span className="flex flex-wrap gap-x-4 gap-y-0.5">
+                {group.players.map((player) => (
+                  <span key={player.id} className="whitespace-nowrap">
+                    <span className={player.status === "active" ? "text-terminal-fg" : "text-terminal-muted"}>
+                      {truncate(player.name, 20)}
+                    </span>{" "}
+                    <span className={getScoreClass(player.scoreToParNum)}>{player.scoreToPar}</span>
+                    {isCurrentRound && player.thru && (
+                      <span className="text-terminal-muted text-xs"> thru {player.thru}</span>
+                    )}
+                  </span>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="text-terminal-muted text-xs mt-2">
+        <span className="text-terminal-cyan">#1</span> first tee
+        {" · "}
+        <span className="text-terminal-yellow">#10</span> tenth tee
+      </div>
+    </div>
+  );
+}
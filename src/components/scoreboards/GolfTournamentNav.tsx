@@ -2,10 +2,12 @@
 
 import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useMemo, useTransition } from "react";
-import type { PGATournamentInfo } from "@/lib/api/pga";
+import type { GolfTournamentInfo } from "@/lib/api/golf";
+import type { GolfLeague } from "@/lib/types";
 
-interface PGATournamentNavProps {
-  tournaments: PGATournamentInfo[];
+interface GolfTournamentNavProps {
+  league: GolfLeague;
+  tournaments: GolfTournamentInfo[];
 }
 
 /**
@@ -26,7 +28,7 @@ function formatDateRange(start: Date, end: Date): string {
 /**
  * Check if a tournament is currently active (happening now)
  */
-function isTournamentActive(tournament: PGATournamentInfo): boolean {
+function isTournamentActive(tournament: GolfTournamentInfo): boolean {
   const now = new Date();
   return now >= tournament.startDate && now <= tournament.endDate;
 }
@@ -34,14 +36,14 @@ function isTournamentActive(tournament: PGATournamentInfo): boolean {
 /**
  * Check if a tournament is in the past
  */
-function isTournamentPast(tournament: PGATournamentInfo): boolean {
+function isTournamentPast(tournament: GolfTournamentInfo): boolean {
   return new Date() > tournament.endDate;
 }
 
 /**
  * Find the index of the current (live) or most recent tournament
  */
-function findCurrentOrMostRecentIndex(tournaments: PGATournamentInfo[]): number {
+function findCurrentOrMostRecentIndex(tournaments: GolfTournamentInfo[]): number {
   const now = new Date();
 
   // First, check for an active tournament
@@ -60,10 +62,10 @@ function findCurrentOrMostRecentIndex(tournaments: PGATournamentInfo[]): number
 }
 
 /**
- * PGA Tournament Navigation
- * Allows navigation between tournaments
+ * Golf Tournament Navigation
+ * Allows navigation between a tour's tournaments
  */
-export function PGATournamentNav({ tournaments }: PGATournamentNavProps) {
+export function GolfTournamentNav({ league, tournaments }: GolfTournamentNavProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [isPending, startTransition] = useTransition();
@@ -102,13 +104,13 @@ export function PGATournamentNav({ tournaments }: PGATournamentNavProps) {
     (eventId: string | null) => {
       startTransition(() => {
         if (!eventId) {
-          router.push("/pga");
+          router.push(`/${league}`);
         } else {
-          router.push(`/pga?event=${eventId}`);
+          router.push(`/${league}?event=${eventId}`);
         }
       });
     },
-    [router]
+    [router, league]
   );
 
   const handlePrevious = useCallback(() => {
@@ -1,8 +1,11 @@
+"use client";
+
 import type { Scoreboard } from "@/lib/types";
 import { LEAGUES, isLeagueInSeason, getSeasonStartDate } from "@/lib/types";
 import { getRelativeDateLabel, isToday } from "@/lib/utils/format";
 import { SyncStatus } from "@/components/SyncStatus";
 import { GameCard } from "./GameCard";
+import { useLiveGames, useLiveScores } from "./LiveScoresProvider";
 
 interface LeagueScoreboardProps {
   scoreboard: Scoreboard;
@@ -77,6 +80,8 @@ export function LeagueScoreboard({ scoreboard, nextGameDateLabel }: LeagueScoreb
   const dateLabel = getRelativeDateLabel(scoreboard.date);
   const isTodayDate = isToday(scoreboard.date);
   const isOffSeason = !isLeagueInSeason(league);
+  const live = useLiveScores();
+  const games = useLiveGames(scoreboard.games);
 
   if (scoreboard.games.length === 0) {
     const noGamesMessage = isTodayDate
@@ -142,9 +147,9 @@ export function LeagueScoreboard({ scoreboard, nextGameDateLabel }: LeagueScoreb
   }
 
   // Group games by status
-  const liveGames = scoreboard.games.filter((g) => g.status === "live");
-  const scheduledGames = scoreboard.games.filter((g) => g.status === "scheduled");
-  const finalGames = scoreboard.games.filter((g) => g.status === "final");
+  const liveGames = games.filter((g) => g.status === "live");
+  const scheduledGames = games.filter((g) => g.status === "scheduled");
+  const finalGames = games.filter((g) => g.status === "final");
 
   return (
     <div className="space-y-8">
@@ -193,7 +198,10 @@ export function LeagueScoreboard({ scoreboard, nextGameDateLabel }: LeagueScoreb
           <div className="text-terminal-muted text-sm py-2">
             <span className="text-terminal-cyan mr-2" aria-hidden="true">◆</span>
             <span className="sr-only">Data sync status: </span>
-            <SyncStatus lastUpdated={scoreboard.lastUpdated} />
+            <SyncStatus
+              lastUpdated={live?.lastUpdated ?? scoreboard.lastUpdated}
+              isStreaming={live?.status === "open"}
+            />
             <span className="text-terminal-green ml-2" aria-hidden="true">●</span>
           </div>
           <div className="text-terminal-border text-xs" aria-hidden="true">
@@ -1,15 +1,17 @@
-import type { LeagueStandings, League, StandingsEntry, StandingsGroup } from "@/lib/types";
+import Link from "next/link";
+import type { LeagueStandings, StandingsEntry, StandingsGroup, StandingsLeague } from "@/lib/types";
+import { FavoriteButton } from "@/components/favorites";
 
 /**
  * Column configuration for each league's standings table
  * All stats are shown - users can scroll horizontally on mobile
  */
-interface StandingsColumn {
+export interface StandingsColumn {
   key: string;
   header: string;
 }
 
-const STANDINGS_COLUMNS: Record<Exclude<League, "f1" | "pga">, StandingsColumn[]> = {
+export const STANDINGS_COLUMNS: Record<StandingsLeague, StandingsColumn[]> = {
   nhl: [
     { key: "team", header: "TEAM" },
     { key: "gamesPlayed", header: "GP" },
@@ -87,17 +89,6 @@ const STANDINGS_COLUMNS: Record<Exclude<League, "f1" | "pga">, StandingsColumn[]
     { key: "goalsFor", header: "GF" },
     { key: "goalsAgainst", header: "GA" },
   ],
-  "fa-cup": [
-    { key: "team", header: "TEAM" },
-    { key: "gamesPlayed", header: "GP" },
-    { key: "wins", header: "W" },
-    { key: "losses", header: "L" },
-    { key: "ties", header: "D" },
-    { key: "points", header: "PTS" },
-    { key: "goalDifferential", header: "GD" },
-    { key: "goalsFor", header: "GF" },
-    { key: "goalsAgainst", header: "GA" },
-  ],
   ncaam: [
     { key: "team", header: "TEAM" },
     { key: "wins", header: "W" },
@@ -170,10 +161,12 @@ function getConferenceSlug(name: string): string {
 
 interface StandingsGroupDisplayProps {
   group: StandingsGroup;
-  league: Exclude<League, "f1" | "pga">;
+  league: StandingsLeague;
+  /** Team to highlight (e.g., on its team page) */
+  highlightTeamId?: string;
 }
 
-function StandingsGroupDisplay({ group, league }: StandingsGroupDisplayProps) {
+export function StandingsGroupDisplay({ group, league, highlightTeamId }: StandingsGroupDisplayProps) {
   const columns = STANDINGS_COLUMNS[league];
   const isNCAA = league === "ncaam" || league === "ncaaw";
   const slug = isNCAA ? getConferenceSlug(group.name) : "";
@@ -209,7 +202,7 @@ function StandingsGroupDisplay({ group, league }: StandingsGroupDisplayProps) {
           {/* Header row */}
           <div className="flex border-b border-terminal-border bg-terminal-bg/50 text-terminal-cyan">
             {/* Sticky team header */}
-            <div className="sticky left-0 z-10 bg-terminal-bg/95 px-2 py-1 min-w-[60px] text-left border-r border-terminal-border">
+            <div className="sticky left-0 z-10 bg-terminal-bg/95 px-2 py-1 min-w-[76px] text-left border-r border-terminal-border">
               TEAM
             </div>
             {/* Scrollable stat headers */}
@@ -227,15 +220,35 @@ function StandingsGroupDisplay({ group, league }: StandingsGroupDisplayProps) {
           {group.entries.map((entry, index) => (
             <div
               key={entry.team.id}
-              className={`flex ${index % 2 === 0 ? "bg-terminal-bg/30" : ""}`}
+              className={`flex ${
+                entry.team.id === highlightTeamId
+                  ? "bg-terminal-green/10"
+                  : index % 2 === 0 ? "bg-terminal-bg/30" : ""
+              }`}
+              aria-current={entry.team.id === highlightTeamId ? "true" : undefined}
             >
               {/* Sticky team cell */}
               <div
-                className={`sticky left-0 z-10 px-2 py-1 min-w-[60px] text-left text-terminal-fg border-r border-terminal-border ${
+                className={`sticky left-0 z-10 px-2 py-1 min-w-[76px] text-left text-terminal-fg border-r border-terminal-border ${
                   index % 2 === 0 ? "bg-terminal-bg/95" : "bg-terminal-bg"
                 }`}
               >
-                {entry.team.abbreviation}
+                <FavoriteButton
+                  league={league}
+                  teamId={entry.team.id}
+                  abbreviation={entry.team.abbreviation}
+                  displayName={entry.team.displayName}
+                  className="text-xs mr-1"
+                />
+                <Link
+                  href={`/${league}/team/${entry.team.id}`}
+                  className={`${
+                    entry.team.id === highlightTeamId ? "text-terminal-green font-bold" : ""
+                  } hover:text-terminal-green transition-colors`}
+                  title={entry.team.displayName}
+                >
+                  {entry.team.abbreviation}
+                </Link>
               </div>
               {/* Scrollable stat cells */}
               {statColumns.map((col) => (
@@ -292,7 +305,7 @@ interface LeagueStandingsDisplayProps {
 }
 
 export function LeagueStandingsDisplay({ standings }: LeagueStandingsDisplayProps) {
-  const league = standings.league as Exclude<League, "f1" | "pga">;
+  const league = standings.league as StandingsLeague;
   const isNCAA = league === "ncaam" || league === "ncaaw";
 
   if (standings.groups.length === 0) {
@@ -0,0 +1,159 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useTransition,
+  type ReactNode,
+} from "react";
+import { useRouter } from "next/navigation";
+import type { Game, League } from "@/lib/types";
+import { applyGamePatch, type GamePatch, type LiveScoresMessage } from "@/lib/live-scores";
+
+type LiveStreamStatus = "connecting" | "open" | "closed" | "unsupported";
+
+interface LiveScoresContextValue {
+  /** Stream state; RefreshButton falls back to polling unless "open" */
+  status: LiveStreamStatus;
+  /** Latest patch per game ID */
+  patches: Record<string, GamePatch>;
+  /** Timestamp of the last scoreboard seen by the stream */
+  lastUpdated: string | null;
+}
+
+const LiveScoresContext = createContext<LiveScoresContextValue | null>(null);
+
+interface LiveScoresProviderProps {
+  league: League;
+  /** Only stream a single game (game detail pages) */
+  gameId?: string;
+  /** Re-render server data when a score or status changes (for data not in patches) */
+  refreshOnChange?: boolean;
+  /** Disable streaming, e.g. for past dates or F1/golf */
+  enabled?: boolean;
+  children: ReactNode;
+}
+
+/**
+ * Subscribes to /api/stream/[league] and shares per-game patches with
+ * LeagueScoreboard and GameDetailDisplay so scores update in place.
+ */
+export function LiveScoresProvider({
+  league,
+  gameId,
+  refreshOnChange = false,
+  enabled = true,
+  children,
+}: LiveScoresProviderProps) {
+  const router = useRouter();
+  const [, startTransition] = useTransition();
+  const [status, setStatus] = useState<LiveStreamStatus>("connecting");
+  const [patches, setPatches] = useState<Record<string, GamePatch>>({});
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const hasReceivedRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      // Patches only apply to the scoreboard they were streamed for
+      setPatches({});
+      setStatus("closed");
+      return;
+    }
+
+    if (typeof EventSource === "undefined") {
+      setStatus("unsupported");
+      return;
+    }
+
+    const url = `/api/stream/${league}${gameId ? `?game=${encodeURIComponent(gameId)}` : ""}`;
+    const source = new EventSource(url);
+    hasReceivedRef.current = false;
+    setStatus("connecting");
+
+    source.onopen = () => setStatus("open");
+
+    source.addEventListener("patch", (event) => {
+      const message = JSON.parse((event as MessageEvent<string>).data) as LiveScoresMessage;
+
+      // The first message of every connection is a full snapshot, not a change
+      const isSnapshot = !hasReceivedRef.current;
+      hasReceivedRef.current = true;
+
+      setPatches((prev) => {
+        const next = { ...prev };
+        for (const patch of message.games) {
+          next[patch.id] = { ...next[patch.id], ...patch };
+        }
+        return next;
+      });
+      setLastUpdated(message.lastUpdated);
+
+      const scoreChanged = message.games.some(
+        (patch) =>
+          patch.homeScore !== undefined || patch.awayScore !== undefined || patch.status !== undefined
+      );
+      if (refreshOnChange && !isSnapshot && scoreChanged) {
+        startTransition(() => {
+          router.refresh();
+        });
+      }
+    });
+
+    source.addEventListener("done", () => {
+      source.close();
+      setStatus("closed");
+    });
+
+    source.onerror = () => {
+      // EventSource retries on its own; fall back to polling until it reconnects
+      hasReceivedRef.current = false;
+      setStatus(source.readyState === EventSource.CLOSED ? "closed" : "connecting");
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [league, gameId, enabled, refreshOnChange, router]);
+
+  const value = useMemo(
+    () => ({ status, patches, lastUpdated }),
+    [status, patches, lastUpdated]
+  );
+
+  return <LiveScoresContext.Provider value={value}>{children}</LiveScoresContext.Provider>;
+}
+
+/**
+ * Live stream state, or null outside a LiveScoresProvider
+ * (components also render on pages without streaming, e.g. /my or past dates)
+ */
+export function useLiveScores(): LiveScoresContextValue | null {
+  return useContext(LiveScoresContext);
+}
+
+/**
+ * Apply live patches to a list of games
+ */
+export function useLiveGames(games: Game[]): Game[] {
+  const live = useLiveScores();
+  const patches = live?.patches;
+
+  return useMemo(
+    () => (patches ? games.map((game) => applyGamePatch(game, patches[game.id])) : games),
+    [games, patches]
+  );
+}
+
+/**
+ * Apply live patches to a single game
+ */
+export function useLiveGame(game: Game): Game {
+  const live = useLiveScores();
+  const patch = live?.patches[game.id];
+
+  return useMemo(() => applyGamePatch(game, patch), [game, patch]);
+}
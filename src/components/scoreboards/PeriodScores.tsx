@@ -10,7 +10,7 @@ interface PeriodScoresProps {
 /**
  * Get period labels based on league
  */
-function getPeriodLabels(league: League, periodCount: number): string[] {
+export function getPeriodLabels(league: League, periodCount: number): string[] {
   switch (league) {
     case "nhl":
       // NHL: P1, P2, P3, OT, 2OT, etc.
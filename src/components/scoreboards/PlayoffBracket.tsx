@@ -1,4 +1,6 @@
-import type { PlayoffBracket, PlayoffMatchup } from "@/lib/types/playoffs";
+import { Fragment } from "react";
+import { LEAGUES } from "@/lib/types";
+import type { PlayoffBracket, PlayoffMatchup, PlayoffRound } from "@/lib/types/playoffs";
 import { BracketMatchupCard } from "./BracketMatchupCard";
 import { AsciiSectionHeader } from "@/components/ascii/AsciiDecorations";
 
@@ -65,10 +67,12 @@ function BracketConnector({
  * Column of matchup cards for a bracket round
  */
 function RoundColumn({
+  league,
   matchups,
   roundName,
   className = "",
 }: {
+  league: PlayoffBracket["league"];
   matchups: PlayoffMatchup[];
   roundName: string;
   className?: string;
@@ -83,24 +87,47 @@ function RoundColumn({
         </span>
       </div>
       {matchups.map((matchup) => (
-        <BracketMatchupCard key={matchup.id} matchup={matchup} />
+        <BracketMatchupCard key={matchup.id} league={league} matchup={matchup} />
       ))}
     </div>
   );
 }
 
+/**
+ * Rounds in bracket order; the last round is the championship
+ */
+function getSortedRounds(bracket: PlayoffBracket): PlayoffRound[] {
+  return [...bracket.rounds].sort((a, b) => a.order - b.order);
+}
+
 /**
  * Desktop horizontal bracket layout using CSS grid.
- * Layout: AFC-WC | AFC-DIV | AFC-CONF | SUPER BOWL | NFC-CONF | NFC-DIV | NFC-WC
+ * Layout mirrors the two conferences around the championship, e.g. for the NFL:
+ * AFC-WC | AFC-DIV | AFC-CONF | SUPER BOWL | NFC-CONF | NFC-DIV | NFC-WC
  */
 function DesktopBracket({ bracket }: PlayoffBracketDisplayProps) {
-  const afcWC = getMatchups(bracket, "wild-card", "AFC");
-  const afcDiv = getMatchups(bracket, "divisional", "AFC");
-  const afcConf = getMatchups(bracket, "conference", "AFC");
-  const superBowl = getMatchups(bracket, "super-bowl");
-  const nfcConf = getMatchups(bracket, "conference", "NFC");
-  const nfcDiv = getMatchups(bracket, "divisional", "NFC");
-  const nfcWC = getMatchups(bracket, "wild-card", "NFC");
+  const rounds = getSortedRounds(bracket);
+  const championshipRound = rounds[rounds.length - 1];
+  const conferenceRounds = rounds.filter((round) => !round.national);
+  const [leftConference, rightConference] = bracket.conferences;
+
+  // Round columns separated by 16px connector columns; the championship column is wider
+  const roundColumns = [
+    ...conferenceRounds.map(() => "minmax(120px,1fr)"),
+    "minmax(140px,1.2fr)",
+    ...conferenceRounds.map(() => "minmax(120px,1fr)"),
+  ];
+  const gridTemplateColumns = roundColumns.join(" 16px ");
+
+  const left = conferenceRounds.map((round) => ({
+    round,
+    matchups: getMatchups(bracket, round.id, leftConference),
+  }));
+  const right = [...conferenceRounds].reverse().map((round) => ({
+    round,
+    matchups: getMatchups(bracket, round.id, rightConference),
+  }));
+  const championship = getMatchups(bracket, championshipRound.id);
 
   return (
     <div className="hidden lg:block overflow-x-auto">
@@ -108,58 +135,147 @@ function DesktopBracket({ bracket }: PlayoffBracketDisplayProps) {
       <div className="grid grid-cols-[1fr_auto_1fr] gap-4 mb-4">
         <div className="text-center">
           <span className="font-mono text-lg text-terminal-cyan font-bold">
-            AFC
+            {leftConference}
           </span>
         </div>
         <div />
         <div className="text-center">
           <span className="font-mono text-lg text-terminal-cyan font-bold">
-            NFC
+            {rightConference}
           </span>
         </div>
       </div>
 
       {/* Bracket grid */}
-      <div className="grid grid-cols-[minmax(120px,1fr)_16px_minmax(120px,1fr)_16px_minmax(120px,1fr)_16px_minmax(140px,1.2fr)_16px_minmax(120px,1fr)_16px_minmax(120px,1fr)_16px_minmax(120px,1fr)] items-center gap-y-2">
-        {/* AFC Wild Card */}
-        <RoundColumn matchups={afcWC} roundName="Wild Card" />
-
-        {/* Connector: WC → DIV */}
-        <BracketConnector direction="right" matchupCount={afcWC.length} />
-
-        {/* AFC Divisional */}
-        <RoundColumn matchups={afcDiv} roundName="Divisional" />
-
-        {/* Connector: DIV → CONF */}
-        <BracketConnector direction="right" matchupCount={afcDiv.length} />
-
-        {/* AFC Conference */}
-        <RoundColumn matchups={afcConf} roundName="Conference" />
+      <div className="grid items-center gap-y-2" style={{ gridTemplateColumns }}>
+        {/* Left conference, earliest round first */}
+        {left.map(({ round, matchups }) => (
+          <Fragment key={`left-${round.id}`}>
+            <RoundColumn league={bracket.league} matchups={matchups} roundName={round.name} />
+            <BracketConnector direction="right" matchupCount={matchups.length} />
+          </Fragment>
+        ))}
+
+        {/* Championship */}
+        <RoundColumn
+          league={bracket.league}
+          matchups={championship}
+          roundName={championshipRound.name}
+          className="min-w-[140px]"
+        />
 
-        {/* Connector: CONF → SB */}
-        <BracketConnector direction="right" matchupCount={afcConf.length} />
+        {/* Right conference, mirrored */}
+        {right.map(({ round, matchups }) => (
+          <Fragment key={`right-${round.id}`}>
+            <BracketConnector direction="left" matchupCount={matchups.length} />
+            <RoundColumn league={bracket.league} matchups={matchups} roundName={round.name} />
+          </Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
 
-        {/* Super Bowl */}
-        <RoundColumn matchups={superBowl} roundName="Super Bowl" className="min-w-[140px]" />
+/**
+ * Desktop layout for four-region brackets (NCAA tournament).
+ * Each region is its own left-to-right bracket, followed by the national rounds:
+ * SEMIFINAL 1 | CHAMPIONSHIP | SEMIFINAL 2
+ */
+function RegionalBracket({ bracket }: PlayoffBracketDisplayProps) {
+  const rounds = getSortedRounds(bracket);
+  const regionalRounds = rounds.filter((round) => !round.national);
+  const nationalRounds = rounds.filter((round) => round.national);
+  const championshipRound = nationalRounds[nationalRounds.length - 1];
+  const semifinalRound = nationalRounds.length > 1 ? nationalRounds[0] : undefined;
 
-        {/* Connector: SB ← CONF */}
-        <BracketConnector direction="left" matchupCount={nfcConf.length} />
+  const gridTemplateColumns = regionalRounds.map(() => "minmax(120px,1fr)").join(" 16px ");
+  const semifinals = semifinalRound ? getMatchups(bracket, semifinalRound.id) : [];
+  const championship = championshipRound ? getMatchups(bracket, championshipRound.id) : [];
 
-        {/* NFC Conference */}
-        <RoundColumn matchups={nfcConf} roundName="Conference" />
+  return (
+    <div className="hidden lg:block overflow-x-auto space-y-8">
+      {bracket.conferences.map((region) => (
+        <section key={region}>
+          <h3 className="font-mono text-lg text-terminal-cyan font-bold mb-4">
+            <span className="text-terminal-border">─── </span>
+            {region.toUpperCase()} REGION
+            <span className="text-terminal-border"> ───</span>
+          </h3>
+          <div className="grid items-center gap-y-2" style={{ gridTemplateColumns }}>
+            {regionalRounds.map((round, i) => {
+              const matchups = getMatchups(bracket, round.id, region);
+              return (
+                <Fragment key={round.id}>
+                  {i > 0 && <BracketConnector direction="right" matchupCount={matchups.length} />}
+                  <RoundColumn league={bracket.league} matchups={matchups} roundName={round.name} />
+                </Fragment>
+              );
+            })}
+          </div>
+        </section>
+      ))}
 
-        {/* Connector: CONF ← DIV */}
-        <BracketConnector direction="left" matchupCount={nfcDiv.length} />
+      {championshipRound && (
+        <section>
+          <h3 className="font-mono text-lg text-terminal-cyan font-bold mb-4">
+            <span className="text-terminal-border">─── </span>
+            {semifinalRound ? semifinalRound.name.toUpperCase() : championshipRound.name.toUpperCase()}
+            <span className="text-terminal-border"> ───</span>
+          </h3>
+          <div className="grid grid-cols-[minmax(120px,1fr)_16px_minmax(140px,1.2fr)_16px_minmax(120px,1fr)] items-center gap-y-2">
+            <RoundColumn
+              league={bracket.league}
+              matchups={semifinals.slice(0, 1)}
+              roundName={semifinalRound?.name ?? ""}
+            />
+            <BracketConnector direction="right" matchupCount={1} />
+            <RoundColumn
+              league={bracket.league}
+              matchups={championship}
+              roundName={championshipRound.name}
+              className="min-w-[140px]"
+            />
+            <BracketConnector direction="left" matchupCount={1} />
+            <RoundColumn
+              league={bracket.league}
+              matchups={semifinals.slice(1)}
+              roundName={semifinalRound?.name ?? ""}
+            />
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
 
-        {/* NFC Divisional */}
-        <RoundColumn matchups={nfcDiv} roundName="Divisional" />
+/**
+ * Round-by-round layout for knockout cups (FA Cup), used on every screen size.
+ * The draw is redone each round, so there are no bracket lines; the latest round is first.
+ */
+function KnockoutRounds({ bracket }: PlayoffBracketDisplayProps) {
+  const roundsReversed = getSortedRounds(bracket).reverse();
 
-        {/* Connector: DIV ← WC */}
-        <BracketConnector direction="left" matchupCount={nfcWC.length} />
+  return (
+    <div className="space-y-8">
+      {roundsReversed.map((round) => {
+        const roundMatchups = getMatchups(bracket, round.id);
+        if (roundMatchups.length === 0) return null;
 
-        {/* NFC Wild Card */}
-        <RoundColumn matchups={nfcWC} roundName="Wild Card" />
-      </div>
+        return (
+          <section key={round.id}>
+            <AsciiSectionHeader
+              title={`${round.name} (${roundMatchups.length} ${roundMatchups.length === 1 ? "tie" : "ties"})`}
+              variant="boxed"
+              className="mb-4"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              {roundMatchups.map((matchup) => (
+                <BracketMatchupCard key={matchup.id} league={bracket.league} matchup={matchup} />
+              ))}
+            </div>
+          </section>
+        );
+      })}
     </div>
   );
 }
@@ -169,73 +285,45 @@ function DesktopBracket({ bracket }: PlayoffBracketDisplayProps) {
  */
 function MobileBracket({ bracket }: PlayoffBracketDisplayProps) {
   // Reverse round order so the championship is at the top
-  const roundsReversed = [...bracket.rounds].reverse();
+  const roundsReversed = getSortedRounds(bracket).reverse();
 
   return (
     <div className="lg:hidden space-y-8">
       {roundsReversed.map((round) => {
-        const roundMatchups = bracket.matchups
-          .filter((m) => m.round === round.id)
-          .sort((a, b) => {
-            // Group by conference, then by position
-            const confOrder = (a.conference ?? "ZZZ").localeCompare(
-              b.conference ?? "ZZZ"
-            );
-            if (confOrder !== 0) return confOrder;
-            return a.position - b.position;
-          });
-
+        const roundMatchups = bracket.matchups.filter((m) => m.round === round.id);
         if (roundMatchups.length === 0) return null;
 
         // Group by conference for display
-        const afcMatchups = roundMatchups.filter(
-          (m) => m.conference === "AFC"
-        );
-        const nfcMatchups = roundMatchups.filter(
-          (m) => m.conference === "NFC"
-        );
-        const neutralMatchups = roundMatchups.filter(
-          (m) => m.conference === undefined
-        );
+        const neutralMatchups = getMatchups(bracket, round.id);
 
         return (
           <section key={round.id}>
             <AsciiSectionHeader title={round.name} variant="boxed" className="mb-4" />
 
-            {afcMatchups.length > 0 && (
-              <div className="mb-4">
-                <h3 className="font-mono text-xs text-terminal-cyan mb-2">
-                  <span className="text-terminal-border">─── </span>
-                  AFC
-                  <span className="text-terminal-border"> ───</span>
-                </h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {afcMatchups.map((matchup) => (
-                    <BracketMatchupCard key={matchup.id} matchup={matchup} />
-                  ))}
+            {bracket.conferences.map((conference) => {
+              const conferenceMatchups = getMatchups(bracket, round.id, conference);
+              if (conferenceMatchups.length === 0) return null;
+
+              return (
+                <div key={conference} className="mb-4">
+                  <h3 className="font-mono text-xs text-terminal-cyan mb-2">
+                    <span className="text-terminal-border">─── </span>
+                    {conference}
+                    <span className="text-terminal-border"> ───</span>
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {conferenceMatchups.map((matchup) => (
+                      <BracketMatchupCard key={matchup.id} league={bracket.league} matchup={matchup} />
+                    ))}
+                  </div>
                 </div>
-              </div>
-            )}
-
-            {nfcMatchups.length > 0 && (
-              <div className="mb-4">
-                <h3 className="font-mono text-xs text-terminal-cyan mb-2">
-                  <span className="text-terminal-border">─── </span>
-                  NFC
-                  <span className="text-terminal-border"> ───</span>
-                </h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {nfcMatchups.map((matchup) => (
-                    <BracketMatchupCard key={matchup.id} matchup={matchup} />
-                  ))}
-                </div>
-              </div>
-            )}
+              );
+            })}
 
             {neutralMatchups.length > 0 && (
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                 {neutralMatchups.map((matchup) => (
-                  <BracketMatchupCard key={matchup.id} matchup={matchup} />
+                  <BracketMatchupCard key={matchup.id} league={bracket.league} matchup={matchup} />
                 ))}
               </div>
             )}
@@ -247,42 +335,50 @@ function MobileBracket({ bracket }: PlayoffBracketDisplayProps) {
 }
 
 /**
- * Find the Super Bowl champion from the bracket data
+ * Find the champion from the championship round (Super Bowl, NBA Finals, etc.)
  */
 function getChampion(
   bracket: PlayoffBracket
-): { name: string; abbreviation: string; score: number; opponentScore: number; gameNote: string } | null {
-  const sb = bracket.matchups.find((m) => m.round === "super-bowl");
-  if (!sb?.game || sb.game.status !== "final") return null;
+): { name: string; abbreviation: string; score: number; opponentScore: number; title: string } | null {
+  const rounds = getSortedRounds(bracket);
+  const championshipRound = rounds[rounds.length - 1];
+  const final = bracket.matchups.find((m) => m.round === championshipRound?.id);
+  if (!final?.game) return null;
 
   const winner =
-    sb.topTeam?.isWinner === true
-      ? sb.topTeam
-      : sb.bottomTeam?.isWinner === true
-        ? sb.bottomTeam
+    final.topTeam?.isWinner === true
+      ? final.topTeam
+      : final.bottomTeam?.isWinner === true
+        ? final.bottomTeam
         : null;
   const loser =
-    sb.topTeam?.isWinner === true ? sb.bottomTeam : sb.topTeam;
+    final.topTeam?.isWinner === true ? final.bottomTeam : final.topTeam;
 
   if (!winner) return null;
 
+  // Series show wins (4 - 2), single games show the final score
   return {
     name: winner.displayName,
     abbreviation: winner.abbreviation,
-    score: winner.score ?? 0,
-    opponentScore: loser?.score ?? 0,
-    gameNote: sb.game.detail ?? "Final",
+    score: winner.wins ?? winner.score ?? 0,
+    opponentScore: loser?.wins ?? loser?.score ?? 0,
+    // "National Championship" → "National Champion", "Super Bowl" → "Super Bowl Champion",
+    // and cup finals name the competition ("FA Cup Winner")
+    title:
+      championshipRound.name === "Final"
+        ? `${LEAGUES[bracket.league].name} Winner`
+        : `${championshipRound.name.replace(/ Championship$/, "")} Champion`,
   };
 }
 
 /**
- * ASCII champion banner displayed when the Super Bowl has been decided
+ * ASCII champion banner displayed when the championship has been decided
  */
 function ChampionBanner({
   champion,
   seasonLabel,
 }: {
-  champion: { name: string; abbreviation: string; score: number; opponentScore: number };
+  champion: { name: string; abbreviation: string; score: number; opponentScore: number; title: string };
   seasonLabel: string;
 }) {
   const fill = (char: string) => (
@@ -295,7 +391,7 @@ function ChampionBanner({
     <div
       className="font-mono text-center mb-8 max-w-md mx-auto text-xs sm:text-sm"
       role="banner"
-      aria-label={`${champion.name}, Super Bowl Champion`}
+      aria-label={`${champion.name}, ${champion.title}`}
     >
       {/* Stars top */}
       <div className="flex text-terminal-yellow" aria-hidden="true">
@@ -313,7 +409,7 @@ function ChampionBanner({
       <div className="flex">
         <span className="text-terminal-border" aria-hidden="true">║</span>
         <div className="flex-1 text-center py-1 text-terminal-yellow">
-          SUPER BOWL CHAMPION
+          {champion.title.toUpperCase()}
         </div>
         <span className="text-terminal-border" aria-hidden="true">║</span>
       </div>
@@ -422,11 +518,23 @@ export function PlayoffBracketDisplay({
         </div>
       )}
 
-      {/* Desktop bracket */}
-      <DesktopBracket bracket={bracket} />
-
-      {/* Mobile layout */}
-      <MobileBracket bracket={bracket} />
+      {bracket.conferences.length === 0 ? (
+        // Knockout cups have no conferences or fixed bracket
+        <KnockoutRounds bracket={bracket} />
+      ) : (
+        <>
+          {/* Desktop bracket (two conferences mirrored, or one bracket per region when
+              region winners meet in national semifinals) */}
+          {bracket.rounds.filter((round) => round.national).length > 1 ? (
+            <RegionalBracket bracket={bracket} />
+          ) : (
+            <DesktopBracket bracket={bracket} />
+          )}
+
+          {/* Mobile layout */}
+          <MobileBracket bracket={bracket} />
+        </>
+      )}
     </div>
   );
 }
@@ -1,31 +1,30 @@
 "use client";
 
 import Link from "next/link";
+import {
+  PLAYOFF_MIN_SEASON_YEARS,
+  formatPlayoffSeasonLabel,
+  getDefaultPlayoffSeasonYear,
+  type PlayoffLeague,
+} from "@/lib/types/playoffs";
 
 interface PlayoffYearSelectorProps {
-  league: string;
+  league: PlayoffLeague;
   currentYear: number;
 }
 
-/**
- * Minimum year for NFL expanded playoffs (14 teams, 7 per conference)
- */
-const MIN_YEAR = 2020;
-
 /**
  * Year navigation for viewing past playoff brackets.
- * NFL expanded to 14 teams in the 2020 season.
+ * Starts at the first season of each league's current playoff format.
  */
 export function PlayoffYearSelector({
   league,
   currentYear,
 }: PlayoffYearSelectorProps) {
-  const now = new Date();
-  const maxYear =
-    now.getMonth() + 1 <= 7 ? now.getFullYear() - 1 : now.getFullYear();
+  const maxYear = getDefaultPlayoffSeasonYear(league);
 
   const years: number[] = [];
-  for (let y = maxYear; y >= MIN_YEAR; y--) {
+  for (let y = maxYear; y >= PLAYOFF_MIN_SEASON_YEARS[league]; y--) {
     years.push(y);
   }
 
@@ -37,7 +36,7 @@ export function PlayoffYearSelector({
       <span className="text-terminal-muted mr-1">SEASON:</span>
       {years.map((year) => {
         const isActive = year === currentYear;
-        const label = `${year}-${String(year + 1).slice(2)}`;
+        const label = formatPlayoffSeasonLabel(league, year);
 
         if (isActive) {
           return (
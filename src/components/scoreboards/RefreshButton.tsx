@@ -2,6 +2,7 @@
 
 import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useState, useTransition, useRef } from "react";
+import { useLiveScores } from "./LiveScoresProvider";
 
 interface RefreshButtonProps {
   /** Refresh interval in milliseconds */
@@ -12,6 +13,7 @@ interface RefreshButtonProps {
 
 /**
  * Client component for refreshing server component data
+ * Auto-refresh pauses while a LiveScoresProvider stream is open.
  */
 export function RefreshButton({
   interval = 30000,
@@ -22,6 +24,8 @@ export function RefreshButton({
   const [isAutoRefresh, setIsAutoRefresh] = useState(autoRefresh);
   const [statusMessage, setStatusMessage] = useState("");
   const checkboxId = useRef(`auto-refresh-${Math.random().toString(36).slice(2, 9)}`).current;
+  const live = useLiveScores();
+  const isStreaming = live?.status === "open";
 
   const handleRefresh = useCallback(() => {
     setStatusMessage("Refreshing scores...");
@@ -40,13 +44,13 @@ export function RefreshButton({
     }
   }, [isPending, statusMessage]);
 
-  // Auto-refresh on interval
+  // Auto-refresh on interval (not needed while scores are streaming)
   useEffect(() => {
-    if (!isAutoRefresh) return;
+    if (!isAutoRefresh || isStreaming) return;
 
     const timer = setInterval(handleRefresh, interval);
     return () => clearInterval(timer);
-  }, [isAutoRefresh, interval, handleRefresh]);
+  }, [isAutoRefresh, isStreaming, interval, handleRefresh]);
 
   const intervalSeconds = Math.round(interval / 1000);
 
@@ -92,6 +96,14 @@ export function RefreshButton({
           </span>
         )}
       </div>
+
+      {isStreaming && (
+        <span className="text-terminal-green text-xs">
+          <span className="glow-pulse mr-1" aria-hidden="true">●</span>
+          STREAMING
+          <span className="sr-only"> - scores update live without refreshing</span>
+        </span>
+      )}
     </div>
   );
 }
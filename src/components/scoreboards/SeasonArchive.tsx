@@ -0,0 +1,276 @@
+import Link from "next/link";
+import type { Game, League } from "@/lib/types";
+import { formatTime, parseDateFromAPI } from "@/lib/utils/format";
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/**
+ * Format a YYYYMM month key for display (e.g., "January 2026")
+ */
+export function formatMonthKey(monthKey: string): string {
+  const year = monthKey.slice(0, 4);
+  const month = parseInt(monthKey.slice(4, 6), 10);
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+}
+
+/**
+ * Previous/next season links around the current season label
+ */
+export function SeasonSelector({
+  league,
+  year,
+  label,
+  prevLabel,
+  nextLabel,
+}: {
+  league: League;
+  year: number;
+  label: string;
+  /** Label of the previous season, if it can be browsed */
+  prevLabel?: string;
+  /** Label of the next season, if it can be browsed */
+  nextLabel?: string;
+}) {
+  return (
+    <nav
+      className="font-mono text-sm flex items-center gap-2 mb-4"
+      aria-label="Season selector"
+    >
+      {prevLabel ? (
+        <Link
+          href={`/${league}/season/${year - 1}`}
+          className="px-2 py-0.5 text-terminal-muted hover:text-terminal-green transition-colors"
+        >
+          ◄ {prevLabel}
+        </Link>
+      ) : (
+        <span className="px-2 py-0.5 text-terminal-border" aria-hidden="true">◄</span>
+      )}
+      <span
+        className="px-2 py-0.5 text-terminal-green font-bold border border-terminal-green/50"
+        aria-current="true"
+      >
+        [{label}]
+      </span>
+      {nextLabel ? (
+        <Link
+          href={`/${league}/season/${year + 1}`}
+          className="px-2 py-0.5 text-terminal-muted hover:text-terminal-green transition-colors"
+        >
+          {nextLabel} ►
+        </Link>
+      ) : (
+        <span className="px-2 py-0.5 text-terminal-border" aria-hidden="true">►</span>
+      )}
+    </nav>
+  );
+}
+
+/**
+ * Month tabs for a season (months are YYYYMM keys)
+ */
+export function SeasonMonthNav({
+  league,
+  year,
+  months,
+  currentMonth,
+}: {
+  league: League;
+  year: number;
+  months: string[];
+  currentMonth: string;
+}) {
+  return (
+    <nav
+      className="font-mono text-xs flex flex-wrap items-center gap-1 mb-6"
+      aria-label="Month selector"
+    >
+      <span className="text-terminal-muted mr-1">MONTH:</span>
+      {months.map((monthKey) => {
+        const label = MONTH_NAMES[parseInt(monthKey.slice(4, 6), 10) - 1].slice(0, 3).toUpperCase();
+
+        if (monthKey === currentMonth) {
+          return (
+            <span
+              key={monthKey}
+              className="px-2 py-0.5 text-terminal-green font-bold border border-terminal-green/50"
+              aria-current="true"
+            >
+              [{label}]
+            </span>
+          );
+        }
+
+        return (
+          <Link
+            key={monthKey}
+            href={`/${league}/season/${year}?month=${monthKey}`}
+            className="px-2 py-0.5 text-terminal-muted hover:text-terminal-green transition-colors"
+            aria-label={formatMonthKey(monthKey)}
+          >
+            {label}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
+
+/**
+ * Month calendar grid; days with games link to their permalink
+ */
+export function SeasonCalendar({
+  league,
+  year,
+  monthKey,
+  gameCounts,
+}: {
+  league: League;
+  year: number;
+  monthKey: string;
+  /** Number of games per YYYYMMDD date */
+  gameCounts: Record<string, number>;
+}) {
+  const firstDay = parseDateFromAPI(`${monthKey}01`)!;
+  const daysInMonth = new Date(firstDay.getFullYear(), firstDay.getMonth() + 1, 0).getDate();
+  const leadingBlanks = firstDay.getDay();
+
+  return (
+    <div className="font-mono text-xs mb-8 max-w-xl">
+      <h2 className="text-terminal-cyan text-sm mb-2">
+        <span className="text-terminal-border">═══</span> {formatMonthKey(monthKey).toUpperCase()}{" "}
+        <span className="text-terminal-border">═══</span>
+      </h2>
+      <div className="grid grid-cols-7 gap-1" role="grid" aria-label={`${formatMonthKey(monthKey)} game days`}>
+        {WEEKDAYS.map((day) => (
+          <div key={day} className="text-center text-terminal-muted py-1" role="columnheader">
+            {day}
+          </div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, i) => (
+          <div key={`blank-${i}`} aria-hidden="true" />
+        ))}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const day = i + 1;
+          const dateKey = `${monthKey}${String(day).padStart(2, "0")}`;
+          const count = gameCounts[dateKey] ?? 0;
+
+          if (count === 0) {
+            return (
+              <div
+                key={dateKey}
+                className="border border-terminal-border/30 text-terminal-border text-center py-2"
+                role="gridcell"
+              >
+                {day}
+              </div>
+            );
+          }
+
+          return (
+            <Link
+              key={dateKey}
+              href={`/${league}/season/${year}/${dateKey}`}
+              className="border border-terminal-border text-center py-1 hover:border-terminal-green hover:text-terminal-green transition-colors"
+              role="gridcell"
+              aria-label={`${formatMonthKey(monthKey).split(" ")[0]} ${day}: ${count} ${count === 1 ? "game" : "games"}`}
+            >
+              <div className="text-terminal-fg">{day}</div>
+              <div className="text-terminal-cyan text-[10px]">{count}G</div>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Compact result row for a game in the archive
+ */
+function ArchiveGameRow({ league, game }: { league: League; game: Game }) {
+  const isFinal = game.status === "final";
+  const awayWon = isFinal && game.awayScore > game.homeScore;
+  const homeWon = isFinal && game.homeScore > game.awayScore;
+  const status =
+    game.status === "final"
+      ? game.detail ?? "Final"
+      : game.status === "scheduled"
+        ? formatTime(game.startTime)
+        : game.detail ?? game.status.toUpperCase();
+
+  return (
+    <li>
+      <Link
+        href={`/${league}/game/${game.id}`}
+        className="flex items-center gap-2 px-2 py-0.5 hover:bg-terminal-border/20 transition-colors"
+      >
+        <span className={`w-12 ${awayWon ? "text-terminal-green font-bold" : "text-terminal-fg"}`}>
+          {game.awayTeam.abbreviation}
+        </span>
+        <span className={`w-8 text-right ${awayWon ? "text-terminal-green font-bold" : "text-terminal-fg"}`}>
+          {game.status === "scheduled" ? "" : game.awayScore}
+        </span>
+        <span className="text-terminal-muted">@</span>
+        <span className={`w-12 ${homeWon ? "text-terminal-green font-bold" : "text-terminal-fg"}`}>
+          {game.homeTeam.abbreviation}
+        </span>
+        <span className={`w-8 text-right ${homeWon ? "text-terminal-green font-bold" : "text-terminal-fg"}`}>
+          {game.status === "scheduled" ? "" : game.homeScore}
+        </span>
+        <span className="text-terminal-muted text-xs ml-2">{status}</span>
+      </Link>
+    </li>
+  );
+}
+
+/**
+ * Every game on one game-day, with a link to the day's permalink
+ */
+export function SeasonGameDay({
+  league,
+  year,
+  dateKey,
+  games,
+}: {
+  league: League;
+  year: number;
+  dateKey: string;
+  games: Game[];
+}) {
+  const date = parseDateFromAPI(dateKey)!;
+  const label = date.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+  return (
+    <section id={`d-${dateKey}`} className="font-mono text-sm">
+      <h3 className="text-terminal-cyan text-sm mb-1">
+        <Link
+          href={`/${league}/season/${year}/${dateKey}`}
+          className="hover:text-terminal-green transition-colors"
+        >
+          <span className="text-terminal-border">[</span>
+          {label}
+          <span className="text-terminal-border">]</span>
+        </Link>
+        <span className="text-terminal-muted text-xs ml-2">
+          {games.length} {games.length === 1 ? "game" : "games"}
+        </span>
+      </h3>
+      <ul className="border-l border-terminal-border ml-1">
+        {games.map((game) => (
+          <ArchiveGameRow key={game.id} league={league} game={game} />
+        ))}
+      </ul>
+    </section>
+  );
+}
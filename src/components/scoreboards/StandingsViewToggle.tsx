@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useCallback, useTransition } from "react";
-import type { LeagueStandings, StandingsGroupLevel, League } from "@/lib/types";
+import type { GolfLeague, LeagueStandings, StandingsGroupLevel, League } from "@/lib/types";
 import { LeagueStandingsDisplay } from "./LeagueStandings";
 
 /**
@@ -17,7 +17,7 @@ interface StandingsViewToggleProps {
  * Client wrapper for standings with division/conference toggle
  */
 export function StandingsViewToggle({ standings }: StandingsViewToggleProps) {
-  const league = standings.league as Exclude<League, "f1" | "pga">;
+  const league = standings.league as Exclude<League, "f1" | GolfLeague>;
 
   // Check if we have both division and conference level data
   const divisionGroups = standings.groups.filter((g) => g.level === "division");
@@ -0,0 +1,52 @@
+"use client";
+
+import { useCallback, type KeyboardEvent, type MouseEvent, type ReactNode } from "react";
+import { useRouter } from "next/navigation";
+
+interface TeamLinkProps {
+  href: string;
+  label: string;
+  className?: string;
+  children: ReactNode;
+}
+
+/**
+ * Link to a team page from inside a card that is itself a Link
+ * (anchors can't be nested, so this navigates with the router instead)
+ */
+export function TeamLink({ href, label, className = "", children }: TeamLinkProps) {
+  const router = useRouter();
+
+  const navigate = useCallback(
+    (e: MouseEvent | KeyboardEvent) => {
+      // Prevent the surrounding card's navigation
+      e.preventDefault();
+      e.stopPropagation();
+      router.push(href);
+    },
+    [router, href]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      if (e.key === "Enter") {
+        navigate(e);
+      }
+    },
+    [navigate]
+  );
+
+  return (
+    <span
+      role="link"
+      tabIndex={0}
+      onClick={navigate}
+      onKeyDown={handleKeyDown}
+      className={`hover:underline ${className}`}
+      aria-label={label}
+      title={label}
+    >
+      {children}
+    </span>
+  );
+}
@@ -0,0 +1,258 @@
+import Link from "next/link";
+import type { TeamGameResult, TeamRecord, TeamSchedule, TeamScheduleGame } from "@/lib/types";
+import { formatDate, formatTime } from "@/lib/utils/format";
+
+// Soccer records are written W-D-L
+const SOCCER_LEAGUES = ["mls", "epl", "fa-cup"];
+
+const RESULT_CLASSES: Record<TeamGameResult, string> = {
+  W: "text-terminal-green font-bold",
+  L: "text-terminal-red",
+  T: "text-terminal-yellow",
+};
+
+/**
+ * Format a record (e.g., "10-5", "10-5-2", or "10-2-5" W-D-L for soccer)
+ */
+function formatRecord(record: TeamRecord, isSoccer: boolean): string {
+  if (isSoccer) {
+    return `${record.wins}-${record.ties}-${record.losses}`;
+  }
+  return record.ties > 0
+    ? `${record.wins}-${record.losses}-${record.ties}`
+    : `${record.wins}-${record.losses}`;
+}
+
+/**
+ * Display letter for a result (ties are draws in soccer)
+ */
+function formatResult(result: TeamGameResult, isSoccer: boolean): string {
+  return result === "T" && isSoccer ? "D" : result;
+}
+
+/**
+ * Season record, home/away splits and current streak
+ */
+export function TeamRecordSummary({ schedule }: { schedule: TeamSchedule }) {
+  const isSoccer = SOCCER_LEAGUES.includes(schedule.league);
+  const { records, streak } = schedule;
+  const columns = "repeat(4, minmax(72px, 1fr))";
+
+  return (
+    <div className="font-mono text-sm border border-terminal-border rounded max-w-xl mb-8">
+      <div
+        className="grid border-b border-terminal-border bg-terminal-bg/50 text-terminal-cyan"
+        style={{ gridTemplateColumns: columns }}
+      >
+        <div className="px-2 py-1 text-center">{isSoccer ? "W-D-L" : "RECORD"}</div>
+        <div className="px-2 py-1 text-center">HOME</div>
+        <div className="px-2 py-1 text-center">AWAY</div>
+        <div className="px-2 py-1 text-center">STRK</div>
+      </div>
+      <div className="grid" style={{ gridTemplateColumns: columns }}>
+        <div className="px-2 py-1 text-center text-terminal-fg font-bold">
+          {formatRecord(records.overall, isSoccer)}
+        </div>
+        <div className="px-2 py-1 text-center text-terminal-muted">
+          {formatRecord(records.home, isSoccer)}
+        </div>
+        <div className="px-2 py-1 text-center text-terminal-muted">
+          {formatRecord(records.away, isSoccer)}
+        </div>
+        <div className={`px-2 py-1 text-center ${streak ? RESULT_CLASSES[streak.result] : "text-terminal-muted"}`}>
+          {streak ? `${formatResult(streak.result, isSoccer)}${streak.count}` : "-"}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Opponent cell: "vs BOS" at home, "@ BOS" away, linking to the opponent's team page
+ */
+function OpponentCell({ league, entry }: { league: TeamSchedule["league"]; entry: TeamScheduleGame }) {
+  return (
+    <div className="px-2 py-1 text-left truncate">
+      <span className="text-terminal-muted">{entry.isHome ? "vs " : "@ "}</span>
+      <Link
+        href={`/${league}/team/${entry.opponent.id}`}
+        className="text-terminal-fg hover:text-terminal-green transition-colors"
+        title={entry.opponent.displayName}
+      >
+        {entry.opponent.abbreviation}
+      </Link>
+    </div>
+  );
+}
+
+/**
+ * Final games with W/L and score
+ */
+function ResultsTable({ schedule, games }: { schedule: TeamSchedule; games: TeamScheduleGame[] }) {
+  const isSoccer = SOCCER_LEAGUES.includes(schedule.league);
+  const columns = "96px minmax(88px, 1fr) 32px 88px";
+
+  return (
+    <div className="font-mono text-sm border border-terminal-border rounded overflow-x-auto">
+      <div className="min-w-max">
+        <div
+          className="grid border-b border-terminal-border bg-terminal-bg/50 text-terminal-cyan"
+          style={{ gridTemplateColumns: columns }}
+        >
+          <div className="px-2 py-1 text-left">DATE</div>
+          <div className="px-2 py-1 text-left">OPP</div>
+          <div className="px-2 py-1 text-center">W/L</div>
+          <div className="px-2 py-1 text-right">SCORE</div>
+        </div>
+        {games.map((entry, index) => {
+          const { game } = entry;
+          const teamScore = entry.isHome ? game.homeScore : game.awayScore;
+          const opponentScore = entry.isHome ? game.awayScore : game.homeScore;
+
+          return (
+            <div
+              key={game.id}
+              className={`grid ${index % 2 === 0 ? "bg-terminal-bg/30" : ""}`}
+              style={{ gridTemplateColumns: columns }}
+            >
+              <div className="px-2 py-1 text-left text-terminal-muted">{formatDate(game.startTime)}</div>
+              <OpponentCell league={schedule.league} entry={entry} />
+              <div className={`px-2 py-1 text-center ${RESULT_CLASSES[entry.result!]}`}>
+                {formatResult(entry.result!, isSoccer)}
+              </div>
+              <div className="px-2 py-1 text-right">
+                <Link
+                  href={`/${schedule.league}/game/${game.id}`}
+                  className="text-terminal-fg hover:text-terminal-green transition-colors"
+                >
+                  {teamScore}-{opponentScore}
+                  {game.detail && game.detail !== "Final" && (
+                    <span className="text-terminal-muted text-xs ml-1">
+                      {game.detail.replace(/^Final\/?/, "")}
+                    </span>
+                  )}
+                </Link>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Live and upcoming games with start time and broadcasts
+ */
+function UpcomingTable({ schedule, games }: { schedule: TeamSchedule; games: TeamScheduleGame[] }) {
+  const columns = "96px minmax(88px, 1fr) 88px minmax(96px, 1fr)";
+
+  return (
+    <div className="font-mono text-sm border border-terminal-border rounded overflow-x-auto">
+      <div className="min-w-max">
+        <div
+          className="grid border-b border-terminal-border bg-terminal-bg/50 text-terminal-cyan"
+          style={{ gridTemplateColumns: columns }}
+        >
+          <div className="px-2 py-1 text-left">DATE</div>
+          <div className="px-2 py-1 text-left">OPP</div>
+          <div className="px-2 py-1 text-right">TIME</div>
+          <div className="px-2 py-1 text-left">TV</div>
+        </div>
+        {games.map((entry, index) => {
+          const { game } = entry;
+          const isLive = game.status === "live";
+
+          return (
+            <div
+              key={game.id}
+              className={`grid ${index % 2 === 0 ? "bg-terminal-bg/30" : ""}`}
+              style={{ gridTemplateColumns: columns }}
+            >
+              <div className="px-2 py-1 text-left text-terminal-muted">{formatDate(game.startTime)}</div>
+              <OpponentCell league={schedule.league} entry={entry} />
+              <div className="px-2 py-1 text-right">
+                <Link
+                  href={`/${schedule.league}/game/${game.id}`}
+                  className={`${isLive ? "text-terminal-green" : "text-terminal-fg"} hover:text-terminal-green transition-colors`}
+                >
+                  {isLive ? (
+                    <>
+                      <span aria-hidden="true">● </span>LIVE
+                    </>
+                  ) : game.status === "scheduled" ? (
+                    formatTime(game.startTime)
+                  ) : (
+                    game.status.toUpperCase()
+                  )}
+                </Link>
+              </div>
+              <div className="px-2 py-1 text-left text-terminal-muted truncate">
+                {game.broadcasts && game.broadcasts.length > 0 ? game.broadcasts.join(", ") : "-"}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Full season schedule: results first, then live and upcoming games
+ */
+export function TeamScheduleDisplay({ schedule }: { schedule: TeamSchedule }) {
+  const results = schedule.games.filter((entry) => entry.result !== undefined);
+  const upcoming = schedule.games.filter((entry) => entry.result === undefined);
+
+  if (schedule.games.length === 0) {
+    return (
+      <div className="font-mono text-center py-8">
+        <div className="text-terminal-border" aria-hidden="true">
+          ╔═══════════════════════════════════════════════╗
+        </div>
+        <div>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+          <span className="text-terminal-muted px-4">
+            {"  "}No games scheduled this season{"  "}
+          </span>
+          <span className="text-terminal-border" aria-hidden="true">║</span>
+        </div>
+        <div className="text-terminal-border" aria-hidden="true">
+          ╚═══════════════════════════════════════════════╝
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6">
+      <section>
+        <h2 className="font-mono text-terminal-cyan text-sm mb-2">
+          <span className="text-terminal-border">[</span>
+          Results
+          <span className="text-terminal-border">]</span>
+          <span className="text-terminal-muted text-xs ml-2">{results.length} played</span>
+        </h2>
+        {results.length > 0 ? (
+          <ResultsTable schedule={schedule} games={results} />
+        ) : (
+          <p className="font-mono text-sm text-terminal-muted">No games played yet</p>
+        )}
+      </section>
+      <section>
+        <h2 className="font-mono text-terminal-cyan text-sm mb-2">
+          <span className="text-terminal-border">[</span>
+          Upcoming
+          <span className="text-terminal-border">]</span>
+          <span className="text-terminal-muted text-xs ml-2">{upcoming.length} remaining</span>
+        </h2>
+        {upcoming.length > 0 ? (
+          <UpcomingTable schedule={schedule} games={upcoming} />
+        ) : (
+          <p className="font-mono text-sm text-terminal-muted">No games remaining</p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,12 +1,25 @@
 import type { Game } from "@/lib/types";
 import type {
   PlayoffBracket,
+  PlayoffLeague,
   PlayoffMatchup,
+  PlayoffRound,
   BracketTeam,
 } from "@/lib/types/playoffs";
 import {
   NFL_PLAYOFF_ROUNDS,
   NFL_CONFERENCES,
+  NBA_PLAYOFF_ROUNDS,
+  NBA_CONFERENCES,
+  NHL_PLAYOFF_ROUNDS,
+  NHL_CONFERENCES,
+  MLB_PLAYOFF_ROUNDS,
+  MLB_CONFERENCES,
+  NCAA_TOURNAMENT_ROUNDS,
+  NCAA_REGION_SEED_ORDER,
+  FA_CUP_ROUNDS,
+  formatPlayoffSeasonLabel,
+  getDefaultPlayoffSeasonYear,
 } from "@/lib/types/playoffs";
 import { type ESPNEvent, type ESPNSeason, mapEvent } from "./espn";
 
@@ -19,6 +32,11 @@ interface ESPNPlayoffEvent extends ESPNEvent {
   competitions: Array<
     ESPNEvent["competitions"][0] & {
       notes?: Array<{ headline: string }>;
+      series?: {
+        type?: string;
+        title?: string;
+        summary?: string;
+      };
     }
   >;
 }
@@ -49,21 +67,6 @@ interface PlayoffCalendarEntry {
   endDate: Date;
 }
 
-/**
- * Determine the NFL season year for playoff data.
- * NFL playoffs for the 2025 season happen in January/February 2026.
- */
-function getDefaultNFLSeasonYear(): number {
-  const now = new Date();
-  const month = now.getMonth() + 1;
-  const year = now.getFullYear();
-  // If January-July, the playoffs belong to the previous calendar year's season
-  if (month <= 7) {
-    return year - 1;
-  }
-  return year;
-}
-
 /**
  * Parse conference from ESPN competition notes headline.
  * Examples: "AFC Wild Card Playoffs", "NFC Divisional Playoffs", "Super Bowl LX"
@@ -298,7 +301,7 @@ function assignWildCardSeeds(
 export async function getNFLPlayoffBracket(
   year?: number
 ): Promise<PlayoffBracket> {
-  const seasonYear = year ?? getDefaultNFLSeasonYear();
+  const seasonYear = year ?? getDefaultPlayoffSeasonYear("nfl");
 
   // Step 1: Discover the playoff calendar for this season
   const calendarEntries = await fetchPlayoffCalendar(seasonYear);
@@ -409,6 +412,7 @@ export async function getNFLPlayoffBracket(
           conference: undefined,
           position: 0,
           game,
+          games: [game],
           topTeam: buildBracketTeam(game, "home", homeSeed),
           bottomTeam: buildBracketTeam(game, "away", awaySeed),
           isBye: false,
@@ -449,6 +453,7 @@ export async function getNFLPlayoffBracket(
           conference: conf,
           position: pos,
           game,
+          games: [game],
           topTeam: buildBracketTeam(game, "home", homeSeed),
           bottomTeam: buildBracketTeam(game, "away", awaySeed),
           isBye: false,
@@ -480,6 +485,7 @@ export async function getNFLPlayoffBracket(
             conference: conf,
             position: confGamesInRound.length,
             game: null,
+            games: [],
             topTeam: {
               abbreviation: byeTeamAbbr,
               displayName: byeDisplayName,
@@ -495,10 +501,700 @@ export async function getNFLPlayoffBracket(
   return {
     league: "nfl",
     seasonYear,
-    displayLabel: `${seasonYear}-${String(seasonYear + 1).slice(2)} NFL Playoffs`,
+    displayLabel: `${formatPlayoffSeasonLabel("nfl", seasonYear)} NFL Playoffs`,
     conferences: [...NFL_CONFERENCES],
     rounds: NFL_PLAYOFF_ROUNDS,
     matchups,
     lastUpdated: new Date(),
   };
 }
+
+/**
+ * How to find and group a series-based league's postseason games
+ */
+interface SeriesLeagueConfig {
+  sportPath: string;
+  rounds: PlayoffRound[];
+  conferences: readonly string[];
+  /**
+   * Postseason window as [month, day] pairs (1-based months), relative to the playoff year
+   * Wide enough for seasons that ran late, like the 2021 NBA Finals in July.
+   */
+  window: { start: [number, number]; end: [number, number] };
+  /** Whether the playoffs are played the calendar year after seasonYear (NBA/NHL) */
+  playoffsInNextYear: boolean;
+  /** ESPN season types to keep (NBA play-in games are season type 5) */
+  seasonTypes: number[];
+  /** Headline patterns for each round, checked in order (championship first) */
+  roundPatterns: Array<{ roundId: string; pattern: RegExp }>;
+  /** Headline patterns for each conference */
+  conferencePatterns: Array<{ conference: string; pattern: RegExp }>;
+  /** Add bye matchups to the first round for teams that skip it (MLB top two seeds) */
+  firstRoundByes: boolean;
+  displaySuffix: string;
+}
+
+type SeriesLeague = Extract<PlayoffLeague, "nba" | "nhl" | "mlb">;
+
+const SERIES_LEAGUE_CONFIGS: Record<SeriesLeague, SeriesLeagueConfig> = {
+  nba: {
+    sportPath: "basketball/nba",
+    rounds: NBA_PLAYOFF_ROUNDS,
+    conferences: NBA_CONFERENCES,
+    window: { start: [4, 10], end: [7, 31] },
+    playoffsInNextYear: true,
+    seasonTypes: [3, 5],
+    roundPatterns: [
+      { roundId: "finals", pattern: /NBA FINALS/ },
+      { roundId: "play-in", pattern: /PLAY-?IN/ },
+      { roundId: "first-round", pattern: /1ST ROUND|FIRST ROUND/ },
+      { roundId: "conf-semis", pattern: /SEMIFINAL|2ND ROUND|SECOND ROUND/ },
+      { roundId: "conf-finals", pattern: /FINALS?\b/ },
+    ],
+    conferencePatterns: [
+      { conference: "East", pattern: /\bEAST/ },
+      { conference: "West", pattern: /\bWEST/ },
+    ],
+    firstRoundByes: false,
+    displaySuffix: "NBA Playoffs",
+  },
+  nhl: {
+    sportPath: "hockey/nhl",
+    rounds: NHL_PLAYOFF_ROUNDS,
+    conferences: NHL_CONFERENCES,
+    window: { start: [4, 12], end: [6, 30] },
+    playoffsInNextYear: true,
+    seasonTypes: [3],
+    roundPatterns: [
+      { roundId: "final", pattern: /STANLEY CUP FINAL/ },
+      { roundId: "first-round", pattern: /1ST ROUND|FIRST ROUND/ },
+      { roundId: "second-round", pattern: /2ND ROUND|SECOND ROUND/ },
+      { roundId: "conf-final", pattern: /FINALS?\b/ },
+    ],
+    conferencePatterns: [
+      { conference: "East", pattern: /\bEAST/ },
+      { conference: "West", pattern: /\bWEST/ },
+    ],
+    firstRoundByes: false,
+    displaySuffix: "Stanley Cup Playoffs",
+  },
+  mlb: {
+    sportPath: "baseball/mlb",
+    rounds: MLB_PLAYOFF_ROUNDS,
+    conferences: MLB_CONFERENCES,
+    window: { start: [9, 28], end: [11, 10] },
+    playoffsInNextYear: false,
+    seasonTypes: [3],
+    roundPatterns: [
+      { roundId: "world-series", pattern: /WORLD SERIES/ },
+      { roundId: "wild-card", pattern: /WILD CARD|\b[AN]LWC\b/ },
+      { roundId: "division-series", pattern: /DIVISION SERIES|\b[AN]LDS\b/ },
+      { roundId: "lcs", pattern: /CHAMPIONSHIP SERIES|\b[AN]LCS\b/ },
+    ],
+    conferencePatterns: [
+      { conference: "AL", pattern: /\bAL(WC|DS|CS)?\b|AMERICAN LEAGUE/ },
+      { conference: "NL", pattern: /\bNL(WC|DS|CS)?\b|NATIONAL LEAGUE/ },
+    ],
+    firstRoundByes: true,
+    displaySuffix: "MLB Postseason",
+  },
+};
+
+/**
+ * Headline text used to place a game in a round and conference.
+ * Examples: "East 1st Round - Game 3", "ALDS Game 2", "Stanley Cup Final - Game 7"
+ */
+function getEventHeadline(event: ESPNPlayoffEvent): string {
+  const competition = event.competitions[0];
+  return [
+    ...(competition.notes ?? []).map((note) => note.headline),
+    competition.series?.title ?? "",
+  ]
+    .join(" ")
+    .toUpperCase();
+}
+
+/**
+ * Fetch every postseason game in a league's playoff window with a single date-range request
+ */
+async function fetchSeriesLeagueGames(
+  league: SeriesLeague,
+  config: SeriesLeagueConfig,
+  seasonYear: number
+): Promise<{ games: Game[]; events: ESPNPlayoffEvent[] }> {
+  const playoffYear = config.playoffsInNextYear ? seasonYear + 1 : seasonYear;
+  const start = new Date(playoffYear, config.window.start[0] - 1, config.window.start[1]);
+  const end = new Date(playoffYear, config.window.end[0] - 1, config.window.end[1]);
+  const url = `${ESPN_BASE_URL}/${config.sportPath}/scoreboard?dates=${formatDate(start)}-${formatDate(end)}&limit=1000`;
+
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    next: { revalidate: 300 }, // 5 minute cache
+  });
+
+  if (!response.ok) {
+    throw new Error(`ESPN API error: ${response.status}`);
+  }
+
+  const data: ESPNPlayoffResponse = await response.json();
+
+  const events = (data.events ?? []).filter((event) => {
+    const seasonType = event.season?.type ?? data.season?.type;
+    return seasonType !== undefined && config.seasonTypes.includes(seasonType);
+  });
+
+  const games = events.map((event) =>
+    mapEvent({ ...event, season: event.season ?? data.season } as ESPNEvent, league)
+  );
+
+  return { games, events };
+}
+
+/**
+ * Pick the game a series card should link to: the live game, else the next one, else the latest
+ */
+function getFeaturedGame(games: Game[]): Game | null {
+  return (
+    games.find((game) => game.status === "live") ??
+    games.find((game) => game.status === "scheduled" || game.status === "delayed") ??
+    games[games.length - 1] ??
+    null
+  );
+}
+
+/**
+ * Start time of a series' first game (used to order series within a round)
+ */
+function getSeriesStart(games: Game[]): number {
+  return Math.min(...games.map((game) => game.startTime.getTime()));
+}
+
+/**
+ * Build a series matchup from its games.
+ * The home team of game 1 has home advantage, so it's shown on top.
+ */
+function buildSeriesMatchup(
+  id: string,
+  round: PlayoffRound,
+  conference: string | undefined,
+  position: number,
+  games: Game[]
+): PlayoffMatchup {
+  const sorted = [...games].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const first = sorted[0];
+  const topId = first.homeTeam.id;
+
+  let topWins = 0;
+  let bottomWins = 0;
+  for (const game of sorted) {
+    if (game.status !== "final" || game.homeScore === game.awayScore) continue;
+    const winnerId = game.homeScore > game.awayScore ? game.homeTeam.id : game.awayTeam.id;
+    if (winnerId === topId) {
+      topWins++;
+    } else {
+      bottomWins++;
+    }
+  }
+
+  const winsNeeded = Math.ceil(round.seriesLength / 2);
+  const isDecided = topWins >= winsNeeded || bottomWins >= winsNeeded;
+  const game = getFeaturedGame(sorted);
+
+  const toBracketTeam = (side: "home" | "away", wins: number): BracketTeam => {
+    const team = side === "home" ? first.homeTeam : first.awayTeam;
+    return {
+      abbreviation: team.abbreviation,
+      displayName: team.displayName,
+      // Single-game rounds (NBA play-in) show the game score like the NFL
+      score:
+        round.seriesLength === 1 && first.status !== "scheduled"
+          ? side === "home"
+            ? first.homeScore
+            : first.awayScore
+          : undefined,
+      wins: round.seriesLength > 1 ? wins : undefined,
+      isWinner: isDecided ? wins >= winsNeeded : undefined,
+    };
+  };
+
+  return {
+    id,
+    round: round.id,
+    conference,
+    position,
+    game,
+    games: sorted,
+    topTeam: toBracketTeam("home", topWins),
+    bottomTeam: toBracketTeam("away", bottomWins),
+    isBye: false,
+  };
+}
+
+/**
+ * Fetch a best-of-N series bracket (NBA, NHL, MLB) for a given season.
+ *
+ * Strategy:
+ * 1. Fetch every postseason game in the league's playoff window in one date-range call
+ * 2. Place each game in a round and conference from its notes headline
+ * 3. Group games into series by team pairing within each round
+ * 4. Count series wins from final games
+ * 5. Add first-round byes for teams that start in the second round (MLB)
+ */
+async function getSeriesPlayoffBracket(
+  league: SeriesLeague,
+  year?: number
+): Promise<PlayoffBracket> {
+  const config = SERIES_LEAGUE_CONFIGS[league];
+  const seasonYear = year ?? getDefaultPlayoffSeasonYear(league);
+
+  const { games, events } = await fetchSeriesLeagueGames(league, config, seasonYear);
+
+  // Group games into series keyed by round, conference and team pairing
+  const seriesGames = new Map<
+    string,
+    { round: PlayoffRound; conference?: string; games: Game[] }
+  >();
+
+  for (let i = 0; i < games.length; i++) {
+    const headline = getEventHeadline(events[i]);
+    const roundId = config.roundPatterns.find(({ pattern }) => pattern.test(headline))?.roundId;
+    const round = config.rounds.find((r) => r.id === roundId);
+    if (!round) continue;
+
+    const conference =
+      round.national
+        ? undefined
+        : config.conferencePatterns.find(({ pattern }) => pattern.test(headline))?.conference;
+
+    const game = games[i];
+    const pairing = [game.homeTeam.id, game.awayTeam.id].sort().join("-");
+    const key = `${round.id}:${conference ?? ""}:${pairing}`;
+
+    const series = seriesGames.get(key) ?? { round, conference, games: [] };
+    series.games.push(game);
+    seriesGames.set(key, series);
+  }
+
+  const matchups: PlayoffMatchup[] = [];
+
+  for (const round of config.rounds) {
+    const conferences = round.national ? [undefined] : config.conferences;
+
+    for (const conference of conferences) {
+      const roundSeries = [...seriesGames.values()]
+        .filter((series) => series.round.id === round.id && series.conference === conference)
+        .map((series) => series.games)
+        .sort((a, b) => getSeriesStart(a) - getSeriesStart(b));
+
+      roundSeries.forEach((seriesGamesInRound, pos) => {
+        const id = conference ? `${conference.toLowerCase()}-${round.id}-${pos + 1}` : round.id;
+        matchups.push(buildSeriesMatchup(id, round, conference, pos, seriesGamesInRound));
+      });
+    }
+  }
+
+  // Teams that first appear in round 2 skipped the first round
+  if (config.firstRoundByes) {
+    const [firstRound, secondRound] = config.rounds;
+
+    for (const conference of config.conferences) {
+      const firstRoundTeams = new Set(
+        matchups
+          .filter((m) => m.round === firstRound.id && m.conference === conference)
+          .flatMap((m) => [m.topTeam?.abbreviation, m.bottomTeam?.abbreviation])
+      );
+      const position = matchups.filter(
+        (m) => m.round === firstRound.id && m.conference === conference
+      ).length;
+
+      const byeTeams = matchups
+        .filter((m) => m.round === secondRound.id && m.conference === conference)
+        .flatMap((m) => [m.topTeam, m.bottomTeam])
+        .filter(
+          (team): team is BracketTeam =>
+            team !== undefined && !firstRoundTeams.has(team.abbreviation)
+        );
+
+      byeTeams.forEach((team, i) => {
+        matchups.push({
+          id: `${conference.toLowerCase()}-bye-${i + 1}`,
+          round: firstRound.id,
+          conference,
+          position: position + i,
+          game: null,
+          games: [],
+          topTeam: { abbreviation: team.abbreviation, displayName: team.displayName },
+          isBye: true,
+        });
+      });
+    }
+  }
+
+  return {
+    league,
+    seasonYear,
+    displayLabel: `${formatPlayoffSeasonLabel(league, seasonYear)} ${config.displaySuffix}`,
+    conferences: [...config.conferences],
+    rounds: config.rounds,
+    matchups,
+    lastUpdated: new Date(),
+  };
+}
+
+type NCAATournamentLeague = Extract<PlayoffLeague, "ncaam" | "ncaaw">;
+
+const NCAA_SPORT_PATHS: Record<NCAATournamentLeague, string> = {
+  ncaam: "basketball/mens-college-basketball",
+  ncaaw: "basketball/womens-college-basketball",
+};
+
+/**
+ * Headline patterns for each tournament round, checked in order.
+ * Example headline: "Men's Basketball Championship - South Region - 1st Round"
+ */
+const NCAA_ROUND_PATTERNS: Array<{ roundId: string; pattern: RegExp }> = [
+  { roundId: "first-four", pattern: /FIRST FOUR/ },
+  { roundId: "final-four", pattern: /FINAL FOUR|NATIONAL SEMIFINAL/ },
+  { roundId: "championship", pattern: /NATIONAL CHAMPIONSHIP|CHAMPIONSHIP GAME/ },
+  { roundId: "elite-8", pattern: /ELITE (8|EIGHT)|REGIONAL FINAL/ },
+  { roundId: "sweet-16", pattern: /SWEET (16|SIXTEEN)|REGIONAL SEMIFINAL/ },
+  { roundId: "round-of-32", pattern: /2ND ROUND|SECOND ROUND/ },
+  { roundId: "round-of-64", pattern: /1ST ROUND|FIRST ROUND/ },
+];
+
+/**
+ * How many Round of 64 slots each regional round's matchup spans (as a power of two)
+ */
+const NCAA_ROUND_DEPTH: Record<string, number> = {
+  "first-four": 0,
+  "round-of-64": 0,
+  "round-of-32": 1,
+  "sweet-16": 2,
+  "elite-8": 3,
+};
+
+/**
+ * Parse the region from a tournament headline, keeping ESPN's casing
+ * (men's regions are East/West/South/Midwest; women's are host cities like "Albany 1")
+ */
+function parseRegion(headline: string): string | undefined {
+  return headline.match(/-\s*([^-]+?)\s+Region\b/i)?.[1];
+}
+
+/**
+ * Bracket slot (0-7, top to bottom) of a seed's Round of 64 game within its region
+ */
+function getSeedSlot(seed: number): number {
+  const topSeed = Math.min(seed, 17 - seed);
+  const slot = NCAA_REGION_SEED_ORDER.indexOf(topSeed as (typeof NCAA_REGION_SEED_ORDER)[number]);
+  return slot === -1 ? NCAA_REGION_SEED_ORDER.length : slot;
+}
+
+/**
+ * Fetch the NCAA tournament bracket (men's or women's) for a given season.
+ *
+ * Strategy:
+ * 1. Fetch every Division I game in the tournament window in one date-range call
+ * 2. Keep tournament games (NIT and other postseason events are dropped by headline)
+ * 3. Place each game in a round and region from its notes headline
+ * 4. Read seeds from ESPN's curated rank, which holds the tournament seed for these games
+ * 5. Order regional matchups by seed slot and regions by their Final Four pairing
+ */
+async function getNCAATournamentBracket(
+  league: NCAATournamentLeague,
+  year?: number
+): Promise<PlayoffBracket> {
+  const seasonYear = year ?? getDefaultPlayoffSeasonYear(league);
+  const start = new Date(seasonYear + 1, 2, 14); // Mar 14, before the First Four
+  const end = new Date(seasonYear + 1, 3, 10); // Apr 10, after the championship
+  const url = `${ESPN_BASE_URL}/${NCAA_SPORT_PATHS[league]}/scoreboard?dates=${formatDate(start)}-${formatDate(end)}&groups=50&limit=1000`;
+
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    next: { revalidate: 300 }, // 5 minute cache
+  });
+
+  if (!response.ok) {
+    throw new Error(`ESPN API error: ${response.status}`);
+  }
+
+  const data: ESPNPlayoffResponse = await response.json();
+
+  const tournamentGames: Array<{ game: Game; roundId: string; region?: string }> = [];
+  for (const event of data.events ?? []) {
+    const notes = event.competitions[0].notes ?? [];
+    const headline = notes.map((note) => note.headline).join(" ");
+    const upper = headline.toUpperCase();
+    if (!upper.includes("BASKETBALL CHAMPIONSHIP")) continue;
+
+    const roundId = NCAA_ROUND_PATTERNS.find(({ pattern }) => pattern.test(upper))?.roundId;
+    if (!roundId) continue;
+
+    const game = mapEvent({ ...event, season: event.season ?? data.season } as ESPNEvent, league);
+    tournamentGames.push({ game, roundId, region: parseRegion(headline) });
+  }
+
+  // Remember each team's region so the Final Four can be lined up with its regions
+  const teamRegions = new Map<string, string>();
+  for (const { game, region } of tournamentGames) {
+    if (!region) continue;
+    teamRegions.set(game.homeTeam.id, region);
+    teamRegions.set(game.awayTeam.id, region);
+  }
+
+  const finalFourGames = tournamentGames
+    .filter(({ roundId }) => roundId === "final-four")
+    .map(({ game }) => game)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  // Regions in bracket order: the first semifinal's regions, then the second's
+  const regions: string[] = [];
+  for (const game of finalFourGames) {
+    for (const team of [game.homeTeam, game.awayTeam]) {
+      const region = teamRegions.get(team.id);
+      if (region && !regions.includes(region)) regions.push(region);
+    }
+  }
+  for (const region of teamRegions.values()) {
+    if (!regions.includes(region)) regions.push(region);
+  }
+
+  const matchups: PlayoffMatchup[] = [];
+
+  for (const round of NCAA_TOURNAMENT_ROUNDS) {
+    const roundGames = tournamentGames.filter(({ roundId }) => roundId === round.id);
+    const groups = round.national
+      ? [{ region: undefined, games: roundGames.map(({ game }) => game) }]
+      : regions.map((region) => ({
+          region,
+          games: roundGames.filter((g) => g.region === region).map(({ game }) => game),
+        }));
+
+    for (const { region, games } of groups) {
+      const withSlots = games.map((game) => {
+        const seeds = [game.homeTeam.rank, game.awayTeam.rank].filter(
+          (seed): seed is number => seed !== undefined
+        );
+        const slot =
+          round.national || seeds.length === 0
+            ? game.startTime.getTime()
+            : Math.floor(getSeedSlot(Math.min(...seeds)) / 2 ** NCAA_ROUND_DEPTH[round.id]);
+        return { game, slot };
+      });
+      withSlots.sort((a, b) => a.slot - b.slot || a.game.startTime.getTime() - b.game.startTime.getTime());
+
+      withSlots.forEach(({ game }, pos) => {
+        const homeSeed = game.homeTeam.rank;
+        const awaySeed = game.awayTeam.rank;
+        // Higher seed (lower number) on top; home team when seeds are equal or unknown
+        const homeOnTop = homeSeed === undefined || awaySeed === undefined || homeSeed <= awaySeed;
+
+        matchups.push({
+          id: region
+            ? `${region.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${round.id}-${pos + 1}`
+            : round.id === "championship"
+              ? round.id
+              : `${round.id}-${pos + 1}`,
+          round: round.id,
+          conference: region,
+          position: pos,
+          game,
+          games: [game],
+          topTeam: buildBracketTeam(game, homeOnTop ? "home" : "away", homeOnTop ? homeSeed : awaySeed),
+          bottomTeam: buildBracketTeam(game, homeOnTop ? "away" : "home", homeOnTop ? awaySeed : homeSeed),
+          isBye: false,
+        });
+      });
+    }
+  }
+
+  return {
+    league,
+    seasonYear,
+    displayLabel: `${formatPlayoffSeasonLabel(league, seasonYear)} NCAA ${league === "ncaam" ? "Men's" : "Women's"} Tournament`,
+    conferences: regions,
+    rounds: NCAA_TOURNAMENT_ROUNDS,
+    matchups,
+    lastUpdated: new Date(),
+  };
+}
+
+/**
+ * Round patterns for FA Cup games, checked in order against the season slug and notes
+ * ("quarterfinals" and "semifinals" are checked before "final")
+ */
+const FA_CUP_ROUND_PATTERNS: Array<{ roundId: string; pattern: RegExp }> = [
+  { roundId: "quarterfinals", pattern: /QUARTER/ },
+  { roundId: "semifinals", pattern: /SEMI/ },
+  { roundId: "final", pattern: /\bFINAL\b/ },
+  { roundId: "fifth-round", pattern: /FIFTH|5TH/ },
+  { roundId: "fourth-round", pattern: /FOURTH|4TH/ },
+  { roundId: "third-round", pattern: /THIRD|3RD/ },
+  { roundId: "second-round", pattern: /SECOND|2ND/ },
+  { roundId: "first-round", pattern: /FIRST|1ST/ },
+];
+
+/**
+ * Result of a single knockout game, read from soccer period scores
+ * (1H, 2H, ET1, ET2, PK — see getPeriodLabels)
+ */
+function getKnockoutResult(game: Game): {
+  winner?: "home" | "away";
+  decidedBy?: PlayoffMatchup["decidedBy"];
+  homePenalties?: number;
+  awayPenalties?: number;
+} {
+  if (game.status !== "final") return {};
+
+  const home = game.periodScores?.home ?? [];
+  const away = game.periodScores?.away ?? [];
+  const periods = Math.max(home.length, away.length);
+  const homePenalties = periods >= 5 ? home[4]?.score : undefined;
+  const awayPenalties = periods >= 5 ? away[4]?.score : undefined;
+  const decidedBy = periods >= 5 ? "penalties" : periods >= 3 ? "extra-time" : undefined;
+
+  if (game.homeScore !== game.awayScore) {
+    return { winner: game.homeScore > game.awayScore ? "home" : "away", decidedBy };
+  }
+  if (homePenalties !== undefined && awayPenalties !== undefined && homePenalties !== awayPenalties) {
+    return {
+      winner: homePenalties > awayPenalties ? "home" : "away",
+      decidedBy: "penalties",
+      homePenalties,
+      awayPenalties,
+    };
+  }
+  // Drawn with no shootout: a replay decides the tie
+  return {};
+}
+
+/**
+ * Build a knockout tie from its games (the original game plus any replays).
+ * The team drawn at home for the first game is shown on top.
+ */
+function buildKnockoutTie(
+  round: PlayoffRound,
+  position: number,
+  games: Game[]
+): PlayoffMatchup {
+  const sorted = [...games].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const first = sorted[0];
+  const deciding = sorted[sorted.length - 1];
+  const result = getKnockoutResult(deciding);
+  const topIsDecidingHome = deciding.homeTeam.id === first.homeTeam.id;
+
+  const toBracketTeam = (isTop: boolean): BracketTeam => {
+    const team = isTop ? first.homeTeam : first.awayTeam;
+    const side = isTop === topIsDecidingHome ? "home" : "away";
+    const penalties = side === "home" ? result.homePenalties : result.awayPenalties;
+    return {
+      abbreviation: team.abbreviation,
+      displayName: team.displayName,
+      score:
+        deciding.status !== "scheduled"
+          ? side === "home"
+            ? deciding.homeScore
+            : deciding.awayScore
+          : undefined,
+      penalties,
+      isWinner: result.winner ? result.winner === side : undefined,
+    };
+  };
+
+  return {
+    id: `${round.id}-${position + 1}`,
+    round: round.id,
+    position,
+    game: getFeaturedGame(sorted),
+    games: sorted,
+    topTeam: toBracketTeam(true),
+    bottomTeam: toBracketTeam(false),
+    isBye: false,
+    decidedBy: result.decidedBy,
+  };
+}
+
+/**
+ * Fetch the FA Cup knockout rounds for a given season.
+ *
+ * Strategy:
+ * 1. Fetch every FA Cup game from November to the end of May in one date-range call
+ * 2. Place each game in a round from the season slug or notes headline
+ * 3. Group games into ties by team pairing (replays join the original game)
+ * 4. Settle drawn ties from extra time and penalty period scores
+ */
+async function getFACupKnockout(year?: number): Promise<PlayoffBracket> {
+  const seasonYear = year ?? getDefaultPlayoffSeasonYear("fa-cup");
+  const start = new Date(seasonYear, 9, 25); // Late October, before the First Round proper
+  const end = new Date(seasonYear + 1, 5, 10); // Early June, after the Final
+  const url = `${ESPN_BASE_URL}/soccer/eng.fa/scoreboard?dates=${formatDate(start)}-${formatDate(end)}&limit=1000`;
+
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    next: { revalidate: 300 }, // 5 minute cache
+  });
+
+  if (!response.ok) {
+    throw new Error(`ESPN API error: ${response.status}`);
+  }
+
+  const data: ESPNPlayoffResponse = await response.json();
+
+  const ties = new Map<string, { round: PlayoffRound; games: Game[] }>();
+  for (const event of data.events ?? []) {
+    const text = [event.season?.slug?.replace(/-/g, " ") ?? "", getEventHeadline(event)]
+      .join(" ")
+      .toUpperCase();
+    const roundId = FA_CUP_ROUND_PATTERNS.find(({ pattern }) => pattern.test(text))?.roundId;
+    const round = FA_CUP_ROUNDS.find((r) => r.id === roundId);
+    if (!round) continue;
+
+    const game = mapEvent({ ...event, season: event.season ?? data.season } as ESPNEvent, "fa-cup");
+    const pairing = [game.homeTeam.id, game.awayTeam.id].sort().join("-");
+    const key = `${round.id}:${pairing}`;
+
+    const tie = ties.get(key) ?? { round, games: [] };
+    tie.games.push(game);
+    ties.set(key, tie);
+  }
+
+  const matchups: PlayoffMatchup[] = [];
+  for (const round of FA_CUP_ROUNDS) {
+    [...ties.values()]
+      .filter((tie) => tie.round.id === round.id)
+      .map((tie) => tie.games)
+      .sort((a, b) => getSeriesStart(a) - getSeriesStart(b))
+      .forEach((games, pos) => {
+        matchups.push(buildKnockoutTie(round, pos, games));
+      });
+  }
+
+  return {
+    league: "fa-cup",
+    seasonYear,
+    displayLabel: `${formatPlayoffSeasonLabel("fa-cup", seasonYear)} FA Cup`,
+    conferences: [],
+    rounds: FA_CUP_ROUNDS,
+    matchups,
+    lastUpdated: new Date(),
+  };
+}
+
+/**
+ * Fetch the playoff bracket for any league with a bracket page
+ */
+export async function getPlayoffBracket(
+  league: PlayoffLeague,
+  year?: number
+): Promise<PlayoffBracket> {
+  if (league === "nfl") {
+    return getNFLPlayoffBracket(year);
+  }
+  if (league === "ncaam" || league === "ncaaw") {
+    return getNCAATournamentBracket(league, year);
+  }
+  if (league === "fa-cup") {
+    return getFACupKnockout(year);
+  }
+  return getSeriesPlayoffBracket(league, year);
+}
@@ -5,6 +5,7 @@ import type {
   GameSummary,
   GameType,
   GoalieStats,
+  GolfLeague,
   League,
   PeriodScore,
   PeriodScores,
@@ -14,25 +15,11 @@ import type {
   Team,
   TeamBoxscore,
 } from "@/lib/types";
+import { LEAGUE_SPORT_MAP } from "./espn";
 
 // ESPN summary endpoint uses the same base URL as scoreboard
 const ESPN_SUMMARY_URL = "https://site.api.espn.com/apis/site/v2/sports";
 
-/**
- * ESPN sport paths for each league
- */
-const LEAGUE_SPORT_MAP: Record<Exclude<League, "f1" | "pga">, string> = {
-  nhl: "hockey/nhl",
-  nfl: "football/nfl",
-  nba: "basketball/nba",
-  mlb: "baseball/mlb",
-  mls: "soccer/usa.1",
-  epl: "soccer/eng.1",
-  "fa-cup": "soccer/eng.fa",
-  ncaam: "basketball/mens-college-basketball",
-  ncaaw: "basketball/womens-college-basketball",
-};
-
 // ============================================================================
 // ESPN Summary API Response Types
 // ============================================================================
@@ -619,7 +606,7 @@ function mapLeaders(leaders: ESPNLeader[] | undefined): GameLeaders[] {
  * @param gameId - The ESPN game/event ID
  */
 export async function getGameSummary(
-  league: Exclude<League, "f1" | "pga">,
+  league: Exclude<League, "f1" | GolfLeague>,
   gameId: string
 ): Promise<GameSummary | null> {
   const sportPath = LEAGUE_SPORT_MAP[league];
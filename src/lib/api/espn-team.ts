@@ -0,0 +1,240 @@
+import type {
+  Game,
+  GolfLeague,
+  League,
+  Team,
+  TeamGameResult,
+  TeamRecord,
+  TeamSchedule,
+  TeamScheduleGame,
+} from "@/lib/types";
+import { type ESPNEvent, type ESPNSeason, LEAGUE_SPORT_MAP, mapEvent } from "./espn";
+
+const ESPN_BASE_URL = "https://site.api.espn.com/apis/site/v2/sports";
+
+// Soccer schedules already include every competition the team plays in
+const SOCCER_LEAGUES = ["mls", "epl", "fa-cup"];
+
+// ============================================================================
+// ESPN Team Schedule API Response Types
+// ============================================================================
+
+type ESPNCompetition = ESPNEvent["competitions"][0];
+type ESPNCompetitor = ESPNCompetition["competitors"][0];
+
+/**
+ * The schedule endpoint returns scores as objects and broadcasts with media
+ * names, unlike the scoreboard; everything else matches ESPNEvent
+ */
+interface ESPNScheduleEvent extends Omit<ESPNEvent, "competitions"> {
+  competitions: Array<
+    Omit<ESPNCompetition, "competitors" | "broadcasts"> & {
+      competitors: Array<
+        Omit<ESPNCompetitor, "score"> & {
+          score?: string | { value?: number; displayValue?: string };
+        }
+      >;
+      broadcasts?: Array<{
+        names?: string[];
+        media?: { shortName?: string };
+      }>;
+    }
+  >;
+}
+
+interface ESPNScheduleTeam {
+  id: string;
+  abbreviation: string;
+  displayName: string;
+  name?: string;
+  shortDisplayName?: string;
+  color?: string;
+  logo?: string;
+  logos?: Array<{ href: string }>;
+  recordSummary?: string;
+  standingSummary?: string;
+}
+
+interface ESPNTeamScheduleResponse {
+  team?: ESPNScheduleTeam;
+  events?: ESPNScheduleEvent[];
+  season?: ESPNSeason;
+  requestedSeason?: ESPNSeason;
+}
+
+/**
+ * Convert a schedule event into the scoreboard event shape so mapEvent can be reused
+ */
+function normalizeScheduleEvent(event: ESPNScheduleEvent): ESPNEvent {
+  return {
+    ...event,
+    competitions: event.competitions.map((competition) => ({
+      ...competition,
+      competitors: competition.competitors.map((competitor) => ({
+        ...competitor,
+        score:
+          typeof competitor.score === "object"
+            ? competitor.score.displayValue ?? competitor.score.value?.toString()
+            : competitor.score,
+      })),
+      broadcasts: competition.broadcasts?.map((broadcast) => ({
+        names: broadcast.names ?? (broadcast.media?.shortName ? [broadcast.media.shortName] : []),
+      })),
+    })),
+  };
+}
+
+/**
+ * Map the schedule's team header to our Team type
+ */
+function mapScheduleTeam(team: ESPNScheduleTeam): Team {
+  return {
+    id: team.id,
+    name: team.name ?? team.shortDisplayName ?? team.displayName,
+    abbreviation: team.abbreviation,
+    displayName: team.displayName,
+    logo: team.logo ?? team.logos?.[0]?.href,
+    color: team.color,
+    record: team.recordSummary,
+  };
+}
+
+/**
+ * Get a final game's result from one team's point of view
+ */
+function getGameResult(game: Game, isHome: boolean): TeamGameResult | undefined {
+  if (game.status !== "final") return undefined;
+
+  const teamScore = isHome ? game.homeScore : game.awayScore;
+  const opponentScore = isHome ? game.awayScore : game.homeScore;
+
+  if (teamScore > opponentScore) return "W";
+  if (teamScore < opponentScore) return "L";
+  return "T";
+}
+
+/**
+ * Add a result to a record
+ */
+function addResult(record: TeamRecord, result: TeamGameResult): void {
+  if (result === "W") record.wins++;
+  else if (result === "L") record.losses++;
+  else record.ties++;
+}
+
+/**
+ * Build overall/home/away records and the current streak from regular season results
+ * Preseason, postseason and all-star games don't count toward the season record.
+ */
+function summarizeResults(games: TeamScheduleGame[]): Pick<TeamSchedule, "records" | "streak"> {
+  const records = {
+    overall: { wins: 0, losses: 0, ties: 0 },
+    home: { wins: 0, losses: 0, ties: 0 },
+    away: { wins: 0, losses: 0, ties: 0 },
+  };
+
+  const results = games.filter(
+    (entry): entry is TeamScheduleGame & { result: TeamGameResult } =>
+      entry.result !== undefined &&
+      (entry.game.gameType === undefined || entry.game.gameType === "regular")
+  );
+
+  for (const entry of results) {
+    addResult(records.overall, entry.result);
+    addResult(entry.isHome ? records.home : records.away, entry.result);
+  }
+
+  // Walk back from the most recent result while it keeps repeating
+  const last = results[results.length - 1];
+  let count = 0;
+  for (let i = results.length - 1; i >= 0 && results[i].result === last.result; i--) {
+    count++;
+  }
+
+  return {
+    records,
+    streak: last ? { result: last.result, count } : undefined,
+  };
+}
+
+/**
+ * Fetch one season type of a team's schedule
+ * @param seasonType - ESPN season type (2=regular, 3=postseason); omitted uses ESPN's default
+ */
+async function fetchTeamSchedule(
+  league: Exclude<League, "f1" | GolfLeague>,
+  teamId: string,
+  seasonType?: number
+): Promise<ESPNTeamScheduleResponse | null> {
+  const sportPath = LEAGUE_SPORT_MAP[league];
+  const query = seasonType ? `?seasontype=${seasonType}` : "";
+  const url = `${ESPN_BASE_URL}/${sportPath}/teams/${encodeURIComponent(teamId)}/schedule${query}`;
+
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    next: { revalidate: 300 }, // Cache for 5 minutes
+  });
+
+  if (!response.ok) {
+    console.error(`ESPN team schedule API error for ${url}: ${response.status} ${response.statusText}`);
+    return null;
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a team's season schedule from ESPN
+ * Returns null when ESPN doesn't know the team.
+ * @param league - The league
+ * @param teamId - The ESPN team ID
+ */
+export async function getTeamSchedule(
+  league: Exclude<League, "f1" | GolfLeague>,
+  teamId: string
+): Promise<TeamSchedule | null> {
+  // ESPN's default schedule is the regular season; postseason games are a separate request
+  const [data, postseason] = await Promise.all([
+    fetchTeamSchedule(league, teamId),
+    SOCCER_LEAGUES.includes(league)
+      ? Promise.resolve(null)
+      : fetchTeamSchedule(league, teamId, 3).catch(() => null),
+  ]);
+
+  if (!data?.team) {
+    return null;
+  }
+
+  const team = mapScheduleTeam(data.team);
+  const season = data.requestedSeason ?? data.season;
+  const events = [...(data.events ?? []), ...(postseason?.events ?? [])];
+  const seen = new Set<string>();
+
+  const games = events
+    .filter((event) => {
+      if (seen.has(event.id) || event.competitions.length === 0) return false;
+      seen.add(event.id);
+      return true;
+    })
+    .map((event) => mapEvent(normalizeScheduleEvent(event), league))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    .map((game): TeamScheduleGame => {
+      const isHome = game.homeTeam.id === team.id;
+      return {
+        game,
+        isHome,
+        opponent: isHome ? game.awayTeam : game.homeTeam,
+        result: getGameResult(game, isHome),
+      };
+    });
+
+  return {
+    league,
+    team,
+    seasonYear: season?.year,
+    standingSummary: data.team.standingSummary,
+    games,
+    ...summarizeResults(games),
+    lastUpdated: new Date(),
+  };
+}
@@ -1,13 +1,14 @@
-import type { Game, GameStats, GameStatus, GameType, League, LeagueStandings, NCAAPolls, PeriodScore, PeriodScores, RankedTeam, Scoreboard, StandingsEntry, StandingsGroup, Team } from "@/lib/types";
-import { addDays, formatDateForAPI, getTodayInEastern, getTodayInUK, isDateInPast } from "@/lib/utils/format";
+import type { Game, GameStats, GameStatus, GameType, GolfLeague, League, LeagueStandings, NCAAPolls, PeriodScore, PeriodScores, RankedTeam, Scoreboard, StandingsEntry, StandingsGroup, StandingsLeague, Team } from "@/lib/types";
+import { isGolfLeague } from "@/lib/types";
+import { addDays, formatDateForAPI, formatDateKeyInTimezone, getTodayInEastern, getTodayInUK, isDateInPast } from "@/lib/utils/format";
 
 const ESPN_BASE_URL = "https://site.api.espn.com/apis/site/v2/sports";
 const ESPN_STANDINGS_URL = "https://site.web.api.espn.com/apis/v2/sports";
 
 /**
- * ESPN sport paths for each league (excluding F1 and PGA which have their own API clients)
+ * ESPN sport paths for each league (excluding F1 and golf which have their own API clients)
  */
-const LEAGUE_SPORT_MAP: Record<Exclude<League, "f1" | "pga">, string> = {
+export const LEAGUE_SPORT_MAP: Record<Exclude<League, "f1" | GolfLeague>, string> = {
   nhl: "hockey/nhl",
   nfl: "football/nfl",
   nba: "basketball/nba",
@@ -23,7 +24,7 @@ const LEAGUE_SPORT_MAP: Record<Exclude<League, "f1" | "pga">, string> = {
  * Get the timezone used for a league's schedule.
  * US sports use Eastern time, EPL uses UK time.
  */
-export function getTimezoneForLeague(league: Exclude<League, "f1" | "pga">): string {
+export function getTimezoneForLeague(league: Exclude<League, "f1" | GolfLeague>): string {
   if (league === "epl" || league === "fa-cup") {
     return "Europe/London";
   }
@@ -37,7 +38,7 @@ export function getTimezoneForLeague(league: Exclude<League, "f1" | "pga">): str
  * This determines which day's games to show, not how times are displayed
  * (game times are always shown in the user's local timezone).
  */
-export function getTodayForLeague(league: Exclude<League, "f1" | "pga">): Date {
+export function getTodayForLeague(league: Exclude<League, "f1" | GolfLeague>): Date {
   if (league === "epl" || league === "fa-cup") {
     return getTodayInUK();
   }
@@ -113,6 +114,7 @@ interface ESPNVenue {
 export interface ESPNSeason {
   type: number; // 1=preseason, 2=regular, 3=postseason, 4=off-season
   year: number;
+  slug?: string; // Cup competitions name the round, e.g. "fourth-round", "quarterfinals"
 }
 
 interface ESPNCompetitionType {
@@ -260,7 +262,7 @@ function mapPeriodScores(
  * Key stats to extract for each league
  * Maps ESPN stat names to display labels
  */
-const LEAGUE_KEY_STATS: Record<Exclude<League, "f1" | "pga">, string[]> = {
+const LEAGUE_KEY_STATS: Record<Exclude<League, "f1" | GolfLeague>, string[]> = {
   nhl: ["shotsOnGoal", "powerPlayGoals", "powerPlayOpportunities", "goals", "assists", "savePct"],
   nfl: ["totalYards", "turnovers", "passingYards", "rushingYards", "possessionTime"],
   nba: ["rebounds", "assists", "fieldGoalPct", "freeThrowPct", "threePointFieldGoalPct", "turnovers", "fouls"],
@@ -278,7 +280,7 @@ const LEAGUE_KEY_STATS: Record<Exclude<League, "f1" | "pga">, string[]> = {
  */
 function extractStats(
   statistics: ESPNStatistic[] | undefined,
-  league: Exclude<League, "f1" | "pga">
+  league: Exclude<League, "f1" | GolfLeague>
 ): Record<string, string | number> {
   if (!statistics || statistics.length === 0) return {};
 
@@ -302,7 +304,7 @@ function mapGameStats(
   awayCompetitor: ESPNCompetitor,
   league: League
 ): GameStats | undefined {
-  if (league === "f1" || league === "pga") return undefined;
+  if (league === "f1" || isGolfLeague(league)) return undefined;
 
   const homeStats = extractStats(homeCompetitor.statistics, league);
   const awayStats = extractStats(awayCompetitor.statistics, league);
@@ -379,13 +381,79 @@ export function mapEvent(event: ESPNEvent, league: League): Game {
   };
 }
 
+/**
+ * Cache lifetime for scoreboard data on a date:
+ * - Before yesterday: cached permanently (results are final and won't change)
+ * - Yesterday: 5 minute refresh (in case late games weren't marked final yet)
+ * - Today/future: 30s refresh for live updates
+ */
+function getScoreboardRevalidate(
+  league: Exclude<League, "f1" | GolfLeague>,
+  date: Date
+): number | false {
+  const timezone = getTimezoneForLeague(league);
+  if (isDateInPast(addDays(date, 1), timezone)) return false;
+  if (isDateInPast(date, timezone)) return 300;
+  return 30;
+}
+
+/**
+ * Fetch every game between two dates (inclusive) in a single request
+ * Used by the season archive, which lists a month at a time.
+ */
+export async function getESPNGamesInRange(
+  league: Exclude<League, "f1" | GolfLeague>,
+  start: Date,
+  end: Date
+): Promise<Game[]> {
+  const sportPath = LEAGUE_SPORT_MAP[league];
+  const url = `${ESPN_BASE_URL}/${sportPath}/scoreboard?dates=${formatDateForAPI(start)}-${formatDateForAPI(end)}&limit=1000`;
+
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    // The range is only as settled as its last day
+    next: { revalidate: getScoreboardRevalidate(league, end) },
+  });
+
+  if (!response.ok) {
+    throw new Error(`ESPN API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data: ESPNScoreboardResponse = await response.json();
+
+  return data.events
+    .map((event) => mapEvent({ ...event, season: event.season ?? data.season }, league))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+/**
+ * Fetch every game between two dates, grouped by game-day
+ * Keys are YYYYMMDD dates in the league's timezone, in chronological order.
+ */
+export async function getESPNGameDays(
+  league: Exclude<League, "f1" | GolfLeague>,
+  start: Date,
+  end: Date
+): Promise<Record<string, Game[]>> {
+  const games = await getESPNGamesInRange(league, start, end);
+  const timezone = getTimezoneForLeague(league);
+  const gameDays: Record<string, Game[]> = {};
+
+  for (const game of games) {
+    const dateKey = formatDateKeyInTimezone(game.startTime, timezone);
+    (gameDays[dateKey] ??= []).push(game);
+  }
+
+  return gameDays;
+}
+
 /**
  * Fetch scoreboard data for a league from ESPN
  * @param league - The league to fetch scores for
  * @param date - Optional date to fetch scores for (defaults to today)
  */
 export async function getESPNScoreboard(
-  league: Exclude<League, "f1" | "pga">,
+  league: Exclude<League, "f1" | GolfLeague>,
   date?: Date
 ): Promise<Scoreboard> {
   const sportPath = LEAGUE_SPORT_MAP[league];
@@ -398,20 +466,13 @@ export async function getESPNScoreboard(
   const dateStr = formatDateForAPI(effectiveDate);
   const url = `${baseUrl}?dates=${dateStr}`;
 
-  // Determine caching strategy:
-  // - Past dates: cache for 5 minutes (allows updates if games weren't marked final)
-  // - Today/future: revalidate every 30s for live updates
   // Note: revalidateTag cannot be called during Server Component render,
   // so we use time-based revalidation instead of manual tag invalidation
-  const isPastDate = isDateInPast(effectiveDate, getTimezoneForLeague(league));
-
   const response = await fetch(url, {
     headers: {
       Accept: "application/json",
     },
-    next: isPastDate
-      ? { revalidate: 300 }  // Past: 5 minute refresh (in case games weren't final)
-      : { revalidate: 30 },  // Today/future: 30s refresh for live updates
+    next: { revalidate: getScoreboardRevalidate(league, effectiveDate) },
   });
 
   if (!response.ok) {
@@ -452,7 +513,7 @@ export function hasLiveGames(scoreboard: Scoreboard): boolean {
  * @param daysForward - Number of days in the future to check
  */
 export async function getDatesWithGames(
-  league: Exclude<League, "f1" | "pga">,
+  league: Exclude<League, "f1" | GolfLeague>,
   daysBack: number = 5,
   daysForward: number = 5,
   centerDate?: Date
@@ -555,7 +616,7 @@ interface ESPNStandingsChild {
  * Key stats to extract for standings by league
  * Order matters - first stat is primary sort
  */
-const STANDINGS_STATS: Record<Exclude<League, "f1" | "pga">, string[]> = {
+const STANDINGS_STATS: Record<StandingsLeague, string[]> = {
   nhl: [
     "points", "gamesPlayed", "wins", "losses", "otLosses",
     "goalsFor", "goalsAgainst", "goalDifferential",
@@ -584,10 +645,6 @@ const STANDINGS_STATS: Record<Exclude<League, "f1" | "pga">, string[]> = {
     "points", "gamesPlayed", "wins", "losses", "ties",
     "goalsFor", "goalsAgainst", "goalDifferential",
   ],
-  "fa-cup": [
-    "points", "gamesPlayed", "wins", "losses", "ties",
-    "goalsFor", "goalsAgainst", "goalDifferential",
-  ],
   ncaam: ["wins", "losses", "winPercent", "conferenceWins", "conferenceLosses", "streak"],
   ncaaw: ["wins", "losses", "winPercent", "conferenceWins", "conferenceLosses", "streak"],
 };
@@ -606,14 +663,13 @@ const STAT_NAME_ALIASES: Record<string, string> = {
 /**
  * Primary sort stat for each league (descending order)
  */
-const PRIMARY_SORT_STAT: Record<Exclude<League, "f1" | "pga">, string> = {
+const PRIMARY_SORT_STAT: Record<StandingsLeague, string> = {
   nhl: "points",
   nfl: "wins",
   nba: "wins",
   mlb: "wins",
   mls: "points",
   epl: "points",
-  "fa-cup": "points",
   ncaam: "wins",
   ncaaw: "wins",
 };
@@ -623,7 +679,7 @@ const PRIMARY_SORT_STAT: Record<Exclude<League, "f1" | "pga">, string> = {
  */
 function mapStandingsEntry(
   entry: ESPNStandingsEntry,
-  league: Exclude<League, "f1" | "pga">,
+  league: StandingsLeague,
   logStats = false
 ): StandingsEntry & { _sortValue: number } {
   const keyStats = STANDINGS_STATS[league];
@@ -677,7 +733,7 @@ function sortStandingsEntries(
  * Leagues that have divisions within conferences
  * These leagues should show the division/conference toggle
  */
-const LEAGUES_WITH_DIVISIONS: Exclude<League, "f1" | "pga">[] = ["nhl", "nfl", "nba", "mlb"];
+const LEAGUES_WITH_DIVISIONS: StandingsLeague[] = ["nhl", "nfl", "nba", "mlb"];
 
 /**
  * Result of extracting standings groups including both levels
@@ -693,7 +749,7 @@ interface ExtractedStandings {
  */
 function extractStandingsGroups(
   children: ESPNStandingsChild[],
-  league: Exclude<League, "f1" | "pga">
+  league: StandingsLeague
 ): ExtractedStandings {
   const groups: StandingsGroup[] = [];
   // Check if this league is known to have divisions
@@ -760,7 +816,7 @@ function extractStandingsGroups(
  * @param league - The league to fetch standings for
  */
 export async function getESPNStandings(
-  league: Exclude<League, "f1" | "pga">
+  league: StandingsLeague
 ): Promise<LeagueStandings> {
   const sportPath = LEAGUE_SPORT_MAP[league];
   const baseUrl = `${ESPN_STANDINGS_URL}/${sportPath}/standings`;
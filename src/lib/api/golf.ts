@@ -0,0 +1,995 @@
+import type {
+  FedExCupStanding,
+  FedExCupStandings,
+  GolfCourse,
+  GolfHoleScore,
+  GolfLeaderboard,
+  GolfLeague,
+  GolfPlayer,
+  GolfProjectedCut,
+  GolfScorecard,
+  GolfTeamStanding,
+  GolfTeeTime,
+  GolfTournament,
+  GolfTournamentStatus,
+} from "@/lib/types";
+import { mapWithConcurrency } from "@/lib/utils/async";
+
+const ESPN_BASE_URL = "https://site.api.espn.com/apis/site/v2/sports";
+
+/**
+ * ESPN Golf API response types
+ */
+interface ESPNGolfAthlete {
+  id: string;
+  displayName: string;
+  flag?: {
+    alt: string;
+  };
+}
+
+interface ESPNGolfHoleLinescore {
+  /** Strokes on the hole */
+  value?: number;
+  /** Hole number */
+  period: number;
+  scoreType?: {
+    /** Score relative to par (e.g., "-1", "E", "+2") */
+    displayValue: string;
+  };
+}
+
+interface ESPNGolfLinescoreValue {
+  value: number;
+  /** Round score to par */
+  displayValue?: string;
+  /** Round number */
+  period?: number;
+  /** Hole-by-hole scores (leaderboard endpoint) */
+  linescores?: ESPNGolfHoleLinescore[];
+  /** Tee time for the round (ISO date) */
+  teeTime?: string;
+  /** Hole the round started on */
+  startPosition?: number;
+}
+
+interface ESPNGolfStatistic {
+  name: string;
+  displayValue: string;
+}
+
+interface ESPNGolfCompetitor {
+  id: string;
+  athlete: ESPNGolfAthlete;
+  status: {
+    position?: {
+      displayName: string;
+      id?: string;
+    };
+    thru?: number;
+    displayValue?: string;
+    /** Round in progress or next to be played */
+    period?: number;
+    /** Tee time for that round (ISO date) */
+    teeTime?: string;
+    /** Hole the player starts that round on */
+    startHole?: number;
+  };
+  score?: {
+    displayValue: string;
+    value: number;
+  };
+  linescores?: ESPNGolfLinescoreValue[];
+  statistics?: ESPNGolfStatistic[];
+  sortOrder?: number;
+  /** Player earnings for this tournament */
+  earnings?: number;
+  /** Team the player plays for (LIV Golf) */
+  team?: {
+    displayName: string;
+  };
+}
+
+interface ESPNGolfBroadcast {
+  media: {
+    shortName: string;
+  };
+}
+
+interface ESPNGolfCompetition {
+  id: string;
+  competitors: ESPNGolfCompetitor[];
+  status: {
+    type: {
+      name: string;
+      state: string;
+      completed: boolean;
+    };
+    period?: number;
+  };
+  /** Broadcast networks */
+  broadcasts?: ESPNGolfBroadcast[];
+}
+
+interface ESPNGolfHole {
+  number: number;
+  /** Par for the hole */
+  shotsToPar: number;
+  totalYards?: number;
+}
+
+interface ESPNGolfCourse {
+  id: string;
+  name: string;
+  totalYards?: number;
+  holes?: ESPNGolfHole[];
+  /** Par for the course (called shotsToPar in ESPN) */
+  shotsToPar?: number;
+  /** Whether this is the host/main course */
+  host?: boolean;
+  address?: {
+    city?: string;
+    state?: string;
+    country?: string;
+  };
+}
+
+interface ESPNGolfDefTitle {
+  athlete?: {
+    displayName: string;
+  };
+}
+
+interface ESPNGolfEvent {
+  id: string;
+  name: string;
+  shortName?: string;
+  date: string;
+  endDate?: string;
+  competitions: ESPNGolfCompetition[];
+  status: {
+    type: {
+      name: string;
+      state: string;
+      completed: boolean;
+      description: string;
+    };
+  };
+  venue?: {
+    fullName: string;
+    address?: {
+      city: string;
+      state?: string;
+      country?: string;
+    };
+  };
+  /** Course information (available in leaderboard endpoint) */
+  courses?: ESPNGolfCourse[];
+  /** Prize purse in dollars */
+  purse?: number;
+  /** Defending champion */
+  defTitle?: ESPNGolfDefTitle;
+}
+
+interface ESPNGolfScoreboardResponse {
+  events: ESPNGolfEvent[];
+  leagues?: Array<{
+    calendar?: Array<{
+      id: string;
+      label: string;
+      startDate: string;
+      endDate: string;
+    }>;
+  }>;
+}
+
+/**
+ * Tournament info for navigation (lightweight, no player data)
+ */
+export interface GolfTournamentInfo {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  status: "scheduled" | "in_progress" | "completed" | "canceled";
+}
+
+/**
+ * Tournament calendar response
+ */
+export interface GolfTournamentCalendar {
+  tournaments: GolfTournamentInfo[];
+}
+
+/**
+ * Cut rule for an event: top N and ties
+ */
+interface CutRule {
+  topN: number;
+}
+
+/**
+ * ESPN data and event format for each tour
+ */
+interface GolfTourConfig {
+  /** ESPN sport path (golf/{path}/scoreboard) */
+  path: string;
+  /** Rounds in a standard event */
+  rounds: number;
+  /** Cut after 36 holes for a standard event (null = no cut) */
+  cutRule: CutRule | null;
+  /** Whether events also have a team competition */
+  hasTeams?: boolean;
+}
+
+const GOLF_TOURS: Record<GolfLeague, GolfTourConfig> = {
+  pga: { path: "pga", rounds: 4, cutRule: { topN: 65 } },
+  lpga: { path: "lpga", rounds: 4, cutRule: { topN: 65 } },
+  "dp-world": { path: "eur", rounds: 4, cutRule: { topN: 65 } },
+  // 72 holes with no cut since 2026
+  liv: { path: "liv", rounds: 4, cutRule: null, hasTeams: true },
+  // 54-hole events with no cut (senior majors are 72 holes with a cut)
+  champions: { path: "champions-tour", rounds: 3, cutRule: null },
+};
+
+/**
+ * LIV team scoring: the best 3 of a team's 4 scores count each round, all 4 in the final round
+ */
+const TEAM_COUNTING_SCORES = 3;
+
+/**
+ * Round after which the field is cut
+ */
+const CUT_ROUND = 2;
+
+/**
+ * PGA Tour events with their own cut rules, matched against the lowercase tournament name
+ * (null = no cut)
+ */
+const EVENT_CUT_RULES: Array<{ match: string; rule: CutRule | null }> = [
+  { match: "masters", rule: { topN: 50 } },
+  { match: "pga championship", rule: { topN: 70 } },
+  { match: "u.s. open", rule: { topN: 60 } },
+  { match: "the open", rule: { topN: 70 } },
+  // Signature events with a cut: top 50 and ties
+  { match: "genesis invitational", rule: { topN: 50 } },
+  { match: "arnold palmer", rule: { topN: 50 } },
+  { match: "memorial tournament", rule: { topN: 50 } },
+  // No-cut events
+  { match: "the sentry", rule: null },
+  { match: "pebble beach", rule: null },
+  { match: "rbc heritage", rule: null },
+  { match: "truist championship", rule: null },
+  { match: "travelers championship", rule: null },
+  { match: "fedex st. jude", rule: null },
+  { match: "bmw championship", rule: null },
+  { match: "tour championship", rule: null },
+];
+
+/**
+ * Get the cut rule for a tournament (null for no-cut events)
+ */
+function getCutRule(tour: GolfLeague, tournamentName: string): CutRule | null {
+  const { cutRule } = GOLF_TOURS[tour];
+  if (tour !== "pga") return cutRule;
+
+  const name = tournamentName.toLowerCase();
+  const event = EVENT_CUT_RULES.find(({ match }) => name.includes(match));
+  return event ? event.rule : cutRule;
+}
+
+/**
+ * Project the cut line from live scores during the cut rounds
+ * The cut score is the score of the Nth-placed active player (so ties at that score make it).
+ */
+function getProjectedCut(
+  tour: GolfLeague,
+  tournamentName: string,
+  status: GolfTournamentStatus,
+  currentRound: number | undefined,
+  players: GolfPlayer[]
+): GolfProjectedCut | undefined {
+  if (status !== "in_progress" || !currentRound || currentRound > CUT_ROUND) return undefined;
+  // Cut already made (players marked cut by ESPN)
+  if (players.some((player) => player.status === "cut")) return undefined;
+
+  const rule = getCutRule(tour, tournamentName);
+  if (!rule) return undefined;
+
+  const scores = players
+    .filter((player) => player.status === "active")
+    .map((player) => player.scoreToParNum)
+    .sort((a, b) => a - b);
+  if (scores.length <= rule.topN) return undefined;
+
+  const score = scores[rule.topN - 1];
+
+  return {
+    score,
+    topN: rule.topN,
+    playersInside: scores.filter((playerScore) => playerScore <= score).length,
+  };
+}
+
+/**
+ * Player's score to par for a round, from the holes played so far
+ */
+function getRoundScoreToPar(player: GolfPlayer, round: number): number | undefined {
+  const scorecard = player.scorecards?.find((s) => s.round === round);
+  if (!scorecard || scorecard.holes.length === 0) return undefined;
+  return scorecard.holes.reduce((sum, hole) => sum + hole.toPar, 0);
+}
+
+/**
+ * Build the team leaderboard from the players' hole-by-hole scores
+ * Each round counts the team's best scores (all of them in the final round), so a live
+ * round shows the team score as it stands.
+ */
+function getTeamStandings(players: GolfPlayer[], totalRounds: number): GolfTeamStanding[] {
+  const teams = new Map<string, GolfPlayer[]>();
+  for (const player of players) {
+    if (!player.team) continue;
+    teams.set(player.team, [...(teams.get(player.team) ?? []), player]);
+  }
+
+  const standings: GolfTeamStanding[] = [...teams].map(([name, members]) => {
+    const rounds: number[] = [];
+    for (let round = 1; round <= totalRounds; round++) {
+      const scores = members
+        .map((player) => getRoundScoreToPar(player, round))
+        .filter((score): score is number => score !== undefined)
+        .sort((a, b) => a - b);
+      if (scores.length === 0) break;
+
+      const counting = round === totalRounds ? scores : scores.slice(0, TEAM_COUNTING_SCORES);
+      rounds.push(counting.reduce((sum, score) => sum + score, 0));
+    }
+
+    const scoreToParNum = rounds.reduce((sum, score) => sum + score, 0);
+    return {
+      name,
+      position: "",
+      scoreToPar: parseScoreToPar(String(scoreToParNum)).display,
+      scoreToParNum,
+      rounds,
+      players: members.map(({ id, name: playerName }) => ({ id, name: playerName })),
+    };
+  });
+
+  standings.sort((a, b) => a.scoreToParNum - b.scoreToParNum);
+
+  // Teams on the same score share a position
+  for (const standing of standings) {
+    const tied = standings.filter((other) => other.scoreToParNum === standing.scoreToParNum);
+    const rank = standings.indexOf(tied[0]) + 1;
+    standing.position = tied.length > 1 ? `T${rank}` : String(rank);
+  }
+
+  return standings;
+}
+
+/**
+ * Map ESPN tournament status to our status type
+ */
+function mapTournamentStatus(event: ESPNGolfEvent): GolfTournamentStatus {
+  const state = event.status.type.state.toLowerCase();
+  const name = event.status.type.name.toLowerCase();
+
+  if (state === "in" || name === "in progress") return "in_progress";
+  if (state === "post" || event.status.type.completed) return "completed";
+  if (name === "canceled" || name === "postponed") return "canceled";
+  return "scheduled";
+}
+
+/**
+ * Parse score to par string and return numeric value
+ */
+function parseScoreToPar(displayValue: string | undefined): { display: string; num: number } {
+  if (!displayValue || displayValue === "-" || displayValue === "") {
+    return { display: "E", num: 0 };
+  }
+
+  // Handle "E" for even
+  if (displayValue === "E") {
+    return { display: "E", num: 0 };
+  }
+
+  // Parse numeric value
+  const num = parseInt(displayValue, 10);
+  if (isNaN(num)) {
+    return { display: displayValue, num: 0 };
+  }
+
+  // Format with + for positive
+  const display = num > 0 ? `+${num}` : num === 0 ? "E" : num.toString();
+  return { display, num };
+}
+
+/**
+ * Determine player status based on ESPN data
+ */
+function getPlayerStatus(competitor: ESPNGolfCompetitor): GolfPlayer["status"] {
+  const statusDisplay = competitor.status.displayValue?.toLowerCase() || "";
+  const position = competitor.status.position?.displayName?.toLowerCase() || "";
+
+  if (statusDisplay.includes("wd") || position.includes("wd")) return "wd";
+  if (statusDisplay.includes("dq") || position.includes("dq")) return "dq";
+  if (statusDisplay.includes("cut") || position.includes("cut")) return "cut";
+  return "active";
+}
+
+/**
+ * Map a competitor's round linescores to hole-by-hole scorecards
+ * Score to par comes from ESPN's score type, falling back to the course par for the hole.
+ */
+function mapScorecards(
+  linescores: ESPNGolfLinescoreValue[] | undefined,
+  holePars: Map<number, number>
+): GolfScorecard[] | undefined {
+  const scorecards = (linescores ?? [])
+    .filter((round) => round.linescores && round.linescores.length > 0)
+    .map((round, index): GolfScorecard => {
+      const holes = round
+        .linescores!.filter((hole) => hole.value !== undefined && !isNaN(hole.value))
+        .map((hole): GolfHoleScore => {
+          const strokes = hole.value!;
+          const toPar = parseScoreToPar(hole.scoreType?.displayValue);
+          const par = holePars.get(hole.period);
+          return {
+            hole: hole.period,
+            strokes,
+            toPar: hole.scoreType ? toPar.num : par !== undefined ? strokes - par : 0,
+          };
+        })
+        .sort((a, b) => a.hole - b.hole);
+
+      return {
+        round: round.period ?? index + 1,
+        strokes: round.value,
+        scoreToPar: round.displayValue,
+        holes,
+      };
+    });
+
+  return scorecards.length > 0 ? scorecards : undefined;
+}
+
+/**
+ * Collect a competitor's tee times from their round linescores and current status
+ * The status carries the tee time for the upcoming round before its linescore exists.
+ */
+function mapTeeTimes(competitor: ESPNGolfCompetitor): GolfTeeTime[] | undefined {
+  const teeTimes = new Map<number, GolfTeeTime>();
+
+  (competitor.linescores ?? []).forEach((round, index) => {
+    if (!round.teeTime) return;
+    const roundNumber = round.period ?? index + 1;
+    teeTimes.set(roundNumber, {
+      round: roundNumber,
+      time: new Date(round.teeTime),
+      startHole: round.startPosition ?? 1,
+    });
+  });
+
+  const { period, teeTime, startHole } = competitor.status;
+  if (period && teeTime && !teeTimes.has(period)) {
+    teeTimes.set(period, { round: period, time: new Date(teeTime), startHole: startHole ?? 1 });
+  }
+
+  return teeTimes.size > 0 ? [...teeTimes.values()].sort((a, b) => a.round - b.round) : undefined;
+}
+
+/**
+ * Map ESPN competitor to GolfPlayer
+ */
+function mapCompetitor(competitor: ESPNGolfCompetitor, holePars: Map<number, number>): GolfPlayer {
+  // Get score to par from statistics
+  const scoreToParStat = competitor.statistics?.find(
+    (s) => s.name === "scoreToPar" || s.name === "score"
+  );
+  const todayStat = competitor.statistics?.find((s) => s.name === "today");
+
+  const { display: scoreToPar, num: scoreToParNum } = parseScoreToPar(
+    scoreToParStat?.displayValue || competitor.score?.displayValue
+  );
+
+  // Get individual round scores from linescores
+  // Filter out undefined/null values to avoid NaN in calculations
+  const rounds = competitor.linescores
+    ?.map((ls) => ls.value)
+    .filter((v): v is number => v !== undefined && v !== null && !isNaN(v)) ?? [];
+
+  // Get thru value
+  let thru: string | undefined;
+  if (competitor.status.thru !== undefined) {
+    thru = competitor.status.thru === 18 ? "F" : competitor.status.thru.toString();
+  }
+
+  // Calculate total strokes from completed rounds only
+  const totalStrokes = rounds.length > 0 ? rounds.reduce((sum, r) => sum + r, 0) : undefined;
+
+  // Get earnings (directly from competitor or from statistics)
+  const earnings = competitor.earnings;
+
+  // Format prize money from earnings (ESPN provides numeric value)
+  const prizeMoney = earnings && earnings > 0
+    ? new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        maximumFractionDigits: 0
+      }).format(earnings)
+    : undefined;
+
+  // Get FedEx Cup points from statistics
+  const fedexPointsStat = competitor.statistics?.find((s) => s.name === "cupPoints");
+  const fedexPoints = fedexPointsStat
+    ? parseFloat(fedexPointsStat.displayValue)
+    : undefined;
+
+  return {
+    id: competitor.id,
+    name: competitor.athlete.displayName,
+    country: competitor.athlete.flag?.alt,
+    position: competitor.status.position?.displayName ?? "-",
+    scoreToPar,
+    scoreToParNum,
+    today: todayStat?.displayValue,
+    thru,
+    rounds,
+    scorecards: mapScorecards(competitor.linescores, holePars),
+    teeTimes: mapTeeTimes(competitor),
+    totalStrokes,
+    status: getPlayerStatus(competitor),
+    prizeMoney,
+    earnings,
+    fedexPoints,
+    team: competitor.team?.displayName,
+  };
+}
+
+/**
+ * Map ESPN event to GolfTournament
+ */
+function mapTournament(event: ESPNGolfEvent, tour: GolfLeague): GolfTournament {
+  const { rounds: tourRounds, hasTeams } = GOLF_TOURS[tour];
+  const competition = event.competitions[0];
+
+  // Hole pars from the host course, used when ESPN omits a hole's score type
+  const hostCourse = event.courses?.find((course) => course.host) ?? event.courses?.[0];
+  const holePars = new Map(hostCourse?.holes?.map((hole) => [hole.number, hole.shotsToPar]) ?? []);
+
+  // Map competitors and sort by position
+  const players = competition.competitors
+    .map((competitor) => mapCompetitor(competitor, holePars))
+    .sort((a, b) => {
+      // Sort by score to par (lower is better)
+      if (a.scoreToParNum !== b.scoreToParNum) {
+        return a.scoreToParNum - b.scoreToParNum;
+      }
+      // Then by position string for ties
+      return a.position.localeCompare(b.position);
+    });
+
+  // Determine current round from status
+  const currentRound = competition.status.period;
+
+  // Build location string (fallback if no courses)
+  let location: string | undefined;
+  if (event.venue?.address) {
+    const { city, state, country } = event.venue.address;
+    location = [city, state || country].filter(Boolean).join(", ");
+  }
+
+  // Map courses (available in leaderboard endpoint)
+  const courses: GolfCourse[] | undefined = event.courses?.map((course) => ({
+    name: course.name,
+    totalYards: course.totalYards,
+    par: course.shotsToPar ?? 72,
+    holes: course.holes?.map((hole) => ({
+      number: hole.number,
+      par: hole.shotsToPar,
+      yards: hole.totalYards,
+    })),
+    isHost: course.host ?? false,
+    location: course.address
+      ? {
+          city: course.address.city,
+          state: course.address.state,
+          country: course.address.country,
+        }
+      : undefined,
+  }));
+
+  // Use course location if available and no venue location
+  if (!location && courses?.[0]?.location) {
+    const { city, state, country } = courses[0].location;
+    location = [city, state || country].filter(Boolean).join(", ");
+  }
+
+  // Extract broadcasts
+  const broadcasts = competition.broadcasts
+    ?.map((b) => b.media?.shortName)
+    .filter((name): name is string => !!name);
+
+  // Extract defending champion
+  const defendingChampion = event.defTitle?.athlete?.displayName;
+
+  const status = mapTournamentStatus(event);
+
+  // Some events run longer than the tour's standard format (e.g., senior majors)
+  const totalRounds = Math.max(tourRounds, ...players.map((player) => player.rounds.length));
+
+  return {
+    id: event.id,
+    name: event.name,
+    status,
+    startDate: new Date(event.date),
+    endDate: event.endDate ? new Date(event.endDate) : undefined,
+    venue: event.venue?.fullName ?? courses?.[0]?.name ?? "TBD",
+    location,
+    currentRound,
+    totalRounds,
+    purseAmount: event.purse,
+    courses,
+    defendingChampion,
+    broadcasts,
+    players,
+    projectedCut: getProjectedCut(tour, event.name, status, currentRound, players),
+    teamStandings: hasTeams ? getTeamStandings(players, totalRounds) : undefined,
+  };
+}
+
+/**
+ * Determine tournament status from dates
+ */
+function getTournamentStatusFromDates(
+  startDate: Date,
+  endDate: Date
+): GolfTournamentInfo["status"] {
+  const now = new Date();
+  if (now < startDate) return "scheduled";
+  if (now > endDate) return "completed";
+  return "in_progress";
+}
+
+/**
+ * Fetch a tour's tournament calendar
+ * Returns list of all tournaments in the current season for navigation
+ */
+export async function getGolfTournamentCalendar(tour: GolfLeague): Promise<GolfTournamentCalendar> {
+  try {
+    const response = await fetch(`${ESPN_BASE_URL}/golf/${GOLF_TOURS[tour].path}/scoreboard`, {
+      headers: {
+        Accept: "application/json",
+        "User-Agent": "Mozilla/5.0 (compatible; AsciiScores/1.0)",
+      },
+      next: {
+        revalidate: 3600, // Cache for 1 hour (calendar doesn't change often)
+      },
+    });
+
+    if (!response.ok) {
+      console.warn(`ESPN Golf API returned ${response.status} for ${tour} calendar`);
+      return { tournaments: [] };
+    }
+
+    const data: ESPNGolfScoreboardResponse = await response.json();
+    const calendar = data.leagues?.[0]?.calendar ?? [];
+
+    const tournaments: GolfTournamentInfo[] = calendar.map((event) => {
+      const startDate = new Date(event.startDate);
+      const endDate = new Date(event.endDate);
+      return {
+        id: event.id,
+        name: event.label,
+        startDate,
+        endDate,
+        status: getTournamentStatusFromDates(startDate, endDate),
+      };
+    });
+
+    return { tournaments };
+  } catch (error) {
+    console.error(`Failed to fetch ${tour} tournament calendar:`, error);
+    return { tournaments: [] };
+  }
+}
+
+/**
+ * Fetch a tour's leaderboard from ESPN
+ * @param tour - Golf tour
+ * @param eventId - Optional event ID to fetch a specific tournament
+ * @param revalidate - Cache lifetime in seconds (finished events can be cached longer)
+ */
+export async function getGolfLeaderboard(
+  tour: GolfLeague,
+  eventId?: string,
+  revalidate: number = 60
+): Promise<GolfLeaderboard> {
+  // Build endpoints - if eventId provided, use query param
+  const eventParam = eventId ? `?event=${eventId}` : "";
+  const { path } = GOLF_TOURS[tour];
+  const endpoints = [
+    // The unscoped leaderboard is the PGA Tour's
+    ...(tour === "pga" ? [`${ESPN_BASE_URL}/golf/leaderboard${eventParam}`] : []),
+    `${ESPN_BASE_URL}/golf/${path}/leaderboard${eventParam}`,
+    `${ESPN_BASE_URL}/golf/${path}/scoreboard${eventParam}`,
+  ];
+
+  for (const url of endpoints) {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Accept: "application/json",
+          "User-Agent": "Mozilla/5.0 (compatible; AsciiScores/1.0)",
+        },
+        next: {
+          revalidate, // Default 60 seconds (golf moves slower than other sports)
+        },
+      });
+
+      if (!response.ok) {
+        console.warn(`ESPN Golf API returned ${response.status} for ${url}`);
+        continue;
+      }
+
+      const data: ESPNGolfScoreboardResponse = await response.json();
+
+      // Find the current/most relevant tournament
+      // Prefer in-progress tournaments, then scheduled, then most recent completed
+      const events = data.events;
+
+      if (!events || events.length === 0) {
+        console.warn(`No events found at ${url}`);
+        continue;
+      }
+
+      // Sort events by relevance: in_progress first, then by date
+      const sortedEvents = [...events].sort((a, b) => {
+        const aStatus = mapTournamentStatus(a);
+        const bStatus = mapTournamentStatus(b);
+
+        // In-progress tournaments first
+        if (aStatus === "in_progress" && bStatus !== "in_progress") return -1;
+        if (bStatus === "in_progress" && aStatus !== "in_progress") return 1;
+
+        // Then scheduled
+        if (aStatus === "scheduled" && bStatus === "completed") return -1;
+        if (bStatus === "scheduled" && aStatus === "completed") return 1;
+
+        // Then by date (most recent first)
+        return new Date(b.date).getTime() - new Date(a.date).getTime();
+      });
+
+      const tournament = mapTournament(sortedEvents[0], tour);
+
+      return {
+        tournament,
+        lastUpdated: new Date(),
+      };
+    } catch (error) {
+      console.warn(`Failed to fetch from ${url}:`, error);
+      continue;
+    }
+  }
+
+  // All endpoints failed
+  console.error(`All ESPN Golf API endpoints failed for ${tour}`);
+  return {
+    tournament: null,
+    lastUpdated: new Date(),
+  };
+}
+
+/**
+ * FedEx Cup points by finishing position for a standard (500-point) event
+ * Positions past the end of the table earn the last value.
+ */
+const FEDEX_POINTS_DISTRIBUTION = [
+  500, 300, 190, 135, 110, 100, 90, 85, 80, 75,
+  70, 65, 60, 57, 56, 55, 54, 53, 52, 51,
+  50, 49, 48, 47, 46, 45, 44, 43, 42, 41,
+  40, 39, 38, 37, 36, 35, 34, 33, 32, 31,
+  30, 29, 28, 27, 26, 25, 24, 23, 22, 21,
+  20, 19, 18, 17, 16, 15, 14, 13, 12, 11,
+  10, 9, 8, 7, 6, 5,
+];
+
+/**
+ * Winner's FedEx Cup points for events that don't use the standard 500-point scale,
+ * matched against the lowercase tournament name (null = no points, e.g. the Tour Championship)
+ */
+const EVENT_WINNER_POINTS: Array<{ match: string; points: number | null }> = [
+  { match: "tour championship", points: null },
+  { match: "fedex st. jude", points: 2000 },
+  { match: "bmw championship", points: 2000 },
+  { match: "masters", points: 750 },
+  { match: "pga championship", points: 750 },
+  { match: "u.s. open", points: 750 },
+  { match: "the open", points: 750 },
+  { match: "the players", points: 750 },
+  { match: "the sentry", points: 700 },
+  { match: "pebble beach", points: 700 },
+  { match: "genesis invitational", points: 700 },
+  { match: "arnold palmer", points: 700 },
+  { match: "rbc heritage", points: 700 },
+  { match: "truist championship", points: 700 },
+  { match: "memorial tournament", points: 700 },
+  { match: "travelers championship", points: 700 },
+  // Opposite-field events
+  { match: "puerto rico open", points: 300 },
+  { match: "corales puntacana", points: 300 },
+  { match: "myrtle beach classic", points: 300 },
+  { match: "isco championship", points: 300 },
+  { match: "barracuda championship", points: 300 },
+];
+
+/**
+ * Winner's points for a tournament (null when it doesn't award FedEx Cup points)
+ */
+function getEventWinnerPoints(tournamentName: string): number | null {
+  const name = tournamentName.toLowerCase();
+  const event = EVENT_WINNER_POINTS.find(({ match }) => name.includes(match));
+  return event ? event.points : FEDEX_POINTS_DISTRIBUTION[0];
+}
+
+/**
+ * Points for a finishing position, scaled to the event's winner points
+ */
+function getPointsForPosition(position: number, winnerPoints: number): number {
+  const index = Math.min(position, FEDEX_POINTS_DISTRIBUTION.length) - 1;
+  return (FEDEX_POINTS_DISTRIBUTION[index] * winnerPoints) / FEDEX_POINTS_DISTRIBUTION[0];
+}
+
+/**
+ * Project FedEx Cup points for each active player if the tournament finished now
+ * Tied players share the points for the positions they occupy, as in the official distribution.
+ * Before the cut is made, players outside the projected cut line project no points.
+ */
+function projectEventPoints(tournament: GolfTournament): Map<string, number> {
+  const projected = new Map<string, number>();
+  const winnerPoints = getEventWinnerPoints(tournament.name);
+  if (winnerPoints === null) return projected;
+
+  const { projectedCut } = tournament;
+  const active = tournament.players.filter(
+    (player) => player.status === "active" && (!projectedCut || player.scoreToParNum <= projectedCut.score)
+  );
+
+  // Players on the same score occupy consecutive positions (index + 1 to end)
+  let index = 0;
+  while (index < active.length) {
+    let end = index + 1;
+    while (end < active.length && active[end].scoreToParNum === active[index].scoreToParNum) end++;
+
+    let total = 0;
+    for (let position = index + 1; position <= end; position++) {
+      total += getPointsForPosition(position, winnerPoints);
+    }
+    for (const player of active.slice(index, end)) {
+      projected.set(player.id, Math.round((total / (end - index)) * 100) / 100);
+    }
+    index = end;
+  }
+
+  return projected;
+}
+
+/**
+ * Assign competition ranks (1, 2, 2, 4) to standings already sorted by points
+ */
+function rankStandings(
+  standings: FedExCupStanding[],
+  getPoints: (standing: FedExCupStanding) => number,
+  setRank: (standing: FedExCupStanding, rank: number) => void
+): void {
+  let rank = 0;
+  standings.forEach((standing, index) => {
+    if (index === 0 || getPoints(standings[index - 1]) !== getPoints(standing)) rank = index + 1;
+    setRank(standing, rank);
+  });
+}
+
+/**
+ * Completed-event leaderboards fetched at once when totalling the season
+ */
+const MAX_CONCURRENT_LEADERBOARDS = 4;
+
+/**
+ * Fetch season FedEx Cup standings
+ * Totals each player's points across the season's completed events; while a tournament is
+ * in progress, adds the points for each player's current position to project the standings.
+ * Events whose results fail to load are listed in missingEvents rather than silently left out.
+ */
+export async function getFedExCupStandings(): Promise<FedExCupStandings> {
+  const { tournaments } = await getGolfTournamentCalendar("pga");
+  const completed = tournaments.filter((tournament) => tournament.status === "completed");
+  const inProgress = tournaments.find((tournament) => tournament.status === "in_progress");
+
+  const [completedLeaderboards, liveLeaderboard] = await Promise.all([
+    // Finished results don't change, so cache them for an hour
+    mapWithConcurrency(completed, MAX_CONCURRENT_LEADERBOARDS, (tournament) =>
+      getGolfLeaderboard("pga", tournament.id, 3600)
+    ),
+    inProgress ? getGolfLeaderboard("pga", inProgress.id) : Promise.resolve(null),
+  ]);
+
+  const totals = new Map<string, FedExCupStanding>();
+  const missingEvents: string[] = [];
+  let eventsCounted = 0;
+
+  for (const [index, { tournament }] of completedLeaderboards.entries()) {
+    if (!tournament || tournament.status !== "completed") {
+      missingEvents.push(completed[index].name);
+      continue;
+    }
+    eventsCounted++;
+
+    for (const player of tournament.players) {
+      const standing = totals.get(player.id) ?? {
+        playerId: player.id,
+        name: player.name,
+        country: player.country,
+        rank: 0,
+        points: 0,
+        events: 0,
+      };
+      standing.points += player.fedexPoints ?? 0;
+      standing.events++;
+      totals.set(player.id, standing);
+    }
+  }
+
+  const standings = [...totals.values()]
+    .filter((standing) => standing.points > 0)
+    .sort((a, b) => b.points - a.points);
+  rankStandings(standings, (standing) => standing.points, (standing, rank) => (standing.rank = rank));
+
+  const live = liveLeaderboard?.tournament;
+  if (!live || live.status !== "in_progress") {
+    return { eventsCounted, missingEvents, standings, lastUpdated: new Date() };
+  }
+
+  // Live projections: players in the field get their current position's points
+  const projectedPoints = projectEventPoints(live);
+  const byId = new Map(standings.map((standing) => [standing.playerId, standing]));
+
+  for (const player of live.players) {
+    let standing = byId.get(player.id);
+    if (!standing) {
+      standing = {
+        playerId: player.id,
+        name: player.name,
+        country: player.country,
+        rank: 0,
+        points: 0,
+        events: 0,
+      };
+      byId.set(player.id, standing);
+      standings.push(standing);
+    }
+    standing.currentPosition = player.status === "active" ? player.position : player.status.toUpperCase();
+    standing.projectedEventPoints = projectedPoints.get(player.id) ?? 0;
+  }
+
+  for (const standing of standings) {
+    standing.projectedPoints = standing.points + (standing.projectedEventPoints ?? 0);
+  }
+
+  const projectedStandings = standings
+    .filter((standing) => standing.projectedPoints! > 0)
+    .sort((a, b) => b.projectedPoints! - a.projectedPoints!);
+  rankStandings(
+    projectedStandings,
+    (standing) => standing.projectedPoints!,
+    (standing, rank) => (standing.projectedRank = rank)
+  );
+
+  return {
+    eventsCounted,
+    missingEvents,
+    liveTournament: { id: live.id, name: live.name, currentRound: live.currentRound },
+    standings: projectedStandings,
+    lastUpdated: new Date(),
+  };
+}
@@ -1,11 +1,38 @@
 import type {
+  F1CarLocation,
+  F1CircuitMap,
   F1Driver,
+  F1DriverStatus,
+  F1QualifyingSegment,
+  F1QualifyingTimes,
+  F1RaceControlMessage,
+  F1SectorRating,
+  F1SectorTime,
+  F1SectorTimes,
   F1Session,
+  F1TrackStatus,
+  F1TyreStint,
   F1SessionType,
   F1Standings,
   F1RaceWeekend,
   GameStatus,
 } from "@/lib/types";
+import type {
+  F1CalendarRound,
+  F1CalendarWinner,
+  F1Championship,
+  F1ChampionshipRound,
+  F1ConstructorChampionshipEntry,
+  F1DriverChampionshipEntry,
+  F1SeasonCalendar,
+} from "@/lib/types/f1";
+import {
+  F1_RACE_POINTS,
+  getF1QualifyingCutoffs,
+  getF1SprintPoints,
+  hasF1FastestLapPoint,
+} from "@/lib/types/f1";
+import { mapWithConcurrency } from "@/lib/utils/async";
 import { addDays, formatDateForAPI, isDateInPast } from "@/lib/utils/format";
 
 const OPENF1_BASE_URL = "https://api.openf1.org/v1";
@@ -15,6 +42,7 @@ const OPENF1_BASE_URL = "https://api.openf1.org/v1";
  */
 interface OpenF1Session {
   session_key: number;
+  meeting_key: number;
   session_name: string;
   session_type: string;
   date_start: string;
@@ -23,6 +51,17 @@ interface OpenF1Session {
   country_name: string;
 }
 
+interface OpenF1Meeting {
+  meeting_key: number;
+  meeting_name: string;
+  meeting_official_name: string;
+  location: string;
+  country_name: string;
+  circuit_short_name: string;
+  date_start: string;
+  year: number;
+}
+
 interface OpenF1Position {
   driver_number: number;
   position: number;
@@ -38,8 +77,9 @@ interface OpenF1Driver {
 
 interface OpenF1Interval {
   driver_number: number;
-  gap_to_leader: number | null;
-  interval: number | null;
+  /** Seconds, or a string such as "+1 LAP" for lapped cars */
+  gap_to_leader: number | string | null;
+  interval: number | string | null;
   date: string;
 }
 
@@ -47,10 +87,24 @@ interface OpenF1Lap {
   driver_number: number;
   lap_number: number;
   lap_duration: number | null;
+  duration_sector_1: number | null;
+  duration_sector_2: number | null;
+  duration_sector_3: number | null;
+  /** Mini-sector codes (2048 = yellow, 2049 = green, 2051 = purple, 2064 = pit lane) */
+  segments_sector_1?: Array<number | null> | null;
+  segments_sector_2?: Array<number | null> | null;
+  segments_sector_3?: Array<number | null> | null;
   is_pit_out_lap: boolean;
   date_start: string;
 }
 
+interface OpenF1Location {
+  driver_number: number;
+  date: string;
+  x: number;
+  y: number;
+}
+
 interface OpenF1Stint {
   driver_number: number;
   stint_number: number;
@@ -60,6 +114,17 @@ interface OpenF1Stint {
   tyre_age_at_start: number;
 }
 
+interface OpenF1RaceControl {
+  category: string;
+  date: string;
+  driver_number: number | null;
+  flag: string | null;
+  lap_number: number | null;
+  message: string;
+  scope: string | null;
+  sector: number | null;
+}
+
 /**
  * Format lap time for display (seconds to M:SS.sss)
  */
@@ -70,6 +135,13 @@ function formatLapTime(seconds: number | null): string | undefined {
   return `${mins}:${secs.toFixed(3).padStart(6, "0")}`;
 }
 
+/**
+ * Format a sector time (seconds, or M:SS.sss for very slow sectors)
+ */
+function formatSectorTime(seconds: number): string {
+  return seconds < 60 ? seconds.toFixed(3) : formatLapTime(seconds)!;
+}
+
 /**
  * Format gap time for display
  */
@@ -81,15 +153,110 @@ function formatGap(gap: number | null, position: number): string | undefined {
 }
 
 /**
- * Determine driver status based on session status
- * For final sessions, all drivers are "finished"
- * For live sessions, drivers are "running" (could be enhanced with race_control data)
+ * Determine driver status from the session status, lap history and race control
+ * Disqualifications and retirements take precedence; a driver on an unfinished
+ * pit-out lap in a live session is shown in the pits.
  */
-function getDriverStatus(sessionStatus: GameStatus): "running" | "pit" | "out" | "finished" {
+function getDriverStatus(
+  sessionStatus: GameStatus,
+  { disqualified, retired, onOutLap }: { disqualified: boolean; retired: boolean; onOutLap: boolean }
+): F1DriverStatus {
+  if (disqualified) return "disqualified";
+  if (retired) return "out";
   if (sessionStatus === "final") return "finished";
+  if (sessionStatus === "live" && onOutLap) return "pit";
   return "running";
 }
 
+/**
+ * Classify a race control message, or null for ones the log leaves out
+ * (blue flags, DRS and other routine messages)
+ */
+function getRaceControlCategory(message: OpenF1RaceControl): F1RaceControlMessage["category"] | null {
+  const text = message.message.toUpperCase();
+  if (message.category === "SafetyCar") return "safety_car";
+  if (/PENALTY|DISQUALIFIED|REPRIMAND/.test(text)) return "penalty";
+  if (text.includes("DELETED")) return "track_limits";
+  if (message.category === "Flag" && message.flag && message.flag !== "BLUE") return "flag";
+  return null;
+}
+
+/**
+ * Derive the current track status by replaying race control messages in order
+ * Red flags and safety cars hold until the track is declared green again;
+ * sector yellows hold until that sector is cleared.
+ */
+function getTrackStatus(messages: OpenF1RaceControl[]): F1TrackStatus {
+  let status: F1TrackStatus = "green";
+  const yellowSectors = new Set<number>();
+
+  for (const message of messages) {
+    const text = message.message.toUpperCase();
+
+    if (message.category === "SafetyCar") {
+      if (text.includes("VIRTUAL SAFETY CAR DEPLOYED")) {
+        status = "vsc";
+      } else if (text.includes("SAFETY CAR DEPLOYED")) {
+        status = "sc";
+      }
+      continue;
+    }
+
+    if (message.category !== "Flag" || !message.flag) continue;
+
+    if (message.scope === "Sector" && message.sector !== null) {
+      if (message.flag === "YELLOW" || message.flag === "DOUBLE YELLOW") {
+        yellowSectors.add(message.sector);
+      } else if (message.flag === "CLEAR" || message.flag === "GREEN") {
+        yellowSectors.delete(message.sector);
+      }
+      continue;
+    }
+
+    if (message.flag === "RED") {
+      status = "red";
+    } else if (message.flag === "CHEQUERED") {
+      status = "chequered";
+    } else if (message.flag === "GREEN" || message.flag === "CLEAR") {
+      status = "green";
+      yellowSectors.clear();
+    } else if (message.flag === "YELLOW" || message.flag === "DOUBLE YELLOW") {
+      yellowSectors.add(0);
+    }
+  }
+
+  return status === "green" && yellowSectors.size > 0 ? "yellow" : status;
+}
+
+/**
+ * Build the race control log and track status for a session
+ */
+function buildRaceControl(messages: OpenF1RaceControl[]): {
+  trackStatus: F1TrackStatus;
+  raceControl: F1RaceControlMessage[];
+} {
+  const sorted = [...messages].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  const raceControl: F1RaceControlMessage[] = [];
+  for (const message of sorted) {
+    const category = getRaceControlCategory(message);
+    if (!category) continue;
+
+    raceControl.push({
+      date: new Date(message.date),
+      category,
+      message: message.message,
+      flag: message.flag ?? undefined,
+      driverNumber: message.driver_number ?? undefined,
+      lap: message.lap_number ?? undefined,
+    });
+  }
+
+  return { trackStatus: getTrackStatus(sorted), raceControl };
+}
+
 /**
  * Map OpenF1 session type to our type
  */
@@ -118,6 +285,382 @@ function getSessionStatus(session: OpenF1Session): GameStatus {
   return "live";
 }
 
+/**
+ * Whether a session is raced wheel-to-wheel (positions change lap by lap)
+ */
+function isRacingSession(sessionName: string): boolean {
+  return sessionName === "Race" || sessionName === "Sprint";
+}
+
+/**
+ * When a race actually started: the earliest lap 1 start in the timing data
+ * (the scheduled start slips with delays, aborted starts and extra formation laps)
+ */
+function getRaceStartTime(laps: OpenF1Lap[]): Date | undefined {
+  const starts = laps
+    .filter((lap) => lap.lap_number === 1 && lap.date_start)
+    .map((lap) => new Date(lap.date_start).getTime());
+  return starts.length > 0 ? new Date(Math.min(...starts)) : undefined;
+}
+
+const MINI_SECTOR_RATINGS: Record<number, F1SectorRating> = {
+  2048: "slower",
+  2049: "personal_best",
+  2051: "overall_best",
+};
+
+/**
+ * Sector durations of a lap (index 0 = S1)
+ */
+function getLapSectors(lap: OpenF1Lap): Array<number | null> {
+  return [lap.duration_sector_1, lap.duration_sector_2, lap.duration_sector_3];
+}
+
+/**
+ * Build each driver's last-lap and personal best sector times, rated against the
+ * session's best sectors like the timing screens (purple/green/yellow)
+ */
+function buildSectorTimes(laps: OpenF1Lap[]): Map<number, F1SectorTimes> {
+  const overallBest: Array<number | undefined> = [undefined, undefined, undefined];
+  const personalBests = new Map<number, Array<number | undefined>>();
+  const lastTimedLaps = new Map<number, OpenF1Lap>();
+
+  for (const lap of laps) {
+    const sectors = getLapSectors(lap);
+    if (sectors.every((sector) => !sector)) continue;
+
+    const best = personalBests.get(lap.driver_number) ?? [undefined, undefined, undefined];
+    sectors.forEach((sector, index) => {
+      if (!sector || sector <= 0) return;
+      if (best[index] === undefined || sector < best[index]!) best[index] = sector;
+      if (overallBest[index] === undefined || sector < overallBest[index]!) overallBest[index] = sector;
+    });
+    personalBests.set(lap.driver_number, best);
+
+    const lastLap = lastTimedLaps.get(lap.driver_number);
+    if (!lastLap || lap.lap_number > lastLap.lap_number) {
+      lastTimedLaps.set(lap.driver_number, lap);
+    }
+  }
+
+  const rate = (time: number, index: number, personalBest?: number): F1SectorRating => {
+    if (time === overallBest[index]) return "overall_best";
+    if (time === personalBest) return "personal_best";
+    return "slower";
+  };
+
+  const sectorTimes = new Map<number, F1SectorTimes>();
+  for (const [driverNumber, best] of personalBests) {
+    const lastLap = lastTimedLaps.get(driverNumber)!;
+    const miniSectors = [lastLap.segments_sector_1, lastLap.segments_sector_2, lastLap.segments_sector_3];
+
+    const lastLapSectors = getLapSectors(lastLap).map((sector, index): F1SectorTime | undefined =>
+      sector && sector > 0
+        ? {
+            time: formatSectorTime(sector),
+            rating: rate(sector, index, best[index]),
+            miniSectors: miniSectors[index]?.map((code) =>
+              code ? MINI_SECTOR_RATINGS[code] ?? null : null
+            ),
+          }
+        : undefined
+    );
+
+    const bestSectors = best.map((sector, index): F1SectorTime | undefined =>
+      sector !== undefined
+        ? { time: formatSectorTime(sector), rating: rate(sector, index, sector) }
+        : undefined
+    );
+
+    const hasAllSectors = best.every((sector) => sector !== undefined);
+    sectorTimes.set(driverNumber, {
+      lastLap: lastLapSectors,
+      bestSectors,
+      theoreticalBest: hasAllSectors
+        ? formatLapTime(best.reduce<number>((total, sector) => total + sector!, 0))
+        : undefined,
+    });
+  }
+
+  return sectorTimes;
+}
+
+/**
+ * Whether a session is a knockout qualifying session (including sprint qualifying)
+ */
+function isQualifyingSession(sessionName: string): boolean {
+  return /qualifying|shootout/i.test(sessionName);
+}
+
+/**
+ * Qualifying segment in progress at a time (each segment ends with a chequered flag)
+ * @param at - Time in ms (defaults to now, giving the current segment)
+ */
+function getQualifyingSegment(
+  raceControl: F1RaceControlMessage[],
+  at: number = Infinity
+): F1QualifyingSegment {
+  const chequeredFlags = raceControl.filter(
+    (message) => message.flag === "CHEQUERED" && message.date.getTime() < at
+  ).length;
+  return Math.min(3, chequeredFlags + 1) as F1QualifyingSegment;
+}
+
+/**
+ * Split qualifying laps into knockout segments by lap start time
+ * Laps started before a segment's chequered flag count for that segment; lap times
+ * deleted by race control for track limits are ignored.
+ */
+function buildQualifyingTimes(
+  laps: OpenF1Lap[],
+  raceControl: F1RaceControlMessage[],
+  latestPositions: Map<number, number>,
+  sessionStatus: GameStatus
+): Map<number, F1QualifyingTimes> {
+  // e.g., "CAR 1 (VER) TIME 1:27.123 DELETED - TRACK LIMITS AT TURN 4 LAP 7 15:12:33"
+  const deletedTimes = new Map<number, number[]>();
+  for (const message of raceControl) {
+    if (message.category !== "track_limits" || message.driverNumber === undefined) continue;
+
+    const match = message.message.match(/TIME (\d+):(\d+\.\d+) DELETED/i);
+    if (match) {
+      const existing = deletedTimes.get(message.driverNumber) ?? [];
+      existing.push(parseInt(match[1], 10) * 60 + parseFloat(match[2]));
+      deletedTimes.set(message.driverNumber, existing);
+    }
+  }
+
+  const bestLaps = new Map<number, Array<number | undefined>>();
+  for (const lap of laps) {
+    const lapTime = lap.lap_duration;
+    if (!lapTime || lapTime <= 0) continue;
+    if (deletedTimes.get(lap.driver_number)?.some((time) => Math.abs(time - lapTime) < 0.001)) continue;
+
+    const segment = getQualifyingSegment(raceControl, new Date(lap.date_start).getTime());
+    const best = bestLaps.get(lap.driver_number) ?? [undefined, undefined, undefined];
+    const current = best[segment - 1];
+    if (current === undefined || lapTime < current) {
+      best[segment - 1] = lapTime;
+    }
+    bestLaps.set(lap.driver_number, best);
+  }
+
+  // Each driver's time from the last segment they set one in
+  const getLastTime = (best: Array<number | undefined>) =>
+    [...best].reverse().find((time) => time !== undefined);
+
+  const poleDriver = [...latestPositions].find(([, position]) => position === 1)?.[0];
+  const poleTime = poleDriver !== undefined ? getLastTime(bestLaps.get(poleDriver) ?? []) : undefined;
+
+  // Knockouts are settled once the next segment starts
+  const currentSegment = getQualifyingSegment(raceControl);
+  const isFinal = sessionStatus === "final";
+  const [q1Cutoff, q2Cutoff] = getF1QualifyingCutoffs(latestPositions.size);
+
+  const times = new Map<number, F1QualifyingTimes>();
+  for (const [driverNumber, position] of latestPositions) {
+    const best = bestLaps.get(driverNumber) ?? [undefined, undefined, undefined];
+    const lastTime = getLastTime(best);
+
+    let eliminatedIn: F1QualifyingSegment | undefined;
+    if (position > q1Cutoff && (isFinal || currentSegment > 1)) {
+      eliminatedIn = 1;
+    } else if (position > q2Cutoff && (isFinal || currentSegment > 2)) {
+      eliminatedIn = 2;
+    }
+
+    times.set(driverNumber, {
+      bestLaps: best.map((time) => formatLapTime(time ?? null)),
+      eliminatedIn,
+      gapToPole:
+        position !== 1 && lastTime !== undefined && poleTime !== undefined
+          ? `+${(lastTime - poleTime).toFixed(3)}`
+          : undefined,
+    });
+  }
+
+  return times;
+}
+
+/**
+ * Lap-by-lap history for a driver's lap chart
+ */
+interface DriverLapChart {
+  lapPositions: number[];
+  pitLaps: number[];
+  retiredOnLap?: number;
+}
+
+/**
+ * End time of a lap in ms (falls back to the start of the next lap when untimed)
+ */
+function getLapEndTime(lap: OpenF1Lap, nextLap?: OpenF1Lap): number {
+  if (nextLap) return new Date(nextLap.date_start).getTime();
+  if (lap.lap_duration) return new Date(lap.date_start).getTime() + lap.lap_duration * 1000;
+  return new Date(lap.date_start).getTime();
+}
+
+/**
+ * Interval value in seconds (null for lapped cars reported as "+1 LAP")
+ */
+function toSeconds(value: number | string | null): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+/**
+ * Build each driver's gap to the leader at the end of every lap
+ * Uses the last /intervals sample before the lap ended; the lap in progress is left out.
+ */
+function buildGapHistories(
+  intervals: OpenF1Interval[],
+  laps: OpenF1Lap[]
+): Map<number, Array<number | null>> {
+  const samplesByDriver = new Map<number, Array<{ time: number; gap: number | null }>>();
+  for (const interval of intervals) {
+    const samples = samplesByDriver.get(interval.driver_number) ?? [];
+    samples.push({ time: new Date(interval.date).getTime(), gap: toSeconds(interval.gap_to_leader) });
+    samplesByDriver.set(interval.driver_number, samples);
+  }
+
+  const lapsByDriver = new Map<number, OpenF1Lap[]>();
+  for (const lap of laps) {
+    const driverLaps = lapsByDriver.get(lap.driver_number) ?? [];
+    driverLaps.push(lap);
+    lapsByDriver.set(lap.driver_number, driverLaps);
+  }
+
+  const histories = new Map<number, Array<number | null>>();
+  for (const [driverNumber, samples] of samplesByDriver) {
+    const driverLaps = (lapsByDriver.get(driverNumber) ?? []).sort((a, b) => a.lap_number - b.lap_number);
+    if (driverLaps.length === 0) continue;
+
+    samples.sort((a, b) => a.time - b.time);
+    const history: Array<number | null> = Array(driverLaps[driverLaps.length - 1].lap_number).fill(null);
+    let sampleIndex = 0;
+    let gap: number | null = null;
+
+    driverLaps.forEach((lap, index) => {
+      const nextLap = driverLaps[index + 1];
+      if (!nextLap && !lap.lap_duration) return;
+
+      const lapEnd = getLapEndTime(lap, nextLap);
+      while (sampleIndex < samples.length && samples[sampleIndex].time <= lapEnd) {
+        gap = samples[sampleIndex].gap;
+        sampleIndex++;
+      }
+      history[lap.lap_number - 1] = gap;
+    });
+
+    histories.set(driverNumber, history);
+  }
+
+  return histories;
+}
+
+/**
+ * How long a car can go without starting a new lap, while the rest of the field keeps
+ * lapping, before a live race counts it as retired (well over a lap behind the safety car)
+ */
+const LIVE_RETIREMENT_STALL_MS = 5 * 60 * 1000;
+
+/**
+ * Build each driver's position at the end of every lap, their pit laps and retirement
+ * A retired driver stopped short of the leader's lap count: once the session is final, without
+ * taking the chequered flag after the leader; while live, with no new lap started for a while
+ * since the latest lap start in the field (so a red flag, which stops everyone, doesn't count).
+ */
+function buildLapCharts(
+  positions: OpenF1Position[],
+  laps: OpenF1Lap[],
+  stints: OpenF1Stint[],
+  sessionStatus: GameStatus
+): Map<number, DriverLapChart> {
+  const positionsByDriver = new Map<number, OpenF1Position[]>();
+  for (const pos of positions) {
+    const existing = positionsByDriver.get(pos.driver_number) ?? [];
+    existing.push(pos);
+    positionsByDriver.set(pos.driver_number, existing);
+  }
+
+  const lapsByDriver = new Map<number, OpenF1Lap[]>();
+  for (const lap of laps) {
+    const existing = lapsByDriver.get(lap.driver_number) ?? [];
+    existing.push(lap);
+    lapsByDriver.set(lap.driver_number, existing);
+  }
+
+  // The leader's lap count, when they took the chequered flag and the field's latest lap start
+  let leaderLaps = 0;
+  let finishTime = Infinity;
+  let latestLapStart = 0;
+  for (const driverLaps of lapsByDriver.values()) {
+    driverLaps.sort((a, b) => a.lap_number - b.lap_number);
+    const lastLap = driverLaps[driverLaps.length - 1];
+    const lastLapEnd = getLapEndTime(lastLap);
+    latestLapStart = Math.max(latestLapStart, new Date(lastLap.date_start).getTime());
+
+    if (lastLap.lap_number > leaderLaps) {
+      leaderLaps = lastLap.lap_number;
+      finishTime = lastLapEnd;
+    } else if (lastLap.lap_number === leaderLaps) {
+      finishTime = Math.min(finishTime, lastLapEnd);
+    }
+  }
+
+  const charts = new Map<number, DriverLapChart>();
+  for (const [driverNumber, driverLaps] of lapsByDriver) {
+    const driverPositions = (positionsByDriver.get(driverNumber) ?? []).sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+    if (driverPositions.length === 0) continue;
+
+    const lastLap = driverLaps[driverLaps.length - 1];
+    let retiredOnLap: number | undefined;
+    if (sessionStatus === "final" && lastLap.lap_number < leaderLaps) {
+      if (lastLap.lap_duration === null) {
+        // Stopped out on track during this lap
+        retiredOnLap = lastLap.lap_number;
+      } else if (getLapEndTime(lastLap) < finishTime) {
+        // Completed the lap, then stopped (usually in the pits)
+        retiredOnLap = lastLap.lap_number + 1;
+      }
+    } else if (
+      sessionStatus === "live" &&
+      lastLap.lap_number < leaderLaps &&
+      latestLapStart - new Date(lastLap.date_start).getTime() > LIVE_RETIREMENT_STALL_MS
+    ) {
+      // Stopped on track during the lap, or in the pits after completing it
+      retiredOnLap = lastLap.lap_duration === null ? lastLap.lap_number : lastLap.lap_number + 1;
+    }
+
+    // Walk the position updates alongside the laps (an unfinished lap has no position)
+    const completedLaps = retiredOnLap === lastLap.lap_number ? driverLaps.slice(0, -1) : driverLaps;
+    const lapPositions: number[] = [];
+    let cursor = 0;
+    let position = driverPositions[0].position;
+    completedLaps.forEach((lap, index) => {
+      const lapEnd = getLapEndTime(lap, driverLaps[index + 1]);
+      while (cursor < driverPositions.length && new Date(driverPositions[cursor].date).getTime() <= lapEnd) {
+        position = driverPositions[cursor].position;
+        cursor++;
+      }
+      lapPositions.push(position);
+    });
+
+    charts.set(driverNumber, { lapPositions, pitLaps: [], retiredOnLap });
+  }
+
+  // A new stint starts on the out-lap, so the stop came at the end of the lap before
+  for (const stint of stints) {
+    const chart = charts.get(stint.driver_number);
+    if (chart && stint.stint_number > 1 && stint.lap_start > 1) {
+      chart.pitLaps.push(stint.lap_start - 1);
+    }
+  }
+
+  return charts;
+}
+
 /**
  * Build enriched driver data from all API responses
  */
@@ -127,7 +670,9 @@ function buildDriverData(
   intervals: OpenF1Interval[],
   laps: OpenF1Lap[],
   stints: OpenF1Stint[],
-  sessionStatus: GameStatus
+  raceControl: F1RaceControlMessage[],
+  sessionStatus: GameStatus,
+  sessionName: string
 ): F1Driver[] {
   // Build driver info map
   const driverMap = new Map<number, OpenF1Driver>();
@@ -141,29 +686,38 @@ function buildDriverData(
     latestPositions.set(pos.driver_number, pos.position);
   }
 
-  // Get latest gap for each driver
+  // Get latest gap to the leader and to the car ahead for each driver
   const latestGaps = new Map<number, number | null>();
+  const latestIntervals = new Map<number, number | null>();
   for (const interval of intervals) {
-    latestGaps.set(interval.driver_number, interval.gap_to_leader);
+    latestGaps.set(interval.driver_number, toSeconds(interval.gap_to_leader));
+    latestIntervals.set(interval.driver_number, toSeconds(interval.interval));
   }
 
   // Process laps data - get last lap time, fastest lap, and laps completed
-  const driverLapData = new Map<number, { lastLap: number | null; fastestLap: number | null; lapsCompleted: number }>();
+  const driverLapData = new Map<
+    number,
+    { lastLap: number | null; fastestLap: number | null; lapsCompleted: number; onOutLap: boolean }
+  >();
   for (const lap of laps) {
     const existing = driverLapData.get(lap.driver_number);
     const lapTime = lap.lap_duration;
+    // An untimed pit-out lap is still being driven out of the pit lane
+    const onOutLap = lap.is_pit_out_lap && lapTime === null;
 
     if (!existing) {
       driverLapData.set(lap.driver_number, {
         lastLap: lapTime,
         fastestLap: lapTime && lapTime > 0 ? lapTime : null,
         lapsCompleted: lap.lap_number,
+        onOutLap,
       });
     } else {
       // Update last lap (most recent by lap number)
       if (lap.lap_number > existing.lapsCompleted) {
         existing.lastLap = lapTime;
         existing.lapsCompleted = lap.lap_number;
+        existing.onOutLap = onOutLap;
       }
       // Update fastest lap
       if (lapTime && lapTime > 0 && (!existing.fastestLap || lapTime < existing.fastestLap)) {
@@ -172,14 +726,27 @@ function buildDriverData(
     }
   }
 
-  // Process stints data - count pit stops and get current tyre
-  const driverStintData = new Map<number, { pitStops: number; currentTyre: string | null }>();
+  // Process stints data - count pit stops, get current tyre and keep the full strategy
+  const driverStintData = new Map<
+    number,
+    { pitStops: number; currentTyre: string | null; stints: F1TyreStint[] }
+  >();
   for (const stint of stints) {
+    const lapsCompleted = driverLapData.get(stint.driver_number)?.lapsCompleted ?? stint.lap_start;
+    const tyreStint: F1TyreStint = {
+      compound: stint.compound,
+      lapStart: stint.lap_start,
+      // The current stint has no end lap yet
+      lapEnd: stint.lap_end ?? Math.max(stint.lap_start, lapsCompleted),
+      tyreAgeAtStart: stint.tyre_age_at_start,
+    };
+
     const existing = driverStintData.get(stint.driver_number);
     if (!existing) {
       driverStintData.set(stint.driver_number, {
         pitStops: stint.stint_number > 1 ? stint.stint_number - 1 : 0,
         currentTyre: stint.compound,
+        stints: [tyreStint],
       });
     } else {
       // Update with latest stint info
@@ -187,17 +754,54 @@ function buildDriverData(
         existing.pitStops = stint.stint_number - 1;
       }
       existing.currentTyre = stint.compound;
+      existing.stints.push(tyreStint);
     }
   }
 
+  // Penalties and disqualifications from the stewards
+  const driverPenalties = new Map<number, string[]>();
+  const disqualified = new Set<number>();
+  for (const message of raceControl) {
+    if (message.category !== "penalty" || message.driverNumber === undefined) continue;
+
+    if (/DISQUALIFIED/i.test(message.message)) {
+      disqualified.add(message.driverNumber);
+    } else if (/PENALTY/i.test(message.message) && !/PENALTY SERVED/i.test(message.message)) {
+      // "... PENALTY SERVED" follows the penalty itself, so only the original counts
+      const existing = driverPenalties.get(message.driverNumber) ?? [];
+      existing.push(message.message);
+      driverPenalties.set(message.driverNumber, existing);
+    }
+  }
+
+  // Lap-by-lap positions only mean something when cars race each other
+  const lapCharts = isRacingSession(sessionName)
+    ? buildLapCharts(positions, laps, stints, sessionStatus)
+    : new Map<number, DriverLapChart>();
+
+  // Gap to the leader lap by lap
+  const gapHistories = isRacingSession(sessionName)
+    ? buildGapHistories(intervals, laps)
+    : new Map<number, Array<number | null>>();
+
+  // Sector times and timing screen colors
+  const sectorTimes = buildSectorTimes(laps);
+
+  // Knockout segment times only exist in qualifying
+  const qualifyingTimes = isQualifyingSession(sessionName)
+    ? buildQualifyingTimes(laps, raceControl, latestPositions, sessionStatus)
+    : undefined;
+
   // Build driver standings
   const drivers: F1Driver[] = [];
   for (const [driverNumber, position] of latestPositions) {
     const driverInfo = driverMap.get(driverNumber);
     if (driverInfo) {
       const gap = latestGaps.get(driverNumber);
+      const interval = latestIntervals.get(driverNumber) ?? null;
       const lapData = driverLapData.get(driverNumber);
       const stintData = driverStintData.get(driverNumber);
+      const lapChart = lapCharts.get(driverNumber);
 
       drivers.push({
         position,
@@ -211,7 +815,21 @@ function buildDriverData(
         lapsCompleted: lapData?.lapsCompleted,
         pitStops: stintData?.pitStops ?? 0,
         currentTyre: stintData?.currentTyre ?? undefined,
-        status: getDriverStatus(sessionStatus),
+        stints: stintData?.stints.sort((a, b) => a.lapStart - b.lapStart),
+        lapPositions: lapChart?.lapPositions,
+        pitLaps: lapChart?.pitLaps,
+        retiredOnLap: lapChart?.retiredOnLap,
+        gapHistory: gapHistories.get(driverNumber),
+        interval: formatGap(interval, position),
+        intervalSeconds: interval ?? undefined,
+        sectors: sectorTimes.get(driverNumber),
+        qualifying: qualifyingTimes?.get(driverNumber),
+        penalties: driverPenalties.get(driverNumber),
+        status: getDriverStatus(sessionStatus, {
+          disqualified: disqualified.has(driverNumber),
+          retired: lapChart?.retiredOnLap !== undefined,
+          onOutLap: lapData?.onOutLap ?? false,
+        }),
       });
     }
   }
@@ -233,11 +851,18 @@ async function fetchSessionDriverData(
   intervals: OpenF1Interval[];
   laps: OpenF1Lap[];
   stints: OpenF1Stint[];
+  raceControl: OpenF1RaceControl[];
 }> {
   const revalidate = isPastDate ? false : 10;
 
-  const [positionsResponse, driversResponse, intervalsResponse, lapsResponse, stintsResponse] =
-    await Promise.all([
+  const [
+    positionsResponse,
+    driversResponse,
+    intervalsResponse,
+    lapsResponse,
+    stintsResponse,
+    raceControlResponse,
+  ] = await Promise.all([
       fetch(`${OPENF1_BASE_URL}/position?session_key=${sessionKey}`, {
         headers: { Accept: "application/json" },
         next: { revalidate },
@@ -258,6 +883,10 @@ async function fetchSessionDriverData(
         headers: { Accept: "application/json" },
         next: { revalidate },
       }),
+      fetch(`${OPENF1_BASE_URL}/race_control?session_key=${sessionKey}`, {
+        headers: { Accept: "application/json" },
+        next: { revalidate },
+      }),
     ]);
 
   return {
@@ -266,9 +895,129 @@ async function fetchSessionDriverData(
     intervals: intervalsResponse.ok ? await intervalsResponse.json() : [],
     laps: lapsResponse.ok ? await lapsResponse.json() : [],
     stints: stintsResponse.ok ? await stintsResponse.json() : [],
+    raceControl: raceControlResponse.ok ? await raceControlResponse.json() : [],
   };
 }
 
+/**
+ * Most outline points kept from the reference lap (OpenF1 samples ~4 per second)
+ */
+const MAX_OUTLINE_POINTS = 200;
+
+/**
+ * How far back to look for each car's latest location
+ * (live location data lags the timing feed by several seconds)
+ */
+const CAR_LOCATION_WINDOW_MS = 30 * 1000;
+
+/**
+ * Live location requests start on a boundary of this size, matching the 10 second
+ * revalidate, so requests within the same bucket share one cache entry
+ */
+const LIVE_LOCATION_BUCKET_MS = 10 * 1000;
+
+/**
+ * Fetch car locations for the circuit map
+ * The outline is traced from the fastest lap of the session; car positions are each
+ * driver's latest sample (now while live, otherwise as the last lap was completed).
+ */
+async function fetchSessionLocations(
+  sessionKey: number | string,
+  laps: OpenF1Lap[],
+  sessionStatus: GameStatus,
+  isPastDate: boolean
+): Promise<{ outline: OpenF1Location[]; cars: OpenF1Location[] }> {
+  let referenceLap: OpenF1Lap | undefined;
+  let lastLapEnd = 0;
+  for (const lap of laps) {
+    lastLapEnd = Math.max(lastLapEnd, getLapEndTime(lap));
+    if (
+      lap.lap_duration &&
+      !lap.is_pit_out_lap &&
+      (!referenceLap || lap.lap_duration < referenceLap.lap_duration!)
+    ) {
+      referenceLap = lap;
+    }
+  }
+
+  if (!referenceLap || sessionStatus === "scheduled") {
+    return { outline: [], cars: [] };
+  }
+
+  const lapStart = new Date(referenceLap.date_start);
+  const lapEnd = new Date(getLapEndTime(referenceLap));
+  const carsUntil =
+    sessionStatus === "live"
+      ? Math.floor(Date.now() / LIVE_LOCATION_BUCKET_MS) * LIVE_LOCATION_BUCKET_MS
+      : lastLapEnd;
+  const carsFrom = new Date(carsUntil - CAR_LOCATION_WINDOW_MS);
+
+  const [outlineResponse, carsResponse] = await Promise.all([
+    // A completed lap never changes
+    fetch(
+      `${OPENF1_BASE_URL}/location?session_key=${sessionKey}&driver_number=${referenceLap.driver_number}&date>=${lapStart.toISOString()}&date<${lapEnd.toISOString()}`,
+      { headers: { Accept: "application/json" }, next: { revalidate: false } }
+    ),
+    fetch(
+      sessionStatus === "live"
+        ? `${OPENF1_BASE_URL}/location?session_key=${sessionKey}&date>=${carsFrom.toISOString()}`
+        : `${OPENF1_BASE_URL}/location?session_key=${sessionKey}&date>=${carsFrom.toISOString()}&date<=${new Date(carsUntil).toISOString()}`,
+      { headers: { Accept: "application/json" }, next: { revalidate: isPastDate ? false : 10 } }
+    ),
+  ]);
+
+  return {
+    outline: outlineResponse.ok ? await outlineResponse.json() : [],
+    cars: carsResponse.ok ? await carsResponse.json() : [],
+  };
+}
+
+/**
+ * Build the circuit map from location samples
+ * Samples at the origin are dropped (OpenF1 reports 0,0 for cars without a fix).
+ */
+function buildCircuitMap(
+  locations: { outline: OpenF1Location[]; cars: OpenF1Location[] },
+  drivers: F1Driver[]
+): F1CircuitMap | undefined {
+  const hasFix = (sample: OpenF1Location) => sample.x !== 0 || sample.y !== 0;
+
+  const samples = locations.outline
+    .filter(hasFix)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const step = Math.ceil(samples.length / MAX_OUTLINE_POINTS);
+  const outline = samples
+    .filter((_, i) => i % step === 0)
+    .map(({ x, y }) => ({ x, y }));
+
+  // Too few points to draw a recognizable track
+  if (outline.length < 10) return undefined;
+
+  const latest = new Map<number, OpenF1Location>();
+  for (const sample of locations.cars.filter(hasFix)) {
+    const existing = latest.get(sample.driver_number);
+    if (!existing || new Date(sample.date) > new Date(existing.date)) {
+      latest.set(sample.driver_number, sample);
+    }
+  }
+
+  const cars: F1CarLocation[] = [];
+  for (const driver of drivers) {
+    const sample = latest.get(driver.driverNumber);
+    if (sample) {
+      cars.push({
+        driverNumber: driver.driverNumber,
+        driverCode: driver.driverCode,
+        position: driver.position,
+        x: sample.x,
+        y: sample.y,
+      });
+    }
+  }
+
+  return { outline, cars };
+}
+
 /**
  * Convert a Date to OpenF1 API date format (YYYY-MM-DD)
  */
@@ -333,13 +1082,29 @@ export async function getF1SessionByDate(date?: Date): Promise<F1Session | null>
     const sessionStatus = getSessionStatus(latestSession);
 
     // Fetch all driver-related data
-    const { positions, driversData, intervals, laps, stints } = await fetchSessionDriverData(
-      sessionKey,
-      isPastDate ?? false
-    );
+    const { positions, driversData, intervals, laps, stints, raceControl: raceControlData } =
+      await fetchSessionDriverData(sessionKey, isPastDate ?? false);
+
+    // Race control log, track status and steward decisions
+    const { trackStatus, raceControl } = buildRaceControl(raceControlData);
 
     // Build enriched driver data
-    const drivers = buildDriverData(positions, driversData, intervals, laps, stints, sessionStatus);
+    const drivers = buildDriverData(
+      positions,
+      driversData,
+      intervals,
+      laps,
+      stints,
+      raceControl,
+      sessionStatus,
+      latestSession.session_name
+    );
+
+    // Track outline and car positions
+    const circuitMap = buildCircuitMap(
+      await fetchSessionLocations(sessionKey, laps, sessionStatus, isPastDate ?? false),
+      drivers
+    );
 
     return {
       id: sessionKey.toString(),
@@ -350,6 +1115,12 @@ export async function getF1SessionByDate(date?: Date): Promise<F1Session | null>
       circuitName: latestSession.circuit_short_name,
       country: latestSession.country_name,
       drivers,
+      qualifyingSegment: isQualifyingSession(latestSession.session_name)
+        ? getQualifyingSegment(raceControl)
+        : undefined,
+      trackStatus,
+      raceControl,
+      circuitMap,
     };
   } catch (error) {
     console.error("Failed to fetch F1 session:", error);
@@ -436,9 +1207,63 @@ export async function getDatesWithF1Sessions(
   }
 }
 
+/**
+ * Fetch OpenF1 meetings (race weekends and testing) matching a query string
+ */
+async function fetchMeetings(query: string): Promise<OpenF1Meeting[]> {
+  const response = await fetch(`${OPENF1_BASE_URL}/meetings?${query}`, {
+    headers: { Accept: "application/json" },
+    next: { revalidate: 3600 }, // Cache for 1 hour (the calendar rarely changes)
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenF1 API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Race weekend name for a session (e.g., "Monaco Grand Prix")
+ * Falls back to the country if its meeting wasn't returned.
+ */
+function getMeetingName(meetings: Map<number, OpenF1Meeting>, session: OpenF1Session): string {
+  return meetings.get(session.meeting_key)?.meeting_name ?? `${session.country_name} Grand Prix`;
+}
+
+/**
+ * Build a race weekend from its meeting's sessions
+ */
+function buildRaceWeekend(sessions: OpenF1Session[], meetings: Map<number, OpenF1Meeting>): F1RaceWeekend {
+  const weekendSessions = [...sessions].sort(
+    (a, b) => new Date(a.date_start).getTime() - new Date(b.date_start).getTime()
+  );
+  const firstSession = weekendSessions[0];
+  const lastSession = weekendSessions[weekendSessions.length - 1];
+
+  return {
+    id: firstSession.meeting_key.toString(),
+    name: getMeetingName(meetings, firstSession),
+    circuitName: firstSession.circuit_short_name,
+    country: firstSession.country_name,
+    startDate: new Date(firstSession.date_start),
+    endDate: new Date(lastSession.date_end),
+    sessions: weekendSessions.map(s => ({
+      id: s.session_key.toString(),
+      name: s.session_name,
+      type: mapSessionType(s.session_type),
+      status: getSessionStatus(s),
+      startTime: new Date(s.date_start),
+      circuitName: s.circuit_short_name,
+      country: s.country_name,
+      drivers: [], // Drivers loaded separately when viewing specific session
+    })),
+  };
+}
+
 /**
  * Fetch F1 race weekends within a date range
- * Groups sessions by circuit to create race weekend objects
+ * Each OpenF1 meeting (Grand Prix or testing) is one race weekend.
  * @param daysBack - Number of days in the past to check
  * @param daysForward - Number of days in the future to check
  */
@@ -453,62 +1278,35 @@ export async function getF1RaceWeekends(
 
     const url = `${OPENF1_BASE_URL}/sessions?date_start>=${formatDateForOpenF1(startDate)}&date_start<=${formatDateForOpenF1(endDate)}`;
 
-    const response = await fetch(url, {
-      headers: { Accept: "application/json" },
-      next: { revalidate: 300 }, // Cache for 5 minutes
-    });
+    // A meeting starts up to a week before any of its sessions in the range
+    const [response, meetingList] = await Promise.all([
+      fetch(url, {
+        headers: { Accept: "application/json" },
+        next: { revalidate: 300 }, // Cache for 5 minutes
+      }),
+      fetchMeetings(
+        `date_start>=${formatDateForOpenF1(addDays(startDate, -7))}&date_start<=${formatDateForOpenF1(endDate)}`
+      ),
+    ]);
 
     if (!response.ok) {
       throw new Error(`OpenF1 API error: ${response.status}`);
     }
 
     const sessions: OpenF1Session[] = await response.json();
+    const meetings = new Map(meetingList.map((meeting) => [meeting.meeting_key, meeting]));
 
-    // Group sessions by circuit (each circuit = one race weekend)
-    const weekendMap = new Map<string, OpenF1Session[]>();
+    // Group sessions by meeting
+    const weekendMap = new Map<number, OpenF1Session[]>();
     for (const session of sessions) {
-      // Create a key based on circuit and approximate date (within same week)
-      const sessionDate = new Date(session.date_start);
-      const weekKey = `${session.circuit_short_name}-${sessionDate.getFullYear()}-${Math.floor(sessionDate.getTime() / (7 * 24 * 60 * 60 * 1000))}`;
-
-      const existing = weekendMap.get(weekKey) ?? [];
+      const existing = weekendMap.get(session.meeting_key) ?? [];
       existing.push(session);
-      weekendMap.set(weekKey, existing);
+      weekendMap.set(session.meeting_key, existing);
     }
 
-    // Convert to F1RaceWeekend objects
-    const weekends: F1RaceWeekend[] = [];
-    for (const [, weekendSessions] of weekendMap) {
-      // Sort sessions by date
-      weekendSessions.sort((a, b) =>
-        new Date(a.date_start).getTime() - new Date(b.date_start).getTime()
-      );
-
-      const firstSession = weekendSessions[0];
-      const lastSession = weekendSessions[weekendSessions.length - 1];
-
-      // Generate race weekend name from circuit
-      const raceName = generateRaceName(firstSession.circuit_short_name, firstSession.country_name);
-
-      weekends.push({
-        id: `${firstSession.circuit_short_name}-${new Date(firstSession.date_start).getFullYear()}`,
-        name: raceName,
-        circuitName: firstSession.circuit_short_name,
-        country: firstSession.country_name,
-        startDate: new Date(firstSession.date_start),
-        endDate: new Date(lastSession.date_end),
-        sessions: weekendSessions.map(s => ({
-          id: s.session_key.toString(),
-          name: s.session_name,
-          type: mapSessionType(s.session_type),
-          status: getSessionStatus(s),
-          startTime: new Date(s.date_start),
-          circuitName: s.circuit_short_name,
-          country: s.country_name,
-          drivers: [], // Drivers loaded separately when viewing specific session
-        })),
-      });
-    }
+    const weekends = [...weekendMap.values()].map((weekendSessions) =>
+      buildRaceWeekend(weekendSessions, meetings)
+    );
 
     // Sort weekends by start date
     weekends.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
@@ -521,46 +1319,56 @@ export async function getF1RaceWeekends(
 }
 
 /**
- * Generate a race name from circuit and country
- */
-function generateRaceName(circuit: string, country: string): string {
-  // Map common circuit names to their official Grand Prix names
-  const circuitToGP: Record<string, string> = {
-    "Bahrain": "Bahrain Grand Prix",
-    "Jeddah": "Saudi Arabian Grand Prix",
-    "Melbourne": "Australian Grand Prix",
-    "Suzuka": "Japanese Grand Prix",
-    "Shanghai": "Chinese Grand Prix",
-    "Miami": "Miami Grand Prix",
-    "Imola": "Emilia Romagna Grand Prix",
-    "Monaco": "Monaco Grand Prix",
-    "Montreal": "Canadian Grand Prix",
-    "Barcelona": "Spanish Grand Prix",
-    "Spielberg": "Austrian Grand Prix",
-    "Silverstone": "British Grand Prix",
-    "Budapest": "Hungarian Grand Prix",
-    "Spa": "Belgian Grand Prix",
-    "Zandvoort": "Dutch Grand Prix",
-    "Monza": "Italian Grand Prix",
-    "Baku": "Azerbaijan Grand Prix",
-    "Singapore": "Singapore Grand Prix",
-    "Austin": "United States Grand Prix",
-    "Mexico City": "Mexico City Grand Prix",
-    "Sao Paulo": "São Paulo Grand Prix",
-    "Las Vegas": "Las Vegas Grand Prix",
-    "Lusail": "Qatar Grand Prix",
-    "Yas Marina": "Abu Dhabi Grand Prix",
-  };
+ * Resolve a race weekend ID to its meeting key
+ * Weekend IDs used to be "{circuit}-{year}" (e.g., "Monza-2025"), so those are looked up by
+ * circuit and season to keep old links working. Prefers the Grand Prix over testing at the same circuit.
+ */
+export async function resolveF1WeekendId(id: string): Promise<string | null> {
+  if (/^\d+$/.test(id)) return id;
+
+  const legacy = id.match(/^(.+)-(\d{4})$/);
+  if (!legacy) return null;
 
-  return circuitToGP[circuit] ?? `${country} Grand Prix`;
+  try {
+    const [, circuit, year] = legacy;
+    const meetings = await fetchMeetings(`circuit_short_name=${encodeURIComponent(circuit)}&year=${year}`);
+    const meeting = meetings.find((m) => !/testing/i.test(m.meeting_name)) ?? meetings[0];
+    return meeting ? meeting.meeting_key.toString() : null;
+  } catch (error) {
+    console.error(`Failed to resolve F1 race weekend ${id}:`, error);
+    return null;
+  }
 }
 
 /**
- * Get a specific race weekend by ID
+ * Get a specific race weekend by ID (meeting key, or a legacy "{circuit}-{year}" ID), from any season
  */
 export async function getF1RaceWeekendById(id: string): Promise<F1RaceWeekend | null> {
-  const weekends = await getF1RaceWeekends();
-  return weekends.find(w => w.id === id) ?? null;
+  const resolvedId = await resolveF1WeekendId(id);
+  if (!resolvedId) return null;
+  const meetingKey = parseInt(resolvedId, 10);
+
+  try {
+    const [response, meetingList] = await Promise.all([
+      fetch(`${OPENF1_BASE_URL}/sessions?meeting_key=${meetingKey}`, {
+        headers: { Accept: "application/json" },
+        next: { revalidate: 300 }, // Cache for 5 minutes
+      }),
+      fetchMeetings(`meeting_key=${meetingKey}`),
+    ]);
+
+    if (!response.ok) {
+      throw new Error(`OpenF1 API error: ${response.status}`);
+    }
+
+    const sessions: OpenF1Session[] = await response.json();
+    if (sessions.length === 0) return null;
+
+    return buildRaceWeekend(sessions, new Map(meetingList.map((meeting) => [meeting.meeting_key, meeting])));
+  } catch (error) {
+    console.error(`Failed to fetch F1 race weekend ${id}:`, error);
+    return null;
+  }
 }
 
 /**
@@ -577,23 +1385,104 @@ export async function getF1RaceWeekendSessions(weekendId: string): Promise<F1Ses
     const sessionStatus = sessionInfo.status;
 
     // Fetch all driver-related data
-    const { positions, driversData, intervals, laps, stints } = await fetchSessionDriverData(
-      sessionKey,
-      isPastDate
-    );
+    const { positions, driversData, intervals, laps, stints, raceControl: raceControlData } =
+      await fetchSessionDriverData(sessionKey, isPastDate);
+
+    // Race control log, track status and steward decisions
+    const { trackStatus, raceControl } = buildRaceControl(raceControlData);
 
     // Build enriched driver data
-    const drivers = buildDriverData(positions, driversData, intervals, laps, stints, sessionStatus);
+    const drivers = buildDriverData(
+      positions,
+      driversData,
+      intervals,
+      laps,
+      stints,
+      raceControl,
+      sessionStatus,
+      sessionInfo.name
+    );
+
+    // Track outline and car positions
+    const circuitMap = buildCircuitMap(
+      await fetchSessionLocations(sessionKey, laps, sessionStatus, isPastDate),
+      drivers
+    );
 
     return {
       ...sessionInfo,
+      startedAt: isRacingSession(sessionInfo.name) ? getRaceStartTime(laps) : undefined,
       drivers,
+      qualifyingSegment: isQualifyingSession(sessionInfo.name)
+        ? getQualifyingSegment(raceControl)
+        : undefined,
+      trackStatus,
+      raceControl,
+      circuitMap,
     };
   });
 
   return Promise.all(sessionPromises);
 }
 
+/**
+ * Get the latest state of a weekend's sessions for notifications
+ * Fetches only what the notification events need instead of the full timing data: race
+ * control, lap 1 for the race start, and the classification once the chequered flag is out.
+ * Data that doesn't exist yet (before the start or during lap 1) comes back empty, but a
+ * rate limit or server error throws so stale counts never overwrite the saved session state.
+ * @param sessions - Sessions from the race weekend schedule
+ * @param finishedSessionIds - Sessions whose chequered flag was already notified, so the
+ *   classification isn't fetched again
+ */
+export async function getF1SessionUpdates(
+  sessions: F1Session[],
+  finishedSessionIds: ReadonlySet<string> = new Set()
+): Promise<F1Session[]> {
+  const options = { headers: { Accept: "application/json" }, next: { revalidate: 10 } };
+
+  const fetchList = async <T>(path: string): Promise<T[]> => {
+    const response = await fetch(`${OPENF1_BASE_URL}${path}`, options);
+    if (response.status === 429 || response.status >= 500) {
+      throw new Error(`OpenF1 API error: ${response.status} for ${path}`);
+    }
+    return response.ok ? response.json() : [];
+  };
+
+  return Promise.all(
+    sessions.map(async (session) => {
+      const checkStart = isRacingSession(session.name) && session.status !== "scheduled";
+      const [raceControlData, firstLaps] = await Promise.all([
+        fetchList<OpenF1RaceControl>(`/race_control?session_key=${session.id}`),
+        checkStart ? fetchList<OpenF1Lap>(`/laps?session_key=${session.id}&lap_number=1`) : [],
+      ]);
+      const { trackStatus, raceControl } = buildRaceControl(raceControlData);
+
+      // Finishing order for the podium, fetched once when a race or sprint finishes
+      let drivers = session.drivers;
+      if (
+        isRacingSession(session.name) &&
+        !finishedSessionIds.has(session.id) &&
+        raceControl.some((message) => message.flag === "CHEQUERED")
+      ) {
+        const [positions, driversData] = await Promise.all([
+          fetchList<OpenF1Position>(`/position?session_key=${session.id}`),
+          fetchList<OpenF1Driver>(`/drivers?session_key=${session.id}`),
+        ]);
+        drivers = buildDriverData(positions, driversData, [], [], [], raceControl, session.status, session.name);
+      }
+
+      return {
+        ...session,
+        startedAt: getRaceStartTime(firstLaps),
+        drivers,
+        trackStatus,
+        raceControl,
+      };
+    })
+  );
+}
+
 /**
  * Get all F1 sessions for a specific date (multiple sessions possible during race weekend)
  * @param date - Date to fetch sessions for
@@ -628,13 +1517,29 @@ export async function getF1SessionsForDate(date: Date): Promise<F1Session[]> {
       const sessionStatus = getSessionStatus(session);
 
       // Fetch all driver-related data
-      const { positions, driversData, intervals, laps, stints } = await fetchSessionDriverData(
-        sessionKey,
-        isPastDate
-      );
+      const { positions, driversData, intervals, laps, stints, raceControl: raceControlData } =
+        await fetchSessionDriverData(sessionKey, isPastDate);
+
+      // Race control log, track status and steward decisions
+      const { trackStatus, raceControl } = buildRaceControl(raceControlData);
 
       // Build enriched driver data
-      const drivers = buildDriverData(positions, driversData, intervals, laps, stints, sessionStatus);
+      const drivers = buildDriverData(
+        positions,
+        driversData,
+        intervals,
+        laps,
+        stints,
+        raceControl,
+        sessionStatus,
+        session.session_name
+      );
+
+      // Track outline and car positions
+      const circuitMap = buildCircuitMap(
+        await fetchSessionLocations(sessionKey, laps, sessionStatus, isPastDate),
+        drivers
+      );
 
       return {
         id: sessionKey.toString(),
@@ -645,6 +1550,12 @@ export async function getF1SessionsForDate(date: Date): Promise<F1Session[]> {
         circuitName: session.circuit_short_name,
         country: session.country_name,
         drivers,
+        qualifyingSegment: isQualifyingSession(session.session_name)
+          ? getQualifyingSegment(raceControl)
+          : undefined,
+        trackStatus,
+        raceControl,
+        circuitMap,
       } as F1Session;
     });
 
@@ -654,3 +1565,390 @@ export async function getF1SessionsForDate(date: Date): Promise<F1Session[]> {
     return [];
   }
 }
+
+/**
+ * Final classification of a points-scoring session
+ */
+interface SessionClassification {
+  type: "race" | "sprint";
+  /** Drivers in finishing order */
+  drivers: Array<{
+    position: number;
+    driverNumber: number;
+    driverCode: string;
+    driverName: string;
+    teamName: string;
+  }>;
+  /** Driver with the fastest lap (only fetched when it scores a point) */
+  fastestLapDriver?: number;
+}
+
+/**
+ * Rounds whose results are fetched at once (each is up to two sessions of 2-3 requests),
+ * to stay inside OpenF1's rate limit when building a whole season
+ */
+const MAX_CONCURRENT_ROUNDS = 2;
+
+/**
+ * Attempts for a rate-limited (429) or failed (5xx) OpenF1 request before giving up
+ */
+const MAX_FETCH_ATTEMPTS = 4;
+
+/**
+ * Delay before the first retry, doubled for each one after (unless OpenF1 sends Retry-After)
+ */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Longest wait between retries, so a long Retry-After doesn't hold up the page render
+ */
+const MAX_RETRY_DELAY_MS = 10 * 1000;
+
+/**
+ * Fetch from OpenF1, retrying rate limits and server errors with exponential backoff
+ * Returns the last response once attempts run out, so callers still see the error status.
+ */
+async function fetchWithRetry(url: string, options: RequestInit): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url, options);
+    const isRetryable = response.status === 429 || response.status >= 500;
+    if (!isRetryable || attempt >= MAX_FETCH_ATTEMPTS) return response;
+
+    const retryAfterSeconds = Number(response.headers.get("Retry-After"));
+    const delay = retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    await new Promise((resolve) => setTimeout(resolve, Math.min(delay, MAX_RETRY_DELAY_MS)));
+  }
+}
+
+/**
+ * Fetch the final classification of a Grand Prix or sprint
+ * Throws on any failed request (after retries): a partial classification would silently drop points.
+ * Each driver's last /position sample stands in for the official classification. For finishers
+ * that matches, but cars that retired or were disqualified keep their last track position, which
+ * can differ from where the stewards classify them.
+ */
+async function fetchSessionClassification(
+  session: OpenF1Session,
+  withFastestLap: boolean
+): Promise<SessionClassification> {
+  // Results can trickle in after the session ends, so only cache older sessions forever
+  const revalidate: number | false = isDateInPast(new Date(session.date_start)) ? false : 300;
+  const options = { headers: { Accept: "application/json" }, next: { revalidate } };
+  const sessionKey = session.session_key;
+
+  const [positionsResponse, driversResponse, lapsResponse] = await Promise.all([
+    fetchWithRetry(`${OPENF1_BASE_URL}/position?session_key=${sessionKey}`, options),
+    fetchWithRetry(`${OPENF1_BASE_URL}/drivers?session_key=${sessionKey}`, options),
+    withFastestLap ? fetchWithRetry(`${OPENF1_BASE_URL}/laps?session_key=${sessionKey}`, options) : null,
+  ]);
+
+  for (const response of [positionsResponse, driversResponse, lapsResponse]) {
+    if (response && !response.ok) {
+      throw new Error(`OpenF1 API error: ${response.status} for session ${sessionKey}`);
+    }
+  }
+
+  const positions: OpenF1Position[] = await positionsResponse.json();
+  const driversData: OpenF1Driver[] = await driversResponse.json();
+  const laps: OpenF1Lap[] = lapsResponse ? await lapsResponse.json() : [];
+
+  // Latest position for each driver is their finishing position
+  const finalPositions = new Map<number, number>();
+  for (const pos of positions) {
+    finalPositions.set(pos.driver_number, pos.position);
+  }
+
+  const drivers: SessionClassification["drivers"] = [];
+  for (const driver of driversData) {
+    const position = finalPositions.get(driver.driver_number);
+    if (position !== undefined) {
+      drivers.push({
+        position,
+        driverNumber: driver.driver_number,
+        driverCode: driver.name_acronym,
+        driverName: driver.broadcast_name,
+        teamName: driver.team_name,
+      });
+    }
+  }
+  drivers.sort((a, b) => a.position - b.position);
+
+  let fastestLap: OpenF1Lap | undefined;
+  for (const lap of laps) {
+    if (lap.lap_duration && lap.lap_duration > 0 && (!fastestLap || lap.lap_duration < fastestLap.lap_duration!)) {
+      fastestLap = lap;
+    }
+  }
+
+  return {
+    type: session.session_name === "Sprint" ? "sprint" : "race",
+    drivers,
+    fastestLapDriver: fastestLap?.driver_number,
+  };
+}
+
+/**
+ * Running championship totals for a driver or team
+ */
+interface ChampionshipTally {
+  points: number;
+  wins: number;
+  podiums: number;
+  /** Grand Prix finishes by position (index 0 = wins), for count-back */
+  finishes: number[];
+  progression: number[];
+}
+
+function createTally(roundsSoFar: number): ChampionshipTally {
+  return { points: 0, wins: 0, podiums: 0, finishes: [], progression: Array(roundsSoFar).fill(0) };
+}
+
+/**
+ * Add a Grand Prix finish to a tally
+ */
+function addFinish(tally: ChampionshipTally, position: number): void {
+  tally.finishes[position - 1] = (tally.finishes[position - 1] ?? 0) + 1;
+  if (position === 1) tally.wins++;
+  if (position <= 3) tally.podiums++;
+}
+
+/**
+ * Order tallies by points, breaking ties on count-back
+ * (most wins, then most second places, and so on)
+ */
+function compareTallies(a: ChampionshipTally, b: ChampionshipTally): number {
+  if (a.points !== b.points) return b.points - a.points;
+
+  const length = Math.max(a.finishes.length, b.finishes.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (b.finishes[i] ?? 0) - (a.finishes[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Score each round's sessions into driver and constructor standings
+ */
+function buildChampionship(
+  year: number,
+  rounds: Array<{ round: F1ChampionshipRound; sessions: SessionClassification[] }>
+): F1Championship {
+  const drivers = new Map<number, ChampionshipTally & { driverCode: string; driverName?: string; teamName: string }>();
+  const teams = new Map<string, ChampionshipTally>();
+  const fastestLapPoint = hasF1FastestLapPoint(year);
+
+  rounds.forEach(({ sessions }, roundIndex) => {
+    for (const session of sessions) {
+      const pointsTable = session.type === "race" ? F1_RACE_POINTS : getF1SprintPoints(year);
+
+      for (const result of session.drivers) {
+        let points = pointsTable[result.position - 1] ?? 0;
+        if (
+          session.type === "race" &&
+          fastestLapPoint &&
+          result.driverNumber === session.fastestLapDriver &&
+          result.position <= 10
+        ) {
+          points += 1;
+        }
+
+        const driver = drivers.get(result.driverNumber) ?? {
+          ...createTally(roundIndex),
+          driverCode: result.driverCode,
+          teamName: result.teamName,
+        };
+        driver.driverCode = result.driverCode;
+        driver.driverName = result.driverName;
+        driver.teamName = result.teamName;
+        driver.points += points;
+        drivers.set(result.driverNumber, driver);
+
+        // Points go to the team the driver raced for that weekend
+        const team = teams.get(result.teamName) ?? createTally(roundIndex);
+        team.points += points;
+        teams.set(result.teamName, team);
+
+        if (session.type === "race") {
+          addFinish(driver, result.position);
+          addFinish(team, result.position);
+        }
+      }
+    }
+
+    for (const tally of [...drivers.values(), ...teams.values()]) {
+      tally.progression.push(tally.points);
+    }
+  });
+
+  const driverEntries: F1DriverChampionshipEntry[] = [...drivers.entries()]
+    .sort(([numberA, a], [numberB, b]) => compareTallies(a, b) || numberA - numberB)
+    .map(([driverNumber, driver], index) => ({
+      position: index + 1,
+      driverNumber,
+      driverCode: driver.driverCode,
+      driverName: driver.driverName,
+      teamName: driver.teamName,
+      points: driver.points,
+      wins: driver.wins,
+      podiums: driver.podiums,
+      progression: driver.progression,
+    }));
+
+  const constructorEntries: F1ConstructorChampionshipEntry[] = [...teams.entries()]
+    .sort(([nameA, a], [nameB, b]) => compareTallies(a, b) || nameA.localeCompare(nameB))
+    .map(([teamName, team], index) => ({
+      position: index + 1,
+      teamName,
+      points: team.points,
+      wins: team.wins,
+      podiums: team.podiums,
+      progression: team.progression,
+    }));
+
+  return {
+    year,
+    rounds: rounds.map(({ round }) => round),
+    drivers: driverEntries,
+    constructors: constructorEntries,
+    lastUpdated: new Date(),
+  };
+}
+
+/**
+ * Fetch every session of a season
+ */
+async function fetchSeasonSessions(year: number): Promise<OpenF1Session[]> {
+  const response = await fetch(`${OPENF1_BASE_URL}/sessions?year=${year}`, {
+    headers: { Accept: "application/json" },
+    next: { revalidate: 300 }, // Cache for 5 minutes
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenF1 API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the Drivers' and Constructors' Championship for a season
+ * Computed from every finished Grand Prix and sprint classification.
+ * @param year - Season year
+ */
+export async function getF1Championship(year: number): Promise<F1Championship> {
+  const [sessions, meetingList] = await Promise.all([fetchSeasonSessions(year), fetchMeetings(`year=${year}`)]);
+  const meetings = new Map(meetingList.map((meeting) => [meeting.meeting_key, meeting]));
+
+  // Every meeting with a Grand Prix is a championship round (testing has none)
+  const races = sessions
+    .filter((session) => session.session_name === "Race")
+    .sort((a, b) => new Date(a.date_start).getTime() - new Date(b.date_start).getTime());
+
+  const scoredRounds = races
+    .map((race, index) => {
+      const scoringSessions = sessions.filter(
+        (session) =>
+          session.meeting_key === race.meeting_key &&
+          (session.session_name === "Race" || session.session_name === "Sprint")
+      );
+
+      return {
+        round: {
+          round: index + 1,
+          name: getMeetingName(meetings, race),
+          circuitName: race.circuit_short_name,
+          hasSprint: scoringSessions.some((session) => session.session_name === "Sprint"),
+          date: new Date(race.date_start),
+        },
+        finished: scoringSessions.filter((session) => getSessionStatus(session) === "final"),
+      };
+    })
+    .filter(({ finished }) => finished.length > 0);
+
+  const fastestLapPoint = hasF1FastestLapPoint(year);
+  const rounds = await mapWithConcurrency(scoredRounds, MAX_CONCURRENT_ROUNDS, async ({ round, finished }) => ({
+    round,
+    sessions: await Promise.all(
+      finished.map((session) =>
+        fetchSessionClassification(session, fastestLapPoint && session.session_name === "Race")
+      )
+    ),
+  }));
+
+  return buildChampionship(year, rounds);
+}
+
+/**
+ * Winner of a finished Grand Prix or sprint
+ * Winners only decorate the calendar, so a failed fetch leaves the winner out instead of failing the page.
+ */
+async function fetchSessionWinner(session: OpenF1Session | undefined): Promise<F1CalendarWinner | undefined> {
+  if (!session || getSessionStatus(session) !== "final") return undefined;
+
+  try {
+    const { drivers } = await fetchSessionClassification(session, false);
+    const winner = drivers[0];
+    return winner
+      ? { driverCode: winner.driverCode, driverName: winner.driverName, teamName: winner.teamName }
+      : undefined;
+  } catch (error) {
+    console.error(`Failed to fetch F1 winner for session ${session.session_key}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Get the season calendar: every round with its session schedule and winners so far
+ * Rounds are the season's meetings that include a Grand Prix (testing is left out).
+ * @param year - Season year
+ */
+export async function getF1SeasonCalendar(year: number): Promise<F1SeasonCalendar> {
+  const [sessions, meetingList] = await Promise.all([fetchSeasonSessions(year), fetchMeetings(`year=${year}`)]);
+
+  const meetings = [...meetingList]
+    .sort((a, b) => new Date(a.date_start).getTime() - new Date(b.date_start).getTime())
+    .map((meeting) => ({
+      meeting,
+      sessions: sessions
+        .filter((session) => session.meeting_key === meeting.meeting_key)
+        .sort((a, b) => new Date(a.date_start).getTime() - new Date(b.date_start).getTime()),
+    }))
+    .filter(({ sessions: meetingSessions }) =>
+      meetingSessions.some((session) => session.session_name === "Race")
+    );
+
+  const rounds = await mapWithConcurrency(
+    meetings,
+    MAX_CONCURRENT_ROUNDS,
+    async ({ meeting, sessions: meetingSessions }, index): Promise<F1CalendarRound> => {
+      const [winner, sprintWinner] = await Promise.all([
+        fetchSessionWinner(meetingSessions.find((session) => session.session_name === "Race")),
+        fetchSessionWinner(meetingSessions.find((session) => session.session_name === "Sprint")),
+      ]);
+
+      return {
+        round: index + 1,
+        weekendId: meeting.meeting_key.toString(),
+        name: meeting.meeting_name,
+        officialName: meeting.meeting_official_name,
+        circuitName: meeting.circuit_short_name,
+        location: meeting.location,
+        country: meeting.country_name,
+        startDate: new Date(meetingSessions[0].date_start),
+        endDate: new Date(meetingSessions[meetingSessions.length - 1].date_end),
+        sessions: meetingSessions.map((session) => ({
+          id: session.session_key.toString(),
+          name: session.session_name,
+          startTime: new Date(session.date_start),
+          endTime: new Date(session.date_end),
+          status: getSessionStatus(session),
+        })),
+        winner,
+        sprintWinner,
+      };
+    }
+  );
+
+  return { year, rounds, lastUpdated: new Date() };
+}
@@ -0,0 +1,112 @@
+import { BOX_STYLES, type BoxStyle } from "@/components/ascii/AsciiBox";
+import { padString } from "@/lib/utils/format";
+
+/**
+ * ANSI color codes used for terminal output
+ */
+const ANSI_CODES = {
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  cyan: "\x1b[36m",
+  gray: "\x1b[90m",
+} as const;
+
+export type AnsiColor = Exclude<keyof typeof ANSI_CODES, "reset">;
+
+/**
+ * Wrap text in ANSI escape codes (no-op when color is disabled)
+ * Always apply after padding so escape codes don't count toward column width.
+ */
+export function ansi(text: string, color: AnsiColor | AnsiColor[], enabled: boolean): string {
+  if (!enabled || text.length === 0) return text;
+  const codes = (Array.isArray(color) ? color : [color]).map((c) => ANSI_CODES[c]).join("");
+  return `${codes}${text}${ANSI_CODES.reset}`;
+}
+
+/**
+ * Line segment inside a text box
+ * Strings are rendered as-is; objects carry an optional color applied after padding.
+ */
+export interface TextSegment {
+  text: string;
+  color?: AnsiColor | AnsiColor[];
+}
+
+export type TextLine = string | TextSegment[] | "separator";
+
+interface TextBoxOptions {
+  /** Optional title embedded in the top border */
+  title?: string;
+  /** Box border style (same variants as AsciiBox) */
+  variant?: BoxStyle;
+  /** Total width in characters, including borders */
+  width?: number;
+  /** Border color */
+  borderColor?: AnsiColor;
+  /** Whether ANSI colors are enabled */
+  color?: boolean;
+}
+
+/**
+ * Separator (tee) characters for each box style
+ */
+const SEPARATORS: Record<BoxStyle, { left: string; right: string }> = {
+  single: { left: "├", right: "┤" },
+  double: { left: "╠", right: "╣" },
+  rounded: { left: "├", right: "┤" },
+  heavy: { left: "┣", right: "┫" },
+};
+
+/**
+ * Render a single content line padded to the inner width
+ */
+function renderSegments(line: string | TextSegment[], innerWidth: number, color: boolean): string {
+  if (typeof line === "string") {
+    return padString(line, innerWidth);
+  }
+
+  let used = 0;
+  let output = "";
+  for (const segment of line) {
+    const remaining = innerWidth - used;
+    if (remaining <= 0) break;
+    const text = segment.text.slice(0, remaining);
+    used += text.length;
+    output += segment.color ? ansi(text, segment.color, color) : text;
+  }
+  return output + " ".repeat(innerWidth - used);
+}
+
+/**
+ * Render lines inside a box-drawn frame, mirroring AsciiBox for plain-text output
+ */
+export function renderTextBox(lines: TextLine[], options: TextBoxOptions = {}): string[] {
+  const { title, variant = "single", width = 40, borderColor, color = false } = options;
+  const chars = BOX_STYLES[variant];
+  const innerWidth = width - 4; // borders + one space of padding on each side
+  const border = (text: string) => (borderColor ? ansi(text, borderColor, color) : text);
+
+  const top = title
+    ? `${chars.topLeft}${chars.horizontal} ${title} ${chars.horizontal.repeat(Math.max(0, width - title.length - 5))}${chars.topRight}`
+    : `${chars.topLeft}${chars.horizontal.repeat(width - 2)}${chars.topRight}`;
+
+  const output = [border(top)];
+
+  for (const line of lines) {
+    if (line === "separator") {
+      const sep = SEPARATORS[variant];
+      output.push(border(`${sep.left}${chars.horizontal.repeat(width - 2)}${sep.right}`));
+      continue;
+    }
+    output.push(
+      `${border(chars.vertical)} ${renderSegments(line, innerWidth, color)} ${border(chars.vertical)}`
+    );
+  }
+
+  output.push(border(`${chars.bottomLeft}${chars.horizontal.repeat(width - 2)}${chars.bottomRight}`));
+  return output;
+}
@@ -0,0 +1,254 @@
+import type { BoxStyle } from "@/components/ascii/AsciiBox";
+import { getPeriodLabels } from "@/components/scoreboards/PeriodScores";
+import type { Game, Scoreboard } from "@/lib/types";
+import { LEAGUES } from "@/lib/types";
+import { formatDate, getStatusText, padString } from "@/lib/utils/format";
+import { type AnsiColor, type TextLine, ansi, renderTextBox } from "./renderer";
+
+/**
+ * Minimum card width (matches the README examples)
+ */
+const MIN_CARD_WIDTH = 40;
+
+/**
+ * Width of the team label column in linescores
+ */
+const LABEL_WIDTH = 5;
+
+/**
+ * Width of each period column in linescores
+ */
+const PERIOD_WIDTH = 3;
+
+interface ScoreboardTextOptions {
+  /** Whether to emit ANSI color codes */
+  color?: boolean;
+  /** Site URL shown in the footer hint */
+  siteUrl?: string;
+}
+
+/**
+ * Card styling per game status (mirrors GameCard colors and README examples)
+ */
+function getCardStyle(status: Game["status"]): { variant: BoxStyle; color: AnsiColor } {
+  switch (status) {
+    case "live":
+      return { variant: "double", color: "green" };
+    case "final":
+      return { variant: "single", color: "gray" };
+    case "scheduled":
+      return { variant: "heavy", color: "yellow" };
+    default:
+      return { variant: "single", color: "red" };
+  }
+}
+
+/**
+ * Build linescore rows (header, away, home) for live/final games
+ */
+function buildLinescore(game: Game): string[] | null {
+  const { periodScores, league } = game;
+  if (!periodScores || (periodScores.home.length === 0 && periodScores.away.length === 0)) {
+    return null;
+  }
+
+  const periodCount = Math.max(periodScores.home.length, periodScores.away.length);
+  const labels = getPeriodLabels(league, periodCount);
+  const isMLB = league === "mlb";
+  const totalLabels = isMLB ? ["R", "H", "E"] : ["T"];
+
+  const header =
+    padString("", LABEL_WIDTH) +
+    labels.map((label) => padString(label, PERIOD_WIDTH, "right")).join("") +
+    " " +
+    totalLabels.map((label) => padString(label, PERIOD_WIDTH, "right")).join("");
+
+  const row = (side: "home" | "away") => {
+    const scores = periodScores[side];
+    const abbr = side === "home" ? game.homeTeam.abbreviation : game.awayTeam.abbreviation;
+    const total = side === "home" ? game.homeScore : game.awayScore;
+    const totals = isMLB
+      ? [
+          total,
+          side === "home" ? periodScores.homeHits : periodScores.awayHits,
+          side === "home" ? periodScores.homeErrors : periodScores.awayErrors,
+        ]
+      : [total];
+
+    return (
+      padString(abbr, LABEL_WIDTH) +
+      labels
+        .map((_, i) => padString(scores[i] ? String(scores[i].score) : "-", PERIOD_WIDTH, "right"))
+        .join("") +
+      " " +
+      totals.map((value) => padString(value === undefined ? "-" : String(value), PERIOD_WIDTH, "right")).join("")
+    );
+  };
+
+  return [header, row("away"), row("home")];
+}
+
+/**
+ * Width needed to render a game card without truncating its linescore
+ */
+function getCardWidth(game: Game): number {
+  const linescore = game.status === "live" || game.status === "final" ? buildLinescore(game) : null;
+  const linescoreWidth = linescore ? Math.max(...linescore.map((l) => l.length)) + 4 : 0;
+  return Math.max(MIN_CARD_WIDTH, linescoreWidth);
+}
+
+/**
+ * Render a single game as a box-drawn card
+ */
+function renderGameCard(game: Game, width: number, color: boolean): string[] {
+  const style = getCardStyle(game.status);
+  const innerWidth = width - 4;
+  const isLive = game.status === "live";
+  const isFinal = game.status === "final";
+  const hasScore = isLive || isFinal;
+  const lines: TextLine[] = [];
+
+  // Status line: status text on the left, TV/game type on the right
+  const statusText = `${isLive ? "● " : ""}${getStatusText(game.status, game.detail)}`;
+  const extras: string[] = [];
+  if ((isLive || game.status === "scheduled") && game.broadcasts && game.broadcasts.length > 0) {
+    extras.push(`TV: ${game.broadcasts[0]}`);
+  }
+  if (game.gameType === "postseason") extras.push("[PLAYOFF]");
+  if (game.gameType === "preseason") extras.push("[PRE]");
+  const extrasText = extras.join(" ");
+  const statusWidth = Math.max(0, innerWidth - extrasText.length - (extrasText ? 1 : 0));
+
+  lines.push([
+    { text: padString(statusText, statusWidth), color: style.color },
+    ...(extrasText ? [{ text: ` ${extrasText}`, color: "cyan" as const }] : []),
+  ]);
+  lines.push("separator");
+
+  // Team rows (away first, matching GameCard)
+  for (const side of ["away", "home"] as const) {
+    const team = side === "home" ? game.homeTeam : game.awayTeam;
+    const score = side === "home" ? game.homeScore : game.awayScore;
+    const otherScore = side === "home" ? game.awayScore : game.homeScore;
+    const isWinner = isFinal && score > otherScore;
+
+    const name = `${team.rank ? `${team.rank} ` : ""}${team.abbreviation}`;
+    const record = team.record ? ` (${team.record})` : "";
+    const scoreText = `${hasScore ? score : "-"} ${isWinner ? "◄" : " "}`;
+    const recordWidth = Math.max(0, innerWidth - scoreText.length - name.length);
+
+    lines.push([
+      { text: name, color: isWinner ? ["green", "bold"] : undefined },
+      { text: padString(record, recordWidth), color: "gray" },
+      { text: scoreText, color: isWinner ? ["green", "bold"] : undefined },
+    ]);
+  }
+
+  // Linescore for live/final games
+  const linescore = hasScore ? buildLinescore(game) : null;
+  if (linescore) {
+    lines.push("separator");
+    lines.push([{ text: linescore[0], color: "gray" }]);
+    lines.push(linescore[1], linescore[2]);
+  }
+
+  // Venue for scheduled games
+  if (game.status === "scheduled" && game.venue) {
+    lines.push("separator");
+    const location = game.venueLocation ? ` · ${game.venueLocation}` : "";
+    lines.push([{ text: `◈ ${game.venue}${location}`, color: "gray" }]);
+  }
+
+  return renderTextBox(lines, {
+    variant: style.variant,
+    width,
+    borderColor: style.color,
+    color,
+  });
+}
+
+/**
+ * Section header (mirrors LeagueScoreboard's SectionHeader)
+ */
+function renderSectionHeader(
+  title: string,
+  count: number,
+  icon: string,
+  borderChar: string,
+  color: AnsiColor,
+  enabled: boolean
+): string {
+  const border = borderChar.repeat(3);
+  return ansi(`${border} ${icon} ${title} (${count}) ${border}`, color, enabled);
+}
+
+/**
+ * Render a league scoreboard as fixed-width box-drawn text for terminals
+ */
+export function renderScoreboardText(
+  scoreboard: Scoreboard,
+  options: ScoreboardTextOptions = {}
+): string {
+  const { color = false, siteUrl } = options;
+  const league = LEAGUES[scoreboard.league];
+  const width = Math.max(MIN_CARD_WIDTH, ...scoreboard.games.map(getCardWidth));
+  const output: string[] = [];
+
+  // Banner
+  output.push(
+    ...renderTextBox(
+      [
+        [{ text: `${league.name} SCORES`, color: ["cyan", "bold"] }],
+        [{ text: `${league.fullName} · ${formatDate(scoreboard.date)}`, color: "gray" }],
+      ],
+      { variant: "double", width, color }
+    )
+  );
+  output.push("");
+
+  if (scoreboard.games.length === 0) {
+    output.push(
+      ...renderTextBox(
+        [
+          "░".repeat(width - 4),
+          [{ text: padString(`No ${league.name} games on ${formatDate(scoreboard.date)}`, width - 4, "center"), color: "gray" }],
+          "░".repeat(width - 4),
+        ],
+        { variant: "double", width, color }
+      )
+    );
+    output.push("");
+  }
+
+  const sections = [
+    { title: "LIVE", icon: "●", border: "═", color: "green" as const, games: scoreboard.games.filter((g) => g.status === "live") },
+    { title: "SCHEDULED", icon: "◈", border: "━", color: "yellow" as const, games: scoreboard.games.filter((g) => g.status === "scheduled") },
+    { title: "FINAL", icon: "◇", border: "─", color: "gray" as const, games: scoreboard.games.filter((g) => g.status === "final") },
+    {
+      title: "POSTPONED",
+      icon: "×",
+      border: "─",
+      color: "red" as const,
+      games: scoreboard.games.filter((g) => g.status === "postponed" || g.status === "delayed"),
+    },
+  ];
+
+  for (const section of sections) {
+    if (section.games.length === 0) continue;
+
+    output.push(renderSectionHeader(section.title, section.games.length, section.icon, section.border, section.color, color));
+    for (const game of section.games) {
+      output.push(...renderGameCard(game, width, color));
+    }
+    output.push("");
+  }
+
+  // Footer
+  const updated = scoreboard.lastUpdated.toISOString().slice(11, 19);
+  output.push(ansi(`◆ Updated ${updated} UTC`, "gray", color));
+  if (siteUrl) {
+    output.push(ansi(`◆ ${siteUrl}/${scoreboard.league}?date=YYYYMMDD for other days`, "gray", color));
+  }
+
+  return `${output.join("\n")}\n`;
+}
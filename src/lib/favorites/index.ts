@@ -0,0 +1,5 @@
+// Favorite team types
+export * from "./types";
+
+// Redis sync (server-side only)
+export * from "./redis";
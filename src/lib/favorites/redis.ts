@@ -0,0 +1,24 @@
+import { redis } from "@/lib/notifications/redis";
+import type { FavoriteTeam } from "./types";
+
+// Favorites are keyed by notification subscription ID so they follow the same device/user
+const favoritesKey = (subscriptionId: string) => `favorites:${subscriptionId}`;
+
+// Same lifetime as the notification subscription (30 days)
+const FAVORITES_TTL = 60 * 60 * 24 * 30;
+
+/**
+ * Save favorite teams for a subscription
+ */
+export async function saveFavorites(subscriptionId: string, favorites: FavoriteTeam[]): Promise<void> {
+  await redis.set(favoritesKey(subscriptionId), JSON.stringify(favorites), { ex: FAVORITES_TTL });
+}
+
+/**
+ * Get favorite teams for a subscription
+ */
+export async function getFavorites(subscriptionId: string): Promise<FavoriteTeam[]> {
+  const data = await redis.get<string>(favoritesKey(subscriptionId));
+  if (!data) return [];
+  return typeof data === "string" ? JSON.parse(data) : data;
+}
@@ -0,0 +1,81 @@
+import type { GolfLeague, League } from "@/lib/types";
+
+/**
+ * Leagues where teams can be favorited (excludes F1/golf which don't have teams)
+ */
+export type FavoriteLeague = Exclude<League, "f1" | GolfLeague>;
+
+/**
+ * A team the user follows
+ */
+export interface FavoriteTeam {
+  league: FavoriteLeague;
+  teamId: string;
+  abbreviation: string;
+  displayName: string;
+}
+
+/**
+ * Leagues that support favorite teams
+ */
+export const FAVORITE_SUPPORTED_LEAGUES: FavoriteLeague[] = [
+  "nhl",
+  "nfl",
+  "nba",
+  "mlb",
+  "mls",
+  "epl",
+  "fa-cup",
+  "ncaam",
+  "ncaaw",
+];
+
+/**
+ * Maximum number of favorite teams (keeps /my to a sane number of API calls)
+ */
+export const MAX_FAVORITES = 30;
+
+/**
+ * Check if a league supports favorite teams
+ */
+export function supportsFavorites(league: string): league is FavoriteLeague {
+  return FAVORITE_SUPPORTED_LEAGUES.includes(league as FavoriteLeague);
+}
+
+/**
+ * Unique key for a favorite team (ESPN team IDs are only unique per league)
+ */
+export function getFavoriteKey(league: string, teamId: string): string {
+  return `${league}:${teamId}`;
+}
+
+/**
+ * Serialize favorites for the /my?teams= query param ("nhl:10,nba:5")
+ */
+export function serializeFavorites(favorites: Pick<FavoriteTeam, "league" | "teamId">[]): string {
+  return favorites.map((f) => getFavoriteKey(f.league, f.teamId)).join(",");
+}
+
+/**
+ * Parse the /my?teams= query param, dropping unknown leagues and duplicates
+ */
+export function parseFavoritesParam(
+  param: string | null | undefined
+): Pick<FavoriteTeam, "league" | "teamId">[] {
+  if (!param) return [];
+
+  const seen = new Set<string>();
+  const teams: Pick<FavoriteTeam, "league" | "teamId">[] = [];
+
+  for (const part of param.split(",")) {
+    const [league, teamId] = part.trim().split(":");
+    if (!league || !teamId || !supportsFavorites(league) || !/^\d+$/.test(teamId)) continue;
+
+    const key = getFavoriteKey(league, teamId);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    teams.push({ league, teamId });
+  }
+
+  return teams.slice(0, MAX_FAVORITES);
+}
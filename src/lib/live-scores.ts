@@ -0,0 +1,80 @@
+import type { Game, Scoreboard } from "@/lib/types";
+
+/**
+ * Game fields that change during play and are pushed over the live stream
+ */
+export const LIVE_GAME_FIELDS = [
+  "status",
+  "homeScore",
+  "awayScore",
+  "period",
+  "clock",
+  "detail",
+] as const satisfies readonly (keyof Game)[];
+
+export type LiveGameField = (typeof LIVE_GAME_FIELDS)[number];
+
+/**
+ * Changed fields for a single game
+ */
+export type GamePatch = Pick<Game, "id"> & Partial<Pick<Game, LiveGameField>>;
+
+/**
+ * Payload of a `patch` event on /api/stream/[league]
+ */
+export interface LiveScoresMessage {
+  games: GamePatch[];
+  /** ISO timestamp of the scoreboard the patches were taken from */
+  lastUpdated: string;
+}
+
+/**
+ * Build a patch with every live field of a game (used for the first message)
+ */
+export function getFullPatch(game: Game): GamePatch {
+  const patch: GamePatch = { id: game.id };
+  for (const field of LIVE_GAME_FIELDS) {
+    Object.assign(patch, { [field]: game[field] });
+  }
+  return patch;
+}
+
+/**
+ * Diff two snapshots of a scoreboard, returning only games whose live fields changed
+ * Games missing from the previous snapshot are sent in full.
+ */
+export function diffScoreboards(prev: Scoreboard | null, next: Scoreboard): GamePatch[] {
+  const prevGames = new Map(prev?.games.map((game) => [game.id, game]));
+  const patches: GamePatch[] = [];
+
+  for (const game of next.games) {
+    const prevGame = prevGames.get(game.id);
+    if (!prevGame) {
+      patches.push(getFullPatch(game));
+      continue;
+    }
+
+    const patch: GamePatch = { id: game.id };
+    let changed = false;
+    for (const field of LIVE_GAME_FIELDS) {
+      if (prevGame[field] !== game[field]) {
+        Object.assign(patch, { [field]: game[field] });
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      patches.push(patch);
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Apply a patch to a game, keeping the original object when nothing changed
+ */
+export function applyGamePatch(game: Game, patch: GamePatch | undefined): Game {
+  if (!patch) return game;
+  return { ...game, ...patch };
+}
@@ -1,5 +1,13 @@
-import type { Game, ScoringPlay } from "@/lib/types";
-import type { CachedGameState, NotificationEvent, NotificationLeague, PushNotificationPayload } from "./types";
+import type { F1RaceControlMessage, F1Session, Game, ScoringPlay } from "@/lib/types";
+import type {
+  CachedF1SessionState,
+  CachedGameState,
+  F1NotificationEvent,
+  NotificationEvent,
+  NotificationLeague,
+  PushNotificationPayload,
+} from "./types";
+import { F1_SESSION_REMINDER_MINUTES } from "./types";
 
 /**
  * Create initial cached state from a game
@@ -104,6 +112,111 @@ export function detectEvents(
   return events;
 }
 
+/**
+ * Race control messages that raise F1 notifications
+ */
+function getSafetyCarDeployments(session: F1Session): F1RaceControlMessage[] {
+  return (session.raceControl ?? []).filter(
+    (message) => message.category === "safety_car" && message.message.toUpperCase().includes("DEPLOYED")
+  );
+}
+
+function getFlagMessages(session: F1Session, flag: string): F1RaceControlMessage[] {
+  return (session.raceControl ?? []).filter((message) => message.flag === flag);
+}
+
+/**
+ * Whether a session has a standing start (Race or Sprint, not Sprint Qualifying)
+ */
+function hasLightsOut(session: F1Session): boolean {
+  return session.name === "Race" || session.name === "Sprint";
+}
+
+/**
+ * Create initial cached state from an F1 session
+ */
+export function createInitialF1SessionState(
+  session: F1Session,
+  weekendId: string,
+  reminderSent: boolean = false
+): CachedF1SessionState {
+  return {
+    sessionId: session.id,
+    weekendId,
+    status: session.status,
+    lightsOut: session.startedAt !== undefined,
+    safetyCars: getSafetyCarDeployments(session).length,
+    redFlags: getFlagMessages(session, "RED").length,
+    chequeredFlags: getFlagMessages(session, "CHEQUERED").length,
+    reminderSent,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Detect F1 events by comparing previous and current session state
+ * Qualifying shows a chequered flag at the end of each segment, so only the last one counts.
+ */
+export function detectF1Events(
+  prev: CachedF1SessionState,
+  curr: F1Session,
+  weekend: { id: string; name: string },
+  now: number = Date.now()
+): F1NotificationEvent[] {
+  const events: F1NotificationEvent[] = [];
+  const base = {
+    league: "f1" as const,
+    weekendId: weekend.id,
+    weekendName: weekend.name,
+    sessionId: curr.id,
+    sessionName: curr.name,
+  };
+
+  // Session starting soon
+  const msToStart = curr.startTime.getTime() - now;
+  if (
+    !prev.reminderSent &&
+    curr.status === "scheduled" &&
+    msToStart > 0 &&
+    msToStart <= F1_SESSION_REMINDER_MINUTES * 60 * 1000
+  ) {
+    events.push({ ...base, type: "sessionStart", minutesToStart: Math.ceil(msToStart / 60000) });
+  }
+
+  // Race started: lights out comes from the timing data, since the scheduled start can slip
+  // (states saved before lightsOut was tracked count as started once the session went live)
+  const wasStarted = prev.lightsOut ?? prev.status !== "scheduled";
+  if (hasLightsOut(curr) && !wasStarted && curr.startedAt) {
+    events.push({ ...base, type: "lightsOut" });
+  }
+
+  // Safety car (or virtual safety car) deployed
+  for (const message of getSafetyCarDeployments(curr).slice(prev.safetyCars)) {
+    events.push({ ...base, type: "safetyCar", message: message.message });
+  }
+
+  // Red flag
+  for (const message of getFlagMessages(curr, "RED").slice(prev.redFlags)) {
+    events.push({ ...base, type: "redFlag", message: message.message });
+  }
+
+  // Chequered flag
+  const chequeredFlags = getFlagMessages(curr, "CHEQUERED").length;
+  const finalFlag = /qualifying|shootout/i.test(curr.name) ? 3 : 1;
+  if (prev.chequeredFlags < finalFlag && chequeredFlags >= finalFlag) {
+    // Only races and sprints have a podium
+    const podium = hasLightsOut(curr)
+      ? [...curr.drivers]
+          .sort((a, b) => a.position - b.position)
+          .slice(0, 3)
+          .map((driver) => driver.driverCode)
+      : undefined;
+    events.push({ ...base, type: "chequeredFlag", podium });
+  }
+
+  return events;
+}
+
 /**
  * Create a scoring event with league-specific details
  */
@@ -281,7 +394,13 @@ function getPeriodEndLabel(league: NotificationLeague, period: number): string {
 /**
  * Format notification payload from event
  */
-export function formatNotificationPayload(event: NotificationEvent): PushNotificationPayload {
+export function formatNotificationPayload(
+  event: NotificationEvent | F1NotificationEvent
+): PushNotificationPayload {
+  if (event.league === "f1") {
+    return formatF1NotificationPayload(event);
+  }
+
   const { type, gameId, league, homeTeam, awayTeam, homeScore, awayScore } = event;
   const matchup = `${awayTeam} @ ${homeTeam}`;
 
@@ -324,6 +443,55 @@ export function formatNotificationPayload(event: NotificationEvent): PushNotific
   };
 }
 
+/**
+ * Format notification payload from an F1 event
+ */
+function formatF1NotificationPayload(event: F1NotificationEvent): PushNotificationPayload {
+  const { type, weekendId, weekendName, sessionId, sessionName } = event;
+  const session = `${weekendName} ${sessionName}`;
+
+  let title: string;
+  let body: string;
+
+  switch (type) {
+    case "sessionStart":
+      title = `${sessionName} in ${event.minutesToStart ?? F1_SESSION_REMINDER_MINUTES} min`;
+      body = `${session} is about to start`;
+      break;
+
+    case "lightsOut":
+      title = "Lights Out!";
+      body = `${session} is underway`;
+      break;
+
+    case "safetyCar":
+      title = event.message?.toUpperCase().includes("VIRTUAL") ? "Virtual Safety Car" : "Safety Car";
+      body = `${session}: ${event.message ?? "Safety car deployed"}`;
+      break;
+
+    case "redFlag":
+      title = "RED FLAG";
+      body = `${session}: ${event.message ?? "Session stopped"}`;
+      break;
+
+    case "chequeredFlag":
+      title = "Chequered Flag";
+      body = event.podium && event.podium.length > 0
+        ? `${session}: ${event.podium.map((code, i) => `${i + 1}. ${code}`).join("  ")}`
+        : `${session} has finished`;
+      break;
+  }
+
+  return {
+    title,
+    body,
+    gameId: sessionId,
+    league: "f1",
+    type,
+    url: `/f1?weekend=${encodeURIComponent(weekendId)}`,
+  };
+}
+
 /**
  * Get period label for NHL
  */
@@ -1,5 +1,14 @@
 import { Redis } from "@upstash/redis";
-import type { CachedGameState, GameSubscription, NotificationLeague, NotificationSubscription } from "./types";
+import { v4 as uuidv4 } from "uuid";
+import type {
+  CachedF1SessionState,
+  CachedGameState,
+  F1WeekendSubscription,
+  GameSubscription,
+  NotificationLeague,
+  NotificationSubscription,
+  TeamSubscription,
+} from "./types";
 import { NOTIFICATION_SUPPORTED_LEAGUES } from "./types";
 
 // Initialize Redis client
@@ -17,6 +26,12 @@ const KEYS = {
   activeGames: "active_games",
   activeGamesByLeague: (league: string) => `active_games:${league}`,
   gameMetadata: (gameId: string) => `game:${gameId}:meta`,
+  teamSubscribers: (league: string, teamId: string) => `team:${league}:${teamId}:subs`,
+  subscribedTeamsByLeague: (league: string) => `teams:${league}`,
+  teamGameExpanded: (gameId: string) => `game:${gameId}:team_expanded`,
+  f1WeekendSubscribers: (weekendId: string) => `f1:${weekendId}:subs`,
+  activeF1Weekends: "active_f1_weekends",
+  f1SessionState: (sessionId: string) => `f1:session:${sessionId}`,
 } as const;
 
 // TTL values (in seconds)
@@ -24,6 +39,7 @@ const TTL = {
   subscription: 60 * 60 * 24 * 30, // 30 days
   gameState: 60 * 60 * 6, // 6 hours (games don't last longer)
   activeGames: 60 * 60, // 1 hour
+  teamGameExpanded: 60 * 60 * 24 * 2, // 2 days (covers the whole scoreboard day)
 } as const;
 
 /**
@@ -44,6 +60,32 @@ export async function getSubscription(id: string): Promise<NotificationSubscript
   return typeof data === "string" ? JSON.parse(data) : data;
 }
 
+/**
+ * Get an existing subscription (refreshing its push endpoint) or create a new one
+ */
+export async function getOrCreateSubscription(
+  subscriptionId: string | undefined,
+  pushSubscription: PushSubscriptionJSON
+): Promise<NotificationSubscription> {
+  let subscription = subscriptionId ? await getSubscription(subscriptionId) : null;
+
+  if (!subscription) {
+    subscription = {
+      id: uuidv4(),
+      pushSubscription,
+      subscribedGames: [],
+      createdAt: new Date().toISOString(),
+      lastSeen: new Date().toISOString(),
+    };
+  } else {
+    // Update push subscription in case it changed
+    subscription.pushSubscription = pushSubscription;
+  }
+
+  await saveSubscription(subscription);
+  return subscription;
+}
+
 /**
  * Delete a subscription
  */
@@ -136,6 +178,216 @@ export async function removeGameSubscription(
   }
 }
 
+/**
+ * Add a team subscription to a user's subscription
+ */
+export async function addTeamSubscription(
+  subscriptionId: string,
+  teamSubscription: TeamSubscription
+): Promise<void> {
+  const subscription = await getSubscription(subscriptionId);
+  if (!subscription) {
+    throw new Error("Subscription not found");
+  }
+
+  // Replace any existing subscription to this team
+  const subscribedTeams = (subscription.subscribedTeams ?? []).filter(
+    (t) => !(t.league === teamSubscription.league && t.teamId === teamSubscription.teamId)
+  );
+  subscribedTeams.push(teamSubscription);
+
+  subscription.subscribedTeams = subscribedTeams;
+  subscription.lastSeen = new Date().toISOString();
+  await saveSubscription(subscription);
+
+  // Add subscription ID to the team's subscriber set, and the team to its league set
+  await redis.sadd(KEYS.teamSubscribers(teamSubscription.league, teamSubscription.teamId), subscriptionId);
+  await redis.sadd(KEYS.subscribedTeamsByLeague(teamSubscription.league), teamSubscription.teamId);
+}
+
+/**
+ * Remove a team subscription from a user's subscription
+ * Games already expanded from the team subscription are left in place.
+ */
+export async function removeTeamSubscription(
+  subscriptionId: string,
+  league: NotificationLeague,
+  teamId: string
+): Promise<void> {
+  const subscription = await getSubscription(subscriptionId);
+  if (subscription) {
+    subscription.subscribedTeams = (subscription.subscribedTeams ?? []).filter(
+      (t) => !(t.league === league && t.teamId === teamId)
+    );
+    subscription.lastSeen = new Date().toISOString();
+    await saveSubscription(subscription);
+  }
+
+  // Remove subscription ID from the team's subscriber set
+  await redis.srem(KEYS.teamSubscribers(league, teamId), subscriptionId);
+
+  // Stop watching the team once nobody follows it
+  const remainingSubscribers = await redis.scard(KEYS.teamSubscribers(league, teamId));
+  if (remainingSubscribers === 0) {
+    await redis.srem(KEYS.subscribedTeamsByLeague(league), teamId);
+  }
+}
+
+/**
+ * Get all team IDs in a league that have subscribers
+ */
+export async function getSubscribedTeams(league: NotificationLeague): Promise<string[]> {
+  const teams = await redis.smembers(KEYS.subscribedTeamsByLeague(league));
+  return teams as string[];
+}
+
+/**
+ * Get all subscription IDs for a team
+ */
+export async function getTeamSubscribers(
+  league: NotificationLeague,
+  teamId: string
+): Promise<string[]> {
+  const subscribers = await redis.smembers(KEYS.teamSubscribers(league, teamId));
+  return subscribers as string[];
+}
+
+/**
+ * Get leagues that have at least one team subscription
+ */
+export async function getLeaguesWithTeamSubscriptions(): Promise<NotificationLeague[]> {
+  const leagues: NotificationLeague[] = [];
+
+  for (const league of NOTIFICATION_SUPPORTED_LEAGUES) {
+    const count = await redis.scard(KEYS.subscribedTeamsByLeague(league));
+    if (count > 0) {
+      leagues.push(league);
+    }
+  }
+
+  return leagues;
+}
+
+/**
+ * Add an F1 race weekend subscription to a user's subscription
+ */
+export async function addF1WeekendSubscription(
+  subscriptionId: string,
+  weekendSubscription: F1WeekendSubscription
+): Promise<void> {
+  const subscription = await getSubscription(subscriptionId);
+  if (!subscription) {
+    throw new Error("Subscription not found");
+  }
+
+  // Replace any existing subscription to this weekend
+  const subscribedF1Weekends = (subscription.subscribedF1Weekends ?? []).filter(
+    (w) => w.weekendId !== weekendSubscription.weekendId
+  );
+  subscribedF1Weekends.push(weekendSubscription);
+
+  subscription.subscribedF1Weekends = subscribedF1Weekends;
+  subscription.lastSeen = new Date().toISOString();
+  await saveSubscription(subscription);
+
+  // Add subscription ID to the weekend's subscriber set, and the weekend to the active set
+  await redis.sadd(KEYS.f1WeekendSubscribers(weekendSubscription.weekendId), subscriptionId);
+  await redis.sadd(KEYS.activeF1Weekends, weekendSubscription.weekendId);
+}
+
+/**
+ * Remove an F1 race weekend subscription from a user's subscription
+ */
+export async function removeF1WeekendSubscription(
+  subscriptionId: string,
+  weekendId: string
+): Promise<void> {
+  const subscription = await getSubscription(subscriptionId);
+  if (subscription) {
+    subscription.subscribedF1Weekends = (subscription.subscribedF1Weekends ?? []).filter(
+      (w) => w.weekendId !== weekendId
+    );
+    subscription.lastSeen = new Date().toISOString();
+    await saveSubscription(subscription);
+  }
+
+  // Remove subscription ID from the weekend's subscriber set
+  await redis.srem(KEYS.f1WeekendSubscribers(weekendId), subscriptionId);
+
+  // Stop watching the weekend once nobody follows it
+  const remainingSubscribers = await redis.scard(KEYS.f1WeekendSubscribers(weekendId));
+  if (remainingSubscribers === 0) {
+    await redis.srem(KEYS.activeF1Weekends, weekendId);
+  }
+}
+
+/**
+ * Get all F1 race weekend IDs that have subscribers
+ */
+export async function getActiveF1Weekends(): Promise<string[]> {
+  const weekends = await redis.smembers(KEYS.activeF1Weekends);
+  return weekends as string[];
+}
+
+/**
+ * Get all subscription IDs for an F1 race weekend
+ */
+export async function getF1WeekendSubscribers(weekendId: string): Promise<string[]> {
+  const subscribers = await redis.smembers(KEYS.f1WeekendSubscribers(weekendId));
+  return subscribers as string[];
+}
+
+/**
+ * Save cached F1 session state for event detection
+ */
+export async function saveF1SessionState(state: CachedF1SessionState): Promise<void> {
+  const key = KEYS.f1SessionState(state.sessionId);
+  await redis.set(key, JSON.stringify(state), { ex: TTL.gameState });
+}
+
+/**
+ * Get cached F1 session state
+ */
+export async function getF1SessionState(sessionId: string): Promise<CachedF1SessionState | null> {
+  const key = KEYS.f1SessionState(sessionId);
+  const data = await redis.get<string>(key);
+  if (!data) return null;
+  return typeof data === "string" ? JSON.parse(data) : data;
+}
+
+/**
+ * Clean up a finished F1 race weekend
+ * Removes every subscriber; session states expire on their own.
+ */
+export async function cleanupFinishedF1Weekend(weekendId: string): Promise<void> {
+  const subscribers = await getF1WeekendSubscribers(weekendId);
+  for (const subId of subscribers) {
+    await removeF1WeekendSubscription(subId, weekendId);
+  }
+
+  await redis.del(KEYS.f1WeekendSubscribers(weekendId));
+  await redis.srem(KEYS.activeF1Weekends, weekendId);
+}
+
+/**
+ * Check whether a team subscription was already expanded into a game subscription,
+ * so a manual unsubscribe from that game sticks
+ */
+export async function isTeamGameExpanded(gameId: string, subscriptionId: string): Promise<boolean> {
+  const isMember = await redis.sismember(KEYS.teamGameExpanded(gameId), subscriptionId);
+  return isMember === 1;
+}
+
+/**
+ * Record that a team subscription was expanded into a game subscription
+ */
+export async function markTeamGameExpanded(gameId: string, subscriptionId: string): Promise<void> {
+  const key = KEYS.teamGameExpanded(gameId);
+  await redis.sadd(key, subscriptionId);
+  // Outlives the game itself so finished games aren't re-expanded later the same day
+  await redis.expire(key, TTL.teamGameExpanded);
+}
+
 /**
  * Get all subscription IDs for a game
  */
@@ -1,7 +1,8 @@
 import type { GameStatus, League } from "@/lib/types";
 
 /**
- * Leagues that support game notifications (excludes F1/PGA which don't have head-to-head games)
+ * Leagues that support game notifications (excludes F1/golf which don't have head-to-head games)
+ * F1 notifications are subscribed per race weekend instead (see F1WeekendSubscription).
  */
 export type NotificationLeague = "nhl" | "nfl" | "nba" | "mlb" | "mls" | "epl" | "fa-cup" | "ncaam" | "ncaaw";
 
@@ -10,6 +11,16 @@ export type NotificationLeague = "nhl" | "nfl" | "nba" | "mlb" | "mls" | "epl" |
  */
 export type NotificationEventType = "gameStart" | "gameEnd" | "scoring" | "periodEnd";
 
+/**
+ * F1 race weekend events users can subscribe to
+ */
+export type F1NotificationEventType =
+  | "sessionStart"
+  | "lightsOut"
+  | "safetyCar"
+  | "redFlag"
+  | "chequeredFlag";
+
 /**
  * User's event preferences for a game subscription
  */
@@ -33,6 +44,39 @@ export interface GameSubscription {
   gameStartTime?: string; // ISO date string - when the game is scheduled to start
 }
 
+/**
+ * A user's subscription to every game of a team
+ * Expanded into GameSubscriptions by the notifications cron when a game appears
+ */
+export interface TeamSubscription {
+  league: NotificationLeague;
+  teamId: string;
+  teamAbbreviation: string;
+  events: EventPreferences;
+  subscribedAt: string; // ISO date string
+}
+
+/**
+ * User's event preferences for an F1 race weekend subscription
+ */
+export interface F1EventPreferences {
+  sessionStart: boolean;
+  lightsOut: boolean;
+  safetyCar: boolean;
+  redFlag: boolean;
+  chequeredFlag: boolean;
+}
+
+/**
+ * A user's subscription to every session of an F1 race weekend
+ */
+export interface F1WeekendSubscription {
+  weekendId: string; // F1RaceWeekend.id
+  weekendName: string;
+  events: F1EventPreferences;
+  subscribedAt: string; // ISO date string
+}
+
 /**
  * Full notification subscription stored in Redis
  */
@@ -40,6 +84,8 @@ export interface NotificationSubscription {
   id: string;
   pushSubscription: PushSubscriptionJSON;
   subscribedGames: GameSubscription[];
+  subscribedTeams?: TeamSubscription[]; // Optional for subscriptions saved before team support
+  subscribedF1Weekends?: F1WeekendSubscription[]; // Optional for subscriptions saved before F1 support
   createdAt: string;
   lastSeen: string;
 }
@@ -60,6 +106,23 @@ export interface CachedGameState {
   lastUpdated: string;
 }
 
+/**
+ * Cached F1 session state for event detection (stored in Redis)
+ * Race control messages are tracked as counts so only new ones raise events.
+ */
+export interface CachedF1SessionState {
+  sessionId: string;
+  weekendId: string;
+  status: GameStatus;
+  /** Whether the race has started (lights out seen in the timing data) */
+  lightsOut?: boolean;
+  safetyCars: number;
+  redFlags: number;
+  chequeredFlags: number;
+  reminderSent: boolean;
+  lastUpdated: string;
+}
+
 /**
  * Detected notification event
  */
@@ -78,15 +141,30 @@ export interface NotificationEvent {
   description?: string;
 }
 
+/**
+ * Detected F1 notification event
+ */
+export interface F1NotificationEvent {
+  type: F1NotificationEventType;
+  league: "f1";
+  weekendId: string;
+  weekendName: string;
+  sessionId: string;
+  sessionName: string;
+  minutesToStart?: number;
+  message?: string; // Race control message that raised the event
+  podium?: string[]; // Driver codes of the top three at the chequered flag
+}
+
 /**
  * Push notification payload sent to the browser
  */
 export interface PushNotificationPayload {
   title: string;
   body: string;
-  gameId: string;
+  gameId: string; // Session ID for F1 events
   league: string;
-  type: NotificationEventType;
+  type: NotificationEventType | F1NotificationEventType;
   url: string;
 }
 
@@ -102,6 +180,19 @@ export interface LocalNotificationState {
       events: EventPreferences;
     }
   >;
+  subscribedTeams?: Record<
+    string, // "league:teamId"
+    {
+      league: string;
+      events: EventPreferences;
+    }
+  >;
+  subscribedF1Weekends?: Record<
+    string, // weekendId
+    {
+      events: F1EventPreferences;
+    }
+  >;
   permissionGranted: boolean;
   permissionDenied: boolean;
 }
@@ -130,6 +221,22 @@ export const DEFAULT_EVENT_PREFERENCES: EventPreferences = {
   periodEnd: true,
 };
 
+/**
+ * Default F1 event preferences (all enabled)
+ */
+export const DEFAULT_F1_EVENT_PREFERENCES: F1EventPreferences = {
+  sessionStart: true,
+  lightsOut: true,
+  safetyCar: true,
+  redFlag: true,
+  chequeredFlag: true,
+};
+
+/**
+ * How long before each F1 session the "starting soon" notification is sent
+ */
+export const F1_SESSION_REMINDER_MINUTES = 15;
+
 /**
  * Get human-readable label for notification event type
  */
@@ -155,3 +262,21 @@ export function getEventTypeLabel(
       return "End of Quarter";
   }
 }
+
+/**
+ * Get human-readable label for F1 notification event type
+ */
+export function getF1EventTypeLabel(type: F1NotificationEventType): string {
+  switch (type) {
+    case "sessionStart":
+      return `Session Start (${F1_SESSION_REMINDER_MINUTES} min before)`;
+    case "lightsOut":
+      return "Lights Out";
+    case "safetyCar":
+      return "Safety Car";
+    case "redFlag":
+      return "Red Flag";
+    case "chequeredFlag":
+      return "Chequered Flag";
+  }
+}
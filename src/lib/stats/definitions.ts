@@ -101,6 +101,10 @@ export const PERIOD_DEFINITIONS: Record<League, Record<number, string>> = {
   },
   f1: {},
   pga: {},
+  lpga: {},
+  "dp-world": {},
+  liv: {},
+  champions: {},
 };
 
 /**
@@ -0,0 +1,154 @@
+import type { GameStatus } from "./index";
+
+/**
+ * First season with OpenF1 timing data
+ */
+export const F1_MIN_CHAMPIONSHIP_YEAR = 2023;
+
+/**
+ * Grand Prix points for P1-P10
+ */
+export const F1_RACE_POINTS = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1];
+
+/**
+ * Sprint points by finishing position for a season
+ * (top three scored in 2021; top eight since 2022)
+ */
+export function getF1SprintPoints(year: number): number[] {
+  return year <= 2021 ? [3, 2, 1] : [8, 7, 6, 5, 4, 3, 2, 1];
+}
+
+/**
+ * Whether a season awards a point for the Grand Prix fastest lap
+ * (2019-2024, only when the driver finishes in the top ten)
+ */
+export function hasF1FastestLapPoint(year: number): boolean {
+  return year >= 2019 && year <= 2024;
+}
+
+/**
+ * Positions that advance from Q1 and Q2 for a grid size
+ * (Q3 is always the top ten; the rest are knocked out evenly in Q1 and Q2)
+ */
+export function getF1QualifyingCutoffs(driverCount: number): [number, number] {
+  const eliminatedPerSegment = Math.max(0, Math.floor((driverCount - 10) / 2));
+  return [10 + eliminatedPerSegment, 10];
+}
+
+/**
+ * A race weekend that has scored championship points
+ */
+export interface F1ChampionshipRound {
+  /** Round number (1-based) */
+  round: number;
+  /** Race weekend name (e.g., "Monaco Grand Prix") */
+  name: string;
+  /** Circuit short name */
+  circuitName: string;
+  /** Whether the weekend included a sprint */
+  hasSprint: boolean;
+  /** Grand Prix start time */
+  date: Date;
+}
+
+/**
+ * Driver entry in the Drivers' Championship
+ */
+export interface F1DriverChampionshipEntry {
+  position: number;
+  driverNumber: number;
+  driverCode: string;
+  driverName?: string;
+  /** Team at the driver's most recent round */
+  teamName: string;
+  points: number;
+  /** Grand Prix wins */
+  wins: number;
+  /** Grand Prix podiums */
+  podiums: number;
+  /** Cumulative points after each round, indexed like `rounds` */
+  progression: number[];
+}
+
+/**
+ * Team entry in the Constructors' Championship
+ */
+export interface F1ConstructorChampionshipEntry {
+  position: number;
+  teamName: string;
+  points: number;
+  /** Grand Prix wins */
+  wins: number;
+  /** Grand Prix podiums */
+  podiums: number;
+  /** Cumulative points after each round, indexed like `rounds` */
+  progression: number[];
+}
+
+/**
+ * Drivers' and Constructors' Championship standings for a season
+ */
+export interface F1Championship {
+  year: number;
+  /** Rounds with results so far, in order */
+  rounds: F1ChampionshipRound[];
+  drivers: F1DriverChampionshipEntry[];
+  constructors: F1ConstructorChampionshipEntry[];
+  lastUpdated: Date;
+}
+
+/**
+ * A session on the season calendar
+ */
+export interface F1CalendarSession {
+  id: string;
+  /** Session name (e.g., "Practice 1", "Sprint Qualifying", "Race") */
+  name: string;
+  startTime: Date;
+  endTime: Date;
+  status: GameStatus;
+}
+
+/**
+ * Winner of a Grand Prix or sprint
+ */
+export interface F1CalendarWinner {
+  driverCode: string;
+  driverName?: string;
+  teamName: string;
+}
+
+/**
+ * A championship round on the season calendar
+ */
+export interface F1CalendarRound {
+  /** Round number (1-based; testing is not a round) */
+  round: number;
+  /** Race weekend ID for the weekend's session results */
+  weekendId: string;
+  /** Race weekend name (e.g., "Monaco Grand Prix") */
+  name: string;
+  /** Official event name (e.g., "FORMULA 1 GRAND PRIX DE MONACO 2024") */
+  officialName: string;
+  /** Circuit short name */
+  circuitName: string;
+  location: string;
+  country: string;
+  startDate: Date;
+  endDate: Date;
+  /** Sessions in order */
+  sessions: F1CalendarSession[];
+  /** Grand Prix winner, once the race is over */
+  winner?: F1CalendarWinner;
+  /** Sprint winner, once the sprint is over */
+  sprintWinner?: F1CalendarWinner;
+}
+
+/**
+ * Every round of a season with its schedule and results so far
+ */
+export interface F1SeasonCalendar {
+  year: number;
+  rounds: F1CalendarRound[];
+  lastUpdated: Date;
+}
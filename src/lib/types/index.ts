@@ -1,7 +1,27 @@
 /**
  * Supported leagues
  */
-export type League = "nhl" | "nfl" | "nba" | "mlb" | "mls" | "epl" | "fa-cup" | "ncaam" | "ncaaw" | "f1" | "pga";
+export type League = "nhl" | "nfl" | "nba" | "mlb" | "mls" | "epl" | "fa-cup" | "ncaam" | "ncaaw" | "f1" | GolfLeague;
+
+/**
+ * Golf tours, each its own league with a tournament calendar and leaderboard
+ */
+export const GOLF_LEAGUES = ["pga", "lpga", "dp-world", "liv", "champions"] as const;
+
+export type GolfLeague = (typeof GOLF_LEAGUES)[number];
+
+/**
+ * Check if a league is a golf tour
+ */
+export function isGolfLeague(league: string): league is GolfLeague {
+  return (GOLF_LEAGUES as readonly string[]).includes(league);
+}
+
+/**
+ * Leagues with ESPN league-table standings
+ * (the FA Cup is a knockout competition; F1 and golf have their own standings)
+ */
+export type StandingsLeague = Exclude<League, "f1" | GolfLeague | "fa-cup">;
 
 /**
  * Game status types
@@ -108,6 +128,94 @@ export type F1SessionType =
   | "sprint"
   | "race";
 
+/**
+ * F1 driver status in a session
+ * ("out" = retired from the session, "disqualified" = excluded by the stewards)
+ */
+export type F1DriverStatus = "running" | "pit" | "out" | "finished" | "disqualified";
+
+/**
+ * Track status from race control flags and safety car messages
+ */
+export type F1TrackStatus = "green" | "yellow" | "sc" | "vsc" | "red" | "chequered";
+
+/**
+ * Race control message category
+ */
+export type F1RaceControlCategory = "flag" | "safety_car" | "penalty" | "track_limits";
+
+/**
+ * Race control message (flags, safety car, penalties, lap time deletions)
+ */
+export interface F1RaceControlMessage {
+  date: Date;
+  category: F1RaceControlCategory;
+  message: string;
+  /** Flag shown (e.g., "YELLOW", "RED", "CHEQUERED") */
+  flag?: string;
+  /** Driver the message concerns */
+  driverNumber?: number;
+  lap?: number;
+}
+
+/**
+ * Qualifying knockout segment (Q1/Q2/Q3, or SQ1/SQ2/SQ3 in Sprint Qualifying)
+ */
+export type F1QualifyingSegment = 1 | 2 | 3;
+
+/**
+ * A driver's qualifying times by knockout segment
+ */
+export interface F1QualifyingTimes {
+  /** Best lap in each segment (index 0 = Q1), undefined when no time was set */
+  bestLaps: Array<string | undefined>;
+  /** Segment the driver was knocked out in */
+  eliminatedIn?: F1QualifyingSegment;
+  /** Gap from their best in the last segment they ran to the pole time */
+  gapToPole?: string;
+}
+
+/**
+ * Timing screen coloring: purple (session best), green (personal best), yellow (slower)
+ */
+export type F1SectorRating = "overall_best" | "personal_best" | "slower";
+
+/**
+ * A sector time with its timing screen rating
+ */
+export interface F1SectorTime {
+  /** Formatted time (e.g., "28.123") */
+  time: string;
+  rating: F1SectorRating;
+  /** Mini-sector ratings within the sector (null = no timing, e.g., in the pit lane) */
+  miniSectors?: Array<F1SectorRating | null>;
+}
+
+/**
+ * A driver's sector times (index 0 = S1)
+ */
+export interface F1SectorTimes {
+  /** Sectors of the latest lap with timing (undefined while not yet completed) */
+  lastLap: Array<F1SectorTime | undefined>;
+  /** Personal best in each sector */
+  bestSectors: Array<F1SectorTime | undefined>;
+  /** Sum of the personal best sectors */
+  theoreticalBest?: string;
+}
+
+/**
+ * A stint on one set of tyres
+ */
+export interface F1TyreStint {
+  /** Compound (SOFT, MEDIUM, HARD, INTERMEDIATE, WET) */
+  compound: string;
+  lapStart: number;
+  /** Last lap of the stint (the current lap while still running) */
+  lapEnd: number;
+  /** Laps already on the tyres when fitted (0 = new set) */
+  tyreAgeAtStart: number;
+}
+
 /**
  * F1 driver position data
  */
@@ -124,7 +232,51 @@ export interface F1Driver {
   lapsCompleted?: number;
   pitStops?: number;
   currentTyre?: string;
-  status: "running" | "pit" | "out" | "finished";
+  /** Tyre stints in order */
+  stints?: F1TyreStint[];
+  /** Position at the end of each completed lap (index 0 = lap 1; races and sprints only) */
+  lapPositions?: number[];
+  /** Laps the driver pitted at the end of (in-laps) */
+  pitLaps?: number[];
+  /** Lap the driver retired on (finished races and sprints only) */
+  retiredOnLap?: number;
+  /** Gap to the leader in seconds at the end of each lap (races and sprints only) */
+  gapHistory?: Array<number | null>;
+  /** Latest gap to the car ahead in seconds (interval is the formatted value) */
+  intervalSeconds?: number;
+  /** Sector times for the last lap and personal bests */
+  sectors?: F1SectorTimes;
+  /** Knockout segment times (qualifying and sprint qualifying only) */
+  qualifying?: F1QualifyingTimes;
+  /** Penalties handed out by the stewards this session */
+  penalties?: string[];
+  status: F1DriverStatus;
+}
+
+/**
+ * Point on the circuit in OpenF1 track coordinates
+ */
+export interface F1TrackPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A car's latest location on the circuit
+ */
+export interface F1CarLocation extends F1TrackPoint {
+  driverNumber: number;
+  driverCode: string;
+  position: number;
+}
+
+/**
+ * Circuit outline (traced from a reference lap) with car positions
+ */
+export interface F1CircuitMap {
+  /** Outline points in driving order, starting at the start/finish line */
+  outline: F1TrackPoint[];
+  cars: F1CarLocation[];
 }
 
 /**
@@ -136,11 +288,21 @@ export interface F1Session {
   type: F1SessionType;
   status: GameStatus;
   startTime: Date;
+  /** When the lights went out, once a race or sprint has actually started */
+  startedAt?: Date;
   circuitName: string;
   country: string;
   drivers: F1Driver[];
   currentLap?: number;
   totalLaps?: number;
+  /** Current (or final) knockout segment in qualifying sessions */
+  qualifyingSegment?: F1QualifyingSegment;
+  /** Current track status (from race control) */
+  trackStatus?: F1TrackStatus;
+  /** Race control log, oldest first */
+  raceControl?: F1RaceControlMessage[];
+  /** Track outline and car positions */
+  circuitMap?: F1CircuitMap;
 }
 
 /**
@@ -293,6 +455,59 @@ export interface GameSummary {
   officials?: string[];
 }
 
+/**
+ * Result of a finished game from one team's point of view
+ * ("T" is a tie, or a draw in soccer)
+ */
+export type TeamGameResult = "W" | "L" | "T";
+
+/**
+ * Win/loss/tie record
+ */
+export interface TeamRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+/**
+ * Game on a team's schedule
+ */
+export interface TeamScheduleGame {
+  game: Game;
+  /** Whether the team is the home side */
+  isHome: boolean;
+  opponent: Team;
+  /** Set once the game is final */
+  result?: TeamGameResult;
+}
+
+/**
+ * Team season schedule with records derived from its results
+ */
+export interface TeamSchedule {
+  league: League;
+  team: Team;
+  /** Season year as reported by ESPN */
+  seasonYear?: number;
+  /** Standing summary (e.g., "1st in Atlantic Division") */
+  standingSummary?: string;
+  /** Every game this season, in date order */
+  games: TeamScheduleGame[];
+  /** Regular season records from final games */
+  records: {
+    overall: TeamRecord;
+    home: TeamRecord;
+    away: TeamRecord;
+  };
+  /** Current streak (e.g., 3 straight wins) */
+  streak?: {
+    result: TeamGameResult;
+    count: number;
+  };
+  lastUpdated: Date;
+}
+
 /**
  * F1 standings data
  */
@@ -380,7 +595,7 @@ export interface NCAAPolls {
  * F1 race weekend data (groups multiple sessions)
  */
 export interface F1RaceWeekend {
-  /** Unique identifier (circuit + year) */
+  /** Unique identifier (OpenF1 meeting key) */
   id: string;
   /** Race weekend name (e.g., "Monaco Grand Prix") */
   name: string;
@@ -401,6 +616,16 @@ export interface F1RaceWeekend {
  */
 export type GolfTournamentStatus = "scheduled" | "in_progress" | "completed" | "canceled";
 
+/**
+ * Golf hole layout
+ */
+export interface GolfHole {
+  /** Hole number (1-18) */
+  number: number;
+  par: number;
+  yards?: number;
+}
+
 /**
  * Golf course information
  */
@@ -411,6 +636,8 @@ export interface GolfCourse {
   totalYards?: number;
   /** Par for the course */
   par: number;
+  /** Hole-by-hole par and yardage */
+  holes?: GolfHole[];
   /** Whether this is the host/main course for the tournament */
   isHost: boolean;
   /** Course location */
@@ -421,6 +648,42 @@ export interface GolfCourse {
   };
 }
 
+/**
+ * Player's score on a single hole
+ */
+export interface GolfHoleScore {
+  /** Hole number (1-18) */
+  hole: number;
+  strokes: number;
+  /** Strokes relative to par (-2 eagle, -1 birdie, 1 bogey, ...) */
+  toPar: number;
+}
+
+/**
+ * Player's hole-by-hole card for a round
+ */
+export interface GolfScorecard {
+  /** Round number (1-4) */
+  round: number;
+  /** Round total (strokes so far while the round is in progress) */
+  strokes?: number;
+  /** Round score to par (e.g., -4, E, +1) */
+  scoreToPar?: string;
+  /** Holes played so far, in hole order */
+  holes: GolfHoleScore[];
+}
+
+/**
+ * Player's tee time for a round
+ */
+export interface GolfTeeTime {
+  /** Round number (1-4) */
+  round: number;
+  time: Date;
+  /** Hole the group starts on (1 or 10 for two-tee starts) */
+  startHole: number;
+}
+
 /**
  * Golf player/competitor data
  */
@@ -443,6 +706,10 @@ export interface GolfPlayer {
   thru?: string;
   /** Individual round scores */
   rounds: number[];
+  /** Hole-by-hole scorecards for each round started */
+  scorecards?: GolfScorecard[];
+  /** Tee times for each round that has been drawn */
+  teeTimes?: GolfTeeTime[];
   /** Total strokes */
   totalStrokes?: number;
   /** Player status (active, cut, withdrawn, disqualified) */
@@ -453,6 +720,38 @@ export interface GolfPlayer {
   earnings?: number;
   /** FedEx Cup points earned */
   fedexPoints?: number;
+  /** Team name, for tours with a team competition (LIV Golf) */
+  team?: string;
+}
+
+/**
+ * Projected cut line while the cut rounds are being played
+ */
+export interface GolfProjectedCut {
+  /** Score to par that makes the cut (this score and better) */
+  score: number;
+  /** Cut rule: top N and ties */
+  topN: number;
+  /** Number of players currently inside the cut */
+  playersInside: number;
+}
+
+/**
+ * Team's standing in a tournament's team competition
+ */
+export interface GolfTeamStanding {
+  /** Team name */
+  name: string;
+  /** Current position (1, 2, T3, etc.) */
+  position: string;
+  /** Team score to par (e.g., -12, E, +3) */
+  scoreToPar: string;
+  /** Team score to par as number for sorting */
+  scoreToParNum: number;
+  /** Team score to par for each round started */
+  rounds: number[];
+  /** Team members, in leaderboard order */
+  players: Array<{ id: string; name: string }>;
 }
 
 /**
@@ -489,6 +788,10 @@ export interface GolfTournament {
   broadcasts?: string[];
   /** Leaderboard of players */
   players: GolfPlayer[];
+  /** Projected cut line (rounds 1-2 of events with a cut) */
+  projectedCut?: GolfProjectedCut;
+  /** Team leaderboard, for tours with a team competition (LIV Golf) */
+  teamStandings?: GolfTeamStanding[];
 }
 
 /**
@@ -499,6 +802,48 @@ export interface GolfLeaderboard {
   lastUpdated: Date;
 }
 
+/**
+ * Player's season FedEx Cup standing
+ */
+export interface FedExCupStanding {
+  playerId: string;
+  name: string;
+  country?: string;
+  /** Rank on points from completed events */
+  rank: number;
+  /** Points from completed events */
+  points: number;
+  /** Completed events played */
+  events: number;
+  /** Position in the tournament in progress (e.g., "T5") */
+  currentPosition?: string;
+  /** Points the player would earn if the tournament in progress finished now */
+  projectedEventPoints?: number;
+  /** Season points including the projected event points */
+  projectedPoints?: number;
+  /** Rank on projected points */
+  projectedRank?: number;
+}
+
+/**
+ * Season FedEx Cup standings
+ */
+export interface FedExCupStandings {
+  /** Completed events counted */
+  eventsCounted: number;
+  /** Completed events whose results couldn't be loaded, so the totals leave them out */
+  missingEvents: string[];
+  /** Tournament in progress driving the projections */
+  liveTournament?: {
+    id: string;
+    name: string;
+    currentRound?: number;
+  };
+  /** Standings ordered by projected rank while a tournament is live, otherwise by rank */
+  standings: FedExCupStanding[];
+  lastUpdated: Date;
+}
+
 /**
  * Season date range with day-level precision
  * For leagues that span calendar years (e.g., NHL Oct-Jun),
@@ -633,8 +978,87 @@ export const LEAGUES: Record<League, LeagueConfig> = {
     season: { seasonStart: 1, seasonStartDay: 1, seasonEnd: 8, seasonEndDay: 31 }, // Jan 1 - Aug 31 (FedExCup season)
     popularity: 11,
   },
+  lpga: {
+    id: "lpga",
+    name: "LPGA",
+    fullName: "LPGA Tour",
+    color: "lpga",
+    sport: "golf",
+    season: { seasonStart: 1, seasonStartDay: 29, seasonEnd: 11, seasonEndDay: 22 }, // Jan 29 - Nov 22 (2026)
+    popularity: 12,
+  },
+  "dp-world": {
+    id: "dp-world",
+    name: "DP World",
+    fullName: "DP World Tour",
+    color: "dp-world",
+    sport: "golf",
+    season: { seasonStart: 11, seasonStartDay: 20, seasonEnd: 11, seasonEndDay: 15 }, // Nov 20 - Nov 15 (2026 season)
+    popularity: 13,
+  },
+  liv: {
+    id: "liv",
+    name: "LIV",
+    fullName: "LIV Golf League",
+    color: "liv",
+    sport: "golf",
+    season: { seasonStart: 2, seasonStartDay: 4, seasonEnd: 8, seasonEndDay: 23 }, // Feb 4 - Aug 23 (2026, Team Championship)
+    popularity: 14,
+  },
+  champions: {
+    id: "champions",
+    name: "Champions",
+    fullName: "PGA Tour Champions",
+    color: "champions",
+    sport: "golf",
+    season: { seasonStart: 1, seasonStartDay: 22, seasonEnd: 11, seasonEndDay: 15 }, // Jan 22 - Nov 15 (2026)
+    popularity: 15,
+  },
 };
 
+/**
+ * Check if a league's season crosses into the next calendar year (e.g., October to June)
+ */
+export function seasonSpansYears(league: LeagueConfig): boolean {
+  const { seasonStart, seasonStartDay, seasonEnd, seasonEndDay } = league.season;
+  return seasonStart > seasonEnd || (seasonStart === seasonEnd && seasonStartDay > seasonEndDay);
+}
+
+/**
+ * Get the season year (the calendar year the season starts in) for a date.
+ * Before the season start date, the previous season is the most recent one.
+ */
+export function getSeasonYear(league: LeagueConfig, date: Date = new Date()): number {
+  const { seasonStart, seasonStartDay } = league.season;
+  const value = (date.getMonth() + 1) * 100 + date.getDate();
+  return value < seasonStart * 100 + seasonStartDay ? date.getFullYear() - 1 : date.getFullYear();
+}
+
+/**
+ * Earliest season browsable in the season archive
+ */
+export const ARCHIVE_MIN_SEASON_YEAR = 2002;
+
+/**
+ * Get the first and last day of a league's season.
+ * Season dates shift a little from year to year, so the range is padded by two weeks on each side.
+ */
+export function getSeasonDateRange(league: LeagueConfig, year: number): { start: Date; end: Date } {
+  const { seasonStart, seasonStartDay, seasonEnd, seasonEndDay } = league.season;
+  const endYear = seasonSpansYears(league) ? year + 1 : year;
+  return {
+    start: new Date(year, seasonStart - 1, seasonStartDay - 14),
+    end: new Date(endYear, seasonEnd - 1, seasonEndDay + 14),
+  };
+}
+
+/**
+ * Format a season label (e.g., "2025-26" for leagues spanning two years, "2026" otherwise)
+ */
+export function formatSeasonLabel(league: LeagueConfig, year: number): string {
+  return seasonSpansYears(league) ? `${year}-${String(year + 1).slice(2)}` : String(year);
+}
+
 /**
  * Check if a league is currently in season
  * @param league The league configuration to check
@@ -653,7 +1077,7 @@ export function isLeagueInSeason(league: LeagueConfig, currentDate?: Date): bool
   const endValue = seasonEnd * 100 + seasonEndDay;
 
   // Season spans calendar year (e.g., October to June)
-  if (seasonStart > seasonEnd || (seasonStart === seasonEnd && seasonStartDay > seasonEndDay)) {
+  if (seasonSpansYears(league)) {
     return currentValue >= startValue || currentValue <= endValue;
   }
 
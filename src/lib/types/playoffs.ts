@@ -12,8 +12,12 @@ export interface PlayoffRound {
   shortName: string;
   /** Round number (1-based, used for ordering) */
   order: number;
-  /** ESPN week number for this round */
-  espnWeek: number;
+  /** ESPN week number for this round (NFL only; other leagues are grouped by notes headline) */
+  espnWeek?: number;
+  /** Maximum games in a series (1 for single-game rounds) */
+  seriesLength: number;
+  /** Round played between conference/region winners (e.g., Super Bowl, Final Four) */
+  national?: boolean;
 }
 
 /**
@@ -24,10 +28,14 @@ export interface BracketTeam {
   abbreviation: string;
   /** Team display name */
   displayName: string;
-  /** Seed number (1-7 for NFL) */
+  /** Seed number (1-7 for NFL, 1-16 for the NCAA tournament) */
   seed?: number;
   /** Score (if game is in progress or complete) */
   score?: number;
+  /** Series wins (best-of-N rounds only) */
+  wins?: number;
+  /** Penalty shootout goals (knockout ties decided on penalties) */
+  penalties?: number;
   /** Whether this team won the matchup */
   isWinner?: boolean;
 }
@@ -40,18 +48,22 @@ export interface PlayoffMatchup {
   id: string;
   /** The round this matchup belongs to */
   round: string;
-  /** Conference (e.g., "AFC", "NFC") — undefined for the championship (Super Bowl) */
+  /** Conference or region (e.g., "AFC", "East", "AL", "South") — undefined for national rounds */
   conference?: string;
   /** Position within the round (used for bracket layout ordering) */
   position: number;
-  /** The game data (null if game hasn't been played or is a bye) */
+  /** The game data (null if game hasn't been played or is a bye); for series, the live, next or latest game */
   game: Game | null;
+  /** Every game in the matchup in start order (one game for single-game rounds) */
+  games: Game[];
   /** Top team in bracket display (higher seed / home team) */
   topTeam?: BracketTeam;
   /** Bottom team in bracket display (lower seed / away team) */
   bottomTeam?: BracketTeam;
   /** Whether this matchup is a bye (team advances without playing) */
   isBye: boolean;
+  /** How a drawn knockout tie was settled (soccer cups) */
+  decidedBy?: "extra-time" | "penalties";
 }
 
 /**
@@ -60,11 +72,11 @@ export interface PlayoffMatchup {
 export interface PlayoffBracket {
   /** League this bracket belongs to */
   league: League;
-  /** Season year (e.g., 2025 for the 2025-26 NFL season) */
+  /** Season year (e.g., 2025 for the 2025-26 NFL season, 2025 for the 2025 MLB postseason) */
   seasonYear: number;
   /** Display label (e.g., "2025-26 NFL Playoffs") */
   displayLabel: string;
-  /** Conferences in this bracket */
+  /** Conferences (or NCAA tournament regions) in bracket order */
   conferences: string[];
   /** Round definitions in order */
   rounds: PlayoffRound[];
@@ -79,10 +91,159 @@ export interface PlayoffBracket {
  * ESPN week numbers: 1=Wild Card, 2=Divisional, 3=Conference Championship, 5=Super Bowl
  */
 export const NFL_PLAYOFF_ROUNDS: PlayoffRound[] = [
-  { id: "wild-card", name: "Wild Card", shortName: "WC", order: 1, espnWeek: 1 },
-  { id: "divisional", name: "Divisional Round", shortName: "DIV", order: 2, espnWeek: 2 },
-  { id: "conference", name: "Conference Championship", shortName: "CONF", order: 3, espnWeek: 3 },
-  { id: "super-bowl", name: "Super Bowl", shortName: "SB", order: 4, espnWeek: 5 },
+  { id: "wild-card", name: "Wild Card", shortName: "WC", order: 1, espnWeek: 1, seriesLength: 1 },
+  { id: "divisional", name: "Divisional Round", shortName: "DIV", order: 2, espnWeek: 2, seriesLength: 1 },
+  { id: "conference", name: "Conference Championship", shortName: "CONF", order: 3, espnWeek: 3, seriesLength: 1 },
+  { id: "super-bowl", name: "Super Bowl", shortName: "SB", order: 4, espnWeek: 5, seriesLength: 1, national: true },
 ];
 
 export const NFL_CONFERENCES = ["AFC", "NFC"] as const;
+
+/**
+ * NBA playoff round definitions
+ * The play-in tournament decides the 7th and 8th seeds (single games)
+ */
+export const NBA_PLAYOFF_ROUNDS: PlayoffRound[] = [
+  { id: "play-in", name: "Play-In Tournament", shortName: "PLAY-IN", order: 1, seriesLength: 1 },
+  { id: "first-round", name: "First Round", shortName: "R1", order: 2, seriesLength: 7 },
+  { id: "conf-semis", name: "Conference Semifinals", shortName: "SEMIS", order: 3, seriesLength: 7 },
+  { id: "conf-finals", name: "Conference Finals", shortName: "CONF", order: 4, seriesLength: 7 },
+  { id: "finals", name: "NBA Finals", shortName: "FINALS", order: 5, seriesLength: 7, national: true },
+];
+
+export const NBA_CONFERENCES = ["East", "West"] as const;
+
+/**
+ * NHL playoff round definitions (every round is best-of-seven)
+ */
+export const NHL_PLAYOFF_ROUNDS: PlayoffRound[] = [
+  { id: "first-round", name: "First Round", shortName: "R1", order: 1, seriesLength: 7 },
+  { id: "second-round", name: "Second Round", shortName: "R2", order: 2, seriesLength: 7 },
+  { id: "conf-final", name: "Conference Final", shortName: "CONF", order: 3, seriesLength: 7 },
+  { id: "final", name: "Stanley Cup Final", shortName: "SCF", order: 4, seriesLength: 7, national: true },
+];
+
+export const NHL_CONFERENCES = ["East", "West"] as const;
+
+/**
+ * MLB postseason round definitions (12-team format, 2022+)
+ * The top two seeds in each league get a bye past the Wild Card Series.
+ */
+export const MLB_PLAYOFF_ROUNDS: PlayoffRound[] = [
+  { id: "wild-card", name: "Wild Card Series", shortName: "WC", order: 1, seriesLength: 3 },
+  { id: "division-series", name: "Division Series", shortName: "DS", order: 2, seriesLength: 5 },
+  { id: "lcs", name: "League Championship Series", shortName: "LCS", order: 3, seriesLength: 7 },
+  { id: "world-series", name: "World Series", shortName: "WS", order: 4, seriesLength: 7, national: true },
+];
+
+export const MLB_CONFERENCES = ["AL", "NL"] as const;
+
+/**
+ * NCAA tournament round definitions (men's and women's, 68 teams)
+ * The First Four plays into the Round of 64 within each region.
+ */
+export const NCAA_TOURNAMENT_ROUNDS: PlayoffRound[] = [
+  { id: "first-four", name: "First Four", shortName: "FF", order: 1, seriesLength: 1 },
+  { id: "round-of-64", name: "First Round", shortName: "R64", order: 2, seriesLength: 1 },
+  { id: "round-of-32", name: "Second Round", shortName: "R32", order: 3, seriesLength: 1 },
+  { id: "sweet-16", name: "Sweet 16", shortName: "S16", order: 4, seriesLength: 1 },
+  { id: "elite-8", name: "Elite Eight", shortName: "E8", order: 5, seriesLength: 1 },
+  { id: "final-four", name: "Final Four", shortName: "F4", order: 6, seriesLength: 1, national: true },
+  { id: "championship", name: "National Championship", shortName: "NC", order: 7, seriesLength: 1, national: true },
+];
+
+/**
+ * Seed order of Round of 64 matchups within a region, top to bottom
+ * (1v16, 8v9, 5v12, 4v13, 6v11, 3v14, 7v10, 2v15)
+ */
+export const NCAA_REGION_SEED_ORDER = [1, 8, 5, 4, 6, 3, 7, 2] as const;
+
+/**
+ * FA Cup knockout round definitions (First Round proper through the Final)
+ * The draw is redone every round, so every round is shown as one pool of ties.
+ */
+export const FA_CUP_ROUNDS: PlayoffRound[] = [
+  { id: "first-round", name: "First Round", shortName: "R1", order: 1, seriesLength: 1, national: true },
+  { id: "second-round", name: "Second Round", shortName: "R2", order: 2, seriesLength: 1, national: true },
+  { id: "third-round", name: "Third Round", shortName: "R3", order: 3, seriesLength: 1, national: true },
+  { id: "fourth-round", name: "Fourth Round", shortName: "R4", order: 4, seriesLength: 1, national: true },
+  { id: "fifth-round", name: "Fifth Round", shortName: "R5", order: 5, seriesLength: 1, national: true },
+  { id: "quarterfinals", name: "Quarter-finals", shortName: "QF", order: 6, seriesLength: 1, national: true },
+  { id: "semifinals", name: "Semi-finals", shortName: "SF", order: 7, seriesLength: 1, national: true },
+  { id: "final", name: "Final", shortName: "F", order: 8, seriesLength: 1, national: true },
+];
+
+/**
+ * Leagues that have playoff bracket pages (knockout rounds for the FA Cup)
+ */
+export const PLAYOFF_LEAGUES = ["nfl", "nba", "nhl", "mlb", "ncaam", "ncaaw", "fa-cup"] as const;
+
+export type PlayoffLeague = (typeof PLAYOFF_LEAGUES)[number];
+
+/**
+ * Check if a league has a playoff bracket page
+ */
+export function isPlayoffLeague(league: string): league is PlayoffLeague {
+  return (PLAYOFF_LEAGUES as readonly string[]).includes(league);
+}
+
+/**
+ * First season shown in the year selector (current playoff format for each league)
+ * NFL: 14 teams (2020), NBA: play-in (2020-21), NHL: 16-team bracket after the 2020 bubble,
+ * MLB: 12 teams (2022), NCAA: 68 teams with a First Four (men's 2021, women's 2022 tournament),
+ * FA Cup: 2020-21
+ */
+export const PLAYOFF_MIN_SEASON_YEARS: Record<PlayoffLeague, number> = {
+  nfl: 2020,
+  nba: 2020,
+  nhl: 2021,
+  mlb: 2022,
+  ncaam: 2020,
+  ncaaw: 2021,
+  "fa-cup": 2020,
+};
+
+/**
+ * Whether a league's playoff seasons are labeled by one calendar year (MLB) or two (2025-26)
+ */
+export function isSingleYearSeason(league: PlayoffLeague): boolean {
+  return league === "mlb";
+}
+
+/**
+ * Format a playoff season label (e.g., "2025-26" or "2025")
+ */
+export function formatPlayoffSeasonLabel(league: PlayoffLeague, seasonYear: number): string {
+  return isSingleYearSeason(league)
+    ? String(seasonYear)
+    : `${seasonYear}-${String(seasonYear + 1).slice(2)}`;
+}
+
+/**
+ * Determine the most recent season with playoffs to show by default.
+ * NFL playoffs run in Jan/Feb of the following year, NBA/NHL in Apr-Jun,
+ * the NCAA tournament in March/April, and MLB in October of the same year.
+ * FA Cup knockout rounds run from November to May.
+ */
+export function getDefaultPlayoffSeasonYear(league: PlayoffLeague, now: Date = new Date()): number {
+  const month = now.getMonth() + 1;
+  const year = now.getFullYear();
+
+  switch (league) {
+    case "nfl":
+      // If January-July, the playoffs belong to the previous calendar year's season
+      return month <= 7 ? year - 1 : year;
+    case "nba":
+    case "nhl":
+    case "ncaam":
+    case "ncaaw":
+      // Keep showing last season's bracket until the new season starts in October
+      return month <= 9 ? year - 1 : year;
+    case "mlb":
+      // Keep showing last October's bracket until Opening Day
+      return month <= 3 ? year - 1 : year;
+    case "fa-cup":
+      // The First Round proper is played in early November
+      return month <= 10 ? year - 1 : year;
+  }
+}
@@ -0,0 +1,105 @@
+import { createHash } from "node:crypto";
+import { LEAGUES, isGolfLeague, type GolfLeague, type League } from "@/lib/types";
+
+/**
+ * Version tag included in every /api/v1 response body
+ * Bump (and add /api/v2) for breaking schema changes only.
+ */
+export const API_VERSION = "v1";
+
+/**
+ * CDN cache lifetimes (seconds) per kind of data
+ */
+export const CACHE_PROFILES = {
+  /** Scoreboards/games that can change any second */
+  live: { sMaxAge: 30, staleWhileRevalidate: 30 },
+  /** Standings, leaderboards, weekend lists */
+  standard: { sMaxAge: 300, staleWhileRevalidate: 600 },
+  /** Past dates and finished games */
+  archive: { sMaxAge: 86400, staleWhileRevalidate: 604800 },
+} as const;
+
+export type CacheProfile = keyof typeof CACHE_PROFILES;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "If-None-Match",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+/**
+ * Build a weak ETag from the response data
+ * `lastUpdated` is stamped on every fetch, so it's left out of the hash;
+ * otherwise unchanged data would never match.
+ */
+function createETag(data: unknown): string {
+  const stable = JSON.stringify(data, (key, value) => (key === "lastUpdated" ? undefined : value));
+  const hash = createHash("sha1").update(stable ?? "").digest("base64url");
+  return `W/"${hash}"`;
+}
+
+/**
+ * Check an If-None-Match header against an ETag (supports lists and `*`)
+ */
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim())
+    .some((tag) => tag === "*" || tag === etag || tag.replace(/^W\//, "") === etag.replace(/^W\//, ""));
+}
+
+/**
+ * JSON response with the v1 envelope, ETag and cache headers
+ * Returns 304 Not Modified when the client already has this representation.
+ */
+export function apiResponse(request: Request, data: unknown, cache: CacheProfile): Response {
+  const body = JSON.stringify({ version: API_VERSION, data });
+  const etag = createETag(data);
+  const { sMaxAge, staleWhileRevalidate } = CACHE_PROFILES[cache];
+
+  const headers = {
+    ...CORS_HEADERS,
+    "Content-Type": "application/json; charset=utf-8",
+    "Cache-Control": `public, max-age=0, s-maxage=${sMaxAge}, stale-while-revalidate=${staleWhileRevalidate}`,
+    ETag: etag,
+  };
+
+  if (matchesETag(request.headers.get("if-none-match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, { headers });
+}
+
+/**
+ * JSON error response with the v1 envelope (never cached)
+ */
+export function apiError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ version: API_VERSION, error: { status, message } }), {
+    status,
+    headers: {
+      ...CORS_HEADERS,
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/**
+ * CORS preflight response shared by all v1 routes
+ */
+export function apiOptions(): Response {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * Validate a [league] route param as an ESPN-backed league
+ */
+export function parseESPNLeague(leagueId: string): Exclude<League, "f1" | GolfLeague> | null {
+  if (!Object.keys(LEAGUES).includes(leagueId) || leagueId === "f1" || isGolfLeague(leagueId)) {
+    return null;
+  }
+  return leagueId as Exclude<League, "f1" | GolfLeague>;
+}
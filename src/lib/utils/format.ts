@@ -175,6 +175,23 @@ export function getTodayInTimezone(timezone: string): Date {
   return new Date(year, month - 1, day);
 }
 
+/**
+ * Get the YYYYMMDD calendar date of an instant in a specific timezone
+ * (e.g., a 10pm Pacific tip-off belongs to that day's Eastern scoreboard)
+ */
+export function formatDateKeyInTimezone(date: Date, timezone: string): string {
+  const dateStr = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+  // Parse "MM/DD/YYYY" format
+  const [month, day, year] = dateStr.split("/");
+  return `${year}${month}${day}`;
+}
+
 /**
  * Get "today" in US Eastern timezone
  * ESPN uses Eastern time for US sports schedules.
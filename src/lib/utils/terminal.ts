@@ -0,0 +1,33 @@
+/**
+ * Command-line HTTP clients that should receive plain-text scoreboards
+ */
+const TERMINAL_USER_AGENTS = /^(curl|wget|httpie|xh)\//i;
+
+/**
+ * Check if a User-Agent belongs to a command-line HTTP client
+ */
+export function isTerminalUserAgent(userAgent: string | null): boolean {
+  return !!userAgent && TERMINAL_USER_AGENTS.test(userAgent);
+}
+
+/**
+ * Check if a request prefers plain text over HTML
+ * True for curl/wget, or when Accept lists text/plain without text/html
+ */
+export function prefersPlainText(headers: Headers): boolean {
+  if (isTerminalUserAgent(headers.get("user-agent"))) return true;
+
+  const accept = headers.get("accept")?.toLowerCase() ?? "";
+  return accept.includes("text/plain") && !accept.includes("text/html");
+}
+
+/**
+ * Resolve whether ANSI colors should be emitted
+ * `?color=1|true` or `?color=0|false` wins; otherwise color is on for terminal clients.
+ */
+export function shouldUseColor(colorParam: string | null, headers: Headers): boolean {
+  if (colorParam !== null) {
+    return colorParam === "1" || colorParam === "true";
+  }
+  return isTerminalUserAgent(headers.get("user-agent"));
+}
@@ -0,0 +1,32 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { LEAGUES } from "@/lib/types";
+import { prefersPlainText } from "@/lib/utils/terminal";
+
+/**
+ * Content negotiation for league pages
+ * curl/wget (or `Accept: text/plain`) on /[league] gets the plain-text scoreboard
+ * from /api/text/[league]; browsers get the regular HTML page.
+ */
+export function proxy(request: NextRequest) {
+  const leagueId = request.nextUrl.pathname.slice(1);
+
+  if (!Object.keys(LEAGUES).includes(leagueId)) {
+    return NextResponse.next();
+  }
+
+  if (prefersPlainText(request.headers)) {
+    const url = request.nextUrl.clone();
+    url.pathname = `/api/text/${leagueId}`;
+    return NextResponse.rewrite(url);
+  }
+
+  // Same URL serves two representations, so caches must key on these headers
+  const response = NextResponse.next();
+  response.headers.set("Vary", "Accept, User-Agent");
+  return response;
+}
+
+export const config = {
+  matcher: "/:league",
+};